@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { AttributeService, LoggingService } from '@/services';
+import { Logger } from '@/logger';
+import {
+    CategoryAttributeAlreadyExistsError,
+    CategoryAttributeNotFoundError,
+    CategoryNotFoundError,
+    ProductNotFoundError,
+} from '@/errors';
+
+export class AttributeController {
+    private attributeService: AttributeService;
+    private loggingService?: LoggingService;
+    private logger: Logger;
+
+    constructor(
+        attributeService: AttributeService,
+        loggingService?: LoggingService
+    ) {
+        this.attributeService = attributeService;
+        this.loggingService = loggingService;
+        this.logger = new Logger();
+    }
+
+    public async getCategorySchema(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const categoryId: number = Number(req.params.id);
+
+        try {
+            const attributes =
+                await this.attributeService.getCategorySchema(categoryId);
+            return res.status(200).json({ attributes });
+        } catch (error) {
+            if (error instanceof CategoryNotFoundError) {
+                this.logger.error('Error retrieving category schema: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving category schema: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async addCategoryAttribute(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const categoryId: number = Number(req.params.id);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const attribute = await this.attributeService.addCategoryAttribute(
+                categoryId,
+                req.body
+            );
+            res.status(201).json({
+                message: 'Attribute added successfully',
+                attribute,
+            });
+
+            await this.loggingService!.logOperation(
+                username,
+                'category attribute',
+                'create'
+            );
+        } catch (error) {
+            if (error instanceof CategoryNotFoundError) {
+                this.logger.error('Error adding category attribute: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof CategoryAttributeAlreadyExistsError) {
+                this.logger.error('Error adding category attribute: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error adding category attribute: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async updateCategoryAttribute(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const categoryId: number = Number(req.params.id);
+        const attributeId: number = Number(req.params.attributeId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const attribute =
+                await this.attributeService.updateCategoryAttribute(
+                    categoryId,
+                    attributeId,
+                    req.body
+                );
+            res.status(200).json({ attribute });
+
+            await this.loggingService!.logOperation(
+                username,
+                'category attribute',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof CategoryAttributeNotFoundError) {
+                this.logger.error(
+                    'Error updating category attribute: ' + error
+                );
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error updating category attribute: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async deleteCategoryAttribute(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const categoryId: number = Number(req.params.id);
+        const attributeId: number = Number(req.params.attributeId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            await this.attributeService.deleteCategoryAttribute(
+                categoryId,
+                attributeId
+            );
+            res.sendStatus(204);
+
+            await this.loggingService!.logOperation(
+                username,
+                'category attribute',
+                'delete'
+            );
+        } catch (error) {
+            if (error instanceof CategoryAttributeNotFoundError) {
+                this.logger.error(
+                    'Error deleting category attribute: ' + error
+                );
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error deleting category attribute: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async compareProducts(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productIds = req.query.ids as unknown as number[];
+
+        try {
+            const comparison =
+                await this.attributeService.compareProducts(productIds);
+            return res.status(200).json(comparison);
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error comparing products: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error comparing products: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { BundleService, LoggingService } from '@/services';
+import { Logger } from '@/logger';
+import {
+    BundleNotFoundError,
+    InvalidBundleError,
+    ProductNotFoundError,
+    ProductVariantNotFoundError,
+    ProductVariantRequiredError,
+} from '@/errors';
+
+export class BundleController {
+    private bundleService: BundleService;
+    private loggingService?: LoggingService;
+    private logger: Logger;
+
+    constructor(bundleService: BundleService, loggingService?: LoggingService) {
+        this.bundleService = bundleService;
+        this.loggingService = loggingService;
+        this.logger = new Logger();
+    }
+
+    public async getBundle(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+
+        try {
+            const bundle = await this.bundleService.getBundle(productId);
+            return res.status(200).json({ bundle });
+        } catch (error) {
+            if (error instanceof BundleNotFoundError) {
+                this.logger.error('Error retrieving bundle: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving bundle: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async setBundleComponents(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const bundle = await this.bundleService.setBundleComponents(
+                productId,
+                req.body.components
+            );
+            res.status(200).json({ bundle });
+
+            await this.loggingService!.logOperation(
+                username,
+                'product bundle',
+                'update'
+            );
+        } catch (error) {
+            if (
+                error instanceof ProductNotFoundError ||
+                error instanceof ProductVariantNotFoundError
+            ) {
+                this.logger.error('Error setting bundle components: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (
+                error instanceof InvalidBundleError ||
+                error instanceof ProductVariantRequiredError
+            ) {
+                this.logger.error('Error setting bundle components: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error setting bundle components: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async deleteBundle(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            await this.bundleService.deleteBundle(productId);
+            res.sendStatus(204);
+
+            await this.loggingService!.logOperation(
+                username,
+                'product bundle',
+                'delete'
+            );
+        } catch (error) {
+            if (error instanceof BundleNotFoundError) {
+                this.logger.error('Error deleting bundle: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error deleting bundle: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
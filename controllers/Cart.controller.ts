@@ -4,7 +4,14 @@ import { Logger } from '@/logger';
 import {
     CartNotFoundError,
     CartItemNotFoundError,
+    CouponNotApplicableError,
+    CouponNotFoundError,
+    FlashSaleLimitError,
     ProductNotFoundError,
+    ProductVariantNotFoundError,
+    ProductVariantRequiredError,
+    ShippingLocationNotFoundError,
+    ShippingOptionNotFoundError,
 } from '@/errors';
 import { JwtPayload } from 'jsonwebtoken';
 
@@ -22,13 +29,14 @@ export class CartController {
         res: Response
     ): Promise<void | Response> {
         const { userId } = req.user as JwtPayload;
-        const { productId, quantity } = req.body;
+        const { productId, quantity, variantId } = req.body;
 
         try {
             const cartItem = await this.cartService.addItemToCart(
                 userId,
                 productId,
-                quantity
+                quantity,
+                variantId
             );
             return res.status(201).json({ cartItem });
         } catch (error) {
@@ -36,10 +44,21 @@ export class CartController {
                 this.logger.error('Error adding item to cart: ' + error);
                 return res.status(404).json({ message: error.message });
             }
-            if (error instanceof ProductNotFoundError) {
+            if (
+                error instanceof ProductNotFoundError ||
+                error instanceof ProductVariantNotFoundError
+            ) {
                 this.logger.error('Error adding item to cart: ' + error);
                 return res.status(404).json({ message: error.message });
             }
+            if (error instanceof ProductVariantRequiredError) {
+                this.logger.error('Error adding item to cart: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+            if (error instanceof FlashSaleLimitError) {
+                this.logger.error('Error adding item to cart: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
 
             this.logger.error('Error adding item to cart: ' + error);
             return res.status(500).json({ message: 'Server error' });
@@ -86,15 +105,63 @@ export class CartController {
         }
     }
 
+    public async getCartQuote(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const { shippingCountry, shippingMethod, couponCode, loyaltyPoints } =
+            req.query as {
+                shippingCountry?: string;
+                shippingMethod?: string;
+                couponCode?: string;
+                loyaltyPoints?: number;
+            };
+
+        try {
+            const quote = await this.cartService.getCartQuote(userId, {
+                shippingCountry,
+                shippingMethod,
+                couponCode,
+                loyaltyPoints,
+            });
+            return res.status(200).json({ quote });
+        } catch (error) {
+            if (
+                error instanceof CartNotFoundError ||
+                error instanceof ShippingLocationNotFoundError ||
+                error instanceof ShippingOptionNotFoundError ||
+                error instanceof CouponNotFoundError
+            ) {
+                this.logger.error('Error quoting cart: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof CouponNotApplicableError) {
+                this.logger.error('Error quoting cart: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error quoting cart: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
     public async removeItemFromCart(
         req: Request,
         res: Response
     ): Promise<void | Response> {
         const { userId } = req.user as JwtPayload;
         const productId: number = Number(req.params.id);
+        const variantId = req.query.variantId
+            ? Number(req.query.variantId)
+            : undefined;
 
         try {
-            await this.cartService.removeItemFromCart(userId, productId);
+            await this.cartService.removeItemFromCart(
+                userId,
+                productId,
+                variantId
+            );
             return res.sendStatus(204);
         } catch (error) {
             if (error instanceof CartNotFoundError) {
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { CartRecoveryService } from '@/services';
+import { Logger } from '@/logger';
+import { CartNotFoundError, EmptyCartError } from '@/errors';
+
+export class CartRecoveryController {
+    private cartRecoveryService: CartRecoveryService;
+    private logger: Logger;
+
+    constructor(cartRecoveryService: CartRecoveryService) {
+        this.cartRecoveryService = cartRecoveryService;
+        this.logger = new Logger();
+    }
+
+    public async restoreCart(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { token } = req.params;
+
+        try {
+            const { cartToken, cartItems } =
+                await this.cartRecoveryService.restoreCart(token);
+            return res.status(201).json({ cartToken, cartItems });
+        } catch (error) {
+            if (error instanceof CartNotFoundError) {
+                this.logger.error('Error restoring cart: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof EmptyCartError) {
+                this.logger.error('Error restoring cart: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error restoring cart: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
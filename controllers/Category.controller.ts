@@ -0,0 +1,169 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { CategoryService, LoggingService } from '@/services';
+import { Logger } from '@/logger';
+import {
+    CategoryNotFoundError,
+    InvalidCategoryMoveError,
+    InvalidCategoryOrderError,
+    ProductNotFoundError,
+} from '@/errors';
+
+export class CategoryController {
+    private categoryService: CategoryService;
+    private loggingService?: LoggingService;
+    private logger: Logger;
+
+    constructor(
+        categoryService: CategoryService,
+        loggingService?: LoggingService
+    ) {
+        this.categoryService = categoryService;
+        this.loggingService = loggingService;
+        this.logger = new Logger();
+    }
+
+    public async getCategoryTree(
+        _req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        try {
+            const categories = await this.categoryService.getCategoryTree();
+            return res.status(200).json({ categories });
+        } catch (error) {
+            this.logger.error('Error retrieving category tree: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getCategoryBySlug(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { slug } = req.params;
+
+        try {
+            const category = await this.categoryService.getCategoryBySlug(slug);
+            return res.status(200).json({ category });
+        } catch (error) {
+            if (error instanceof CategoryNotFoundError) {
+                this.logger.error('Error retrieving category: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving category: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getCategoryBreadcrumbs(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const categoryId: number = Number(req.params.id);
+
+        try {
+            const breadcrumbs =
+                await this.categoryService.getCategoryBreadcrumbs(categoryId);
+            return res.status(200).json({ breadcrumbs });
+        } catch (error) {
+            if (error instanceof CategoryNotFoundError) {
+                this.logger.error('Error retrieving breadcrumbs: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving breadcrumbs: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getProductBreadcrumbs(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+
+        try {
+            const breadcrumbs =
+                await this.categoryService.getProductBreadcrumbs(productId);
+            return res.status(200).json(breadcrumbs);
+        } catch (error) {
+            if (
+                error instanceof ProductNotFoundError ||
+                error instanceof CategoryNotFoundError
+            ) {
+                this.logger.error('Error retrieving breadcrumbs: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving breadcrumbs: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async moveCategory(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const categoryId: number = Number(req.params.id);
+        const { username } = req.user as JwtPayload;
+        const { parentId, position } = req.body;
+
+        try {
+            const category = await this.categoryService.moveCategory(
+                categoryId,
+                parentId,
+                position
+            );
+            res.status(200).json({ category });
+
+            await this.loggingService!.logOperation(
+                username,
+                'category',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof CategoryNotFoundError) {
+                this.logger.error('Error moving category: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof InvalidCategoryMoveError) {
+                this.logger.error('Error moving category: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error moving category: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async reorderCategories(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { username } = req.user as JwtPayload;
+        const { parentId, categoryIds } = req.body;
+
+        try {
+            const categories = await this.categoryService.reorderCategories(
+                parentId ?? null,
+                categoryIds
+            );
+            res.status(200).json({ categories });
+
+            await this.loggingService!.logOperation(
+                username,
+                'category',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof InvalidCategoryOrderError) {
+                this.logger.error('Error reordering categories: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error reordering categories: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { CouponService, LoggingService } from '@/services';
+import { Logger } from '@/logger';
+import {
+    CouponAlreadyExistsError,
+    CouponNotFoundError,
+    InvalidCouponError,
+} from '@/errors';
+
+export class CouponController {
+    private couponService: CouponService;
+    private loggingService?: LoggingService;
+    private logger: Logger;
+
+    constructor(couponService: CouponService, loggingService?: LoggingService) {
+        this.couponService = couponService;
+        this.loggingService = loggingService;
+        this.logger = new Logger();
+    }
+
+    public async createCoupon(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const coupon = await this.couponService.createCoupon(req.body);
+            res.status(201).json({
+                message: 'Coupon created successfully',
+                coupon,
+            });
+
+            await this.loggingService!.logOperation(
+                username,
+                'coupon',
+                'create'
+            );
+        } catch (error) {
+            if (error instanceof CouponAlreadyExistsError) {
+                this.logger.error('Error creating coupon: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error creating coupon: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getCoupons(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        try {
+            const coupons = await this.couponService.getCoupons();
+            return res.status(200).json({ coupons });
+        } catch (error) {
+            this.logger.error('Error retrieving coupons: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getCouponById(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const couponId: number = Number(req.params.id);
+
+        try {
+            const coupon = await this.couponService.getCouponById(couponId);
+            return res.status(200).json({ coupon });
+        } catch (error) {
+            if (error instanceof CouponNotFoundError) {
+                this.logger.error('Error retrieving coupon: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving coupon: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async updateCouponById(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const couponId: number = Number(req.params.id);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const updatedCoupon = await this.couponService.updateCoupon(
+                couponId,
+                req.body
+            );
+            res.status(200).json({ updatedCoupon });
+
+            await this.loggingService!.logOperation(
+                username,
+                'coupon',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof CouponNotFoundError) {
+                this.logger.error('Error updating coupon: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof InvalidCouponError) {
+                this.logger.error('Error updating coupon: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error updating coupon: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async deleteCouponById(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const couponId: number = Number(req.params.id);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            await this.couponService.deleteCoupon(couponId);
+            res.sendStatus(204);
+
+            await this.loggingService!.logOperation(
+                username,
+                'coupon',
+                'delete'
+            );
+        } catch (error) {
+            if (error instanceof CouponNotFoundError) {
+                this.logger.error('Error deleting coupon: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error deleting coupon: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
@@ -0,0 +1,152 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { FlashSaleService, LoggingService } from '@/services';
+import type { FlashSaleStatus } from '@/models/relational/FlashSale.model';
+import { Logger } from '@/logger';
+import {
+    FlashSaleConflictError,
+    FlashSaleNotFoundError,
+    InvalidFlashSaleError,
+    ProductNotFoundError,
+} from '@/errors';
+
+export class FlashSaleController {
+    private flashSaleService: FlashSaleService;
+    private loggingService?: LoggingService;
+    private logger: Logger;
+
+    constructor(
+        flashSaleService: FlashSaleService,
+        loggingService?: LoggingService
+    ) {
+        this.flashSaleService = flashSaleService;
+        this.loggingService = loggingService;
+        this.logger = new Logger();
+    }
+
+    public async createFlashSale(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const flashSale = await this.flashSaleService.createFlashSale(
+                username,
+                req.body
+            );
+            res.status(201).json({
+                message: 'Flash sale created successfully',
+                flashSale,
+            });
+
+            await this.loggingService!.logOperation(
+                username,
+                'flash sale',
+                'create'
+            );
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error creating flash sale: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof InvalidFlashSaleError) {
+                this.logger.error('Error creating flash sale: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+            if (error instanceof FlashSaleConflictError) {
+                this.logger.error('Error creating flash sale: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error creating flash sale: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getFlashSales(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const status = req.query.status as FlashSaleStatus | undefined;
+
+        try {
+            const flashSales =
+                await this.flashSaleService.getFlashSales(status);
+            return res.status(200).json({ flashSales });
+        } catch (error) {
+            this.logger.error('Error retrieving flash sales: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getFlashSaleById(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const flashSaleId: number = Number(req.params.id);
+
+        try {
+            const flashSale =
+                await this.flashSaleService.getFlashSaleById(flashSaleId);
+            return res.status(200).json({ flashSale });
+        } catch (error) {
+            if (error instanceof FlashSaleNotFoundError) {
+                this.logger.error('Error retrieving flash sale: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving flash sale: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getCurrentFlashSales(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        try {
+            const flashSales =
+                await this.flashSaleService.getCurrentFlashSales();
+            return res.status(200).json({ flashSales });
+        } catch (error) {
+            this.logger.error('Error retrieving flash sales: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async cancelFlashSale(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const flashSaleId: number = Number(req.params.id);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const flashSale =
+                await this.flashSaleService.cancelFlashSale(flashSaleId);
+            res.status(200).json({
+                message: 'Flash sale cancelled successfully',
+                flashSale,
+            });
+
+            await this.loggingService!.logOperation(
+                username,
+                'flash sale',
+                'delete'
+            );
+        } catch (error) {
+            if (error instanceof FlashSaleNotFoundError) {
+                this.logger.error('Error cancelling flash sale: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof InvalidFlashSaleError) {
+                this.logger.error('Error cancelling flash sale: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error cancelling flash sale: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
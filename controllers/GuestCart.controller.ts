@@ -0,0 +1,147 @@
+import { Request, Response } from 'express';
+import { GuestCartService } from '@/services';
+import { Logger } from '@/logger';
+import {
+    CartNotFoundError,
+    CartItemLimitError,
+    CartItemNotFoundError,
+    ProductNotFoundError,
+    ProductVariantNotFoundError,
+    ProductVariantRequiredError,
+} from '@/errors';
+
+export class GuestCartController {
+    private guestCartService: GuestCartService;
+    private logger: Logger;
+
+    constructor(guestCartService: GuestCartService) {
+        this.guestCartService = guestCartService;
+        this.logger = new Logger();
+    }
+
+    public async addItemToCart(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const token = req.get('X-Cart-Token');
+        const { productId, quantity, variantId } = req.body;
+
+        try {
+            const { cartToken, cartItem } =
+                await this.guestCartService.addItemToCart(
+                    token,
+                    productId,
+                    quantity,
+                    variantId
+                );
+            return res.status(201).json({ cartToken, cartItem });
+        } catch (error) {
+            if (
+                error instanceof ProductNotFoundError ||
+                error instanceof ProductVariantNotFoundError
+            ) {
+                this.logger.error('Error adding item to guest cart: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof ProductVariantRequiredError) {
+                this.logger.error('Error adding item to guest cart: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+            if (error instanceof CartItemLimitError) {
+                this.logger.error('Error adding item to guest cart: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error adding item to guest cart: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getCartItems(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const token = req.get('X-Cart-Token')!;
+
+        try {
+            const cartItems = await this.guestCartService.getCartItems(token);
+            return res.status(200).json({ cartItems });
+        } catch (error) {
+            if (error instanceof CartNotFoundError) {
+                this.logger.error('Error getting guest cart items: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error getting guest cart items: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async cartCheckout(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const token = req.get('X-Cart-Token')!;
+
+        try {
+            const totalPrice = await this.guestCartService.cartCheckout(token);
+            return res.status(200).json({ totalPrice });
+        } catch (error) {
+            if (error instanceof CartNotFoundError) {
+                this.logger.error('Error checking out guest cart: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error checking out guest cart: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async removeItemFromCart(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const token = req.get('X-Cart-Token')!;
+        const productId: number = Number(req.params.id);
+        const variantId = req.query.variantId
+            ? Number(req.query.variantId)
+            : undefined;
+
+        try {
+            await this.guestCartService.removeItemFromCart(
+                token,
+                productId,
+                variantId
+            );
+            return res.sendStatus(204);
+        } catch (error) {
+            if (
+                error instanceof CartNotFoundError ||
+                error instanceof CartItemNotFoundError
+            ) {
+                this.logger.error(
+                    'Error removing item from guest cart: ' + error
+                );
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error removing item from guest cart: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async clearCart(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const token = req.get('X-Cart-Token')!;
+
+        try {
+            await this.guestCartService.clearCart(token);
+            return res.sendStatus(204);
+        } catch (error) {
+            this.logger.error('Error clearing guest cart: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { InvoiceService } from '@/services';
+import { Logger } from '@/logger';
+import { InvoiceNotFoundError, OrderNotFoundError } from '@/errors';
+
+export class InvoiceController {
+    private invoiceService: InvoiceService;
+    private logger: Logger;
+
+    constructor(invoiceService: InvoiceService) {
+        this.invoiceService = invoiceService;
+        this.logger = new Logger();
+    }
+
+    public async getOrderInvoices(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const orderId: number = Number(req.params.id);
+
+        try {
+            const invoices = await this.invoiceService.getOrderInvoices(
+                this.getCustomerUserId(req),
+                orderId
+            );
+            return res.status(200).json({ invoices });
+        } catch (error) {
+            if (error instanceof OrderNotFoundError) {
+                this.logger.error('Error getting order invoices: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error getting order invoices: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async downloadInvoice(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const orderId: number = Number(req.params.id);
+        const { number } = req.params;
+
+        try {
+            const { filePath, fileName } =
+                await this.invoiceService.getInvoiceFile(
+                    this.getCustomerUserId(req),
+                    orderId,
+                    number
+                );
+            return res.download(filePath, fileName);
+        } catch (error) {
+            if (
+                error instanceof OrderNotFoundError ||
+                error instanceof InvoiceNotFoundError
+            ) {
+                this.logger.error('Error downloading invoice: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error downloading invoice: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    private getCustomerUserId(req: Request): number | undefined {
+        const { role, userId } = req.user as JwtPayload;
+
+        return role === 'customer' ? Number(userId) : undefined;
+    }
+}
@@ -0,0 +1,230 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { MediaService, LoggingService } from '@/services';
+import { Logger } from '@/logger';
+import {
+    InvalidMediaError,
+    MediaLimitError,
+    MediaNotFoundError,
+    ProductNotFoundError,
+    UserNotFoundError,
+} from '@/errors';
+
+export class MediaController {
+    private mediaService: MediaService;
+    private loggingService?: LoggingService;
+    private logger: Logger;
+
+    constructor(mediaService: MediaService, loggingService?: LoggingService) {
+        this.mediaService = mediaService;
+        this.loggingService = loggingService;
+        this.logger = new Logger();
+    }
+
+    public async getProductMedia(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+
+        try {
+            const media = await this.mediaService.getProductMedia(productId);
+            return res.status(200).json({ media });
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error retrieving product media: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving product media: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async addProductMedia(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const { username } = req.user as JwtPayload;
+        const files = (req.files ?? []) as Express.Multer.File[];
+
+        try {
+            const media = await this.mediaService.addProductMedia(
+                productId,
+                files,
+                req.body.altTexts
+            );
+            res.status(201).json({
+                message: 'Product media uploaded successfully',
+                media,
+            });
+
+            await this.loggingService!.logOperation(
+                username,
+                'product media',
+                'create'
+            );
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error uploading product media: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (
+                error instanceof InvalidMediaError ||
+                error instanceof MediaLimitError
+            ) {
+                this.logger.error('Error uploading product media: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error uploading product media: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async updateProductMedia(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const mediaId: number = Number(req.params.mediaId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const updatedMedia = await this.mediaService.updateProductMedia(
+                productId,
+                mediaId,
+                req.body.altText ?? null
+            );
+            res.status(200).json({ updatedMedia });
+
+            await this.loggingService!.logOperation(
+                username,
+                'product media',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof MediaNotFoundError) {
+                this.logger.error('Error updating product media: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error updating product media: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async reorderProductMedia(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const media = await this.mediaService.reorderProductMedia(
+                productId,
+                req.body.mediaIds
+            );
+            res.status(200).json({ media });
+
+            await this.loggingService!.logOperation(
+                username,
+                'product media',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error reordering product media: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof InvalidMediaError) {
+                this.logger.error('Error reordering product media: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error reordering product media: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async deleteProductMedia(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const mediaId: number = Number(req.params.mediaId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            await this.mediaService.deleteProductMedia(productId, mediaId);
+            res.sendStatus(204);
+
+            await this.loggingService!.logOperation(
+                username,
+                'product media',
+                'delete'
+            );
+        } catch (error) {
+            if (error instanceof MediaNotFoundError) {
+                this.logger.error('Error deleting product media: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error deleting product media: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async setProfilePicture(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+
+        try {
+            const profilePicture = await this.mediaService.setProfilePicture(
+                userId,
+                req.file,
+                req.body.altText
+            );
+            return res.status(200).json(profilePicture);
+        } catch (error) {
+            if (error instanceof UserNotFoundError) {
+                this.logger.error('Error uploading profile picture: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof InvalidMediaError) {
+                this.logger.error('Error uploading profile picture: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error uploading profile picture: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async deleteProfilePicture(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+
+        try {
+            await this.mediaService.deleteProfilePicture(userId);
+            return res.sendStatus(204);
+        } catch (error) {
+            if (
+                error instanceof UserNotFoundError ||
+                error instanceof MediaNotFoundError
+            ) {
+                this.logger.error('Error deleting profile picture: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error deleting profile picture: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
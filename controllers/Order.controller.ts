@@ -6,6 +6,7 @@ import {
     OrderAlreadyMarkedError,
     OrderNotFoundError,
     UserNotFoundError,
+    InvalidShipmentError,
 } from '@/errors';
 
 export class OrderController {
@@ -227,6 +228,151 @@ export class OrderController {
         }
     }
 
+    public async getOrderShipments(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        let userId: number | undefined;
+        const { role } = req.user as JwtPayload;
+
+        if (role === 'customer') {
+            userId = Number((req.user as JwtPayload).userId);
+        }
+
+        const orderId: number = Number(req.params.id);
+
+        try {
+            const shipments = await this.orderService.getOrderShipments(
+                userId,
+                orderId
+            );
+            return res.status(200).json({ shipments });
+        } catch (error) {
+            if (error instanceof OrderNotFoundError) {
+                this.logger.error('Error getting order shipments: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error getting order shipments: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async markAsProcessing(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const orderId: number = Number(req.params.id);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            await this.orderService.markAsProcessing(orderId);
+            res.sendStatus(204);
+
+            await this.loggingService!.logOperation(
+                username,
+                'order',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof OrderNotFoundError) {
+                this.logger.error(
+                    'Error marking order as processing: ' + error
+                );
+                return res.status(404).json({ message: error.message });
+            }
+
+            if (error instanceof OrderAlreadyMarkedError) {
+                this.logger.error(
+                    'Error marking order as processing: ' + error
+                );
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error marking order as processing: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async shipOrder(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const orderId: number = Number(req.params.id);
+        const { username } = req.user as JwtPayload;
+        const { carrier, trackingNumber, packages, items } = req.body;
+
+        try {
+            const shipment = await this.orderService.shipOrder(orderId, {
+                carrier,
+                trackingNumber,
+                packages,
+                items,
+            });
+            res.status(201).json({ shipment });
+
+            await this.loggingService!.logOperation(
+                username,
+                'order',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof OrderNotFoundError) {
+                this.logger.error('Error shipping order: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            if (
+                error instanceof OrderAlreadyMarkedError ||
+                error instanceof InvalidShipmentError
+            ) {
+                this.logger.error('Error shipping order: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error shipping order: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async markAsAwaitingPickup(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const orderId: number = Number(req.params.id);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            await this.orderService.markAsAwaitingPickup(orderId);
+            res.sendStatus(204);
+
+            await this.loggingService!.logOperation(
+                username,
+                'order',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof OrderNotFoundError) {
+                this.logger.error(
+                    'Error marking order as awaiting pickup: ' + error
+                );
+                return res.status(404).json({ message: error.message });
+            }
+
+            if (error instanceof OrderAlreadyMarkedError) {
+                this.logger.error(
+                    'Error marking order as awaiting pickup: ' + error
+                );
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error(
+                'Error marking order as awaiting pickup: ' + error
+            );
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
     public async markAsDelivered(
         req: Request,
         res: Response
@@ -3,11 +3,25 @@ import { PaymentService } from '@/services';
 import { JwtPayload } from 'jsonwebtoken';
 import { Logger } from '@/logger';
 import {
+    CartNotFoundError,
+    CheckoutInProgressError,
+    CouponNotApplicableError,
+    CouponNotFoundError,
+    EmptyCartError,
+    FlashSaleLimitError,
+    IdempotencyKeyReusedError,
+    InsufficientFundsError,
+    InvalidPaymentAmountError,
+    OrderAlreadyMarkedError,
     OrderNotFoundError,
+    PaymentFailedError,
+    PaymentMethodNotFoundError,
     ProductNotFoundError,
+    ProductOutOfStockError,
+    ProductVariantNotFoundError,
+    ProductVariantRequiredError,
     UserNotFoundError,
 } from '@/errors';
-import Stripe from 'stripe';
 
 export class PaymentController {
     private paymentService: PaymentService;
@@ -145,14 +159,9 @@ export class PaymentController {
                 this.logger.error('Error retrieving payment method: ' + error);
                 return res.status(404).json({ message: error.message });
             }
-            if (
-                error instanceof Stripe.errors.StripeInvalidRequestError &&
-                error.statusCode === 404
-            ) {
+            if (error instanceof PaymentMethodNotFoundError) {
                 this.logger.error('Error retrieving payment method: ' + error);
-                return res
-                    .status(404)
-                    .json({ message: 'Payment method not found' });
+                return res.status(404).json({ message: error.message });
             }
 
             this.logger.error('Error retrieving payment method: ' + error);
@@ -174,7 +183,10 @@ export class PaymentController {
             );
             return res.status(200).json({ paymentMethod });
         } catch (error) {
-            if (error instanceof UserNotFoundError) {
+            if (
+                error instanceof UserNotFoundError ||
+                error instanceof PaymentMethodNotFoundError
+            ) {
                 this.logger.error('Error updating payment method: ' + error);
                 return res.status(404).json({ message: error.message });
             }
@@ -195,14 +207,9 @@ export class PaymentController {
             );
             return res.sendStatus(204);
         } catch (error) {
-            if (
-                error instanceof Stripe.errors.StripeInvalidRequestError &&
-                error.statusCode === 404
-            ) {
+            if (error instanceof PaymentMethodNotFoundError) {
                 this.logger.error('Error deleting payment method: ' + error);
-                return res
-                    .status(404)
-                    .json({ message: 'Payment method not found' });
+                return res.status(404).json({ message: error.message });
             }
 
             this.logger.error('Error deleting payment method: ' + error);
@@ -218,27 +225,121 @@ export class PaymentController {
         const data = req.body;
 
         try {
-            await this.paymentService.processPaymentAndCreateOrder(
-                userId,
-                data
-            );
+            const { order, breakdown } =
+                await this.paymentService.processPaymentAndCreateOrder(
+                    userId,
+                    data
+                );
 
-            return res
-                .status(200)
-                .json({ message: 'Order created successfully' });
+            return res.status(200).json({
+                message: 'Order created successfully',
+                order,
+                breakdown,
+            });
         } catch (error) {
             if (
                 error instanceof UserNotFoundError ||
-                error instanceof ProductNotFoundError
+                error instanceof ProductNotFoundError ||
+                error instanceof ProductVariantNotFoundError ||
+                error instanceof PaymentMethodNotFoundError ||
+                error instanceof CouponNotFoundError
             ) {
                 this.logger.error('Error processing payment: ' + error);
                 return res.status(404).json({ message: error.message });
             }
+            if (
+                error instanceof ProductOutOfStockError ||
+                error instanceof FlashSaleLimitError
+            ) {
+                this.logger.error('Error processing payment: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+            if (error instanceof PaymentFailedError) {
+                this.logger.error('Error processing payment: ' + error);
+                return res.status(402).json({ message: error.message });
+            }
+            if (
+                error instanceof InsufficientFundsError ||
+                error instanceof InvalidPaymentAmountError ||
+                error instanceof CouponNotApplicableError ||
+                error instanceof ProductVariantRequiredError
+            ) {
+                this.logger.error('Error processing payment: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
             this.logger.error('Error processing payment: ' + error);
             return res.status(500).json({ message: 'Server error' });
         }
     }
 
+    public async checkoutCart(
+        req: Request,
+        res: Response
+    ): Promise<Response | void> {
+        const { userId } = req.user as JwtPayload;
+        const idempotencyKey = req.get('Idempotency-Key') as string;
+        const data = req.body;
+
+        try {
+            const { order, breakdown, replayed } =
+                await this.paymentService.checkoutCart(
+                    userId,
+                    idempotencyKey,
+                    data
+                );
+
+            if (replayed) {
+                res.set('Idempotent-Replayed', 'true');
+            }
+
+            return res.status(200).json({
+                message: 'Order created successfully',
+                order,
+                breakdown,
+            });
+        } catch (error) {
+            if (
+                error instanceof UserNotFoundError ||
+                error instanceof CartNotFoundError ||
+                error instanceof ProductNotFoundError ||
+                error instanceof ProductVariantNotFoundError ||
+                error instanceof PaymentMethodNotFoundError ||
+                error instanceof CouponNotFoundError
+            ) {
+                this.logger.error('Error checking out cart: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (
+                error instanceof CheckoutInProgressError ||
+                error instanceof ProductOutOfStockError ||
+                error instanceof FlashSaleLimitError
+            ) {
+                this.logger.error('Error checking out cart: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+            if (error instanceof IdempotencyKeyReusedError) {
+                this.logger.error('Error checking out cart: ' + error);
+                return res.status(422).json({ message: error.message });
+            }
+            if (error instanceof PaymentFailedError) {
+                this.logger.error('Error checking out cart: ' + error);
+                return res.status(402).json({ message: error.message });
+            }
+            if (
+                error instanceof EmptyCartError ||
+                error instanceof InsufficientFundsError ||
+                error instanceof InvalidPaymentAmountError ||
+                error instanceof CouponNotApplicableError ||
+                error instanceof ProductVariantRequiredError
+            ) {
+                this.logger.error('Error checking out cart: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+            this.logger.error('Error checking out cart: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
     public async getCustomerRefundRequests(
         req: Request,
         res: Response
@@ -295,4 +396,78 @@ export class PaymentController {
             return res.status(500).json({ message: 'Server error' });
         }
     }
+
+    public async getWallet(
+        req: Request,
+        res: Response
+    ): Promise<Response | void> {
+        const { userId } = req.user as JwtPayload;
+
+        try {
+            const wallet = await this.paymentService.getWallet(userId);
+            return res.status(200).json(wallet);
+        } catch (error) {
+            if (error instanceof UserNotFoundError) {
+                this.logger.error('Error retrieving wallet: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            this.logger.error('Error retrieving wallet: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async topUpWallet(
+        req: Request,
+        res: Response
+    ): Promise<Response | void> {
+        const { userId } = req.user as JwtPayload;
+        const { amount, paymentMethodId } = req.body;
+
+        try {
+            const balance = await this.paymentService.topUpWallet(
+                userId,
+                Number(amount),
+                paymentMethodId
+            );
+            return res.status(200).json({ balance });
+        } catch (error) {
+            if (
+                error instanceof UserNotFoundError ||
+                error instanceof PaymentMethodNotFoundError
+            ) {
+                this.logger.error('Error topping up wallet: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof PaymentFailedError) {
+                this.logger.error('Error topping up wallet: ' + error);
+                return res.status(402).json({ message: error.message });
+            }
+            this.logger.error('Error topping up wallet: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async confirmBankTransfer(
+        req: Request,
+        res: Response
+    ): Promise<Response | void> {
+        const { reference } = req.params;
+
+        try {
+            const order =
+                await this.paymentService.confirmBankTransfer(reference);
+            return res.status(200).json({ order });
+        } catch (error) {
+            if (error instanceof OrderNotFoundError) {
+                this.logger.error('Error confirming bank transfer: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof OrderAlreadyMarkedError) {
+                this.logger.error('Error confirming bank transfer: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+            this.logger.error('Error confirming bank transfer: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
 }
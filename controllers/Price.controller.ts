@@ -0,0 +1,148 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { PriceService, LoggingService } from '@/services';
+import type { PriceChangeStatus } from '@/models/relational/ScheduledPriceChange.model';
+import { Logger } from '@/logger';
+import {
+    InvalidPriceChangeError,
+    PriceChangeConflictError,
+    PriceChangeNotFoundError,
+    ProductNotFoundError,
+} from '@/errors';
+
+export class PriceController {
+    private priceService: PriceService;
+    private loggingService?: LoggingService;
+    private logger: Logger;
+
+    constructor(priceService: PriceService, loggingService?: LoggingService) {
+        this.priceService = priceService;
+        this.loggingService = loggingService;
+        this.logger = new Logger();
+    }
+
+    public async schedulePriceChange(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const priceChange = await this.priceService.schedulePriceChange(
+                username,
+                productId,
+                req.body
+            );
+            res.status(201).json({
+                message: 'Price change scheduled successfully',
+                priceChange,
+            });
+
+            await this.loggingService!.logOperation(
+                username,
+                'price change',
+                'create'
+            );
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error scheduling price change: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof InvalidPriceChangeError) {
+                this.logger.error('Error scheduling price change: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+            if (error instanceof PriceChangeConflictError) {
+                this.logger.error('Error scheduling price change: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error scheduling price change: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getPriceChanges(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const status = req.query.status as PriceChangeStatus | undefined;
+
+        try {
+            const priceChanges = await this.priceService.getPriceChanges(
+                productId,
+                status
+            );
+            return res.status(200).json({ priceChanges });
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error retrieving price changes: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving price changes: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async cancelPriceChange(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const changeId: number = Number(req.params.changeId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const priceChange = await this.priceService.cancelPriceChange(
+                productId,
+                changeId
+            );
+            res.status(200).json({ priceChange });
+
+            await this.loggingService!.logOperation(
+                username,
+                'price change',
+                'delete'
+            );
+        } catch (error) {
+            if (error instanceof PriceChangeNotFoundError) {
+                this.logger.error('Error cancelling price change: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof InvalidPriceChangeError) {
+                this.logger.error('Error cancelling price change: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error cancelling price change: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getPriceHistory(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const days = req.query.days as number | undefined;
+
+        try {
+            const priceHistory = await this.priceService.getPriceHistory(
+                productId,
+                days
+            );
+            return res.status(200).json({ priceHistory });
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error retrieving price history: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving price history: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
@@ -7,6 +7,8 @@ import {
     CategoryNotFoundError,
     ProductNotFoundError,
     ProductAlreadyExistsError,
+    InvalidSearchCursorError,
+    InvalidProductSpecificationsError,
 } from '@/errors';
 
 export class ProductController {
@@ -28,13 +30,14 @@ export class ProductController {
         res: Response
     ): Promise<void | Response> {
         const { username } = req.user as JwtPayload;
-        const { name, description, parentId } = req.body;
+        const { name, description, parentId, taxClass } = req.body;
 
         try {
             const category = await this.productService.addCategory(
                 name,
                 description,
-                parentId
+                parentId,
+                taxClass
             );
             res.status(201).json({
                 message: 'Category created successfully',
@@ -80,7 +83,10 @@ export class ProductController {
                 this.logger.error('Error adding product: ' + error);
                 return res.status(404).json({ message: error.message });
             }
-            if (error instanceof ProductAlreadyExistsError) {
+            if (
+                error instanceof ProductAlreadyExistsError ||
+                error instanceof InvalidProductSpecificationsError
+            ) {
                 this.logger.error('Error adding product: ' + error);
                 return res.status(400).json({ message: error.message });
             }
@@ -159,10 +165,14 @@ export class ProductController {
         res: Response
     ): Promise<void | Response> {
         const categoryId: number = Number(req.params.id);
+        const { descendants } = req.query;
 
         try {
             const { count, rows } =
-                await this.productService.getProductsByCategory(categoryId);
+                await this.productService.getProductsByCategory(
+                    categoryId,
+                    descendants as boolean | undefined
+                );
             return res.status(200).json({ total: count, products: rows });
         } catch (error) {
             if (error instanceof CategoryNotFoundError) {
@@ -218,6 +228,26 @@ export class ProductController {
         }
     }
 
+    public async viewProductBySlug(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { slug } = req.params;
+
+        try {
+            const product = await this.productService.viewProductBySlug(slug);
+            return res.status(200).json({ product });
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error viewing product: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error viewing product: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
     public async getProductCategory(
         req: Request,
         res: Response
@@ -289,13 +319,15 @@ export class ProductController {
     ): Promise<void | Response> {
         const { username } = req.user as JwtPayload;
         const categoryId: number = Number(req.params.id);
-        const { name, description } = req.body;
+        const { name, description, taxClass, slug } = req.body;
 
         try {
             const category = await this.productService.updateCategoryById(
                 categoryId,
                 name,
-                description
+                description,
+                taxClass,
+                slug
             );
             res.status(200).json({ category });
 
@@ -305,6 +337,10 @@ export class ProductController {
                 this.logger.error('Error updating category: ' + error);
                 return res.status(404).json({ message: error.message });
             }
+            if (error instanceof CategoryAlreadyExistsError) {
+                this.logger.error('Error updating category: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
 
             this.logger.error('Error updating category: ' + error);
             return res.status(500).json({ message: 'Server error' });
@@ -368,6 +404,13 @@ export class ProductController {
                 this.logger.error('Error updating product: ' + error);
                 return res.status(404).json({ message: error.message });
             }
+            if (
+                error instanceof ProductAlreadyExistsError ||
+                error instanceof InvalidProductSpecificationsError
+            ) {
+                this.logger.error('Error updating product: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
 
             this.logger.error('Error updating product: ' + error);
             return res.status(500).json({ message: 'Server error' });
@@ -424,16 +467,53 @@ export class ProductController {
         req: Request,
         res: Response
     ): Promise<void | Response> {
-        const { query } = req.query;
+        const filters = req.query as Parameters<
+            ProductService['searchProducts']
+        >[0];
 
         try {
-            const products = await this.productService.searchProducts(
-                query as string
-            );
-            return res.status(200).json({ products });
+            const result = await this.productService.searchProducts(filters);
+            return res.status(200).json(result);
         } catch (error) {
+            if (error instanceof InvalidSearchCursorError) {
+                this.logger.error('Error searching products: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
             this.logger.error('Error searching products: ' + error);
             return res.status(500).json({ message: 'Server error' });
         }
     }
+
+    public async autocompleteProducts(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { q } = req.query;
+
+        try {
+            const suggestions =
+                await this.productService.autocompleteProducts(q as string);
+            return res.status(200).json(suggestions);
+        } catch (error) {
+            this.logger.error('Error autocompleting products: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getZeroResultSearches(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const limit = Number(req.query.limit ?? 20);
+
+        try {
+            const searches =
+                await this.productService.getZeroResultSearches(limit);
+            return res.status(200).json({ searches });
+        } catch (error) {
+            this.logger.error('Error getting zero-result searches: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
 }
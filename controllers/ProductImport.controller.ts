@@ -0,0 +1,128 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { ProductImportService, LoggingService } from '@/services';
+import { Logger } from '@/logger';
+import { InvalidImportFileError, ProductImportNotFoundError } from '@/errors';
+
+export class ProductImportController {
+    private productImportService: ProductImportService;
+    private loggingService?: LoggingService;
+    private logger: Logger;
+
+    constructor(
+        productImportService: ProductImportService,
+        loggingService?: LoggingService
+    ) {
+        this.productImportService = productImportService;
+        this.loggingService = loggingService;
+        this.logger = new Logger();
+    }
+
+    public async importProducts(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { username } = req.user as JwtPayload;
+        const dryRun = Boolean(req.query.dryRun);
+
+        try {
+            const productImport = await this.productImportService.queueImport(
+                username,
+                req.file,
+                dryRun
+            );
+            res.status(202).json({
+                message: 'Product import started',
+                productImport,
+            });
+
+            if (!dryRun) {
+                await this.loggingService!.logOperation(
+                    username,
+                    'product import',
+                    'create'
+                );
+            }
+        } catch (error) {
+            if (error instanceof InvalidImportFileError) {
+                this.logger.error('Error importing products: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error importing products: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getImport(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const importId: number = Number(req.params.id);
+
+        try {
+            const productImport =
+                await this.productImportService.getImport(importId);
+            return res.status(200).json({ productImport });
+        } catch (error) {
+            if (error instanceof ProductImportNotFoundError) {
+                this.logger.error('Error retrieving product import: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving product import: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async downloadErrorReport(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const importId: number = Number(req.params.id);
+
+        try {
+            const report =
+                await this.productImportService.getErrorReport(importId);
+            return res
+                .status(200)
+                .attachment(`import-${importId}-errors.csv`)
+                .send(report);
+        } catch (error) {
+            if (error instanceof ProductImportNotFoundError) {
+                this.logger.error('Error downloading error report: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error downloading error report: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async exportProducts(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const format = req.query.format === 'json' ? 'json' : 'csv';
+
+        try {
+            res.status(200).attachment(`products.${format}`);
+
+            for await (const chunk of this.productImportService.exportProducts(
+                format
+            )) {
+                res.write(chunk);
+            }
+
+            res.end();
+        } catch (error) {
+            this.logger.error('Error exporting products: ' + error);
+
+            // The export is streamed, so a failure can only abort the download
+            if (res.headersSent) {
+                return res.destroy();
+            }
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
@@ -0,0 +1,272 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { ProductVariantService, LoggingService } from '@/services';
+import { Logger } from '@/logger';
+import {
+    InvalidVariantOptionsError,
+    ProductNotFoundError,
+    ProductOptionInUseError,
+    ProductOptionNotFoundError,
+    ProductVariantAlreadyExistsError,
+    ProductVariantNotFoundError,
+} from '@/errors';
+
+export class ProductVariantController {
+    private productVariantService: ProductVariantService;
+    private loggingService?: LoggingService;
+    private logger: Logger;
+
+    constructor(
+        productVariantService: ProductVariantService,
+        loggingService?: LoggingService
+    ) {
+        this.productVariantService = productVariantService;
+        this.loggingService = loggingService;
+        this.logger = new Logger();
+    }
+
+    public async getProductVariants(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+
+        try {
+            const { options, variants } =
+                await this.productVariantService.getProductVariants(productId);
+            return res.status(200).json({ options, variants });
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error(
+                    'Error retrieving product variants: ' + error
+                );
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving product variants: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async createOption(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const option = await this.productVariantService.createOption(
+                productId,
+                req.body
+            );
+            res.status(201).json({
+                message: 'Product option created successfully',
+                option,
+            });
+
+            await this.loggingService!.logOperation(
+                username,
+                'product option',
+                'create'
+            );
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error creating product option: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof ProductOptionInUseError) {
+                this.logger.error('Error creating product option: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+            if (error instanceof InvalidVariantOptionsError) {
+                this.logger.error('Error creating product option: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+
+            this.logger.error('Error creating product option: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async updateOption(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const optionId: number = Number(req.params.optionId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const updatedOption = await this.productVariantService.updateOption(
+                productId,
+                optionId,
+                req.body
+            );
+            res.status(200).json({ updatedOption });
+
+            await this.loggingService!.logOperation(
+                username,
+                'product option',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof ProductOptionNotFoundError) {
+                this.logger.error('Error updating product option: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof ProductOptionInUseError) {
+                this.logger.error('Error updating product option: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error updating product option: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async deleteOption(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const optionId: number = Number(req.params.optionId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            await this.productVariantService.deleteOption(productId, optionId);
+            res.sendStatus(204);
+
+            await this.loggingService!.logOperation(
+                username,
+                'product option',
+                'delete'
+            );
+        } catch (error) {
+            if (error instanceof ProductOptionNotFoundError) {
+                this.logger.error('Error deleting product option: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof ProductOptionInUseError) {
+                this.logger.error('Error deleting product option: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error deleting product option: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async createVariant(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const variant = await this.productVariantService.createVariant(
+                productId,
+                req.body
+            );
+            res.status(201).json({
+                message: 'Product variant created successfully',
+                variant,
+            });
+
+            await this.loggingService!.logOperation(
+                username,
+                'product variant',
+                'create'
+            );
+        } catch (error) {
+            if (error instanceof ProductNotFoundError) {
+                this.logger.error('Error creating product variant: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof InvalidVariantOptionsError) {
+                this.logger.error('Error creating product variant: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+            if (error instanceof ProductVariantAlreadyExistsError) {
+                this.logger.error('Error creating product variant: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error creating product variant: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async updateVariant(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const variantId: number = Number(req.params.variantId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            const updatedVariant =
+                await this.productVariantService.updateVariant(
+                    productId,
+                    variantId,
+                    req.body
+                );
+            res.status(200).json({ updatedVariant });
+
+            await this.loggingService!.logOperation(
+                username,
+                'product variant',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof ProductVariantNotFoundError) {
+                this.logger.error('Error updating product variant: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof InvalidVariantOptionsError) {
+                this.logger.error('Error updating product variant: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+            if (error instanceof ProductVariantAlreadyExistsError) {
+                this.logger.error('Error updating product variant: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error updating product variant: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async deleteVariant(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const productId: number = Number(req.params.productId);
+        const variantId: number = Number(req.params.variantId);
+        const { username } = req.user as JwtPayload;
+
+        try {
+            await this.productVariantService.deleteVariant(
+                productId,
+                variantId
+            );
+            res.sendStatus(204);
+
+            await this.loggingService!.logOperation(
+                username,
+                'product variant',
+                'delete'
+            );
+        } catch (error) {
+            if (error instanceof ProductVariantNotFoundError) {
+                this.logger.error('Error deleting product variant: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error deleting product variant: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
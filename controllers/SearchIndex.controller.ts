@@ -0,0 +1,34 @@
+import { Request, Response } from 'express';
+import { SearchIndexService } from '@/services';
+import { Logger } from '@/logger';
+import { ReindexInProgressError } from '@/errors';
+
+export class SearchIndexController {
+    private searchIndexService: SearchIndexService;
+    private logger: Logger;
+
+    constructor(searchIndexService: SearchIndexService) {
+        this.searchIndexService = searchIndexService;
+        this.logger = new Logger();
+    }
+
+    public async reindexProducts(
+        _req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        try {
+            await this.searchIndexService.queueReindex();
+            return res
+                .status(202)
+                .json({ message: 'Products reindex started' });
+        } catch (error) {
+            if (error instanceof ReindexInProgressError) {
+                this.logger.error('Error reindexing products: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error reindexing products: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
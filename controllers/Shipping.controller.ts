@@ -239,6 +239,43 @@ export class ShippingController {
         }
     }
 
+    public async updateCountryTaxRates(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const countryId: number = Number(req.params.id);
+        const { username } = req.user as JwtPayload;
+        const { vatRate, reducedVatRate, pricesIncludeTax } = req.body;
+
+        try {
+            const updatedCountry =
+                await this.shippingService.updateCountryTaxRates(countryId, {
+                    vatRate,
+                    reducedVatRate,
+                    pricesIncludeTax,
+                });
+
+            res.status(200).json({
+                message: 'Tax rates updated successfully',
+                updatedCountry,
+            });
+
+            await this.loggingService!.logOperation(
+                username,
+                'shipping country',
+                'update'
+            );
+        } catch (error) {
+            if (error instanceof ShippingLocationNotFoundError) {
+                this.logger.error('Error updating tax rates: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error updating tax rates: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
     public async updateShippingCity(
         req: Request,
         res: Response
@@ -44,10 +44,11 @@ export class UserController {
         res: Response
     ): Promise<void | Response> {
         const { details } = req.data as JwtPayload;
+        const cartToken = req.get('X-Cart-Token');
 
         try {
-            const { refreshToken, accessToken } =
-                await this.userService.signUpCustomer(details);
+            const { refreshToken, accessToken, cartMerge } =
+                await this.userService.signUpCustomer(details, cartToken);
 
             res.status(201)
                 .cookie('refreshToken', refreshToken, {
@@ -58,6 +59,7 @@ export class UserController {
                 })
                 .json({
                     accessToken,
+                    cartMerge,
                     message: 'Customer registered successfully',
                 });
         } catch (error) {
@@ -78,10 +80,11 @@ export class UserController {
         res: Response
     ): Promise<void | Response> {
         const { username, password } = req.body;
+        const cartToken = req.get('X-Cart-Token');
 
         try {
-            const { refreshToken, accessToken } =
-                await this.userService.loginUser(username, password);
+            const { refreshToken, accessToken, cartMerge } =
+                await this.userService.loginUser(username, password, cartToken);
 
             return res
                 .status(200)
@@ -93,6 +96,7 @@ export class UserController {
                 })
                 .json({
                     accessToken,
+                    cartMerge,
                     message: 'User logged in successfully',
                 });
         } catch (error) {
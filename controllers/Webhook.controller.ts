@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { WebhookService } from '@/services';
+import { Logger } from '@/logger';
+import {
+    InvalidWebhookSignatureError,
+    WebhookEventInProgressError,
+} from '@/errors';
+
+export class WebhookController {
+    private webhookService: WebhookService;
+    private logger: Logger;
+
+    constructor(webhookService: WebhookService) {
+        this.webhookService = webhookService;
+        this.logger = new Logger();
+    }
+
+    public async handleStripeWebhook(
+        req: Request,
+        res: Response
+    ): Promise<Response | void> {
+        try {
+            const event = this.webhookService.constructStripeEvent(
+                req.body,
+                req.headers['stripe-signature'] as string | undefined
+            );
+
+            const handled = await this.webhookService.handleStripeEvent(event);
+
+            return res
+                .status(200)
+                .json({ received: true, duplicate: !handled });
+        } catch (error) {
+            if (error instanceof InvalidWebhookSignatureError) {
+                this.logger.error('Error verifying Stripe webhook: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+            if (error instanceof WebhookEventInProgressError) {
+                // Stripe retries deliveries that are not acknowledged
+                this.logger.error('Error handling Stripe webhook: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error handling Stripe webhook: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
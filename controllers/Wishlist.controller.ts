@@ -0,0 +1,398 @@
+import { Request, Response } from 'express';
+import { JwtPayload } from 'jsonwebtoken';
+import { WishlistService } from '@/services';
+import { Logger } from '@/logger';
+import {
+    CartNotFoundError,
+    CartItemLimitError,
+    CartItemNotFoundError,
+    FlashSaleLimitError,
+    ProductNotFoundError,
+    ProductVariantNotFoundError,
+    ProductVariantRequiredError,
+    UserNotFoundError,
+    WishlistConflictError,
+    WishlistItemNotFoundError,
+    WishlistLimitError,
+    WishlistNotFoundError,
+} from '@/errors';
+
+export class WishlistController {
+    private wishlistService: WishlistService;
+    private logger: Logger;
+
+    constructor(wishlistService: WishlistService) {
+        this.wishlistService = wishlistService;
+        this.logger = new Logger();
+    }
+
+    public async getWishlists(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+
+        try {
+            const wishlists = await this.wishlistService.getWishlists(userId);
+            return res.status(200).json({ wishlists });
+        } catch (error) {
+            this.logger.error('Error retrieving wishlists: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getWishlist(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const wishlistId: number = Number(req.params.id);
+
+        try {
+            const wishlist = await this.wishlistService.getWishlist(
+                userId,
+                wishlistId
+            );
+            return res.status(200).json({ wishlist });
+        } catch (error) {
+            if (error instanceof WishlistNotFoundError) {
+                this.logger.error('Error retrieving wishlist: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving wishlist: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async getSharedWishlist(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { token } = req.params;
+
+        try {
+            const wishlist =
+                await this.wishlistService.getSharedWishlist(token);
+            return res.status(200).json({ wishlist });
+        } catch (error) {
+            if (error instanceof WishlistNotFoundError) {
+                this.logger.error('Error retrieving shared wishlist: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error retrieving shared wishlist: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async createWishlist(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const { name } = req.body;
+
+        try {
+            const wishlist = await this.wishlistService.createWishlist(
+                userId,
+                name
+            );
+            return res.status(201).json({ wishlist });
+        } catch (error) {
+            if (error instanceof UserNotFoundError) {
+                this.logger.error('Error creating wishlist: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (
+                error instanceof WishlistConflictError ||
+                error instanceof WishlistLimitError
+            ) {
+                this.logger.error('Error creating wishlist: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error creating wishlist: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async renameWishlist(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const wishlistId: number = Number(req.params.id);
+        const { name } = req.body;
+
+        try {
+            const wishlist = await this.wishlistService.renameWishlist(
+                userId,
+                wishlistId,
+                name
+            );
+            return res.status(200).json({ wishlist });
+        } catch (error) {
+            if (error instanceof WishlistNotFoundError) {
+                this.logger.error('Error renaming wishlist: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof WishlistConflictError) {
+                this.logger.error('Error renaming wishlist: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error renaming wishlist: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async deleteWishlist(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const wishlistId: number = Number(req.params.id);
+
+        try {
+            await this.wishlistService.deleteWishlist(userId, wishlistId);
+            return res.sendStatus(204);
+        } catch (error) {
+            if (error instanceof WishlistNotFoundError) {
+                this.logger.error('Error deleting wishlist: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error deleting wishlist: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async shareWishlist(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const wishlistId: number = Number(req.params.id);
+
+        try {
+            const shareUrl = await this.wishlistService.shareWishlist(
+                userId,
+                wishlistId
+            );
+            return res.status(200).json({ shareUrl });
+        } catch (error) {
+            if (error instanceof WishlistNotFoundError) {
+                this.logger.error('Error sharing wishlist: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error sharing wishlist: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async unshareWishlist(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const wishlistId: number = Number(req.params.id);
+
+        try {
+            await this.wishlistService.unshareWishlist(userId, wishlistId);
+            return res.sendStatus(204);
+        } catch (error) {
+            if (error instanceof WishlistNotFoundError) {
+                this.logger.error('Error unsharing wishlist: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error unsharing wishlist: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async addItem(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const wishlistId: number = Number(req.params.id);
+        const { productId, variantId, note } = req.body;
+
+        try {
+            const wishlistItem = await this.wishlistService.addItem(
+                userId,
+                wishlistId,
+                productId,
+                variantId,
+                note || undefined
+            );
+            return res.status(201).json({ wishlistItem });
+        } catch (error) {
+            if (
+                error instanceof WishlistNotFoundError ||
+                error instanceof ProductNotFoundError ||
+                error instanceof ProductVariantNotFoundError
+            ) {
+                this.logger.error('Error adding item to wishlist: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof ProductVariantRequiredError) {
+                this.logger.error('Error adding item to wishlist: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+            if (
+                error instanceof WishlistConflictError ||
+                error instanceof WishlistLimitError
+            ) {
+                this.logger.error('Error adding item to wishlist: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error adding item to wishlist: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async updateItemNote(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const wishlistId: number = Number(req.params.id);
+        const itemId: number = Number(req.params.itemId);
+        const { note } = req.body as { note: string | null };
+
+        try {
+            const wishlistItem = await this.wishlistService.updateItemNote(
+                userId,
+                wishlistId,
+                itemId,
+                note?.trim() || null
+            );
+            return res.status(200).json({ wishlistItem });
+        } catch (error) {
+            if (
+                error instanceof WishlistNotFoundError ||
+                error instanceof WishlistItemNotFoundError
+            ) {
+                this.logger.error('Error updating wishlist item: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error updating wishlist item: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async removeItem(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const wishlistId: number = Number(req.params.id);
+        const itemId: number = Number(req.params.itemId);
+
+        try {
+            await this.wishlistService.removeItem(userId, wishlistId, itemId);
+            return res.sendStatus(204);
+        } catch (error) {
+            if (
+                error instanceof WishlistNotFoundError ||
+                error instanceof WishlistItemNotFoundError
+            ) {
+                this.logger.error('Error removing wishlist item: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+
+            this.logger.error('Error removing wishlist item: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async moveToCart(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const wishlistId: number = Number(req.params.id);
+        const itemId: number = Number(req.params.itemId);
+        const { quantity } = req.body;
+
+        try {
+            const cartItem = await this.wishlistService.moveToCart(
+                userId,
+                wishlistId,
+                itemId,
+                quantity
+            );
+            return res.status(200).json({ cartItem });
+        } catch (error) {
+            if (
+                error instanceof WishlistNotFoundError ||
+                error instanceof WishlistItemNotFoundError ||
+                error instanceof CartNotFoundError ||
+                error instanceof ProductNotFoundError ||
+                error instanceof ProductVariantNotFoundError
+            ) {
+                this.logger.error('Error moving item to cart: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof ProductVariantRequiredError) {
+                this.logger.error('Error moving item to cart: ' + error);
+                return res.status(400).json({ message: error.message });
+            }
+            if (
+                error instanceof CartItemLimitError ||
+                error instanceof FlashSaleLimitError
+            ) {
+                this.logger.error('Error moving item to cart: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error moving item to cart: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+
+    public async moveToWishlist(
+        req: Request,
+        res: Response
+    ): Promise<void | Response> {
+        const { userId } = req.user as JwtPayload;
+        const productId: number = Number(req.params.id);
+        const variantId = req.query.variantId
+            ? Number(req.query.variantId)
+            : undefined;
+        const { wishlistId } = req.body;
+
+        try {
+            const wishlistItem = await this.wishlistService.moveToWishlist(
+                userId,
+                productId,
+                variantId,
+                wishlistId
+            );
+            return res.status(200).json({ wishlistItem });
+        } catch (error) {
+            if (
+                error instanceof CartNotFoundError ||
+                error instanceof CartItemNotFoundError ||
+                error instanceof ProductNotFoundError ||
+                error instanceof WishlistNotFoundError
+            ) {
+                this.logger.error('Error moving item to wishlist: ' + error);
+                return res.status(404).json({ message: error.message });
+            }
+            if (error instanceof WishlistLimitError) {
+                this.logger.error('Error moving item to wishlist: ' + error);
+                return res.status(409).json({ message: error.message });
+            }
+
+            this.logger.error('Error moving item to wishlist: ' + error);
+            return res.status(500).json({ message: 'Server error' });
+        }
+    }
+}
@@ -28,7 +28,17 @@ declare namespace NodeJS {
         LLM_NAME: string;
         LLM_PROVIDER_API: string;
         STRIPE_KEY: string;
+        STRIPE_WEBHOOK_SECRET: string;
+        PAYMENT_PROVIDER?: 'stripe' | 'mock';
+        MOCK_PAYMENT_PROVIDER_FILE?: string;
+        TAX_HOME_COUNTRY?: string;
         CLIENT_URL: string;
         REGISTRATION_LOYALTY_POINTS: number;
+        MEDIA_STORAGE_DRIVER?: string;
+        MEDIA_STORAGE_DIR?: string;
+        MEDIA_PUBLIC_URL?: string;
+        PRODUCT_PLACEHOLDER_IMAGE_URL?: string;
+        ABANDONED_CART_THRESHOLDS?: string;
+        ABANDONED_CART_COUPON_PERCENT?: string;
     }
 }
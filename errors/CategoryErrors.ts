@@ -18,3 +18,31 @@ export class InvalidCategoryError extends Error {
         this.name = 'InvalidCategoryError';
     }
 }
+
+export class CategoryAttributeNotFoundError extends Error {
+    constructor(message = 'Category attribute not found') {
+        super(message);
+        this.name = 'CategoryAttributeNotFoundError';
+    }
+}
+
+export class CategoryAttributeAlreadyExistsError extends Error {
+    constructor(message = 'Category attribute already exists') {
+        super(message);
+        this.name = 'CategoryAttributeAlreadyExistsError';
+    }
+}
+
+export class InvalidCategoryMoveError extends Error {
+    constructor(message = 'Invalid category move') {
+        super(message);
+        this.name = 'InvalidCategoryMoveError';
+    }
+}
+
+export class InvalidCategoryOrderError extends Error {
+    constructor(message = 'Invalid category order') {
+        super(message);
+        this.name = 'InvalidCategoryOrderError';
+    }
+}
@@ -0,0 +1,27 @@
+export class CouponNotFoundError extends Error {
+    constructor(message: string = 'Coupon not found') {
+        super(message);
+        this.name = 'CouponNotFoundError';
+    }
+}
+
+export class CouponAlreadyExistsError extends Error {
+    constructor(message: string = 'Coupon already exists') {
+        super(message);
+        this.name = 'CouponAlreadyExistsError';
+    }
+}
+
+export class CouponNotApplicableError extends Error {
+    constructor(message: string = 'Coupon cannot be applied to this order') {
+        super(message);
+        this.name = 'CouponNotApplicableError';
+    }
+}
+
+export class InvalidCouponError extends Error {
+    constructor(message: string = 'Invalid coupon') {
+        super(message);
+        this.name = 'InvalidCouponError';
+    }
+}
@@ -0,0 +1,29 @@
+export class FlashSaleNotFoundError extends Error {
+    constructor(message: string = 'Flash sale not found') {
+        super(message);
+        this.name = 'FlashSaleNotFoundError';
+    }
+}
+
+export class FlashSaleConflictError extends Error {
+    constructor(
+        message: string = 'Flash sale overlaps another flash sale of its products'
+    ) {
+        super(message);
+        this.name = 'FlashSaleConflictError';
+    }
+}
+
+export class InvalidFlashSaleError extends Error {
+    constructor(message: string = 'Invalid flash sale') {
+        super(message);
+        this.name = 'InvalidFlashSaleError';
+    }
+}
+
+export class FlashSaleLimitError extends Error {
+    constructor(message: string = 'Flash sale quantity limit reached') {
+        super(message);
+        this.name = 'FlashSaleLimitError';
+    }
+}
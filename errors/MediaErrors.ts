@@ -0,0 +1,20 @@
+export class MediaNotFoundError extends Error {
+    constructor(message: string = 'Media not found') {
+        super(message);
+        this.name = 'MediaNotFoundError';
+    }
+}
+
+export class InvalidMediaError extends Error {
+    constructor(message: string = 'Invalid media file') {
+        super(message);
+        this.name = 'InvalidMediaError';
+    }
+}
+
+export class MediaLimitError extends Error {
+    constructor(message: string = 'Media limit reached') {
+        super(message);
+        this.name = 'MediaLimitError';
+    }
+}
@@ -11,3 +11,17 @@ export class OrderAlreadyMarkedError extends Error {
         this.name = 'OrderAlreadyMarkedError';
     }
 }
+
+export class InvalidShipmentError extends Error {
+    constructor(message: string = 'Invalid shipment') {
+        super(message);
+        this.name = 'InvalidShipmentError';
+    }
+}
+
+export class InvoiceNotFoundError extends Error {
+    constructor(message: string = 'Invoice not found') {
+        super(message);
+        this.name = 'InvoiceNotFoundError';
+    }
+}
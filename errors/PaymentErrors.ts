@@ -18,3 +18,49 @@ export class InsufficientFundsError extends Error {
         this.name = 'InsufficientFundsError';
     }
 }
+
+export class InvalidPaymentAmountError extends Error {
+    constructor(message = 'The amount must be positive') {
+        super(message);
+        this.name = 'InvalidPaymentAmountError';
+    }
+}
+
+export class InvalidWebhookSignatureError extends Error {
+    constructor(message = 'Invalid webhook signature') {
+        super(message);
+        this.name = 'InvalidWebhookSignatureError';
+    }
+}
+
+export class WebhookEventInProgressError extends Error {
+    constructor(message = 'The webhook event is already being handled') {
+        super(message);
+        this.name = 'WebhookEventInProgressError';
+    }
+}
+
+export class PaymentMethodNotFoundError extends Error {
+    constructor(message = 'Payment method not found') {
+        super(message);
+        this.name = 'PaymentMethodNotFoundError';
+    }
+}
+
+export class CheckoutInProgressError extends Error {
+    constructor(
+        message = 'A checkout with this idempotency key is already in progress'
+    ) {
+        super(message);
+        this.name = 'CheckoutInProgressError';
+    }
+}
+
+export class IdempotencyKeyReusedError extends Error {
+    constructor(
+        message = 'The idempotency key was already used for a different request'
+    ) {
+        super(message);
+        this.name = 'IdempotencyKeyReusedError';
+    }
+}
@@ -6,8 +6,8 @@ export class ProductNotFoundError extends Error {
 }
 
 export class ProductOutOfStockError extends Error {
-    constructor() {
-        super('Product is out of stock');
+    constructor(message: string = 'Product is out of stock') {
+        super(message);
         this.name = 'ProductOutOfStockError';
     }
 }
@@ -25,3 +25,117 @@ export class InvalidStockStatusError extends Error {
         this.name = 'InvalidStockStatusError';
     }
 }
+
+export class ReindexInProgressError extends Error {
+    constructor(message: string = 'Products are already being reindexed') {
+        super(message);
+        this.name = 'ReindexInProgressError';
+    }
+}
+
+export class InvalidSearchCursorError extends Error {
+    constructor(message: string = 'Invalid search cursor') {
+        super(message);
+        this.name = 'InvalidSearchCursorError';
+    }
+}
+
+export class ProductVariantNotFoundError extends Error {
+    constructor(message: string = 'Product variant not found') {
+        super(message);
+        this.name = 'ProductVariantNotFoundError';
+    }
+}
+
+export class ProductVariantRequiredError extends Error {
+    constructor(message: string = 'A variant of the product must be selected') {
+        super(message);
+        this.name = 'ProductVariantRequiredError';
+    }
+}
+
+export class ProductVariantAlreadyExistsError extends Error {
+    constructor(message: string = 'Product variant already exists') {
+        super(message);
+        this.name = 'ProductVariantAlreadyExistsError';
+    }
+}
+
+export class InvalidVariantOptionsError extends Error {
+    constructor(message: string = 'Invalid variant options') {
+        super(message);
+        this.name = 'InvalidVariantOptionsError';
+    }
+}
+
+export class ProductOptionNotFoundError extends Error {
+    constructor(message: string = 'Product option not found') {
+        super(message);
+        this.name = 'ProductOptionNotFoundError';
+    }
+}
+
+export class ProductOptionInUseError extends Error {
+    constructor(message: string = 'Product option is used by variants') {
+        super(message);
+        this.name = 'ProductOptionInUseError';
+    }
+}
+
+export class ProductImportNotFoundError extends Error {
+    constructor(message: string = 'Product import not found') {
+        super(message);
+        this.name = 'ProductImportNotFoundError';
+    }
+}
+
+export class InvalidImportFileError extends Error {
+    constructor(message: string = 'Invalid import file') {
+        super(message);
+        this.name = 'InvalidImportFileError';
+    }
+}
+
+export class PriceChangeNotFoundError extends Error {
+    constructor(message: string = 'Price change not found') {
+        super(message);
+        this.name = 'PriceChangeNotFoundError';
+    }
+}
+
+export class PriceChangeConflictError extends Error {
+    constructor(
+        message: string = 'Price change overlaps another scheduled price change'
+    ) {
+        super(message);
+        this.name = 'PriceChangeConflictError';
+    }
+}
+
+export class InvalidPriceChangeError extends Error {
+    constructor(message: string = 'Invalid price change') {
+        super(message);
+        this.name = 'InvalidPriceChangeError';
+    }
+}
+
+export class BundleNotFoundError extends Error {
+    constructor(message: string = 'Bundle not found') {
+        super(message);
+        this.name = 'BundleNotFoundError';
+    }
+}
+
+export class InvalidBundleError extends Error {
+    constructor(message: string = 'Invalid bundle') {
+        super(message);
+        this.name = 'InvalidBundleError';
+    }
+}
+
+export class InvalidProductSpecificationsError extends Error {
+    constructor(message = 'Invalid product specifications') {
+        super(message);
+        this.name = 'InvalidProductSpecificationsError';
+    }
+}
@@ -0,0 +1,27 @@
+export class WishlistNotFoundError extends Error {
+    constructor(message: string = 'Wishlist not found') {
+        super(message);
+        this.name = 'WishlistNotFoundError';
+    }
+}
+
+export class WishlistItemNotFoundError extends Error {
+    constructor(message: string = 'Wishlist item not found') {
+        super(message);
+        this.name = 'WishlistItemNotFoundError';
+    }
+}
+
+export class WishlistConflictError extends Error {
+    constructor(message: string = 'Wishlist already exists') {
+        super(message);
+        this.name = 'WishlistConflictError';
+    }
+}
+
+export class WishlistLimitError extends Error {
+    constructor(message: string = 'Wishlist limit reached') {
+        super(message);
+        this.name = 'WishlistLimitError';
+    }
+}
@@ -10,11 +10,31 @@ import {
     ProductOutOfStockError,
     ProductAlreadyExistsError,
     InvalidStockStatusError,
+    ReindexInProgressError,
+    InvalidSearchCursorError,
+    ProductVariantNotFoundError,
+    ProductVariantRequiredError,
+    ProductVariantAlreadyExistsError,
+    InvalidVariantOptionsError,
+    ProductOptionNotFoundError,
+    ProductOptionInUseError,
+    ProductImportNotFoundError,
+    InvalidImportFileError,
+    PriceChangeNotFoundError,
+    PriceChangeConflictError,
+    InvalidPriceChangeError,
+    BundleNotFoundError,
+    InvalidBundleError,
+    InvalidProductSpecificationsError,
 } from './ProductErrors';
 import {
     InvalidCategoryError,
     CategoryNotFoundError,
     CategoryAlreadyExistsError,
+    CategoryAttributeNotFoundError,
+    CategoryAttributeAlreadyExistsError,
+    InvalidCategoryMoveError,
+    InvalidCategoryOrderError,
 } from './CategoryErrors';
 import {
     CartNotFoundError,
@@ -33,8 +53,19 @@ import {
     PaymentFailedError,
     InvalidPaymentMethodError,
     InsufficientFundsError,
+    InvalidPaymentAmountError,
+    InvalidWebhookSignatureError,
+    WebhookEventInProgressError,
+    PaymentMethodNotFoundError,
+    CheckoutInProgressError,
+    IdempotencyKeyReusedError,
 } from './PaymentErrors';
-import { OrderNotFoundError, OrderAlreadyMarkedError } from './OrderErrors';
+import {
+    OrderNotFoundError,
+    OrderAlreadyMarkedError,
+    InvalidShipmentError,
+    InvoiceNotFoundError,
+} from './OrderErrors';
 import { RatingNotFoundError } from './RatingErrors';
 import {
     NotificationError,
@@ -42,6 +73,29 @@ import {
     EmailNotificationError,
 } from './NotificationErrors';
 import { ReportNotFoundError } from './AnalyticsErrors';
+import {
+    CouponNotFoundError,
+    CouponAlreadyExistsError,
+    CouponNotApplicableError,
+    InvalidCouponError,
+} from './CouponErrors';
+import {
+    MediaNotFoundError,
+    InvalidMediaError,
+    MediaLimitError,
+} from './MediaErrors';
+import {
+    FlashSaleNotFoundError,
+    FlashSaleConflictError,
+    InvalidFlashSaleError,
+    FlashSaleLimitError,
+} from './FlashSaleErrors';
+import {
+    WishlistNotFoundError,
+    WishlistItemNotFoundError,
+    WishlistConflictError,
+    WishlistLimitError,
+} from './WishlistErrors';
 
 export {
     UserNotFoundError,
@@ -53,9 +107,29 @@ export {
     ProductOutOfStockError,
     ProductAlreadyExistsError,
     InvalidStockStatusError,
+    ReindexInProgressError,
+    InvalidSearchCursorError,
+    ProductVariantNotFoundError,
+    ProductVariantRequiredError,
+    ProductVariantAlreadyExistsError,
+    InvalidVariantOptionsError,
+    ProductOptionNotFoundError,
+    ProductOptionInUseError,
+    ProductImportNotFoundError,
+    InvalidImportFileError,
+    PriceChangeNotFoundError,
+    PriceChangeConflictError,
+    InvalidPriceChangeError,
+    BundleNotFoundError,
+    InvalidBundleError,
+    InvalidProductSpecificationsError,
     InvalidCategoryError,
     CategoryNotFoundError,
     CategoryAlreadyExistsError,
+    CategoryAttributeNotFoundError,
+    CategoryAttributeAlreadyExistsError,
+    InvalidCategoryMoveError,
+    InvalidCategoryOrderError,
     CartNotFoundError,
     CartItemLimitError,
     CartItemNotFoundError,
@@ -68,11 +142,34 @@ export {
     PaymentFailedError,
     InvalidPaymentMethodError,
     InsufficientFundsError,
+    InvalidPaymentAmountError,
+    InvalidWebhookSignatureError,
+    WebhookEventInProgressError,
+    PaymentMethodNotFoundError,
+    CheckoutInProgressError,
+    IdempotencyKeyReusedError,
     OrderNotFoundError,
     OrderAlreadyMarkedError,
+    InvalidShipmentError,
+    InvoiceNotFoundError,
     RatingNotFoundError,
     NotificationError,
     NotificationNotFoundError,
     EmailNotificationError,
     ReportNotFoundError,
+    CouponNotFoundError,
+    CouponAlreadyExistsError,
+    CouponNotApplicableError,
+    InvalidCouponError,
+    MediaNotFoundError,
+    InvalidMediaError,
+    MediaLimitError,
+    FlashSaleNotFoundError,
+    FlashSaleConflictError,
+    InvalidFlashSaleError,
+    FlashSaleLimitError,
+    WishlistNotFoundError,
+    WishlistItemNotFoundError,
+    WishlistConflictError,
+    WishlistLimitError,
 };
@@ -63,3 +63,107 @@ queue4.on('error', (err) => {
 queue4.on('removed', (job) => {
     logger.log(`Job with id "${job.id}" has been removed from queue4!`);
 });
+
+export const queue5 = new Queue('bankTransferExpirationJobQueue', {
+    defaultJobOptions: baseJobOptions,
+    connection: redisClient,
+});
+
+queue5.on('error', (err) => {
+    logger.error('Error from queue5: ' + err);
+});
+
+queue5.on('removed', (job) => {
+    logger.log(`Job with id "${job.id}" has been removed from queue5!`);
+});
+
+export const queue6 = new Queue('invoiceGenerationJobQueue', {
+    defaultJobOptions: baseJobOptions,
+    connection: redisClient,
+});
+
+queue6.on('error', (err) => {
+    logger.error('Error from queue6: ' + err);
+});
+
+queue6.on('removed', (job) => {
+    logger.log(`Job with id "${job.id}" has been removed from queue6!`);
+});
+
+export const queue7 = new Queue('searchIndexJobQueue', {
+    defaultJobOptions: baseJobOptions,
+    connection: redisClient,
+});
+
+queue7.on('error', (err) => {
+    logger.error('Error from queue7: ' + err);
+});
+
+queue7.on('removed', (job) => {
+    logger.log(`Job with id "${job.id}" has been removed from queue7!`);
+});
+
+export const queue8 = new Queue('productImportJobQueue', {
+    defaultJobOptions: baseJobOptions,
+    connection: redisClient,
+});
+
+queue8.on('error', (err) => {
+    logger.error('Error from queue8: ' + err);
+});
+
+queue8.on('removed', (job) => {
+    logger.log(`Job with id "${job.id}" has been removed from queue8!`);
+});
+
+export const queue9 = new Queue('priceChangeJobQueue', {
+    defaultJobOptions: baseJobOptions,
+    connection: redisClient,
+});
+
+queue9.on('error', (err) => {
+    logger.error('Error from queue9: ' + err);
+});
+
+queue9.on('removed', (job) => {
+    logger.log(`Job with id "${job.id}" has been removed from queue9!`);
+});
+
+export const queue10 = new Queue('flashSaleJobQueue', {
+    defaultJobOptions: baseJobOptions,
+    connection: redisClient,
+});
+
+queue10.on('error', (err) => {
+    logger.error('Error from queue10: ' + err);
+});
+
+queue10.on('removed', (job) => {
+    logger.log(`Job with id "${job.id}" has been removed from queue10!`);
+});
+
+export const queue11 = new Queue('abandonedCartJobQueue', {
+    defaultJobOptions: baseJobOptions,
+    connection: redisClient,
+});
+
+queue11.on('error', (err) => {
+    logger.error('Error from queue11: ' + err);
+});
+
+queue11.on('removed', (job) => {
+    logger.log(`Job with id "${job.id}" has been removed from queue11!`);
+});
+
+export const queue12 = new Queue('wishlistAlertJobQueue', {
+    defaultJobOptions: baseJobOptions,
+    connection: redisClient,
+});
+
+queue12.on('error', (err) => {
+    logger.error('Error from queue12: ' + err);
+});
+
+queue12.on('removed', (job) => {
+    logger.log(`Job with id "${job.id}" has been removed from queue12!`);
+});
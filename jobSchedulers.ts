@@ -1,8 +1,13 @@
-import { queue2, queue3 } from './jobQueues';
+import { queue2, queue3, queue7, queue10, queue11, queue12 } from './jobQueues';
 import { redisClient } from './config/redis';
 import { Customer } from './models/relational';
 import { Holiday } from './models/document';
 
+const SEARCH_INDEX_SYNC_INTERVAL = 5000; // 5 seconds
+const ABANDONED_CART_CHECK_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const WISHLIST_ALERT_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+const EXPIRED_CHECKOUT_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
 interface HolidayData {
     schedulerId: string;
     name: string;
@@ -77,6 +82,38 @@ function getCyberMondayDate(): string {
     }
 })();
 
+(async () => {
+    await queue7.upsertJobScheduler(
+        'searchIndexSync:jobScheduler',
+        { every: SEARCH_INDEX_SYNC_INTERVAL },
+        { name: 'searchIndexSyncJob' }
+    );
+})();
+
+(async () => {
+    await queue11.upsertJobScheduler(
+        'abandonedCart:jobScheduler',
+        { every: ABANDONED_CART_CHECK_INTERVAL },
+        { name: 'abandonedCartJob' }
+    );
+})();
+
+(async () => {
+    await queue12.upsertJobScheduler(
+        'wishlistAlert:jobScheduler',
+        { every: WISHLIST_ALERT_CHECK_INTERVAL },
+        { name: 'wishlistAlertJob' }
+    );
+})();
+
+(async () => {
+    await queue10.upsertJobScheduler(
+        'expiredCheckout:jobScheduler',
+        { every: EXPIRED_CHECKOUT_CHECK_INTERVAL },
+        { name: 'expiredCheckoutJob' }
+    );
+})();
+
 export async function addBirthdayJobScheduler(newCustomer: Customer) {
     const startDate =
         new Date().getFullYear() + newCustomer.birthday.toISOString().slice(4);
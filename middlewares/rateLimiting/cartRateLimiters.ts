@@ -0,0 +1,12 @@
+import rateLimit from 'express-rate-limit';
+
+export const guestCartRateLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 100,
+    message: {
+        status: 429,
+        error: 'Too many cart requests, please try again after 15 minutes.',
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
@@ -15,6 +15,8 @@ export {
 
 export { ratingUpdateRateLimiter } from './ratingRateLimiters';
 
+export { guestCartRateLimiter } from './cartRateLimiters';
+
 export {
     registerRateLimiter,
     userDeletionRateLimiter,
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+
+const MAX_MEDIA_FILES = 10;
+const MAX_MEDIA_SIZE = 20 * 1024 * 1024; // 20 MB
+const MAX_PICTURE_SIZE = 5 * 1024 * 1024; // 5 MB
+const MAX_IMPORT_SIZE = 10 * 1024 * 1024; // 10 MB
+
+// Files are kept in memory and are written by the services handling them
+const handleUpload =
+    (upload: RequestHandler) =>
+    (req: Request, res: Response, next: NextFunction): void => {
+        upload(req, res, (err: unknown) => {
+            if (err instanceof multer.MulterError) {
+                return res.status(400).json({ message: err.message });
+            }
+            if (err) {
+                return next(err);
+            }
+            next();
+        });
+    };
+
+export const uploadProductMedia = handleUpload(
+    multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: MAX_MEDIA_SIZE, files: MAX_MEDIA_FILES },
+    }).array('media', MAX_MEDIA_FILES)
+);
+
+export const uploadProfilePicture = handleUpload(
+    multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: MAX_PICTURE_SIZE, files: 1 },
+    }).single('picture')
+);
+
+export const uploadImportFile = handleUpload(
+    multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: MAX_IMPORT_SIZE, files: 1 },
+    }).single('file')
+);
@@ -1,4 +1,4 @@
-import { body, ValidationChain } from 'express-validator';
+import { body, header, param, query, ValidationChain } from 'express-validator';
 
 export const validateCartItemDetails = (): ValidationChain[] => [
     body('productId')
@@ -7,9 +7,69 @@ export const validateCartItemDetails = (): ValidationChain[] => [
         .isInt({ min: 1 })
         .withMessage('Product must be a positive number'),
 
+    body('variantId')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Variant must be a positive number'),
+
     body('quantity')
         .notEmpty()
         .withMessage('Quantity is required')
         .isInt({ min: 1 })
         .withMessage('Quantity must be a positive number'),
 ];
+
+export const validateCartItemRemoval = (): ValidationChain[] => [
+    query('variantId')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Variant must be a positive number'),
+];
+
+export const validateCartToken = (
+    required: boolean = false
+): ValidationChain[] => [
+    (required
+        ? header('x-cart-token')
+              .notEmpty()
+              .withMessage('Cart token is required')
+        : header('x-cart-token').optional()
+    )
+        .isUUID(4)
+        .withMessage('Cart token is invalid'),
+];
+
+export const validateCartRecoveryToken = (): ValidationChain[] => [
+    param('token').isUUID(4).withMessage('Recovery token is invalid'),
+];
+
+export const validateCartQuote = (): ValidationChain[] => [
+    query('shippingCountry')
+        .optional()
+        .trim()
+        .notEmpty()
+        .withMessage('Shipping country must not be empty')
+        .custom((_, { req }) => req.query!.shippingMethod !== undefined)
+        .withMessage('Shipping method is required with a shipping country'),
+
+    query('shippingMethod')
+        .optional()
+        .isIn(['standard', 'express', 'next-day'])
+        .withMessage('Shipping method must be standard, express or next-day')
+        .custom((_, { req }) => req.query!.shippingCountry !== undefined)
+        .withMessage('Shipping country is required with a shipping method'),
+
+    query('couponCode')
+        .optional()
+        .trim()
+        .notEmpty()
+        .withMessage('Coupon code must not be empty'),
+
+    query('loyaltyPoints')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Loyalty points must be a positive number')
+        .custom((value) => Number(value) % 50 === 0)
+        .withMessage('Loyalty points must be a multiple of 50')
+        .toInt(),
+];
@@ -22,6 +22,14 @@ export const validateObjectId = (value: string = 'id'): ValidationChain[] => [
         ),
 ];
 
+export const validateSlug = (value: string = 'slug'): ValidationChain[] => [
+    param(value)
+        .matches(/^[a-z\d]+(-[a-z\d]+)*$/)
+        .withMessage(
+            `${value.charAt(0).toUpperCase() + value.slice(1)} must be lowercase letters and digits separated by dashes`
+        ),
+];
+
 export const validateQuery = (value: string = 'q'): ValidationChain[] => [
     query(value)
         .trim()
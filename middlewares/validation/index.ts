@@ -7,6 +7,7 @@ export {
     validatePassword,
     validateEmail,
     validateUserUpdateDetails,
+    validateProfilePicture,
 } from './userValidations';
 
 export {
@@ -23,6 +24,31 @@ export {
     validateDiscount,
     validateCategoryUpdate,
     validateProductUpdate,
+    validateCoupon,
+    validateCouponUpdate,
+    validateProductSearch,
+    validateSearchReport,
+    validateProductOption,
+    validateProductOptionUpdate,
+    validateProductVariant,
+    validateProductVariantUpdate,
+    validateProductMedia,
+    validateProductMediaUpdate,
+    validateProductMediaOrder,
+    validateProductImport,
+    validateProductImportRow,
+    validateProductExport,
+    validatePriceChange,
+    validatePriceChangeStatus,
+    validatePriceHistory,
+    validateFlashSale,
+    validateFlashSaleStatus,
+    validateBundle,
+    validateProductComparison,
+    validateCategoryAttribute,
+    validateCategoryAttributeUpdate,
+    validateCategoryMove,
+    validateCategoryOrder,
 } from './productValidations';
 
 export {
@@ -32,14 +58,35 @@ export {
     validateProductRatingUpdate,
 } from './ratingValidations';
 
-export { validateCartItemDetails } from './cartValidations';
+export {
+    validateCartItemDetails,
+    validateCartItemRemoval,
+    validateCartToken,
+    validateCartRecoveryToken,
+    validateCartQuote,
+} from './cartValidations';
+
+export {
+    validateWishlist,
+    validateWishlistItem,
+    validateWishlistItemNote,
+    validateWishlistMoveToCart,
+    validateCartItemMoveToWishlist,
+    validateWishlistShareToken,
+} from './wishlistValidations';
 
-export { validateOrderCreation, validateOrderStatus } from './orderValidations';
+export {
+    validateOrderCreation,
+    validateOrderStatus,
+    validateShipment,
+    validateInvoiceNumber,
+} from './orderValidations';
 
 export {
     validateShippingCostDetails,
     validateShippingCountry,
     validateShippingCountryUpdate,
+    validateTaxRates,
     validateShippingCity,
     validateShippingCityUpdate,
     validateShippingMethodRate,
@@ -56,9 +103,13 @@ export {
 
 export {
     validatePurchaseData,
+    validateCheckoutDetails,
+    validateIdempotencyKey,
     validateRefundRequest,
     validateRefundRequestHandling,
     validateRefundRequestFiltering,
+    validateWalletTopUp,
+    validateBankTransferReference,
 } from './paymentValidations';
 
 export {
@@ -69,6 +120,7 @@ export {
 export {
     validateId,
     validateObjectId,
+    validateSlug,
     validateQuery,
     validateBoolean,
 } from './commonValidations';
@@ -1,4 +1,4 @@
-import { body, query, ValidationChain } from 'express-validator';
+import { body, param, query, ValidationChain } from 'express-validator';
 
 export const validateOrderCreation = (): ValidationChain[] => [
     body('items')
@@ -37,6 +37,82 @@ export const validateOrderStatus = (): ValidationChain[] => [
         .notEmpty()
         .withMessage('Status is required')
         .toLowerCase()
-        .isIn(['pending', 'delivered', 'canceled'])
-        .withMessage('Status must be either pending, delivered or canceled'),
+        .isIn([
+            'pending',
+            'processing',
+            'shipped',
+            'awaiting pickup',
+            'delivered',
+            'canceled',
+            'refunded',
+            'partially-refunded',
+        ])
+        .withMessage(
+            'Status must be either pending, processing, shipped, awaiting pickup, delivered, canceled, refunded or partially-refunded'
+        ),
+];
+
+export const validateShipment = (): ValidationChain[] => [
+    body('carrier')
+        .trim()
+        .notEmpty()
+        .withMessage('Carrier is required')
+        .isString()
+        .withMessage('Carrier must be a string'),
+
+    body('trackingNumber')
+        .trim()
+        .notEmpty()
+        .withMessage('Tracking number is required')
+        .isString()
+        .withMessage('Tracking number must be a string'),
+
+    body('packages')
+        .isArray({ min: 1 })
+        .withMessage(
+            'Packages array is required and should contain at least one package'
+        ),
+
+    body('packages.*.weight')
+        .notEmpty()
+        .withMessage('Package weight is required')
+        .isFloat({ gt: 0 })
+        .withMessage('Package weight must be a positive number'),
+
+    body(['packages.*.length', 'packages.*.width', 'packages.*.height'])
+        .optional()
+        .isFloat({ gt: 0 })
+        .withMessage('Package dimensions must be positive numbers'),
+
+    body('items')
+        .optional()
+        .isArray({ min: 1 })
+        .withMessage('Items must be an array with at least one item'),
+
+    body('items.*.productId')
+        .notEmpty()
+        .withMessage('Product ID is required')
+        .isInt({ min: 1 })
+        .withMessage('Product ID must be a positive number'),
+
+    body('items.*.variantId')
+        .optional({ values: 'null' })
+        .isInt({ min: 1 })
+        .withMessage('Variant ID must be a positive number'),
+
+    body('items.*.quantity')
+        .notEmpty()
+        .withMessage('Quantity is required')
+        .isInt({ min: 1 })
+        .withMessage('Quantity must be a positive number'),
+];
+
+export const validateInvoiceNumber = (): ValidationChain[] => [
+    param('number')
+        .trim()
+        .notEmpty()
+        .withMessage('Invoice number is required')
+        .toUpperCase()
+        .matches(/^(INV|CN)-\d{4}-\d{6}$/)
+        .withMessage('Invoice number must be in the format INV-YYYY-NNNNNN'),
 ];
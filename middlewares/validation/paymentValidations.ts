@@ -1,4 +1,4 @@
-import { body, query, ValidationChain } from 'express-validator';
+import { body, header, param, query, ValidationChain } from 'express-validator';
 
 export const validatePurchaseData = (): ValidationChain[] => [
     body('orderItems')
@@ -13,12 +13,21 @@ export const validatePurchaseData = (): ValidationChain[] => [
         .isInt({ min: 1 })
         .withMessage('Product id must be a positive number'),
 
+    body('orderItems.*.variantId')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Variant id must be a positive number'),
+
     body('orderItems.*.quantity')
         .notEmpty()
         .withMessage('Product quantity is required')
         .isInt({ min: 1 })
         .withMessage('Quantity must be a positive number'),
 
+    ...validateCheckoutDetails(),
+];
+
+export const validateCheckoutDetails = (): ValidationChain[] => [
     body('shippingCountry')
         .notEmpty()
         .withMessage('Shipping country is required')
@@ -42,8 +51,10 @@ export const validatePurchaseData = (): ValidationChain[] => [
     body('paymentMethodType')
         .notEmpty()
         .withMessage('Payment method is required')
-        .equals('card')
-        .withMessage('Payment method must be "card"'),
+        .isIn(['card', 'wallet', 'bank-transfer'])
+        .withMessage(
+            'Payment method must be either "card", "wallet" or "bank-transfer"'
+        ),
 
     body('paymentMethodId')
         .optional()
@@ -55,7 +66,49 @@ export const validatePurchaseData = (): ValidationChain[] => [
         .custom((value) => {
             return value % 50 === 0;
         })
-        .withMessage('Loyalty points must be a multiple of 50'),
+        .withMessage('Loyalty points must be a multiple of 50')
+        .custom((_, { req }) => {
+            return req.body.paymentMethodType !== 'bank-transfer';
+        })
+        .withMessage('Loyalty points cannot be redeemed with bank transfers'),
+
+    body('couponCode')
+        .optional()
+        .trim()
+        .isString()
+        .withMessage('Coupon code must be a string'),
+];
+
+export const validateIdempotencyKey = (): ValidationChain[] => [
+    header('idempotency-key')
+        .notEmpty()
+        .withMessage('Idempotency-Key header is required')
+        .isLength({ max: 255 })
+        .withMessage('Idempotency-Key must be 255 characters or less')
+        .matches(/^[\w-]+$/)
+        .withMessage(
+            'Idempotency-Key must only contain letters, digits, dashes and underscores'
+        ),
+];
+
+export const validateWalletTopUp = (): ValidationChain[] => [
+    body('amount')
+        .notEmpty()
+        .withMessage('Amount is required')
+        .isFloat({ min: 1 })
+        .withMessage('Amount must be at least 1'),
+
+    body('paymentMethodId')
+        .optional()
+        .isString()
+        .withMessage('Payment method must be a string'),
+];
+
+export const validateBankTransferReference = (): ValidationChain[] => [
+    param('reference')
+        .trim()
+        .matches(/^BT-[A-Z0-9]+$/)
+        .withMessage('Invalid bank transfer reference'),
 ];
 
 export const validateRefundRequest = (): ValidationChain[] => [
@@ -1,5 +1,8 @@
 import { body, query, ValidationChain } from 'express-validator';
 
+const SLUG = /^[a-z\d]+(-[a-z\d]+)*$/;
+const SPECIFICATION_RANGE = /^(\d+(?:\.\d+)?)?\.\.(\d+(?:\.\d+)?)?$/;
+
 export const validateCategory = (): ValidationChain[] => [
     body('name').trim().notEmpty().withMessage('Category name is required'),
 
@@ -12,9 +15,43 @@ export const validateCategory = (): ValidationChain[] => [
         .optional()
         .isInt({ min: 1 })
         .withMessage('Parent ID must be a positive number'),
+
+    body('taxClass')
+        .optional()
+        .isIn(['standard', 'reduced'])
+        .withMessage('Tax class must be either "standard" or "reduced"'),
+];
+
+const validateSlugField = (field: string): ValidationChain =>
+    body(field)
+        .optional()
+        .trim()
+        .matches(SLUG)
+        .withMessage(
+            'Slug must be lowercase letters and digits separated by dashes'
+        )
+        .isLength({ max: 80 })
+        .withMessage('Slug must be 80 characters or less');
+
+// Values are validated against the category attributes by the attribute service
+const validateSpecifications = (): ValidationChain[] => [
+    body('details.specifications')
+        .optional()
+        .isObject()
+        .withMessage(
+            'Specifications must be an object of attribute keys and values'
+        ),
 ];
 
 export const validateProduct = (): ValidationChain[] => [
+    body('details.sku')
+        .optional({ values: 'null' })
+        .trim()
+        .matches(/^[A-Za-z\d_-]{2,64}$/)
+        .withMessage(
+            'SKU must be 2 to 64 letters, digits, dashes or underscores'
+        ),
+
     body('details.name')
         .trim()
         .notEmpty()
@@ -57,6 +94,14 @@ export const validateProduct = (): ValidationChain[] => [
         .withMessage(
             'Weight must be a positive number and no more than 99.9kg'
         ),
+
+    body('details.membershipExclusive')
+        .optional()
+        .isBoolean({ strict: true })
+        .withMessage('Membership exclusive must be a boolean'),
+
+    validateSlugField('details.slug'),
+    ...validateSpecifications(),
     query('promote').optional().toBoolean(),
 ];
 
@@ -88,9 +133,24 @@ export const validateCategoryUpdate = (): ValidationChain[] => [
         .trim()
         .matches(/^[A-Za-z\s\d.,!?:"'()&%]*$/)
         .withMessage('Description must contain only valid characters'),
+
+    body('taxClass')
+        .optional()
+        .isIn(['standard', 'reduced'])
+        .withMessage('Tax class must be either "standard" or "reduced"'),
+
+    validateSlugField('slug'),
 ];
 
 export const validateProductUpdate = (): ValidationChain[] => [
+    body('details.sku')
+        .optional({ values: 'null' })
+        .trim()
+        .matches(/^[A-Za-z\d_-]{2,64}$/)
+        .withMessage(
+            'SKU must be 2 to 64 letters, digits, dashes or underscores'
+        ),
+
     body('details.name')
         .optional()
         .trim()
@@ -128,4 +188,581 @@ export const validateProductUpdate = (): ValidationChain[] => [
         .withMessage(
             'Weight must be a positive number and no more than 99.9kg'
         ),
+
+    body('details.membershipExclusive')
+        .optional()
+        .isBoolean({ strict: true })
+        .withMessage('Membership exclusive must be a boolean'),
+
+    validateSlugField('details.slug'),
+    ...validateSpecifications(),
+];
+
+const validateCouponRules = (): ValidationChain[] => [
+    body('value')
+        .optional({ values: 'null' })
+        .isFloat({ min: 0.01 })
+        .withMessage('Value must be a positive number'),
+
+    body('buyQuantity')
+        .optional({ values: 'null' })
+        .isInt({ min: 1 })
+        .withMessage('Buy quantity must be a positive number'),
+
+    body('getQuantity')
+        .optional({ values: 'null' })
+        .isInt({ min: 1 })
+        .withMessage('Get quantity must be a positive number'),
+
+    body('minBasket')
+        .optional({ values: 'null' })
+        .isFloat({ min: 0 })
+        .withMessage('Minimum basket must be a positive number'),
+
+    body(['productIds', 'categoryIds'])
+        .optional({ values: 'null' })
+        .isArray({ min: 1 })
+        .withMessage('Product and category ids must be non-empty arrays'),
+
+    body(['productIds.*', 'categoryIds.*'])
+        .isInt({ min: 1 })
+        .withMessage('Product and category ids must be positive numbers'),
+
+    body(['usageLimit', 'usageLimitPerCustomer'])
+        .optional({ values: 'null' })
+        .isInt({ min: 1 })
+        .withMessage('Usage limits must be positive numbers'),
+
+    body(['startsAt', 'expiresAt'])
+        .optional({ values: 'null' })
+        .isISO8601()
+        .withMessage('Validity dates must be valid dates')
+        .toDate(),
+
+    body('expiresAt')
+        .optional({ values: 'null' })
+        .custom((value, { req }) => {
+            return !req.body.startsAt || value > req.body.startsAt;
+        })
+        .withMessage('Expiration date must be after the start date'),
+];
+
+export const validateCoupon = (): ValidationChain[] => [
+    body('code')
+        .trim()
+        .notEmpty()
+        .withMessage('Coupon code is required')
+        .matches(/^[A-Za-z\d_-]{3,32}$/)
+        .withMessage(
+            'Coupon code must be 3 to 32 letters, digits, dashes or underscores'
+        ),
+
+    body('type')
+        .notEmpty()
+        .withMessage('Coupon type is required')
+        .isIn(['percent', 'fixed', 'free-shipping', 'buy-x-get-y'])
+        .withMessage(
+            'Coupon type must be either "percent", "fixed", "free-shipping" or "buy-x-get-y"'
+        )
+        .custom((type, { req }) => {
+            switch (type) {
+                case 'percent':
+                    return req.body.value > 0 && req.body.value <= 100;
+                case 'fixed':
+                    return req.body.value > 0;
+                case 'buy-x-get-y':
+                    return req.body.buyQuantity && req.body.getQuantity;
+                default:
+                    return true;
+            }
+        })
+        .withMessage(
+            'Percent coupons need a value up to 100, fixed coupons a value and buy-x-get-y coupons both quantities'
+        ),
+
+    ...validateCouponRules(),
+];
+
+export const validateCouponUpdate = (): ValidationChain[] =>
+    validateCouponRules();
+
+export const validateProductSearch = (): ValidationChain[] => [
+    query('q')
+        .optional()
+        .trim()
+        .isLength({ max: 64 })
+        .withMessage('Q must be 64 characters or less'),
+
+    query('categoryId')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Category ID must be a positive number')
+        .toInt(),
+
+    query(['minPrice', 'maxPrice'])
+        .optional()
+        .isFloat({ min: 0 })
+        .withMessage('Price filters must be positive numbers')
+        .toFloat(),
+
+    query('minRating')
+        .optional()
+        .isFloat({ min: 1, max: 5 })
+        .withMessage('Minimum rating must be a number between 1 and 5')
+        .toFloat(),
+
+    query(['inStock', 'discounted', 'membershipExclusive'])
+        .optional()
+        .isBoolean()
+        .withMessage('Boolean filters must be either true or false')
+        .toBoolean(),
+
+    query('sort')
+        .optional()
+        .isIn(['relevance', 'price-asc', 'price-desc', 'newest', 'popularity'])
+        .withMessage(
+            'Sort must be either relevance, price-asc, price-desc, newest or popularity'
+        ),
+
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be a number between 1 and 100')
+        .toInt(),
+
+    query('cursor')
+        .optional()
+        .isBase64({ urlSafe: true })
+        .withMessage('Cursor is invalid'),
+
+    // e.g. specs[brand]=Dell,HP or specs[ram]=8..32
+    query('specs')
+        .optional()
+        .isObject()
+        .withMessage('Specification filters must be attribute keys and values')
+        .custom((specs: Record<string, unknown>) =>
+            Object.values(specs).every(
+                (value) => typeof value === 'string' && value.trim() !== ''
+            )
+        )
+        .withMessage('Specification filters must be non-empty strings')
+        .customSanitizer((specs: Record<string, string>) =>
+            Object.fromEntries(
+                Object.entries(specs).map(([key, value]) => {
+                    const range = value.match(SPECIFICATION_RANGE);
+
+                    return [
+                        key,
+                        range
+                            ? {
+                                  min: range[1] ? Number(range[1]) : undefined,
+                                  max: range[2] ? Number(range[2]) : undefined,
+                              }
+                            : value.split(',').map((option) => option.trim()),
+                    ];
+                })
+            )
+        ),
+];
+
+export const validateProductComparison = (): ValidationChain[] => [
+    query('ids')
+        .matches(/^\d+(,\d+){1,3}$/)
+        .withMessage('Ids must be 2 to 4 comma-separated product ids')
+        .customSanitizer((ids: string) => ids.split(',').map(Number)),
+];
+
+export const validateSearchReport = (): ValidationChain[] => [
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be a number between 1 and 100')
+        .toInt(),
+];
+
+const validateOptionValues = (): ValidationChain[] => [
+    body('values.*')
+        .isString()
+        .withMessage('Option values must be strings')
+        .trim()
+        .notEmpty()
+        .withMessage('Option values must not be empty')
+        .isLength({ max: 64 })
+        .withMessage('Option values must be 64 characters or less'),
+
+    body('position')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Position must be a positive number'),
+];
+
+export const validateProductOption = (): ValidationChain[] => [
+    body('name')
+        .trim()
+        .notEmpty()
+        .withMessage('Option name is required')
+        .matches(/^[A-Za-z\s\d&-]{1,32}$/)
+        .withMessage('Option name must be up to 32 valid characters'),
+
+    body('values')
+        .isArray({ min: 1 })
+        .withMessage('Option values must be an array with at least one value'),
+
+    ...validateOptionValues(),
+];
+
+export const validateProductOptionUpdate = (): ValidationChain[] => [
+    body('values')
+        .optional()
+        .isArray({ min: 1 })
+        .withMessage('Option values must be an array with at least one value'),
+
+    ...validateOptionValues(),
+];
+
+const validateVariantRules = (): ValidationChain[] => [
+    body('options')
+        .optional()
+        .isObject()
+        .withMessage('Options must be an object of option names and values')
+        .custom((options: Record<string, unknown>) =>
+            Object.values(options).every(
+                (value) => typeof value === 'string' && value.trim() !== ''
+            )
+        )
+        .withMessage('Option values must be non-empty strings'),
+
+    body('price')
+        .optional({ values: 'null' })
+        .isFloat({ min: 0.25 })
+        .withMessage('Price must be no less than 0.25 cents'),
+
+    body('weight')
+        .optional({ values: 'null' })
+        .isFloat({ min: 0.1, max: 99.9 })
+        .withMessage(
+            'Weight must be a positive number and no more than 99.9kg'
+        ),
+
+    body('stockQuantity')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Stock quantity must be a positive number'),
+
+    body('imageUrl').optional({ values: 'null' }).trim(),
+];
+
+export const validateProductVariant = (): ValidationChain[] => [
+    body('sku')
+        .trim()
+        .notEmpty()
+        .withMessage('SKU is required')
+        .matches(/^[A-Za-z\d_-]{2,64}$/)
+        .withMessage(
+            'SKU must be 2 to 64 letters, digits, dashes or underscores'
+        ),
+
+    body('options').notEmpty().withMessage('Options are required'),
+
+    ...validateVariantRules(),
+];
+
+export const validateProductVariantUpdate = (): ValidationChain[] => [
+    body('sku')
+        .optional()
+        .trim()
+        .matches(/^[A-Za-z\d_-]{2,64}$/)
+        .withMessage(
+            'SKU must be 2 to 64 letters, digits, dashes or underscores'
+        ),
+
+    ...validateVariantRules(),
+];
+
+export const validateProductMedia = (): ValidationChain[] => [
+    body('altTexts').optional().toArray(),
+
+    body('altTexts.*')
+        .trim()
+        .isLength({ max: 255 })
+        .withMessage('Alt text must be no more than 255 characters long'),
+];
+
+export const validateProductMediaUpdate = (): ValidationChain[] => [
+    body('altText')
+        .optional({ values: 'null' })
+        .trim()
+        .isLength({ max: 255 })
+        .withMessage('Alt text must be no more than 255 characters long'),
+];
+
+export const validateProductMediaOrder = (): ValidationChain[] => [
+    body('mediaIds')
+        .isArray({ min: 1 })
+        .withMessage('Media ids must be a non-empty array'),
+
+    body('mediaIds.*')
+        .isInt({ min: 1 })
+        .withMessage('Each media id must be a positive number')
+        .toInt(),
+];
+
+export const validateProductImport = (): ValidationChain[] => [
+    query('dryRun').optional().isBoolean().toBoolean(),
+];
+
+// Runs against each imported row, wrapped in `details` like a product creation body
+export const validateProductImportRow = (): ValidationChain[] => [
+    body('details.sku').trim().notEmpty().withMessage('SKU is required'),
+
+    body('details.categoryPath')
+        .if(body('details.categoryId').not().exists())
+        .trim()
+        .notEmpty()
+        .withMessage('Category path or category ID is required'),
+
+    body('details.categoryId')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Category ID must be a positive number')
+        .toInt(),
+
+    body('details.currency')
+        .optional()
+        .trim()
+        .toLowerCase()
+        .isLength({ min: 3, max: 3 })
+        .withMessage('Currency must be a 3-letter code'),
+
+    ...validateProduct(),
+];
+
+export const validateProductExport = (): ValidationChain[] => [
+    query('format')
+        .optional()
+        .isIn(['csv', 'json'])
+        .withMessage('Format must be either "csv" or "json"'),
+];
+
+export const validatePriceChange = (): ValidationChain[] => [
+    body('price')
+        .optional({ values: 'null' })
+        .isFloat({ min: 0.25 })
+        .withMessage('Price must be no less than 0.25 cents'),
+
+    body('discount')
+        .optional({ values: 'null' })
+        .isInt({ min: 0, max: 100 })
+        .withMessage('Discount must be a number between 0 and 100'),
+
+    body()
+        .custom(
+            ({ price, discount }) =>
+                (price !== undefined && price !== null) ||
+                (discount !== undefined && discount !== null)
+        )
+        .withMessage('Price or discount is required'),
+
+    body('startsAt')
+        .isISO8601()
+        .withMessage('Start must be a valid date')
+        .toDate(),
+
+    body('endsAt')
+        .optional({ values: 'null' })
+        .isISO8601()
+        .withMessage('End must be a valid date')
+        .toDate(),
+];
+
+export const validatePriceChangeStatus = (): ValidationChain[] => [
+    query('status')
+        .optional()
+        .isIn(['scheduled', 'active', 'completed', 'cancelled'])
+        .withMessage(
+            'Status must be one of: scheduled, active, completed, cancelled'
+        ),
+];
+
+export const validatePriceHistory = (): ValidationChain[] => [
+    query('days')
+        .optional()
+        .isInt({ min: 1, max: 365 })
+        .withMessage('Days must be a number between 1 and 365')
+        .toInt(),
+];
+
+export const validateFlashSale = (): ValidationChain[] => [
+    body('name')
+        .trim()
+        .notEmpty()
+        .withMessage('Flash sale name is required')
+        .isLength({ max: 100 })
+        .withMessage('Flash sale name must be 100 characters or less'),
+
+    body('productIds')
+        .isArray({ min: 1 })
+        .withMessage('Product ids must be a non-empty array'),
+
+    body('productIds.*')
+        .isInt({ min: 1 })
+        .withMessage('Product ids must be positive numbers')
+        .toInt(),
+
+    body('discount')
+        .isInt({ min: 1, max: 99 })
+        .withMessage('Discount must be a number between 1 and 99'),
+
+    body(['startsAt', 'endsAt'])
+        .isISO8601()
+        .withMessage('Flash sale dates must be valid dates')
+        .toDate(),
+
+    body('quantityLimit')
+        .isInt({ min: 1 })
+        .withMessage('Quantity limit must be a positive number'),
+
+    body('perCustomerLimit')
+        .optional({ values: 'null' })
+        .isInt({ min: 1 })
+        .withMessage('Limit per customer must be a positive number'),
+];
+
+export const validateFlashSaleStatus = (): ValidationChain[] => [
+    query('status')
+        .optional()
+        .isIn(['scheduled', 'active', 'ended', 'cancelled'])
+        .withMessage(
+            'Status must be one of: scheduled, active, ended, cancelled'
+        ),
+];
+
+export const validateBundle = (): ValidationChain[] => [
+    body('components')
+        .isArray({ min: 1, max: 20 })
+        .withMessage('Components must be an array of 1 to 20 products'),
+
+    body('components.*.productId')
+        .isInt({ min: 1 })
+        .withMessage('Component product ids must be positive numbers')
+        .toInt(),
+
+    body('components.*.variantId')
+        .optional({ values: 'null' })
+        .isInt({ min: 1 })
+        .withMessage('Component variant ids must be positive numbers')
+        .toInt(),
+
+    body('components.*.quantity')
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Component quantities must be numbers between 1 and 100')
+        .toInt(),
+];
+
+const validateAttributeRules = (): ValidationChain[] => [
+    body('unit')
+        .optional({ values: 'null' })
+        .trim()
+        .isLength({ min: 1, max: 16 })
+        .withMessage('Unit must be 1 to 16 characters long'),
+
+    body('options')
+        .optional({ values: 'null' })
+        .isArray({ min: 1, max: 100 })
+        .withMessage('Options must be an array of 1 to 100 values'),
+
+    body('options.*')
+        .isString()
+        .withMessage('Options must be strings')
+        .trim()
+        .notEmpty()
+        .withMessage('Options must not be empty')
+        .isLength({ max: 64 })
+        .withMessage('Options must be 64 characters or less'),
+
+    body(['required', 'filterable'])
+        .optional()
+        .isBoolean({ strict: true })
+        .withMessage('Required and filterable must be booleans'),
+
+    body('position')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Position must be a positive number'),
+];
+
+export const validateCategoryAttribute = (): ValidationChain[] => [
+    body('key')
+        .trim()
+        .matches(/^[a-z\d]+(-[a-z\d]+)*$/)
+        .withMessage(
+            'Key must be lowercase letters and digits separated by dashes'
+        )
+        .isLength({ max: 32 })
+        .withMessage('Key must be 32 characters or less'),
+
+    body('name')
+        .trim()
+        .notEmpty()
+        .withMessage('Attribute name is required')
+        .isLength({ max: 64 })
+        .withMessage('Attribute name must be 64 characters or less'),
+
+    body('type')
+        .isIn(['number', 'text', 'boolean', 'enum'])
+        .withMessage('Type must be one of: number, text, boolean, enum'),
+
+    body('options')
+        .if(body('type').equals('enum'))
+        .exists({ values: 'null' })
+        .withMessage('Options are required for enum attributes'),
+
+    ...validateAttributeRules(),
+];
+
+export const validateCategoryAttributeUpdate = (): ValidationChain[] => [
+    body('name')
+        .optional()
+        .trim()
+        .notEmpty()
+        .withMessage('Attribute name must not be empty')
+        .isLength({ max: 64 })
+        .withMessage('Attribute name must be 64 characters or less'),
+
+    ...validateAttributeRules(),
+];
+
+export const validateCategoryMove = (): ValidationChain[] => [
+    body('parentId')
+        .exists()
+        .withMessage('Parent ID is required')
+        .custom(
+            (parentId: unknown) =>
+                parentId === null ||
+                (Number.isInteger(parentId) && (parentId as number) > 0)
+        )
+        .withMessage('Parent ID must be a positive number or null'),
+
+    body('position')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('Position must be a positive number')
+        .toInt(),
+];
+
+export const validateCategoryOrder = (): ValidationChain[] => [
+    body('parentId')
+        .optional({ values: 'null' })
+        .isInt({ min: 1 })
+        .withMessage('Parent ID must be a positive number or null')
+        .toInt(),
+
+    body('categoryIds')
+        .isArray({ min: 1 })
+        .withMessage('Category ids must be a non-empty array'),
+
+    body('categoryIds.*')
+        .isInt({ min: 1 })
+        .withMessage('Each category id must be a positive number')
+        .toInt(),
 ];
@@ -52,6 +52,25 @@ export const validateShippingCountryUpdate = (): ValidationChain[] => [
         ),
 ];
 
+export const validateTaxRates = (): ValidationChain[] => [
+    body('vatRate')
+        .notEmpty()
+        .withMessage('VAT rate is required')
+        .isFloat({ min: 0, max: 50 })
+        .withMessage('VAT rate must be a number between 0 and 50'),
+
+    body('reducedVatRate')
+        .optional({ values: 'null' })
+        .isFloat({ min: 0, max: 50 })
+        .withMessage('Reduced VAT rate must be a number between 0 and 50'),
+
+    body('pricesIncludeTax')
+        .optional()
+        .isBoolean()
+        .withMessage('Prices include tax must be a boolean')
+        .toBoolean(),
+];
+
 export const validateShippingCity = (): ValidationChain[] => [
     body('name')
         .trim()
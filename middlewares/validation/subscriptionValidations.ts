@@ -32,6 +32,11 @@ export const validateReplenishment = (): ValidationChain[] => [
         .isInt({ min: 1 })
         .withMessage('Product ID must be a positive number'),
 
+    body('data.orderItems.*.variantId')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Variant id must be a positive number'),
+
     body('data.orderItems.*.quantity')
         .notEmpty()
         .withMessage('Quantity is required')
@@ -41,6 +41,15 @@ export const validateCustomerDetails = (): ValidationChain[] => [
         .withMessage(
             'Billing address must contain only letters, numbers, dots, commas, or hyphens'
         ),
+
+    body('details.vatId')
+        .optional({ values: 'null' })
+        .trim()
+        .toUpperCase()
+        .matches(/^[A-Z]{2}[A-Z\d]{2,12}$/)
+        .withMessage(
+            'VAT ID must start with a country code followed by 2 to 12 letters or digits'
+        ),
 ];
 
 export const validateLogIn = (): ValidationChain[] => [
@@ -192,3 +201,11 @@ export const validateUserUpdateDetails = (): ValidationChain[] => [
             'Last name must contain only letters, spaces, or apostrophes'
         ),
 ];
+
+export const validateProfilePicture = (): ValidationChain[] => [
+    body('altText')
+        .optional()
+        .trim()
+        .isLength({ max: 255 })
+        .withMessage('Alt text must be no more than 255 characters long'),
+];
@@ -0,0 +1,62 @@
+import { body, param, query, ValidationChain } from 'express-validator';
+
+export const validateWishlist = (): ValidationChain[] => [
+    body('name')
+        .trim()
+        .notEmpty()
+        .withMessage('Name is required')
+        .isLength({ max: 64 })
+        .withMessage('Name must be 64 characters or less'),
+];
+
+export const validateWishlistItem = (): ValidationChain[] => [
+    body('productId')
+        .notEmpty()
+        .withMessage('Product is required')
+        .isInt({ min: 1 })
+        .withMessage('Product must be a positive number'),
+
+    body('variantId')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Variant must be a positive number'),
+
+    body('note')
+        .optional()
+        .trim()
+        .isLength({ max: 500 })
+        .withMessage('Note must be 500 characters or less'),
+];
+
+export const validateWishlistItemNote = (): ValidationChain[] => [
+    body('note')
+        .custom(
+            (value) =>
+                value === null ||
+                (typeof value === 'string' && value.trim().length <= 500)
+        )
+        .withMessage('Note must be null or 500 characters or less'),
+];
+
+export const validateWishlistMoveToCart = (): ValidationChain[] => [
+    body('quantity')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Quantity must be a positive number'),
+];
+
+export const validateCartItemMoveToWishlist = (): ValidationChain[] => [
+    query('variantId')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Variant must be a positive number'),
+
+    body('wishlistId')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Wishlist must be a positive number'),
+];
+
+export const validateWishlistShareToken = (): ValidationChain[] => [
+    param('token').isUUID(4).withMessage('Share token is invalid'),
+];
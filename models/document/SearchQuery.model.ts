@@ -0,0 +1,25 @@
+import { mongoose } from '@/config/db';
+const { Schema, model } = mongoose;
+
+export interface ISearchQuery {
+    query: string; // Trimmed and lowercased
+    count: number;
+    zeroResultCount: number;
+    lastResultCount: number;
+    lastSearchedAt: Date;
+}
+
+const searchQuerySchema = new Schema<ISearchQuery>({
+    query: { type: String, required: true, unique: true },
+    count: { type: Number, default: 0 },
+    zeroResultCount: { type: Number, default: 0 },
+    lastResultCount: { type: Number, default: 0 },
+    lastSearchedAt: { type: Date, default: Date.now },
+});
+
+searchQuerySchema.index({ count: -1 });
+searchQuerySchema.index({ zeroResultCount: -1 });
+
+const SearchQuery = model<ISearchQuery>('SearchQuery', searchQuerySchema);
+
+export default SearchQuery;
@@ -8,6 +8,7 @@ import Membership from './Membership.model';
 import PlatformData from './PlatformData.model';
 import PlatformLog from './PlatformLog.model';
 import Holiday from './Holiday.model';
+import SearchQuery, { ISearchQuery } from './SearchQuery.model';
 
 export {
     ShippingMethod,
@@ -25,4 +26,6 @@ export {
     PlatformData,
     PlatformLog,
     Holiday,
+    SearchQuery,
+    ISearchQuery,
 };
@@ -0,0 +1,125 @@
+import { DataTypes, Model, Op } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+    NonAttribute,
+    Transaction,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Product } from './Product.model';
+import { ProductVariant } from './ProductVariant.model';
+import { SearchOutbox } from './SearchOutbox.model';
+
+export class BundleComponent extends Model<
+    InferAttributes<BundleComponent>,
+    InferCreationAttributes<BundleComponent>
+> {
+    declare id: CreationOptional<number>;
+    declare bundleId: ForeignKey<Product['id']>;
+    declare productId: ForeignKey<Product['id']>;
+    declare variantId: ForeignKey<ProductVariant['id'] | null>;
+    declare quantity: number; // Units of the component in one bundle
+    declare product?: NonAttribute<Product | null>;
+    declare variant?: NonAttribute<ProductVariant | null>;
+
+    /**
+     * Derives the stock and weight of the bundles of products from their components.
+     *
+     * @remarks
+     * A bundle is in stock as many times as its scarcest component
+     * and weighs as much as all of its components together.
+     *
+     * @param productIds - The ids of bundles or of their components
+     * @param [transaction] - The transaction of the change
+     */
+    static async syncBundles(
+        productIds: number[],
+        transaction?: Transaction | null
+    ): Promise<void> {
+        const bundleIds = await BundleComponent.findAll({
+            attributes: ['bundleId'],
+            where: {
+                [Op.or]: [{ bundleId: productIds }, { productId: productIds }],
+            },
+            transaction,
+        }).then((components) => [
+            ...new Set(components.map(({ bundleId }) => bundleId)),
+        ]);
+
+        if (!bundleIds.length) return;
+
+        const components = await BundleComponent.findAll({
+            where: { bundleId: bundleIds },
+            include: [
+                {
+                    model: Product,
+                    as: 'product',
+                    attributes: ['id', 'stockQuantity', 'weight'],
+                },
+                {
+                    model: ProductVariant,
+                    as: 'variant',
+                    attributes: ['id', 'stockQuantity', 'weight'],
+                },
+            ],
+            transaction,
+        });
+
+        for (const bundleId of bundleIds) {
+            const bundleComponents = components.filter(
+                (component) => component.bundleId === bundleId
+            );
+
+            await Product.update(
+                {
+                    stockQuantity: Math.max(
+                        Math.min(
+                            ...bundleComponents.map(
+                                ({ product, variant, quantity }) =>
+                                    Math.floor(
+                                        (variant?.stockQuantity ??
+                                            product?.stockQuantity ??
+                                            0) / quantity
+                                    )
+                            )
+                        ),
+                        0
+                    ),
+                    weight: bundleComponents.reduce(
+                        (acc, { product, variant, quantity }) =>
+                            acc +
+                            (variant?.weight ?? product?.weight ?? 0) *
+                                quantity,
+                        0
+                    ),
+                },
+                { where: { id: bundleId }, transaction }
+            );
+        }
+
+        await SearchOutbox.record(bundleIds, transaction);
+    }
+}
+
+BundleComponent.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        quantity: { type: DataTypes.INTEGER, allowNull: false },
+    },
+    {
+        sequelize,
+        tableName: 'bundle_components',
+        timestamps: false,
+        indexes: [{ fields: ['bundleId'] }, { fields: ['productId'] }],
+    }
+);
+
+// Bundles follow the stock and weight of their components. Stock that is
+// changed in bulk by the inventory service is synced there.
+Product.afterUpdate(async (product, options) => {
+    if (product.changed('stockQuantity') || product.changed('weight')) {
+        await BundleComponent.syncBundles([product.id], options.transaction);
+    }
+});
@@ -1,41 +1,77 @@
 import { DataTypes, BelongsToManyGetAssociationsMixin, Model } from 'sequelize';
+import type { Transaction } from 'sequelize';
 import { sequelize } from '../../config/db';
 import { Product } from './Product.model';
+import { ProductVariant } from './ProductVariant.model';
 import { Customer } from './Customer.model';
+import { discountedPrice } from './price';
 
 interface CartAttributes {
     id?: number;
     customerId?: number;
+    lastActivityAt?: Date;
+    checkedOutAt?: Date | null;
+    recoveryEmailsSent?: number;
+    recoveryToken?: string | null;
 }
 
 interface CartItemAttributes {
+    id?: number;
     cartId?: number;
     productId?: number;
+    variantId?: number | null;
     quantity: number;
+    addedPrice?: number | null;
+    addedDiscount?: number | null;
+    lastActivityAt?: Date;
 }
 
 export class Cart extends Model<CartAttributes> implements CartAttributes {
     declare id?: number;
     declare customerId?: number;
+    declare lastActivityAt?: Date;
+    declare checkedOutAt?: Date | null;
+    declare recoveryEmailsSent?: number; // Abandoned cart emails sent since the last activity
+    declare recoveryToken?: string | null; // Identifies the cart in its restore links
     declare getProducts: BelongsToManyGetAssociationsMixin<Product>;
 
+    /**
+     * Marks the cart of a customer as checked out, which stops its abandoned cart emails.
+     *
+     * @param customerId - The id of the customer
+     * @param [transaction] - The transaction of the checkout
+     */
+    public static async markCheckedOut(
+        customerId: number,
+        transaction?: Transaction
+    ): Promise<void> {
+        await Cart.update(
+            { checkedOutAt: new Date() },
+            { where: { customerId }, transaction }
+        );
+    }
+
     public async getItems(): Promise<CartItem[]> {
         return await CartItem.findAll({ where: { cartId: this.id } });
     }
 
     public async getTotalPrice(): Promise<number> {
-        const cartItems: Array<CartItem> = await this.getItems();
-
-        const products = await this.getProducts();
-
-        const productPriceMap: Record<number, number> = {};
-        products.forEach((product) => {
-            productPriceMap[product.id!] = product.price;
+        const cartItems = await CartItem.findAll({
+            where: { cartId: this.id },
+            include: [
+                {
+                    model: Product,
+                    as: 'product',
+                    attributes: ['price', 'discount'],
+                },
+                { model: ProductVariant, as: 'variant', attributes: ['price'] },
+            ],
         });
 
         const totalPrice = cartItems.reduce((acc, item) => {
-            const price = productPriceMap[item.productId!] || 0;
-            return acc + price * item.quantity;
+            const price = item.variant?.price ?? item.product?.price ?? 0;
+            const discount = item.product?.discount ?? 0;
+            return acc + discountedPrice(price, discount) * item.quantity;
         }, 0);
 
         return totalPrice;
@@ -50,21 +86,55 @@ Cart.init(
             unique: true,
             references: { model: Customer, key: 'id' },
         },
+        lastActivityAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+        },
+        checkedOutAt: DataTypes.DATE,
+        recoveryEmailsSent: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        recoveryToken: { type: DataTypes.STRING, unique: true },
     },
-    { sequelize, modelName: 'Cart', tableName: 'carts' }
+    {
+        sequelize,
+        modelName: 'Cart',
+        tableName: 'carts',
+        indexes: [{ fields: ['lastActivityAt'] }],
+    }
 );
 
 export class CartItem
     extends Model<CartItemAttributes>
     implements CartItemAttributes
 {
+    declare id?: number;
     declare cartId?: number;
     declare productId?: number;
+    declare variantId?: number | null;
     declare quantity: number;
+    declare addedPrice?: number | null; // Price and discount when the item was last added, to detect changes
+    declare addedDiscount?: number | null;
+    declare lastActivityAt?: Date;
+    declare product?: Product;
+    declare variant?: ProductVariant | null;
 }
 
 CartItem.init(
-    { quantity: { type: DataTypes.INTEGER, defaultValue: 1 } },
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        quantity: { type: DataTypes.INTEGER, defaultValue: 1 },
+        addedPrice: DataTypes.FLOAT,
+        addedDiscount: DataTypes.FLOAT,
+        lastActivityAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+        },
+    },
     {
         sequelize,
         modelName: 'CartItem',
@@ -72,3 +142,21 @@ CartItem.init(
         timestamps: false,
     }
 );
+
+CartItem.beforeSave((item) => {
+    item.lastActivityAt = new Date();
+});
+
+// Any change of the items restarts the abandoned cart email sequence
+const touchCart = async (
+    item: CartItem,
+    options: { transaction?: Transaction | null }
+): Promise<void> => {
+    await Cart.update(
+        { lastActivityAt: new Date(), recoveryEmailsSent: 0 },
+        { where: { id: item.cartId }, transaction: options.transaction }
+    );
+};
+
+CartItem.afterSave(touchCart);
+CartItem.afterDestroy(touchCart);
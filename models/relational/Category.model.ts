@@ -1,13 +1,19 @@
 import { DataTypes, Model, BelongsToManyGetAssociationsMixin } from 'sequelize';
+import type { Transaction } from 'sequelize';
 import { sequelize } from '../../config/db';
 import { Product } from './Product.model';
+import { SearchOutbox } from './SearchOutbox.model';
+import { uniqueSlug } from './slug';
 
 interface CategoryAttributes {
     id?: number;
     name: string;
+    slug?: string | null;
     description: string;
     hasProducts?: boolean;
     parentId: number | null;
+    position?: number;
+    taxClass?: 'standard' | 'reduced';
 }
 
 export class Category
@@ -16,10 +22,85 @@ export class Category
 {
     declare id?: number;
     declare name: string;
+    declare slug?: string | null; // Generated from the name on creation
     declare description: string;
     declare hasProducts?: boolean;
     declare parentId: number | null;
+    declare position?: number; // Order among the siblings
+    declare taxClass?: 'standard' | 'reduced'; // Selects the VAT rate of the shipping country
     declare getProducts: BelongsToManyGetAssociationsMixin<Product>;
+
+    /**
+     * Loads the parent of every category.
+     *
+     * @param [transaction] - The transaction of the operation
+     * @param [lock] - Whether to lock every category for the transaction
+     * @returns A promise resolving to the parent ids by category id
+     */
+    static async findParentIds(
+        transaction?: Transaction | null,
+        lock = false
+    ): Promise<Map<number, number | null>> {
+        const categories = await Category.findAll({
+            attributes: ['id', 'parentId'],
+            lock: lock ? transaction?.LOCK.UPDATE : undefined,
+            transaction,
+        });
+
+        return new Map(
+            categories.map((category) => [category.id!, category.parentId])
+        );
+    }
+
+    /**
+     * Resolves the path of a category from the parent ids.
+     *
+     * @param categoryId - The id of the category
+     * @param parentIds - The parent ids by category id
+     * @returns The category id followed by the ids of its ancestors
+     */
+    static pathOf(
+        categoryId: number,
+        parentIds: Map<number, number | null>
+    ): number[] {
+        const path: number[] = [];
+        let id: number | null | undefined = categoryId;
+
+        while (id && !path.includes(id)) {
+            path.push(id);
+            id = parentIds.get(id);
+        }
+
+        return path;
+    }
+
+    /**
+     * Resolves the subcategories of a category at any depth from the parent ids.
+     *
+     * @param categoryId - The id of the category
+     * @param parentIds - The parent ids by category id
+     * @returns The ids of the descendants of the category
+     */
+    static descendantsOf(
+        categoryId: number,
+        parentIds: Map<number, number | null>
+    ): number[] {
+        const descendants: number[] = [];
+        const queue = [categoryId];
+
+        while (queue.length) {
+            const id = queue.shift()!;
+
+            parentIds.forEach((parentId, childId) => {
+                if (parentId === id && !descendants.includes(childId)) {
+                    descendants.push(childId);
+                    queue.push(childId);
+                }
+            });
+        }
+
+        return descendants;
+    }
 }
 
 Category.init(
@@ -33,6 +114,10 @@ Category.init(
             type: DataTypes.STRING,
             allowNull: false,
         },
+        slug: {
+            type: DataTypes.STRING,
+            unique: true,
+        },
         description: {
             type: DataTypes.STRING,
             allowNull: false,
@@ -49,6 +134,15 @@ Category.init(
                 key: 'id',
             },
         },
+        position: {
+            type: DataTypes.INTEGER,
+            defaultValue: 0,
+        },
+        taxClass: {
+            type: DataTypes.ENUM('standard', 'reduced'),
+            allowNull: false,
+            defaultValue: 'standard',
+        },
     },
     {
         sequelize,
@@ -58,9 +152,38 @@ Category.init(
     }
 );
 
+// The bulk destroy skips the product hooks, so the outbox entries are recorded here
 Category.beforeDestroy(async ({ id }, options) => {
+    const products = await Product.findAll({
+        where: { categoryId: id },
+        attributes: ['id'],
+        transaction: options.transaction,
+    });
+
     await Product.destroy({
         where: { categoryId: id },
         transaction: options.transaction,
     });
+    await SearchOutbox.record(
+        products.map((product) => product.id),
+        options.transaction
+    );
+});
+
+// New categories get a slug and are placed after their siblings
+Category.beforeCreate(async (category, options) => {
+    if (!category.slug) {
+        category.slug = await uniqueSlug(
+            Category,
+            category.name,
+            options.transaction
+        );
+    }
+
+    const last: number | null = await Category.max('position', {
+        where: { parentId: category.parentId ?? null },
+        transaction: options.transaction,
+    });
+
+    category.position = last === null ? 0 : last + 1;
 });
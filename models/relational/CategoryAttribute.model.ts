@@ -0,0 +1,53 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Category } from './Category.model';
+
+export type AttributeType = 'number' | 'text' | 'boolean' | 'enum';
+
+// Attribute key to value, as stored in the specifications of products
+export type Specifications = Record<string, number | string | boolean>;
+
+export class CategoryAttribute extends Model<
+    InferAttributes<CategoryAttribute>,
+    InferCreationAttributes<CategoryAttribute>
+> {
+    declare id: CreationOptional<number>;
+    declare categoryId: ForeignKey<Category['id']>;
+    declare key: string; // e.g. "ram" or "screen-size"
+    declare name: string; // e.g. "RAM" or "Screen size"
+    declare type: AttributeType;
+    declare unit: CreationOptional<string | null>; // e.g. "GB" or "in"
+    declare options: CreationOptional<string[] | null>; // Values of enum attributes
+    declare required: CreationOptional<boolean>;
+    declare filterable: CreationOptional<boolean>; // Faceted in product searches
+    declare position: CreationOptional<number>;
+}
+
+CategoryAttribute.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        key: { type: DataTypes.STRING, allowNull: false },
+        name: { type: DataTypes.STRING, allowNull: false },
+        type: {
+            type: DataTypes.ENUM('number', 'text', 'boolean', 'enum'),
+            allowNull: false,
+        },
+        unit: DataTypes.STRING,
+        options: DataTypes.JSON,
+        required: { type: DataTypes.BOOLEAN, defaultValue: false },
+        filterable: { type: DataTypes.BOOLEAN, defaultValue: false },
+        position: { type: DataTypes.INTEGER, defaultValue: 0 },
+    },
+    {
+        sequelize,
+        tableName: 'category_attributes',
+        timestamps: false,
+        indexes: [{ unique: true, fields: ['categoryId', 'key'] }],
+    }
+);
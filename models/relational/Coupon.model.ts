@@ -0,0 +1,103 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Customer } from './Customer.model';
+
+export type CouponType = 'percent' | 'fixed' | 'free-shipping' | 'buy-x-get-y';
+
+export class Coupon extends Model<
+    InferAttributes<Coupon>,
+    InferCreationAttributes<Coupon>
+> {
+    declare id: CreationOptional<number>;
+    declare code: string;
+    declare type: CouponType;
+    declare value: CreationOptional<number | null>; // Percentage or amount, depending on the type
+    declare buyQuantity: CreationOptional<number | null>;
+    declare getQuantity: CreationOptional<number | null>;
+    declare minBasket: CreationOptional<number | null>;
+    declare productIds: CreationOptional<number[] | null>; // Null applies to every product
+    declare categoryIds: CreationOptional<number[] | null>;
+    declare usageLimit: CreationOptional<number | null>;
+    declare usageLimitPerCustomer: CreationOptional<number | null>;
+    declare usageCount: CreationOptional<number>;
+    declare startsAt: CreationOptional<Date | null>;
+    declare expiresAt: CreationOptional<Date | null>;
+}
+
+Coupon.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        code: {
+            type: DataTypes.STRING,
+            allowNull: false,
+            unique: true,
+            set(value: string) {
+                this.setDataValue('code', value.trim().toUpperCase());
+            },
+        },
+        type: {
+            type: DataTypes.ENUM(
+                'percent',
+                'fixed',
+                'free-shipping',
+                'buy-x-get-y'
+            ),
+            allowNull: false,
+        },
+        value: DataTypes.FLOAT,
+        buyQuantity: DataTypes.INTEGER,
+        getQuantity: DataTypes.INTEGER,
+        minBasket: DataTypes.FLOAT,
+        productIds: DataTypes.JSON,
+        categoryIds: DataTypes.JSON,
+        usageLimit: DataTypes.INTEGER,
+        usageLimitPerCustomer: DataTypes.INTEGER,
+        usageCount: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        startsAt: DataTypes.DATE,
+        expiresAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        modelName: 'Coupon',
+        tableName: 'coupons',
+        paranoid: true,
+    }
+);
+
+export class CouponRedemption extends Model<
+    InferAttributes<CouponRedemption>,
+    InferCreationAttributes<CouponRedemption>
+> {
+    declare id: CreationOptional<number>;
+    declare couponId: ForeignKey<Coupon['id']>;
+    declare customerId: ForeignKey<Customer['id']>;
+    declare paymentReference: string; // Stock reservation key until the payment succeeds
+    declare discount: number;
+    declare createdAt: CreationOptional<Date>;
+}
+
+CouponRedemption.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        paymentReference: { type: DataTypes.STRING, allowNull: false },
+        discount: { type: DataTypes.FLOAT, allowNull: false },
+        createdAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        modelName: 'CouponRedemption',
+        tableName: 'coupon_redemptions',
+        updatedAt: false,
+        indexes: [{ fields: ['paymentReference'] }],
+    }
+);
@@ -22,6 +22,7 @@ export class Customer extends Model<
     declare stripePaymentMethodId: CreationOptional<string>;
     declare shippingAddress: CreationOptional<string>;
     declare billingAddress: CreationOptional<string>;
+    declare vatId: CreationOptional<string | null>; // Business customers only
     declare isActive: CreationOptional<boolean>;
     declare loyaltyPoints: CreationOptional<number>;
     declare membership: CreationOptional<'free' | 'plus' | 'premium'>;
@@ -40,6 +41,23 @@ export class Customer extends Model<
     public async createCartForUser(): Promise<void> {
         await Cart.create({ customerId: this.id });
     }
+
+    /**
+     * Calculates the loyalty points earned by an order, depending on the membership.
+     *
+     * @param productTotal - The total of the order products
+     * @returns The earned loyalty points
+     */
+    public getEarnedLoyaltyPoints(productTotal: number): number {
+        switch (this.membership) {
+            case 'plus':
+                return productTotal * 2;
+            case 'premium':
+                return productTotal * 3;
+            default:
+                return productTotal;
+        }
+    }
 }
 
 Customer.init(
@@ -66,6 +84,9 @@ Customer.init(
         billingAddress: {
             type: DataTypes.STRING,
         },
+        vatId: {
+            type: DataTypes.STRING,
+        },
         isActive: {
             type: DataTypes.BOOLEAN,
             allowNull: false,
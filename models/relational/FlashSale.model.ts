@@ -0,0 +1,92 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Customer } from './Customer.model';
+
+export type FlashSaleStatus = 'scheduled' | 'active' | 'ended' | 'cancelled';
+
+export class FlashSale extends Model<
+    InferAttributes<FlashSale>,
+    InferCreationAttributes<FlashSale>
+> {
+    declare id: CreationOptional<number>;
+    declare name: string;
+    declare productIds: number[];
+    declare discount: number; // Replaces the discount of the products during the sale
+    declare startsAt: Date;
+    declare endsAt: Date;
+    declare quantityLimit: number; // Total units sold over all products
+    declare perCustomerLimit: CreationOptional<number | null>;
+    declare soldQuantity: CreationOptional<number>;
+    declare status: CreationOptional<FlashSaleStatus>;
+    declare username: string; // The admin who created the sale
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+}
+
+FlashSale.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        name: { type: DataTypes.STRING, allowNull: false },
+        productIds: { type: DataTypes.JSON, allowNull: false },
+        discount: { type: DataTypes.FLOAT, allowNull: false },
+        startsAt: { type: DataTypes.DATE, allowNull: false },
+        endsAt: { type: DataTypes.DATE, allowNull: false },
+        quantityLimit: { type: DataTypes.INTEGER, allowNull: false },
+        perCustomerLimit: DataTypes.INTEGER,
+        soldQuantity: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        status: {
+            type: DataTypes.ENUM('scheduled', 'active', 'ended', 'cancelled'),
+            defaultValue: 'scheduled',
+        },
+        username: { type: DataTypes.STRING, allowNull: false },
+        createdAt: DataTypes.DATE,
+        updatedAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        tableName: 'flash_sales',
+        indexes: [{ fields: ['status'] }],
+    }
+);
+
+export class FlashSaleClaim extends Model<
+    InferAttributes<FlashSaleClaim>,
+    InferCreationAttributes<FlashSaleClaim>
+> {
+    declare id: CreationOptional<number>;
+    declare flashSaleId: ForeignKey<FlashSale['id']>;
+    declare customerId: ForeignKey<Customer['id']>;
+    declare productId: number;
+    declare quantity: number;
+    declare paymentReference: string; // Stock reservation key until the payment succeeds
+    declare createdAt: CreationOptional<Date>;
+}
+
+FlashSaleClaim.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        productId: { type: DataTypes.INTEGER, allowNull: false },
+        quantity: { type: DataTypes.INTEGER, allowNull: false },
+        paymentReference: { type: DataTypes.STRING, allowNull: false },
+        createdAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        tableName: 'flash_sale_claims',
+        updatedAt: false,
+        indexes: [
+            { fields: ['paymentReference'] },
+            { fields: ['flashSaleId', 'customerId'] },
+        ],
+    }
+);
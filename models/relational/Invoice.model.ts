@@ -0,0 +1,100 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+    Transaction,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Order } from './Order.model';
+
+export type InvoiceType = 'invoice' | 'credit-note';
+
+export class Invoice extends Model<
+    InferAttributes<Invoice>,
+    InferCreationAttributes<Invoice>
+> {
+    declare id: CreationOptional<number>;
+    declare orderId: ForeignKey<Order['id']>;
+    declare type: InvoiceType;
+    declare number: string;
+    declare amount: number;
+    declare reason: CreationOptional<string | null>; // Credit notes only
+    declare fileName: string;
+    declare createdAt: CreationOptional<Date>;
+
+    /**
+     * Reserves the next number of a document type.
+     *
+     * @remarks
+     * Numbers are gap-free and restart every year, e.g. "INV-2024-000001".
+     * The sequence row stays locked until the given transaction ends,
+     * so the document must be created in the same transaction.
+     */
+    public static async nextNumber(
+        type: InvoiceType,
+        transaction: Transaction
+    ): Promise<string> {
+        const year = new Date().getFullYear();
+        const prefix = type === 'invoice' ? 'INV' : 'CN';
+        const name = `${prefix}-${year}`;
+
+        const [sequence] = await DocumentSequence.findOrCreate({
+            where: { name },
+            defaults: { name },
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+        });
+
+        await sequence.increment('lastNumber', { transaction });
+
+        return `${name}-${String(sequence.lastNumber + 1).padStart(6, '0')}`;
+    }
+}
+
+Invoice.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        type: {
+            type: DataTypes.ENUM('invoice', 'credit-note'),
+            allowNull: false,
+        },
+        number: { type: DataTypes.STRING, allowNull: false, unique: true },
+        amount: { type: DataTypes.FLOAT, allowNull: false },
+        reason: { type: DataTypes.STRING },
+        fileName: { type: DataTypes.STRING, allowNull: false },
+        createdAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        modelName: 'Invoice',
+        tableName: 'invoices',
+        updatedAt: false,
+    }
+);
+
+export class DocumentSequence extends Model<
+    InferAttributes<DocumentSequence>,
+    InferCreationAttributes<DocumentSequence>
+> {
+    declare name: string;
+    declare lastNumber: CreationOptional<number>;
+}
+
+DocumentSequence.init(
+    {
+        name: { type: DataTypes.STRING, primaryKey: true },
+        lastNumber: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+        },
+    },
+    {
+        sequelize,
+        modelName: 'DocumentSequence',
+        tableName: 'document_sequences',
+        timestamps: false,
+    }
+);
@@ -11,8 +11,20 @@ import type {
 import { sequelize } from '@/config/db';
 import { Customer } from './Customer.model';
 import { Product } from './Product.model';
+import { ProductVariant } from './ProductVariant.model';
 import { RefundRequest } from './RefundRequest.model';
-import { ProductNotFoundError } from '@/errors';
+import { ProductNotFoundError, OrderAlreadyMarkedError } from '@/errors';
+
+type OrderStatus =
+    | 'awaiting-payment'
+    | 'pending'
+    | 'processing'
+    | 'shipped'
+    | 'awaiting pickup'
+    | 'delivered'
+    | 'canceled'
+    | 'refunded'
+    | 'partially-refunded';
 
 export class Order extends Model<
     InferAttributes<Order>,
@@ -30,31 +42,78 @@ export class Order extends Model<
         | 'extra-heavy';
     declare orderWeight: number;
     declare shippingMethod: 'standard' | 'express' | 'next-day';
-    declare status: CreationOptional<
-        | 'pending'
-        | 'shipped'
-        | 'awaiting pickup'
-        | 'delivered'
-        | 'canceled'
-        | 'refunded'
-        | 'partially-refunded'
-    >;
+    declare status: CreationOptional<OrderStatus>;
     declare trackingNumber: CreationOptional<string>;
     declare total: number;
-    declare paymentIntentId: string;
+    declare paymentIntentId: string; // The wallet payment id or the bank transfer reference for non-card orders
+    declare paymentDueAt: CreationOptional<Date | null>;
+    declare couponCode: CreationOptional<string | null>;
+    declare couponDiscount: CreationOptional<number>;
+    declare loyaltyDiscount: CreationOptional<number>;
+    declare shippingCost: CreationOptional<number>;
+    declare shippingDiscount: CreationOptional<number>;
+    declare taxTotal: CreationOptional<number>;
+    declare reverseCharge: CreationOptional<boolean>;
+    declare customerVatId: CreationOptional<string | null>;
+    declare disputedAt: CreationOptional<Date | null>; // Set when the customer disputes the payment
+    declare taxLines?: NonAttribute<OrderTaxLine[]>;
     declare getProducts: BelongsToManyGetAssociationsMixin<Product>;
     declare refundRequest?: NonAttribute<RefundRequest>;
 
+    /**
+     * The statuses an order can move to from each status.
+     *
+     * @remarks
+     * Every paid order can be refunded. Partially refunded orders continue
+     * their fulfilment from the status they had when they were refunded,
+     * which the status update hook checks against the order's timeline.
+     */
+    public static readonly transitions: Record<OrderStatus, OrderStatus[]> = {
+        'awaiting-payment': ['pending', 'canceled'],
+        pending: ['processing', 'canceled', 'refunded', 'partially-refunded'],
+        processing: ['shipped', 'refunded', 'partially-refunded'],
+        shipped: [
+            'awaiting pickup',
+            'delivered',
+            'refunded',
+            'partially-refunded',
+        ],
+        'awaiting pickup': ['delivered', 'refunded', 'partially-refunded'],
+        delivered: ['refunded', 'partially-refunded'],
+        'partially-refunded': [
+            'pending',
+            'processing',
+            'shipped',
+            'awaiting pickup',
+            'delivered',
+            'refunded',
+        ],
+        canceled: [],
+        refunded: [],
+    };
+
+    public static canTransition(from: OrderStatus, to: OrderStatus): boolean {
+        return Order.transitions[from].includes(to);
+    }
+
     public static generateTrackingNumber(): string {
         const timestamp = Date.now().toString(36);
         const seed = Math.random().toString(36).substring(2, 10).toUpperCase();
         return `TN-${timestamp}-${seed}`;
     }
 
+    public static generatePaymentReference(): string {
+        const seed = Math.random().toString(36).substring(2, 12).toUpperCase();
+        return `BT-${seed}`;
+    }
+
     public async addItem(
         productId: number,
         quantity: number,
-        transaction: Transaction
+        transaction: Transaction,
+        variantId: number | null = null,
+        bundleId: number | null = null,
+        unitPrice: number | null = null
     ): Promise<OrderItem> {
         const foundProduct = await Product.findByPk(productId, { transaction });
 
@@ -63,11 +122,14 @@ export class Order extends Model<
         }
 
         const [item, created] = await OrderItem.findOrCreate({
-            where: { productId, orderId: this.id },
+            where: { productId, variantId, bundleId, orderId: this.id },
             defaults: {
                 orderId: this.id,
                 productId,
+                variantId,
+                bundleId,
                 quantity,
+                unitPrice,
             },
             transaction,
         });
@@ -83,17 +145,16 @@ export class Order extends Model<
     }
 
     public async getTotalPrice(): Promise<number> {
-        const orderItems: Array<OrderItem> = await this.getItems();
-
-        const products = await this.getProducts();
-
-        const productPriceMap: Record<number, number> = {};
-        products.forEach((product) => {
-            productPriceMap[product.id!] = product.price;
+        const orderItems = await OrderItem.findAll({
+            where: { orderId: this.id },
+            include: [
+                { model: Product, as: 'product', attributes: ['price'] },
+                { model: ProductVariant, as: 'variant', attributes: ['price'] },
+            ],
         });
 
         const totalPrice = orderItems.reduce((acc, item) => {
-            const price = productPriceMap[item.productId!] || 0;
+            const price = item.variant?.price ?? item.product?.price ?? 0;
             return acc + price * item.quantity;
         }, 0);
 
@@ -132,7 +193,9 @@ Order.init(
         },
         status: {
             type: DataTypes.ENUM(
+                'awaiting-payment',
                 'pending',
+                'processing',
                 'shipped',
                 'awaiting pickup',
                 'delivered',
@@ -148,13 +211,55 @@ Order.init(
             defaultValue: () => Order.generateTrackingNumber(),
         },
         total: {
-            type: DataTypes.INTEGER,
+            type: DataTypes.FLOAT,
             allowNull: false,
         },
         paymentIntentId: {
             type: DataTypes.STRING,
             allowNull: false,
         },
+        paymentDueAt: {
+            type: DataTypes.DATE,
+        },
+        couponCode: {
+            type: DataTypes.STRING,
+        },
+        couponDiscount: {
+            type: DataTypes.FLOAT,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        loyaltyDiscount: {
+            type: DataTypes.FLOAT,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        shippingCost: {
+            type: DataTypes.FLOAT,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        shippingDiscount: {
+            type: DataTypes.FLOAT,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        taxTotal: {
+            type: DataTypes.FLOAT,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        reverseCharge: {
+            type: DataTypes.BOOLEAN,
+            allowNull: false,
+            defaultValue: false,
+        },
+        customerVatId: {
+            type: DataTypes.STRING,
+        },
+        disputedAt: {
+            type: DataTypes.DATE,
+        },
     },
     { sequelize, modelName: 'Order', tableName: 'orders' }
 );
@@ -166,13 +271,126 @@ export class OrderItem extends Model<
     declare id: CreationOptional<number>;
     declare orderId: ForeignKey<Order['id']>;
     declare productId: ForeignKey<Product['id']>;
+    declare variantId: ForeignKey<ProductVariant['id'] | null>;
+    declare bundleId: ForeignKey<Product['id'] | null>; // The bundle the item was ordered in
     declare quantity: CreationOptional<number>;
+    declare unitPrice: CreationOptional<number | null>; // Paid per unit before order level discounts, null for older orders
+    declare product?: NonAttribute<Product>;
+    declare variant?: NonAttribute<ProductVariant | null>;
+    declare bundle?: NonAttribute<Product | null>;
 }
 
 OrderItem.init(
     {
         id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
         quantity: { type: DataTypes.INTEGER, defaultValue: 1 },
+        unitPrice: DataTypes.FLOAT,
     },
     { sequelize, modelName: 'OrderItem', tableName: 'order_items' }
 );
+
+export class OrderStatusEvent extends Model<
+    InferAttributes<OrderStatusEvent>,
+    InferCreationAttributes<OrderStatusEvent>
+> {
+    declare id: CreationOptional<number>;
+    declare orderId: ForeignKey<Order['id']>;
+    declare fromStatus: OrderStatus | null;
+    declare toStatus: OrderStatus;
+    declare createdAt: CreationOptional<Date>;
+}
+
+OrderStatusEvent.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        fromStatus: { type: DataTypes.STRING },
+        toStatus: { type: DataTypes.STRING, allowNull: false },
+        createdAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        modelName: 'OrderStatusEvent',
+        tableName: 'order_status_events',
+        updatedAt: false,
+    }
+);
+
+export class OrderTaxLine extends Model<
+    InferAttributes<OrderTaxLine>,
+    InferCreationAttributes<OrderTaxLine>
+> {
+    declare id: CreationOptional<number>;
+    declare orderId: ForeignKey<Order['id']>;
+    declare label: string;
+    declare rate: number;
+    declare taxableAmount: number; // Net amount
+    declare taxAmount: number;
+}
+
+OrderTaxLine.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        label: { type: DataTypes.STRING, allowNull: false },
+        rate: { type: DataTypes.FLOAT, allowNull: false },
+        taxableAmount: { type: DataTypes.FLOAT, allowNull: false },
+        taxAmount: { type: DataTypes.FLOAT, allowNull: false },
+    },
+    {
+        sequelize,
+        modelName: 'OrderTaxLine',
+        tableName: 'order_tax_lines',
+        timestamps: false,
+    }
+);
+
+Order.afterCreate(async (order, options) => {
+    await OrderStatusEvent.create(
+        { orderId: order.id, fromStatus: null, toStatus: order.status },
+        { transaction: options.transaction }
+    );
+});
+
+Order.beforeUpdate(async (order, options) => {
+    if (!order.changed('status')) return;
+
+    const from = order.previous('status') as OrderStatus;
+
+    if (!Order.canTransition(from, order.status)) {
+        throw new OrderAlreadyMarkedError(
+            `Cannot mark a "${from}" order as "${order.status}"`
+        );
+    }
+
+    if (from !== 'partially-refunded' || order.status === 'refunded') return;
+
+    // Fulfilment resumes from the status the partial refund interrupted
+    const refund = await OrderStatusEvent.findOne({
+        where: { orderId: order.id, toStatus: 'partially-refunded' },
+        order: [['id', 'DESC']],
+        transaction: options.transaction,
+    });
+    const resumed = refund?.fromStatus;
+
+    if (
+        resumed &&
+        resumed !== order.status &&
+        !Order.canTransition(resumed, order.status)
+    ) {
+        throw new OrderAlreadyMarkedError(
+            `Cannot mark a partially refunded "${resumed}" order as "${order.status}"`
+        );
+    }
+});
+
+Order.afterUpdate(async (order, options) => {
+    if (!order.changed('status')) return;
+
+    await OrderStatusEvent.create(
+        {
+            orderId: order.id,
+            fromStatus: order.previous('status') as OrderStatus,
+            toStatus: order.status,
+        },
+        { transaction: options.transaction }
+    );
+});
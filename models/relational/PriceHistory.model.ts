@@ -0,0 +1,61 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    InferAttributes,
+    InferCreationAttributes,
+    Transaction,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { discountedPrice } from './price';
+
+export class PriceHistory extends Model<
+    InferAttributes<PriceHistory>,
+    InferCreationAttributes<PriceHistory>
+> {
+    declare id: CreationOptional<number>;
+    declare productId: number; // Kept without a foreign key, so history outlives products
+    declare price: number;
+    declare discount: number;
+    declare finalPrice: number; // The price after the discount
+    declare createdAt: CreationOptional<Date>;
+
+    /**
+     * Records the price of a product at the time of a change.
+     *
+     * @param product - The product with its new price and discount
+     * @param [transaction] - The transaction of the change
+     */
+    static async record(
+        product: { id: number; price: number; discount: number },
+        transaction?: Transaction | null
+    ): Promise<void> {
+        const { id, price, discount } = product;
+
+        await PriceHistory.create(
+            {
+                productId: id,
+                price,
+                discount,
+                finalPrice: discountedPrice(price, discount),
+            },
+            { transaction }
+        );
+    }
+}
+
+PriceHistory.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        productId: { type: DataTypes.INTEGER, allowNull: false },
+        price: { type: DataTypes.FLOAT, allowNull: false },
+        discount: { type: DataTypes.FLOAT, defaultValue: 0 },
+        finalPrice: { type: DataTypes.FLOAT, allowNull: false },
+        createdAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        tableName: 'price_history',
+        updatedAt: false,
+        indexes: [{ fields: ['productId', 'createdAt'] }],
+    }
+);
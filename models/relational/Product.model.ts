@@ -4,10 +4,17 @@ import type {
     ForeignKey,
     InferAttributes,
     InferCreationAttributes,
+    NonAttribute,
 } from 'sequelize';
 import { sequelize } from '@/config/db';
 import { Category } from './Category.model';
-import client from '@/config/elasticsearch';
+import { SearchOutbox } from './SearchOutbox.model';
+import { PriceHistory } from './PriceHistory.model';
+import { uniqueSku, uniqueSlug } from './slug';
+import type { ProductOption, ProductVariant } from './ProductVariant.model';
+import type { ProductMedia } from './ProductMedia.model';
+import type { BundleComponent } from './BundleComponent.model';
+import type { Specifications } from './CategoryAttribute.model';
 
 export class Product extends Model<
     InferAttributes<Product>,
@@ -15,8 +22,11 @@ export class Product extends Model<
 > {
     declare id: CreationOptional<number>;
     declare categoryId: ForeignKey<Category['id']>;
+    declare sku: CreationOptional<string | null>; // Identifies products in bulk imports
     declare name: string;
+    declare slug: CreationOptional<string | null>; // Generated from the name on creation
     declare description: string;
+    declare specifications: CreationOptional<Specifications>; // Validated against the category attributes
     declare currency: string;
     declare price: number;
     declare discount: CreationOptional<number>;
@@ -25,19 +35,42 @@ export class Product extends Model<
     declare stockQuantity: CreationOptional<number>;
     declare weight: number;
     declare views: CreationOptional<number>;
+    declare membershipExclusive: CreationOptional<boolean>;
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+    declare options?: NonAttribute<ProductOption[]>;
+    declare variants?: NonAttribute<ProductVariant[]>;
+    declare media?: NonAttribute<ProductMedia[]>;
+    declare components?: NonAttribute<BundleComponent[]>;
 }
 
 Product.init(
     {
         id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        sku: {
+            type: DataTypes.STRING,
+            unique: true,
+            set(value: string | null) {
+                this.setDataValue('sku', value?.trim().toUpperCase() || null);
+            },
+        },
         name: {
             type: DataTypes.STRING,
             allowNull: false,
         },
+        slug: {
+            type: DataTypes.STRING,
+            unique: true,
+        },
         description: {
             type: DataTypes.STRING,
             allowNull: false,
         },
+        specifications: {
+            type: DataTypes.JSON,
+            allowNull: false,
+            defaultValue: {},
+        },
         currency: {
             type: DataTypes.STRING,
             defaultValue: 'eur',
@@ -69,6 +102,12 @@ Product.init(
             type: DataTypes.INTEGER,
             defaultValue: 0,
         },
+        membershipExclusive: {
+            type: DataTypes.BOOLEAN,
+            defaultValue: false,
+        },
+        createdAt: DataTypes.DATE,
+        updatedAt: DataTypes.DATE,
     },
     {
         sequelize,
@@ -78,68 +117,47 @@ Product.init(
     }
 );
 
-/*const bulkOperations: object[] = [];
-const limit = 5;
-
-Product.afterCreate(async (product) => {
-    bulkOperations.push({
-        index: { _index: 'products', _id: product.id!.toString() },
-    });
-    bulkOperations.push({
-        name: product.name,
-        description: product.description,
-        price: product.price,
-    });
+// Slugs are kept on renames, so that product links keep working.
+// Products always get a SKU, so that exported files can be imported again.
+Product.beforeCreate(async (product, options) => {
+    if (!product.slug) {
+        product.slug = await uniqueSlug(
+            Product,
+            product.name,
+            options.transaction
+        );
+    }
 
-    // Perform bulk operation per given chunk
-    if (bulkOperations.length >= limit) {
-        try {
-            await client.bulk({ body: bulkOperations });
-            bulkOperations.length = 0;
-        } catch (err) {
-            console.error(
-                'Elasticsearch bulk operation error on index (create):',
-                err
-            );
-        }
+    if (!product.sku) {
+        product.sku = await uniqueSku(
+            Product,
+            product.name,
+            options.transaction
+        );
     }
 });
 
-Product.afterUpdate(async (product) => {
-    bulkOperations.push({
-        update: { _index: 'products', _id: product.id!.toString() },
-    });
-    bulkOperations.push({
-        doc: {
-            name: product.name,
-            description: product.description,
-            price: product.price,
-        },
-    });
+// Changes are written to the outbox in the transaction of the change
+// and are indexed by the search index sync job
+Product.afterCreate(async (product, options) => {
+    await SearchOutbox.record([product.id], options.transaction);
+});
 
-    // Perform bulk operation per given chunk
-    if (bulkOperations.length >= limit) {
-        try {
-            await client.bulk({ body: bulkOperations });
-            bulkOperations.length = 0;
-        } catch (err) {
-            console.error('Elasticsearch bulk operation error on update:', err);
-        }
-    }
+Product.afterUpdate(async (product, options) => {
+    await SearchOutbox.record([product.id], options.transaction);
 });
 
-Product.afterDestroy(async (product) => {
-    bulkOperations.push({
-        delete: { _index: 'products', _id: product.id!.toString() },
-    });
+// Every price or discount change is kept for the lowest price of the last 30 days
+Product.afterCreate(async (product, options) => {
+    await PriceHistory.record(product, options.transaction);
+});
 
-    // Execute bulk request after specific operations
-    if (bulkOperations.length >= limit) {
-        try {
-            await client.bulk({ body: bulkOperations });
-            bulkOperations.length = 0;
-        } catch (err) {
-            console.error('Elasticsearch bulk operation error on delete:', err);
-        }
+Product.afterUpdate(async (product, options) => {
+    if (product.changed('price') || product.changed('discount')) {
+        await PriceHistory.record(product, options.transaction);
     }
-});*/
+});
+
+Product.afterDestroy(async (product, options) => {
+    await SearchOutbox.record([product.id], options.transaction);
+});
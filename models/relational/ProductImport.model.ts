@@ -0,0 +1,62 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    InferAttributes,
+    InferCreationAttributes,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+
+export type ImportFormat = 'csv' | 'json';
+export type ImportStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface ImportRowError {
+    row: number; // 1-based, excluding the CSV header
+    sku: string | null;
+    field: string | null;
+    message: string;
+}
+
+export class ProductImport extends Model<
+    InferAttributes<ProductImport>,
+    InferCreationAttributes<ProductImport>
+> {
+    declare id: CreationOptional<number>;
+    declare username: string; // The admin who uploaded the file
+    declare format: ImportFormat;
+    declare dryRun: boolean; // Validates the rows without writing them
+    declare status: CreationOptional<ImportStatus>;
+    declare fileName: string;
+    declare totalRows: CreationOptional<number>;
+    declare createdCount: CreationOptional<number>;
+    declare updatedCount: CreationOptional<number>;
+    declare failedCount: CreationOptional<number>;
+    declare rowErrors: CreationOptional<ImportRowError[]>;
+    declare completedAt: CreationOptional<Date | null>;
+    declare createdAt: CreationOptional<Date>;
+}
+
+ProductImport.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        username: { type: DataTypes.STRING, allowNull: false },
+        format: { type: DataTypes.ENUM('csv', 'json'), allowNull: false },
+        dryRun: { type: DataTypes.BOOLEAN, defaultValue: false },
+        status: {
+            type: DataTypes.ENUM('queued', 'processing', 'completed', 'failed'),
+            defaultValue: 'queued',
+        },
+        fileName: { type: DataTypes.STRING, allowNull: false },
+        totalRows: { type: DataTypes.INTEGER, defaultValue: 0 },
+        createdCount: { type: DataTypes.INTEGER, defaultValue: 0 },
+        updatedCount: { type: DataTypes.INTEGER, defaultValue: 0 },
+        failedCount: { type: DataTypes.INTEGER, defaultValue: 0 },
+        rowErrors: { type: DataTypes.JSON, defaultValue: [] },
+        completedAt: DataTypes.DATE,
+        createdAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        tableName: 'product_imports',
+        updatedAt: false,
+    }
+);
@@ -0,0 +1,46 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Product } from './Product.model';
+
+export type MediaType = 'image' | 'video';
+export type ThumbnailSize = 'small' | 'medium' | 'large';
+export type Thumbnails = Record<ThumbnailSize, string>; // Size to URL
+
+export class ProductMedia extends Model<
+    InferAttributes<ProductMedia>,
+    InferCreationAttributes<ProductMedia>
+> {
+    declare id: CreationOptional<number>;
+    declare productId: ForeignKey<Product['id']>;
+    declare type: MediaType;
+    declare storageKey: string;
+    declare url: string;
+    declare thumbnails: CreationOptional<Thumbnails | null>; // Images only
+    declare mimeType: string;
+    declare altText: CreationOptional<string | null>;
+    declare position: CreationOptional<number>;
+}
+
+ProductMedia.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        type: { type: DataTypes.ENUM('image', 'video'), allowNull: false },
+        storageKey: { type: DataTypes.STRING, allowNull: false },
+        url: { type: DataTypes.STRING, allowNull: false },
+        thumbnails: DataTypes.JSON,
+        mimeType: { type: DataTypes.STRING, allowNull: false },
+        altText: DataTypes.STRING,
+        position: { type: DataTypes.INTEGER, defaultValue: 0 },
+    },
+    {
+        sequelize,
+        tableName: 'product_media',
+        indexes: [{ fields: ['productId', 'position'] }],
+    }
+);
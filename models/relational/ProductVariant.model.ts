@@ -0,0 +1,88 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Product } from './Product.model';
+import { SearchOutbox } from './SearchOutbox.model';
+
+export class ProductOption extends Model<
+    InferAttributes<ProductOption>,
+    InferCreationAttributes<ProductOption>
+> {
+    declare id: CreationOptional<number>;
+    declare productId: ForeignKey<Product['id']>;
+    declare name: string; // e.g. "Size" or "Color"
+    declare values: string[];
+    declare position: CreationOptional<number>;
+}
+
+ProductOption.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        name: { type: DataTypes.STRING, allowNull: false },
+        values: { type: DataTypes.JSON, allowNull: false },
+        position: { type: DataTypes.INTEGER, defaultValue: 0 },
+    },
+    {
+        sequelize,
+        tableName: 'product_options',
+        timestamps: false,
+        indexes: [{ unique: true, fields: ['productId', 'name'] }],
+    }
+);
+
+export class ProductVariant extends Model<
+    InferAttributes<ProductVariant>,
+    InferCreationAttributes<ProductVariant>
+> {
+    declare id: CreationOptional<number>;
+    declare productId: ForeignKey<Product['id']>;
+    declare sku: string;
+    declare options: Record<string, string>; // Option name to value
+    declare price: CreationOptional<number | null>; // Null uses the product price
+    declare weight: CreationOptional<number | null>; // Null uses the product weight
+    declare stockQuantity: CreationOptional<number>;
+    declare imageUrl: CreationOptional<string | null>;
+}
+
+ProductVariant.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        sku: {
+            type: DataTypes.STRING,
+            allowNull: false,
+            unique: true,
+            set(value: string) {
+                this.setDataValue('sku', value.trim().toUpperCase());
+            },
+        },
+        options: { type: DataTypes.JSON, allowNull: false },
+        price: DataTypes.FLOAT,
+        weight: DataTypes.FLOAT,
+        stockQuantity: { type: DataTypes.INTEGER, defaultValue: 0 },
+        imageUrl: DataTypes.STRING,
+    },
+    {
+        sequelize,
+        tableName: 'product_variants',
+        paranoid: true,
+    }
+);
+
+// The stock of a product is the sum of its variants,
+// so variant changes are indexed with their product
+ProductVariant.afterCreate(async (variant, options) => {
+    await SearchOutbox.record([variant.productId], options.transaction);
+});
+
+ProductVariant.afterUpdate(async (variant, options) => {
+    await SearchOutbox.record([variant.productId], options.transaction);
+});
+
+ProductVariant.afterDestroy(async (variant, options) => {
+    await SearchOutbox.record([variant.productId], options.transaction);
+});
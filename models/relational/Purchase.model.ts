@@ -18,7 +18,7 @@ export class Purchase extends Model<
     declare customerId: ForeignKey<Customer['id']>;
     declare productId: ForeignKey<Product['id']>;
     declare quantity: CreationOptional<number>;
-    declare discountRate: CreationOptional<number>;
+    declare discountRate: CreationOptional<number>; // Fraction of the price paid per unit
 
     // Reports related
     declare categoryId?: NonAttribute<number>;
@@ -0,0 +1,62 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Product } from './Product.model';
+
+export type PriceChangeStatus =
+    | 'scheduled'
+    | 'active' // Applied and waiting to be reverted at its end
+    | 'completed'
+    | 'cancelled';
+
+export class ScheduledPriceChange extends Model<
+    InferAttributes<ScheduledPriceChange>,
+    InferCreationAttributes<ScheduledPriceChange>
+> {
+    declare id: CreationOptional<number>;
+    declare productId: ForeignKey<Product['id']>;
+    declare price: CreationOptional<number | null>; // Null keeps the current price
+    declare discount: CreationOptional<number | null>; // Null keeps the current discount
+    declare startsAt: Date;
+    declare endsAt: CreationOptional<Date | null>; // Null keeps the change after it starts
+    declare previousPrice: CreationOptional<number | null>;
+    declare previousDiscount: CreationOptional<number | null>;
+    declare status: CreationOptional<PriceChangeStatus>;
+    declare username: string; // The admin who scheduled the change
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+}
+
+ScheduledPriceChange.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        price: DataTypes.FLOAT,
+        discount: DataTypes.FLOAT,
+        startsAt: { type: DataTypes.DATE, allowNull: false },
+        endsAt: DataTypes.DATE,
+        previousPrice: DataTypes.FLOAT,
+        previousDiscount: DataTypes.FLOAT,
+        status: {
+            type: DataTypes.ENUM(
+                'scheduled',
+                'active',
+                'completed',
+                'cancelled'
+            ),
+            defaultValue: 'scheduled',
+        },
+        username: { type: DataTypes.STRING, allowNull: false },
+        createdAt: DataTypes.DATE,
+        updatedAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        tableName: 'scheduled_price_changes',
+        indexes: [{ fields: ['productId', 'status'] }],
+    }
+);
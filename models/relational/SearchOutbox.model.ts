@@ -0,0 +1,50 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    InferAttributes,
+    InferCreationAttributes,
+    Transaction,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+
+export class SearchOutbox extends Model<
+    InferAttributes<SearchOutbox>,
+    InferCreationAttributes<SearchOutbox>
+> {
+    declare id: CreationOptional<number>;
+    declare productId: number;
+    declare createdAt: CreationOptional<Date>;
+
+    /**
+     * Records that products need to be synchronized with the search index.
+     *
+     * @remarks
+     * Entries only hold the product ids. The indexer reads the current
+     * state of each product, so entries of the same product are collapsed.
+     *
+     * @param productIds - The ids of the changed products
+     * @param [transaction] - The transaction of the change
+     */
+    static async record(
+        productIds: number[],
+        transaction?: Transaction | null
+    ): Promise<void> {
+        await SearchOutbox.bulkCreate(
+            productIds.map((productId) => ({ productId })),
+            { transaction }
+        );
+    }
+}
+
+SearchOutbox.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        productId: { type: DataTypes.INTEGER, allowNull: false },
+        createdAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        tableName: 'search_outbox',
+        updatedAt: false,
+    }
+);
@@ -0,0 +1,71 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+    NonAttribute,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Order } from './Order.model';
+import { Product } from './Product.model';
+import { ProductVariant } from './ProductVariant.model';
+
+interface ShipmentPackage {
+    weight: number;
+    length?: number;
+    width?: number;
+    height?: number;
+}
+
+export class Shipment extends Model<
+    InferAttributes<Shipment>,
+    InferCreationAttributes<Shipment>
+> {
+    declare id: CreationOptional<number>;
+    declare orderId: ForeignKey<Order['id']>;
+    declare carrier: string;
+    declare trackingNumber: string;
+    declare packages: ShipmentPackage[];
+    declare shippedAt: CreationOptional<Date>;
+    declare items?: NonAttribute<ShipmentItem[]>;
+}
+
+Shipment.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        carrier: { type: DataTypes.STRING, allowNull: false },
+        trackingNumber: { type: DataTypes.STRING, allowNull: false },
+        packages: { type: DataTypes.JSON, allowNull: false },
+        shippedAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+        },
+    },
+    { sequelize, modelName: 'Shipment', tableName: 'shipments' }
+);
+
+export class ShipmentItem extends Model<
+    InferAttributes<ShipmentItem>,
+    InferCreationAttributes<ShipmentItem>
+> {
+    declare id: CreationOptional<number>;
+    declare shipmentId: ForeignKey<Shipment['id']>;
+    declare productId: ForeignKey<Product['id']>;
+    declare variantId: ForeignKey<ProductVariant['id'] | null>;
+    declare quantity: number;
+}
+
+ShipmentItem.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        quantity: { type: DataTypes.INTEGER, allowNull: false },
+    },
+    {
+        sequelize,
+        modelName: 'ShipmentItem',
+        tableName: 'shipment_items',
+        timestamps: false,
+    }
+);
@@ -5,6 +5,9 @@ interface CountryAttributes {
     id?: number;
     name: string;
     rate: number;
+    vatRate?: number;
+    reducedVatRate?: number | null;
+    pricesIncludeTax?: boolean;
 }
 
 interface CityAttributes {
@@ -18,6 +21,9 @@ export class ShippingCountry extends Model<CountryAttributes> {
     declare id?: number;
     declare name: string;
     declare rate: number;
+    declare vatRate: number; // Percentage
+    declare reducedVatRate: number | null; // Falls back to the standard rate
+    declare pricesIncludeTax: boolean;
 }
 
 ShippingCountry.init(
@@ -31,6 +37,19 @@ ShippingCountry.init(
             type: DataTypes.FLOAT,
             allowNull: false,
         },
+        vatRate: {
+            type: DataTypes.FLOAT,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        reducedVatRate: {
+            type: DataTypes.FLOAT,
+        },
+        pricesIncludeTax: {
+            type: DataTypes.BOOLEAN,
+            allowNull: false,
+            defaultValue: true,
+        },
     },
     {
         sequelize,
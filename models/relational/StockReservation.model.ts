@@ -0,0 +1,57 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Product } from './Product.model';
+import { Order } from './Order.model';
+import { ProductVariant } from './ProductVariant.model';
+
+export class StockReservation extends Model<
+    InferAttributes<StockReservation>,
+    InferCreationAttributes<StockReservation>
+> {
+    declare id: CreationOptional<number>;
+    declare productId: ForeignKey<Product['id']>;
+    declare variantId: ForeignKey<ProductVariant['id'] | null>;
+    declare orderId: ForeignKey<Order['id']>;
+    declare reservationKey: string;
+    declare paymentIntentId: CreationOptional<string | null>;
+    declare quantity: number;
+    declare status: CreationOptional<
+        'reserved' | 'committed' | 'released' | 'restocked'
+    >;
+    declare expiresAt: Date;
+}
+
+StockReservation.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        reservationKey: { type: DataTypes.STRING, allowNull: false },
+        paymentIntentId: { type: DataTypes.STRING },
+        quantity: { type: DataTypes.INTEGER, allowNull: false },
+        status: {
+            type: DataTypes.ENUM(
+                'reserved',
+                'committed',
+                'released',
+                'restocked'
+            ),
+            defaultValue: 'reserved',
+        },
+        expiresAt: { type: DataTypes.DATE, allowNull: false },
+    },
+    {
+        sequelize,
+        tableName: 'stock_reservations',
+        indexes: [
+            { fields: ['reservationKey'] },
+            { fields: ['paymentIntentId'] },
+            { fields: ['productId', 'status'] },
+            { fields: ['variantId', 'status'] },
+        ],
+    }
+);
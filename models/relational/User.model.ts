@@ -5,6 +5,7 @@ import type {
     InferCreationAttributes,
 } from 'sequelize';
 import { sequelize } from '@/config/db';
+import type { Thumbnails } from './ProductMedia.model';
 import bcrypt from 'bcrypt';
 
 export class User extends Model<
@@ -12,7 +13,10 @@ export class User extends Model<
     InferCreationAttributes<User>
 > {
     declare id: CreationOptional<number>;
-    declare profilePictureUrl: CreationOptional<string>;
+    declare profilePictureUrl: CreationOptional<string | null>;
+    declare profilePictureKey: CreationOptional<string | null>; // Storage key of uploaded pictures
+    declare profilePictureThumbnails: CreationOptional<Thumbnails | null>;
+    declare profilePictureAlt: CreationOptional<string | null>;
     declare firstName: string;
     declare lastName: string;
     declare username: string;
@@ -36,6 +40,9 @@ User.init(
             type: DataTypes.STRING,
             allowNull: true,
         },
+        profilePictureKey: DataTypes.STRING,
+        profilePictureThumbnails: DataTypes.JSON,
+        profilePictureAlt: DataTypes.STRING,
         firstName: {
             type: DataTypes.STRING,
             allowNull: false,
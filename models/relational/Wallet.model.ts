@@ -0,0 +1,69 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+    NonAttribute,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Customer } from './Customer.model';
+
+export class Wallet extends Model<
+    InferAttributes<Wallet>,
+    InferCreationAttributes<Wallet>
+> {
+    declare id: CreationOptional<number>;
+    declare customerId: ForeignKey<Customer['id']>;
+    declare balance: CreationOptional<number>;
+    declare transactions?: NonAttribute<WalletTransaction[]>;
+}
+
+Wallet.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        customerId: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            unique: true,
+        },
+        balance: {
+            type: DataTypes.FLOAT,
+            allowNull: false,
+            defaultValue: 0,
+        },
+    },
+    { sequelize, modelName: 'Wallet', tableName: 'wallets' }
+);
+
+export class WalletTransaction extends Model<
+    InferAttributes<WalletTransaction>,
+    InferCreationAttributes<WalletTransaction>
+> {
+    declare id: CreationOptional<number>;
+    declare walletId: ForeignKey<Wallet['id']>;
+    declare type: 'top-up' | 'payment' | 'refund';
+    declare amount: number; // Negative for payments
+    declare reference: string; // Payment intent id or order payment reference
+    declare createdAt: CreationOptional<Date>;
+}
+
+WalletTransaction.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        type: {
+            type: DataTypes.ENUM('top-up', 'payment', 'refund'),
+            allowNull: false,
+        },
+        amount: { type: DataTypes.FLOAT, allowNull: false },
+        reference: { type: DataTypes.STRING, allowNull: false },
+        createdAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        modelName: 'WalletTransaction',
+        tableName: 'wallet_transactions',
+        updatedAt: false,
+        indexes: [{ fields: ['reference'] }],
+    }
+);
@@ -0,0 +1,72 @@
+import { DataTypes, Model } from 'sequelize';
+import type {
+    CreationOptional,
+    ForeignKey,
+    InferAttributes,
+    InferCreationAttributes,
+    NonAttribute,
+} from 'sequelize';
+import { sequelize } from '@/config/db';
+import { Customer } from './Customer.model';
+import type { Product } from './Product.model';
+import type { ProductVariant } from './ProductVariant.model';
+
+export class Wishlist extends Model<
+    InferAttributes<Wishlist>,
+    InferCreationAttributes<Wishlist>
+> {
+    declare id: CreationOptional<number>;
+    declare customerId: ForeignKey<Customer['id']>;
+    declare name: string;
+    declare shareToken: CreationOptional<string | null>; // Set while the wishlist is shared
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+    declare items?: NonAttribute<WishlistItem[]>;
+}
+
+Wishlist.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        name: { type: DataTypes.STRING, allowNull: false },
+        shareToken: { type: DataTypes.STRING, unique: true },
+        createdAt: DataTypes.DATE,
+        updatedAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        tableName: 'wishlists',
+        indexes: [{ unique: true, fields: ['customerId', 'name'] }],
+    }
+);
+
+export class WishlistItem extends Model<
+    InferAttributes<WishlistItem>,
+    InferCreationAttributes<WishlistItem>
+> {
+    declare id: CreationOptional<number>;
+    declare wishlistId: ForeignKey<Wishlist['id']>;
+    declare productId: ForeignKey<Product['id']>;
+    declare variantId: ForeignKey<ProductVariant['id'] | null>;
+    declare note: CreationOptional<string | null>;
+    declare lastPrice: number; // Price with discounts when last notified, to detect price drops
+    declare inStock: boolean; // Availability when last notified, to detect restocks
+    declare createdAt: CreationOptional<Date>;
+    declare product?: NonAttribute<Product>;
+    declare variant?: NonAttribute<ProductVariant | null>;
+}
+
+WishlistItem.init(
+    {
+        id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+        note: DataTypes.STRING(500),
+        lastPrice: { type: DataTypes.FLOAT, allowNull: false },
+        inStock: { type: DataTypes.BOOLEAN, allowNull: false },
+        createdAt: DataTypes.DATE,
+    },
+    {
+        sequelize,
+        tableName: 'wishlist_items',
+        updatedAt: false,
+        indexes: [{ fields: ['wishlistId'] }, { fields: ['productId'] }],
+    }
+);
@@ -3,9 +3,17 @@ import { Customer } from './Customer.model';
 import { Admin } from './Admin.model';
 import { AdminLog } from './AdminLog.model';
 import { Category } from './Category.model';
+import { CategoryAttribute } from './CategoryAttribute.model';
 import { Product } from './Product.model';
+import { ProductOption, ProductVariant } from './ProductVariant.model';
+import { ProductMedia } from './ProductMedia.model';
 import { Cart, CartItem } from './Cart.model';
-import { Order, OrderItem } from './Order.model';
+import {
+    Order,
+    OrderItem,
+    OrderStatusEvent,
+    OrderTaxLine,
+} from './Order.model';
 import { Sale } from './Sale.model';
 import { ShippingCountry, ShippingCity } from './ShippingCountry.model';
 import { Payment } from './Payment.model';
@@ -13,6 +21,18 @@ import { Purchase } from './Purchase.model';
 import { Replenishment, ReplenishmentPayment } from './Replenishment.model';
 import { RefundRequest } from './RefundRequest.model';
 import { Notification } from './Notification.model';
+import { StockReservation } from './StockReservation.model';
+import { Shipment, ShipmentItem } from './Shipment.model';
+import { Wallet, WalletTransaction } from './Wallet.model';
+import { Coupon, CouponRedemption } from './Coupon.model';
+import { Invoice, DocumentSequence } from './Invoice.model';
+import { SearchOutbox } from './SearchOutbox.model';
+import { ProductImport } from './ProductImport.model';
+import { PriceHistory } from './PriceHistory.model';
+import { ScheduledPriceChange } from './ScheduledPriceChange.model';
+import { FlashSale, FlashSaleClaim } from './FlashSale.model';
+import { BundleComponent } from './BundleComponent.model';
+import { Wishlist, WishlistItem } from './Wishlist.model';
 
 User.hasOne(Customer, {
     as: 'customer',
@@ -49,6 +69,26 @@ Customer.hasMany(RefundRequest, {
     as: 'refundRequests',
     foreignKey: 'customerId',
 });
+Customer.hasOne(Wallet, {
+    as: 'wallet',
+    foreignKey: 'customerId',
+    onDelete: 'CASCADE',
+});
+Customer.hasMany(CouponRedemption, {
+    as: 'couponRedemptions',
+    foreignKey: 'customerId',
+    onDelete: 'CASCADE',
+});
+Customer.hasMany(FlashSaleClaim, {
+    as: 'flashSaleClaims',
+    foreignKey: 'customerId',
+    onDelete: 'CASCADE',
+});
+Customer.hasMany(Wishlist, {
+    as: 'wishlists',
+    foreignKey: 'customerId',
+    onDelete: 'CASCADE',
+});
 
 Admin.belongsTo(User, {
     as: 'user',
@@ -72,15 +112,23 @@ Category.belongsTo(Category, {
     foreignKey: 'parentId',
     onDelete: 'CASCADE',
 });
+Category.hasMany(CategoryAttribute, {
+    as: 'attributeSchema',
+    foreignKey: 'categoryId',
+    onDelete: 'CASCADE',
+});
+
+CategoryAttribute.belongsTo(Category, { foreignKey: 'categoryId' });
 
 Product.belongsTo(Category, { foreignKey: 'categoryId', onDelete: 'CASCADE' });
+// Through tables are not unique, as they hold a row per product variant
 Product.belongsToMany(Cart, {
-    through: CartItem,
+    through: { model: CartItem, unique: false },
     foreignKey: 'productId',
     otherKey: 'cartId',
 });
 Product.belongsToMany(Order, {
-    through: OrderItem,
+    through: { model: OrderItem, unique: false },
     foreignKey: 'productId',
     otherKey: 'orderId',
 });
@@ -89,14 +137,57 @@ Product.belongsToMany(Customer, {
     foreignKey: 'productId',
     otherKey: 'customerId',
 });
+Product.hasMany(StockReservation, {
+    as: 'reservations',
+    foreignKey: 'productId',
+    onDelete: 'CASCADE',
+});
+Product.hasMany(ProductOption, {
+    as: 'options',
+    foreignKey: 'productId',
+    onDelete: 'CASCADE',
+});
+Product.hasMany(ProductVariant, {
+    as: 'variants',
+    foreignKey: 'productId',
+    onDelete: 'CASCADE',
+});
+Product.hasMany(ProductMedia, {
+    as: 'media',
+    foreignKey: 'productId',
+    onDelete: 'CASCADE',
+});
+Product.hasMany(ScheduledPriceChange, {
+    foreignKey: 'productId',
+    onDelete: 'CASCADE',
+});
+Product.hasMany(BundleComponent, {
+    as: 'components',
+    foreignKey: 'bundleId',
+    onDelete: 'CASCADE',
+});
+
+ProductOption.belongsTo(Product, { foreignKey: 'productId' });
+ProductVariant.belongsTo(Product, { foreignKey: 'productId' });
+ProductMedia.belongsTo(Product, { foreignKey: 'productId' });
+ScheduledPriceChange.belongsTo(Product, { foreignKey: 'productId' });
+BundleComponent.belongsTo(Product, { as: 'bundle', foreignKey: 'bundleId' });
+BundleComponent.belongsTo(Product, { as: 'product', foreignKey: 'productId' });
+BundleComponent.belongsTo(ProductVariant, {
+    as: 'variant',
+    foreignKey: 'variantId',
+});
 
 Cart.belongsToMany(Product, {
-    through: CartItem,
+    through: { model: CartItem, unique: false },
     foreignKey: 'cartId',
     otherKey: 'productId',
 });
 Cart.belongsTo(Customer, { foreignKey: 'customerId', onDelete: 'CASCADE' });
 
+CartItem.belongsTo(Product, { as: 'product', foreignKey: 'productId' });
+CartItem.belongsTo(ProductVariant, { as: 'variant', foreignKey: 'variantId' });
+
 ShippingCountry.hasMany(ShippingCity, {
     foreignKey: 'countryId',
     onDelete: 'CASCADE',
@@ -109,7 +200,7 @@ ShippingCity.belongsTo(ShippingCountry, {
 Payment.belongsTo(Customer, { foreignKey: 'customerId' });
 
 Order.belongsToMany(Product, {
-    through: OrderItem,
+    through: { model: OrderItem, unique: false },
     foreignKey: 'orderId',
     otherKey: 'productId',
 });
@@ -121,6 +212,44 @@ Order.belongsToMany(Customer, {
     otherKey: 'customerId',
 });
 Order.hasOne(RefundRequest, { as: 'refundRequest', foreignKey: 'orderId' });
+Order.hasMany(StockReservation, {
+    as: 'reservations',
+    foreignKey: 'orderId',
+});
+Order.hasMany(OrderStatusEvent, {
+    as: 'timeline',
+    foreignKey: 'orderId',
+    onDelete: 'CASCADE',
+});
+Order.hasMany(Shipment, {
+    as: 'shipments',
+    foreignKey: 'orderId',
+    onDelete: 'CASCADE',
+});
+Order.hasMany(OrderTaxLine, {
+    as: 'taxLines',
+    foreignKey: 'orderId',
+    onDelete: 'CASCADE',
+});
+Order.hasMany(Invoice, { as: 'invoices', foreignKey: 'orderId' });
+
+OrderItem.belongsTo(Product, { as: 'product', foreignKey: 'productId' });
+OrderItem.belongsTo(ProductVariant, { as: 'variant', foreignKey: 'variantId' });
+OrderItem.belongsTo(Product, { as: 'bundle', foreignKey: 'bundleId' });
+
+OrderStatusEvent.belongsTo(Order, { foreignKey: 'orderId' });
+OrderTaxLine.belongsTo(Order, { foreignKey: 'orderId' });
+Invoice.belongsTo(Order, { foreignKey: 'orderId' });
+
+Shipment.belongsTo(Order, { foreignKey: 'orderId' });
+Shipment.hasMany(ShipmentItem, {
+    as: 'items',
+    foreignKey: 'shipmentId',
+    onDelete: 'CASCADE',
+});
+ShipmentItem.belongsTo(Shipment, { foreignKey: 'shipmentId' });
+ShipmentItem.belongsTo(Product, { foreignKey: 'productId' });
+ShipmentItem.belongsTo(ProductVariant, { foreignKey: 'variantId' });
 
 Sale.belongsTo(Order, { foreignKey: 'orderId' });
 
@@ -143,13 +272,66 @@ RefundRequest.belongsTo(Order, { as: 'refundRequest', foreignKey: 'orderId' });
 
 Notification.belongsTo(User, { foreignKey: 'userId', onDelete: 'CASCADE' });
 
+StockReservation.belongsTo(Product, {
+    foreignKey: 'productId',
+    onDelete: 'CASCADE',
+});
+StockReservation.belongsTo(Order, { foreignKey: 'orderId' });
+StockReservation.belongsTo(ProductVariant, { foreignKey: 'variantId' });
+
+Wallet.belongsTo(Customer, { foreignKey: 'customerId', onDelete: 'CASCADE' });
+Wallet.hasMany(WalletTransaction, {
+    as: 'transactions',
+    foreignKey: 'walletId',
+    onDelete: 'CASCADE',
+});
+WalletTransaction.belongsTo(Wallet, { foreignKey: 'walletId' });
+
+Coupon.hasMany(CouponRedemption, {
+    as: 'redemptions',
+    foreignKey: 'couponId',
+});
+CouponRedemption.belongsTo(Coupon, { as: 'coupon', foreignKey: 'couponId' });
+CouponRedemption.belongsTo(Customer, { foreignKey: 'customerId' });
+
+FlashSale.hasMany(FlashSaleClaim, {
+    as: 'claims',
+    foreignKey: 'flashSaleId',
+    onDelete: 'CASCADE',
+});
+FlashSaleClaim.belongsTo(FlashSale, { foreignKey: 'flashSaleId' });
+FlashSaleClaim.belongsTo(Customer, { foreignKey: 'customerId' });
+
+Wishlist.hasMany(WishlistItem, {
+    as: 'items',
+    foreignKey: 'wishlistId',
+    onDelete: 'CASCADE',
+});
+Wishlist.belongsTo(Customer, { foreignKey: 'customerId' });
+
+WishlistItem.belongsTo(Wishlist, { foreignKey: 'wishlistId' });
+WishlistItem.belongsTo(Product, {
+    as: 'product',
+    foreignKey: 'productId',
+    onDelete: 'CASCADE',
+});
+WishlistItem.belongsTo(ProductVariant, {
+    as: 'variant',
+    foreignKey: 'variantId',
+    onDelete: 'CASCADE',
+});
+
 export {
     User,
     Customer,
     Admin,
     AdminLog,
     Category,
+    CategoryAttribute,
     Product,
+    ProductOption,
+    ProductVariant,
+    ProductMedia,
     Cart,
     CartItem,
     ShippingCountry,
@@ -157,10 +339,30 @@ export {
     Payment,
     Order,
     OrderItem,
+    OrderStatusEvent,
+    OrderTaxLine,
+    Shipment,
+    ShipmentItem,
     Sale,
     Purchase,
     Replenishment,
     ReplenishmentPayment,
     RefundRequest,
     Notification,
+    StockReservation,
+    Wallet,
+    WalletTransaction,
+    Coupon,
+    CouponRedemption,
+    Invoice,
+    DocumentSequence,
+    SearchOutbox,
+    ProductImport,
+    PriceHistory,
+    ScheduledPriceChange,
+    FlashSale,
+    FlashSaleClaim,
+    BundleComponent,
+    Wishlist,
+    WishlistItem,
 };
@@ -0,0 +1,19 @@
+/**
+ * Applies a percentage discount to a price, e.g. 59.99 for 80 with a discount of 25.
+ *
+ * @remarks
+ * Discounted prices are rounded up to the next whole amount and end in .99,
+ * and a full discount makes the price 0 rather than negative.
+ *
+ * @param price - The list price
+ * @param discount - The discount percentage
+ * @returns The price charged after the discount
+ */
+export function discountedPrice(
+    price: number,
+    discount?: number | null
+): number {
+    return discount
+        ? Math.max(Math.ceil(price - (price * discount) / 100) - 0.01, 0)
+        : price;
+}
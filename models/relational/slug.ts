@@ -0,0 +1,101 @@
+import { Op } from 'sequelize';
+import type {
+    Attributes,
+    Model,
+    ModelStatic,
+    Transaction,
+    WhereOptions,
+} from 'sequelize';
+
+const MAX_SLUG_LENGTH = 80;
+const MAX_SKU_BASE_LENGTH = 56; // Leaves room for the suffix within the 64 characters of a SKU
+
+/**
+ * Converts a name into a URL-safe slug, e.g. "Shoes & Boots" into "shoes-and-boots".
+ *
+ * @param name - The name to convert
+ * @returns The slug of the name
+ */
+export function slugify(name: string): string {
+    return (
+        name
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '') // Strips accents
+            .toLowerCase()
+            .replace(/&/g, ' and ')
+            .replace(/[^a-z\d]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .slice(0, MAX_SLUG_LENGTH)
+            .replace(/-+$/, '') || 'item'
+    );
+}
+
+/**
+ * Generates a slug from a name that is not taken by another row of a model.
+ *
+ * @remarks
+ * Taken slugs, including those of soft-deleted rows, are suffixed
+ * with the next free number, e.g. "laptops-2".
+ *
+ * @param model - The model with a unique `slug` column
+ * @param name - The name to generate the slug from
+ * @param [transaction] - The transaction of the change
+ * @returns A promise resolving to the free slug
+ */
+export async function uniqueSlug<M extends Model>(
+    model: ModelStatic<M>,
+    name: string,
+    transaction?: Transaction | null
+): Promise<string> {
+    return await uniqueValue(model, 'slug', slugify(name), transaction);
+}
+
+/**
+ * Generates a SKU from a name that is not taken by another row of a model,
+ * e.g. "Shoes & Boots" into "SHOES-AND-BOOTS".
+ *
+ * @remarks
+ * Taken SKUs are suffixed like slugs, e.g. "SHOES-AND-BOOTS-2".
+ *
+ * @param model - The model with a unique `sku` column
+ * @param name - The name to generate the SKU from
+ * @param [transaction] - The transaction of the change
+ * @returns A promise resolving to the free SKU
+ */
+export async function uniqueSku<M extends Model>(
+    model: ModelStatic<M>,
+    name: string,
+    transaction?: Transaction | null
+): Promise<string> {
+    const base = slugify(name)
+        .slice(0, MAX_SKU_BASE_LENGTH)
+        .replace(/-+$/, '')
+        .toUpperCase();
+
+    return await uniqueValue(model, 'sku', base, transaction);
+}
+
+async function uniqueValue<M extends Model>(
+    model: ModelStatic<M>,
+    column: 'slug' | 'sku',
+    base: string,
+    transaction?: Transaction | null
+): Promise<string> {
+    const rows = await model.findAll({
+        attributes: [column],
+        where: {
+            [column]: { [Op.or]: [base, { [Op.like]: `${base}-%` }] },
+        } as WhereOptions<Attributes<M>>,
+        paranoid: false,
+        transaction,
+    });
+    const taken = new Set(rows.map((row) => row.get(column) as string));
+
+    let value = base;
+
+    for (let suffix = 2; taken.has(value); suffix++) {
+        value = `${base}-${suffix}`;
+    }
+
+    return value;
+}
@@ -9,7 +9,15 @@ import {
     NotificationService,
     PaymentService,
     ProductService,
-    LoggingService
+    LoggingService,
+    OrderService,
+    InvoiceService,
+    SearchIndexService,
+    ProductImportService,
+    PriceService,
+    FlashSaleService,
+    CartRecoveryService,
+    WishlistService
 } from './services';
 import { Customer, User } from './models/relational';
 
@@ -18,6 +26,14 @@ const notificationService = new NotificationService();
 const paymentService = new PaymentService(process.env.STRIPE_KEY as string);
 const productService = new ProductService();
 const loggingService = new LoggingService();
+const orderService = new OrderService();
+const invoiceService = new InvoiceService();
+const searchIndexService = new SearchIndexService();
+const productImportService = new ProductImportService();
+const priceService = new PriceService();
+const flashSaleService = new FlashSaleService();
+const cartRecoveryService = new CartRecoveryService();
+const wishlistService = new WishlistService();
 
 async function failedJobHandler(job: Job, err: Error) {
     logger.error(
@@ -209,3 +225,279 @@ worker4.on('failed', async (job, err) => {
 worker4.on('error', (err) => {
     logger.error('Error from worker4: ' + err);
 });
+
+const worker5 = new Worker(
+    'bankTransferExpirationJobQueue',
+    async (job: Job) => {
+        try {
+            return await orderService.expireUnpaidOrder(job.data.orderId);
+        } catch (error) {
+            logger.error('Error from worker5: ' + error);
+            throw new Error(
+                '"bankTransferExpirationJobQueue" worker couldn\'t process it.'
+            );
+        }
+    },
+    {
+        concurrency: 50,
+        connection: workerRedisClient,
+    }
+);
+
+worker5.on('completed', async (job: Job, userId: number | null) => {
+    if (userId) {
+        await notificationService.sendNotification(userId,
+            'Your order was canceled because its bank transfer payment was not received in time.'
+        );
+    }
+});
+
+worker5.on('failed', async (job, err) => {
+    if (!job) {
+        return logger.error('Failed job not found!');
+    }
+    await failedJobHandler(job, err);
+});
+
+worker5.on('error', (err) => {
+    logger.error('Error from worker5: ' + err);
+});
+
+const worker6 = new Worker(
+    'invoiceGenerationJobQueue',
+    async (job: Job) => {
+        try {
+            if (job.name === 'creditNoteJob') {
+                return await invoiceService.createCreditNote(
+                    job.data.orderId,
+                    job.data.amount,
+                    job.data.reason
+                );
+            }
+
+            return await invoiceService.createInvoice(job.data.orderId);
+        } catch (error) {
+            logger.error('Error from worker6: ' + error);
+            throw new Error(
+                '"invoiceGenerationJobQueue" worker couldn\'t process it.'
+            );
+        }
+    },
+    {
+        concurrency: 1,
+        connection: workerRedisClient,
+    }
+);
+
+worker6.on('failed', async (job, err) => {
+    if (!job) {
+        return logger.error('Failed job not found!');
+    }
+    await failedJobHandler(job, err);
+});
+
+worker6.on('error', (err) => {
+    logger.error('Error from worker6: ' + err);
+});
+
+const worker7 = new Worker(
+    'searchIndexJobQueue',
+    async (job: Job) => {
+        try {
+            if (job.name === 'reindexJob') {
+                return await searchIndexService.reindexProducts();
+            }
+
+            return await searchIndexService.syncOutbox();
+        } catch (error) {
+            logger.error('Error from worker7: ' + error);
+            throw new Error(
+                '"searchIndexJobQueue" worker couldn\'t process it.'
+            );
+        }
+    },
+    {
+        concurrency: 1,
+        connection: workerRedisClient,
+    }
+);
+
+worker7.on('completed', async (job: Job, result: string | number) => {
+    if (job.name === 'reindexJob') {
+        logger.log(`Products have been reindexed into "${result}"`);
+    }
+});
+
+worker7.on('failed', async (job, err) => {
+    if (!job) {
+        return logger.error('Failed job not found!');
+    }
+    await failedJobHandler(job, err);
+});
+
+worker7.on('error', (err) => {
+    logger.error('Error from worker7: ' + err);
+});
+
+const worker8 = new Worker(
+    'productImportJobQueue',
+    async (job: Job) => {
+        try {
+            return await productImportService.processImport(
+                job.data.importId
+            );
+        } catch (error) {
+            logger.error('Error from worker8: ' + error);
+            throw new Error(
+                '"productImportJobQueue" worker couldn\'t process it.'
+            );
+        }
+    },
+    {
+        concurrency: 1,
+        connection: workerRedisClient,
+    }
+);
+
+worker8.on('failed', async (job, err) => {
+    if (!job) {
+        return logger.error('Failed job not found!');
+    }
+    await failedJobHandler(job, err);
+});
+
+worker8.on('error', (err) => {
+    logger.error('Error from worker8: ' + err);
+});
+
+const worker9 = new Worker(
+    'priceChangeJobQueue',
+    async (job: Job) => {
+        try {
+            if (job.name === 'revertPriceChangeJob') {
+                return await priceService.revertPriceChange(job.data.changeId);
+            }
+
+            return await priceService.applyPriceChange(job.data.changeId);
+        } catch (error) {
+            logger.error('Error from worker9: ' + error);
+            throw new Error(
+                '"priceChangeJobQueue" worker couldn\'t process it.'
+            );
+        }
+    },
+    {
+        concurrency: 1,
+        connection: workerRedisClient,
+    }
+);
+
+worker9.on('failed', async (job, err) => {
+    if (!job) {
+        return logger.error('Failed job not found!');
+    }
+    await failedJobHandler(job, err);
+});
+
+worker9.on('error', (err) => {
+    logger.error('Error from worker9: ' + err);
+});
+
+const worker10 = new Worker(
+    'flashSaleJobQueue',
+    async (job: Job) => {
+        try {
+            if (job.name === 'deactivateFlashSaleJob') {
+                return await flashSaleService.deactivateFlashSale(
+                    job.data.flashSaleId
+                );
+            }
+
+            if (job.name === 'expiredCheckoutJob') {
+                return await paymentService.releaseExpiredCheckouts();
+            }
+
+            return await flashSaleService.activateFlashSale(
+                job.data.flashSaleId
+            );
+        } catch (error) {
+            logger.error('Error from worker10: ' + error);
+            throw new Error(
+                '"flashSaleJobQueue" worker couldn\'t process it.'
+            );
+        }
+    },
+    {
+        concurrency: 1,
+        connection: workerRedisClient,
+    }
+);
+
+worker10.on('failed', async (job, err) => {
+    if (!job) {
+        return logger.error('Failed job not found!');
+    }
+    await failedJobHandler(job, err);
+});
+
+worker10.on('error', (err) => {
+    logger.error('Error from worker10: ' + err);
+});
+
+const worker11 = new Worker(
+    'abandonedCartJobQueue',
+    async () => {
+        try {
+            return await cartRecoveryService.processAbandonedCarts();
+        } catch (error) {
+            logger.error('Error from worker11: ' + error);
+            throw new Error(
+                '"abandonedCartJobQueue" worker couldn\'t process it.'
+            );
+        }
+    },
+    {
+        concurrency: 1,
+        connection: workerRedisClient,
+    }
+);
+
+worker11.on('failed', async (job, err) => {
+    if (!job) {
+        return logger.error('Failed job not found!');
+    }
+    await failedJobHandler(job, err);
+});
+
+worker11.on('error', (err) => {
+    logger.error('Error from worker11: ' + err);
+});
+
+const worker12 = new Worker(
+    'wishlistAlertJobQueue',
+    async () => {
+        try {
+            return await wishlistService.processWishlistAlerts();
+        } catch (error) {
+            logger.error('Error from worker12: ' + error);
+            throw new Error(
+                '"wishlistAlertJobQueue" worker couldn\'t process it.'
+            );
+        }
+    },
+    {
+        concurrency: 1,
+        connection: workerRedisClient,
+    }
+);
+
+worker12.on('failed', async (job, err) => {
+    if (!job) {
+        return logger.error('Failed job not found!');
+    }
+    await failedJobHandler(job, err);
+});
+
+worker12.on('error', (err) => {
+    logger.error('Error from worker12: ' + err);
+});
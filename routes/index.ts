@@ -9,6 +9,12 @@
  *     description: Read-only product and platform rating related operations
  *   - name: Subscriptions
  *     description: Simple endpoint that retrieves customer memberships
+ *   - name: Carts
+ *     description: Guest cart operations for visitors without an account
+ *   - name: Wishlists
+ *     description: Read-only wishlists shared by customers
+ *   - name: Webhooks
+ *     description: Endpoints receiving events from external providers
  */
 
 import { Router, Request, Response } from 'express';
@@ -16,6 +22,8 @@ import userRoutes from './protected/users.route';
 import productRoutes from './public/products.route';
 import ratingRoutes from './public/ratings.route';
 import subscriptionRoutes from './public/subscriptions.route';
+import guestCartRoutes from './public/carts.route';
+import sharedWishlistRoutes from './public/wishlists.route';
 
 const router: Router = Router();
 
@@ -38,6 +46,36 @@ router.use('/ratings', ratingRoutes);
 
 router.use('/subscriptions', subscriptionRoutes);
 
+/**
+ * @swagger
+ * /carts/items:
+ *   get:
+ *     tags:
+ *       - Carts
+ *     description: Retrieve the items of the guest cart of the X-Cart-Token header.
+ *     responses:
+ *       200:
+ *         description: Successfully retrieved the guest cart items.
+ *       404:
+ *         description: Guest cart not found or expired.
+ */
+router.use('/carts', guestCartRoutes);
+
+/**
+ * @swagger
+ * /wishlists/shared/{token}:
+ *   get:
+ *     tags:
+ *       - Wishlists
+ *     description: Retrieve a wishlist from its share link.
+ *     responses:
+ *       200:
+ *         description: Successfully retrieved the shared wishlist.
+ *       404:
+ *         description: Wishlist not found or no longer shared.
+ */
+router.use('/wishlists', sharedWishlistRoutes);
+
 router.use((_req: Request, res: Response) => {
     res.status(404).json({ message: 'Route not found' });
 });
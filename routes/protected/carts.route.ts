@@ -1,14 +1,38 @@
 import { Router } from 'express';
+import { checkExact } from 'express-validator';
 import { CartController } from '@/controllers/Cart.controller';
-import { CartService } from '@/services';
+import { WishlistController } from '@/controllers/Wishlist.controller';
+import { PaymentController } from '@/controllers/Payment.controller';
+import {
+    CartService,
+    WishlistService,
+    PaymentService,
+    OrderService,
+    ShippingService,
+    NotificationService,
+} from '@/services';
 import {
     validateCartItemDetails,
+    validateCartItemRemoval,
+    validateCartItemMoveToWishlist,
+    validateCartQuote,
+    validateCheckoutDetails,
+    validateIdempotencyKey,
     validateId,
     validationErrors,
 } from '@/middlewares/validation';
 
 const router: Router = Router();
 const cartController = new CartController(new CartService());
+const wishlistController = new WishlistController(new WishlistService());
+const paymentController = new PaymentController(
+    new PaymentService(
+        process.env.STRIPE_KEY as string,
+        new OrderService(),
+        new ShippingService(),
+        new NotificationService()
+    )
+);
 
 router.post(
     '/items',
@@ -19,14 +43,40 @@ router.post(
 
 router.get('/items', cartController.getCartItems.bind(cartController));
 router.get('/items/checkout', cartController.cartCheckout.bind(cartController));
+router.get(
+    '/quote',
+    validateCartQuote(),
+    validationErrors,
+    cartController.getCartQuote.bind(cartController)
+);
+
+// Pays for the cart items and turns them into an order
+router.post(
+    '/checkout',
+    validateIdempotencyKey(),
+    validateCheckoutDetails(),
+    checkExact([]),
+    validationErrors,
+    paymentController.checkoutCart.bind(paymentController)
+);
 
 router.patch(
     '/items/:id',
     validateId(),
+    validateCartItemRemoval(),
     validationErrors,
     cartController.removeItemFromCart.bind(cartController)
 ); // Used patch due to common quantity subtraction updates
 
+// Saves the item for later, moving items back is under /customers/wishlists
+router.post(
+    '/items/:id/move-to-wishlist',
+    validateId(),
+    validateCartItemMoveToWishlist(),
+    validationErrors,
+    wishlistController.moveToWishlist.bind(wishlistController)
+);
+
 router.delete('/items', cartController.clearCart.bind(cartController));
 
 export default router;
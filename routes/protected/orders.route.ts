@@ -1,14 +1,17 @@
 import { Router } from 'express';
 import { OrderController } from '@/controllers/Order.controller';
-import { OrderService } from '@/services';
+import { InvoiceController } from '@/controllers/Invoice.controller';
+import { OrderService, InvoiceService } from '@/services';
 import {
     validateId,
     validationErrors,
     validateOrderStatus,
+    validateInvoiceNumber,
 } from '@/middlewares/validation';
 
 const router: Router = Router();
 const orderController = new OrderController(new OrderService());
+const invoiceController = new InvoiceController(new InvoiceService());
 
 router.get(
     '/search',
@@ -32,6 +35,25 @@ router.get(
     validationErrors,
     orderController.getOrderItemsByOrderId.bind(orderController)
 );
+router.get(
+    '/:id/shipments',
+    validateId(),
+    validationErrors,
+    orderController.getOrderShipments.bind(orderController)
+);
+router.get(
+    '/:id/invoices',
+    validateId(),
+    validationErrors,
+    invoiceController.getOrderInvoices.bind(invoiceController)
+);
+router.get(
+    '/:id/invoices/:number',
+    validateId(),
+    validateInvoiceNumber(),
+    validationErrors,
+    invoiceController.downloadInvoice.bind(invoiceController)
+);
 router.get(
     '/:id/items/total',
     validateId(),
@@ -10,6 +10,7 @@ import {
     validatePurchaseData,
     validateId,
     validateRefundRequest,
+    validateWalletTopUp,
     validationErrors,
 } from '@/middlewares/validation';
 import { checkExact } from 'express-validator';
@@ -46,6 +47,13 @@ router.post(
     validationErrors,
     paymentController.processPaymentAndCreateOrder.bind(paymentController)
 );
+router.post(
+    '/wallet/top-up',
+    validateWalletTopUp(),
+    checkExact([]),
+    validationErrors,
+    paymentController.topUpWallet.bind(paymentController)
+);
 
 router.get(
     '/payment-methods',
@@ -55,6 +63,7 @@ router.get(
     '/payment-methods/:id',
     paymentController.getPaymentMethodById.bind(paymentController)
 );
+router.get('/wallet', paymentController.getWallet.bind(paymentController));
 router.get(
     '/refund-requests',
     paymentController.getCustomerRefundRequests.bind(paymentController)
@@ -1,17 +1,26 @@
 import { Router } from 'express';
 import { OrderController } from '../../../controllers/Order.controller';
-import { OrderService, AdminLogsService } from '../../../services';
+import { InvoiceController } from '../../../controllers/Invoice.controller';
+import {
+    OrderService,
+    InvoiceService,
+    AdminLogsService,
+} from '../../../services';
 import {
     validateId,
     validateOrderStatus,
+    validateShipment,
+    validateInvoiceNumber,
     validationErrors,
 } from '../../../middlewares/validation';
+import { checkExact } from 'express-validator';
 
 const router: Router = Router();
 const orderController = new OrderController(
     new OrderService(),
     new AdminLogsService()
 );
+const invoiceController = new InvoiceController(new InvoiceService());
 
 router.get('/', orderController.getAllOrders.bind(orderController));
 router.get(
@@ -45,7 +54,47 @@ router.get(
     validationErrors,
     orderController.getOrderItemsByOrderId.bind(orderController)
 );
+router.get(
+    '/:id/shipments',
+    validateId(),
+    validationErrors,
+    orderController.getOrderShipments.bind(orderController)
+);
+router.get(
+    '/:id/invoices',
+    validateId(),
+    validationErrors,
+    invoiceController.getOrderInvoices.bind(invoiceController)
+);
+router.get(
+    '/:id/invoices/:number',
+    validateId(),
+    validateInvoiceNumber(),
+    validationErrors,
+    invoiceController.downloadInvoice.bind(invoiceController)
+);
 
+router.post(
+    '/:id/shipments',
+    validateId(),
+    validateShipment(),
+    checkExact([]),
+    validationErrors,
+    orderController.shipOrder.bind(orderController)
+);
+
+router.patch(
+    '/:id/mark-processing',
+    validateId(),
+    validationErrors,
+    orderController.markAsProcessing.bind(orderController)
+);
+router.patch(
+    '/:id/mark-awaiting-pickup',
+    validateId(),
+    validationErrors,
+    orderController.markAsAwaitingPickup.bind(orderController)
+);
 router.patch(
     '/:id/mark-delivered',
     validateId(),
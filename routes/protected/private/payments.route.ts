@@ -1,18 +1,19 @@
 import { Router } from 'express';
 import { PaymentController } from '@/controllers/Payment.controller';
-import { PaymentService, NotificationService } from '@/services';
+import { PaymentService, OrderService, NotificationService } from '@/services';
 import { checkExact } from 'express-validator';
 import {
     validationErrors,
     validateId,
     validateRefundRequestHandling,
     validateRefundRequestFiltering,
+    validateBankTransferReference,
 } from '@/middlewares/validation';
 
 const router: Router = Router();
 const paymentService = new PaymentService(
     process.env.STRIPE_KEY as string,
-    undefined,
+    new OrderService(),
     undefined,
     new NotificationService()
 );
@@ -26,6 +27,13 @@ router.post(
     paymentController.handleRefundRequest.bind(paymentController)
 );
 
+router.post(
+    '/bank-transfers/:reference/confirm',
+    validateBankTransferReference(),
+    validationErrors,
+    paymentController.confirmBankTransfer.bind(paymentController)
+);
+
 router.get(
     '/refund-requests',
     validateRefundRequestFiltering(),
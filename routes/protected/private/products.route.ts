@@ -1,7 +1,27 @@
 import { Router } from 'express';
 import { ProductController } from '@/controllers/Product.controller';
+import { CouponController } from '@/controllers/Coupon.controller';
+import { SearchIndexController } from '@/controllers/SearchIndex.controller';
+import { ProductVariantController } from '@/controllers/ProductVariant.controller';
+import { MediaController } from '@/controllers/Media.controller';
+import { ProductImportController } from '@/controllers/ProductImport.controller';
+import { PriceController } from '@/controllers/Price.controller';
+import { FlashSaleController } from '@/controllers/FlashSale.controller';
+import { BundleController } from '@/controllers/Bundle.controller';
+import { AttributeController } from '@/controllers/Attribute.controller';
+import { CategoryController } from '@/controllers/Category.controller';
 import {
     ProductService,
+    CouponService,
+    SearchIndexService,
+    ProductVariantService,
+    MediaService,
+    ProductImportService,
+    PriceService,
+    FlashSaleService,
+    BundleService,
+    AttributeService,
+    CategoryService,
     AdminLogsService,
     NotificationService,
 } from '@/services';
@@ -13,6 +33,7 @@ import {
     categoryDeletionRateLimiter,
     productDeletionRateLimiter,
 } from '@/middlewares/rateLimiting';
+import { uploadProductMedia, uploadImportFile } from '@/middlewares/upload';
 import {
     validateCategory,
     validateProduct,
@@ -20,6 +41,28 @@ import {
     validateDiscount,
     validateCategoryUpdate,
     validateProductUpdate,
+    validateCoupon,
+    validateCouponUpdate,
+    validateSearchReport,
+    validateProductOption,
+    validateProductOptionUpdate,
+    validateProductVariant,
+    validateProductVariantUpdate,
+    validateProductMedia,
+    validateProductMediaUpdate,
+    validateProductMediaOrder,
+    validateProductImport,
+    validateProductExport,
+    validatePriceChange,
+    validatePriceChangeStatus,
+    validatePriceHistory,
+    validateFlashSale,
+    validateFlashSaleStatus,
+    validateBundle,
+    validateCategoryAttribute,
+    validateCategoryAttributeUpdate,
+    validateCategoryMove,
+    validateCategoryOrder,
     validateId,
     validationErrors,
 } from '@/middlewares/validation';
@@ -30,6 +73,45 @@ const productController = new ProductController(
     new ProductService(new NotificationService()),
     new AdminLogsService()
 );
+const couponController = new CouponController(
+    new CouponService(),
+    new AdminLogsService()
+);
+const searchIndexController = new SearchIndexController(
+    new SearchIndexService()
+);
+const productVariantController = new ProductVariantController(
+    new ProductVariantService(),
+    new AdminLogsService()
+);
+const mediaController = new MediaController(
+    new MediaService(),
+    new AdminLogsService()
+);
+const productImportController = new ProductImportController(
+    new ProductImportService(),
+    new AdminLogsService()
+);
+const priceController = new PriceController(
+    new PriceService(),
+    new AdminLogsService()
+);
+const flashSaleController = new FlashSaleController(
+    new FlashSaleService(),
+    new AdminLogsService()
+);
+const bundleController = new BundleController(
+    new BundleService(),
+    new AdminLogsService()
+);
+const attributeController = new AttributeController(
+    new AttributeService(),
+    new AdminLogsService()
+);
+const categoryController = new CategoryController(
+    new CategoryService(),
+    new AdminLogsService()
+);
 
 router.post(
     '/categories',
@@ -39,6 +121,15 @@ router.post(
     validationErrors,
     productController.addCategory.bind(productController)
 );
+router.post(
+    '/categories/:id/attributes',
+    categoryUpdateRateLimiter,
+    validateId(),
+    validateCategoryAttribute(),
+    checkExact([]),
+    validationErrors,
+    attributeController.addCategoryAttribute.bind(attributeController)
+);
 router.post(
     '/categories/:id/products',
     productCreationRateLimiter,
@@ -48,6 +139,72 @@ router.post(
     validationErrors,
     productController.addProductByCategoryId.bind(productController)
 );
+router.post(
+    '/coupons',
+    productCreationRateLimiter,
+    validateCoupon(),
+    checkExact([]),
+    validationErrors,
+    couponController.createCoupon.bind(couponController)
+);
+router.post(
+    '/flash-sales',
+    productCreationRateLimiter,
+    validateFlashSale(),
+    checkExact([]),
+    validationErrors,
+    flashSaleController.createFlashSale.bind(flashSaleController)
+);
+router.post(
+    '/:productId/options',
+    productCreationRateLimiter,
+    validateId('productId'),
+    validateProductOption(),
+    checkExact([]),
+    validationErrors,
+    productVariantController.createOption.bind(productVariantController)
+);
+router.post(
+    '/:productId/variants',
+    productCreationRateLimiter,
+    validateId('productId'),
+    validateProductVariant(),
+    checkExact([]),
+    validationErrors,
+    productVariantController.createVariant.bind(productVariantController)
+);
+router.post(
+    '/:productId/media',
+    productCreationRateLimiter,
+    uploadProductMedia,
+    validateId('productId'),
+    validateProductMedia(),
+    checkExact([]),
+    validationErrors,
+    mediaController.addProductMedia.bind(mediaController)
+);
+router.post(
+    '/:productId/price-changes',
+    productUpdateRateLimiter,
+    validateId('productId'),
+    validatePriceChange(),
+    checkExact([]),
+    validationErrors,
+    priceController.schedulePriceChange.bind(priceController)
+);
+router.post(
+    '/import',
+    productCreationRateLimiter,
+    uploadImportFile,
+    validateProductImport(),
+    checkExact([]),
+    validationErrors,
+    productImportController.importProducts.bind(productImportController)
+);
+router.post(
+    '/search-index/reindex',
+    searchIndexController.reindexProducts.bind(searchIndexController)
+);
 
 router.get(
     '/:productId/category',
@@ -61,6 +218,69 @@ router.get(
     validationErrors,
     productController.getProductsByStockStatus.bind(productController)
 );
+router.get(
+    '/search/zero-results',
+    validateSearchReport(),
+    validationErrors,
+    productController.getZeroResultSearches.bind(productController)
+);
+router.get(
+    '/:productId/variants',
+    validateId('productId'),
+    validationErrors,
+    productVariantController.getProductVariants.bind(productVariantController)
+);
+router.get(
+    '/:productId/price-changes',
+    validateId('productId'),
+    validatePriceChangeStatus(),
+    validationErrors,
+    priceController.getPriceChanges.bind(priceController)
+);
+router.get(
+    '/:productId/price-history',
+    validateId('productId'),
+    validatePriceHistory(),
+    validationErrors,
+    priceController.getPriceHistory.bind(priceController)
+);
+router.get(
+    '/imports/:id',
+    validateId(),
+    validationErrors,
+    productImportController.getImport.bind(productImportController)
+);
+router.get(
+    '/imports/:id/errors',
+    validateId(),
+    validationErrors,
+    productImportController.downloadErrorReport.bind(productImportController)
+);
+router.get(
+    '/export',
+    validateProductExport(),
+    validationErrors,
+    productImportController.exportProducts.bind(productImportController)
+);
+router.get('/coupons', couponController.getCoupons.bind(couponController));
+router.get(
+    '/coupons/:id',
+    validateId(),
+    validationErrors,
+    couponController.getCouponById.bind(couponController)
+);
+router.get(
+    '/flash-sales',
+    validateFlashSaleStatus(),
+    validationErrors,
+    flashSaleController.getFlashSales.bind(flashSaleController)
+);
+router.get(
+    '/flash-sales/:id',
+    validateId(),
+    validationErrors,
+    flashSaleController.getFlashSaleById.bind(flashSaleController)
+);
 
 router.patch(
     '/categories/:id',
@@ -70,6 +290,64 @@ router.patch(
     validationErrors,
     productController.updateCategoryById.bind(productController)
 );
+router.patch(
+    '/categories/:id/move',
+    categoryUpdateRateLimiter,
+    validateId(),
+    validateCategoryMove(),
+    checkExact([]),
+    validationErrors,
+    categoryController.moveCategory.bind(categoryController)
+);
+router.patch(
+    '/categories/:id/attributes/:attributeId',
+    categoryUpdateRateLimiter,
+    validateId(),
+    validateId('attributeId'),
+    validateCategoryAttributeUpdate(),
+    checkExact([]),
+    validationErrors,
+    attributeController.updateCategoryAttribute.bind(attributeController)
+);
+router.patch(
+    '/coupons/:id',
+    productUpdateRateLimiter,
+    validateId(),
+    validateCouponUpdate(),
+    checkExact([]),
+    validationErrors,
+    couponController.updateCouponById.bind(couponController)
+);
+router.patch(
+    '/:productId/options/:optionId',
+    productUpdateRateLimiter,
+    validateId('productId'),
+    validateId('optionId'),
+    validateProductOptionUpdate(),
+    checkExact([]),
+    validationErrors,
+    productVariantController.updateOption.bind(productVariantController)
+);
+router.patch(
+    '/:productId/variants/:variantId',
+    productUpdateRateLimiter,
+    validateId('productId'),
+    validateId('variantId'),
+    validateProductVariantUpdate(),
+    checkExact([]),
+    validationErrors,
+    productVariantController.updateVariant.bind(productVariantController)
+);
+router.patch(
+    '/:productId/media/:mediaId',
+    productUpdateRateLimiter,
+    validateId('productId'),
+    validateId('mediaId'),
+    validateProductMediaUpdate(),
+    checkExact([]),
+    validationErrors,
+    mediaController.updateProductMedia.bind(mediaController)
+);
 router.patch(
     '/:productId/discount',
     productUpdateRateLimiter,
@@ -88,6 +366,33 @@ router.patch(
     productController.updateProductById.bind(productController)
 );
 
+router.put(
+    '/categories/order',
+    categoryUpdateRateLimiter,
+    validateCategoryOrder(),
+    checkExact([]),
+    validationErrors,
+    categoryController.reorderCategories.bind(categoryController)
+);
+router.put(
+    '/:productId/media/order',
+    productUpdateRateLimiter,
+    validateId('productId'),
+    validateProductMediaOrder(),
+    checkExact([]),
+    validationErrors,
+    mediaController.reorderProductMedia.bind(mediaController)
+);
+router.put(
+    '/:productId/bundle',
+    productUpdateRateLimiter,
+    validateId('productId'),
+    validateBundle(),
+    checkExact([]),
+    validationErrors,
+    bundleController.setBundleComponents.bind(bundleController)
+);
+
 router.delete(
     '/categories/:id',
     categoryDeletionRateLimiter,
@@ -95,6 +400,67 @@ router.delete(
     validationErrors,
     productController.deleteCategoryById.bind(productController)
 );
+router.delete(
+    '/categories/:id/attributes/:attributeId',
+    categoryUpdateRateLimiter,
+    validateId(),
+    validateId('attributeId'),
+    validationErrors,
+    attributeController.deleteCategoryAttribute.bind(attributeController)
+);
+router.delete(
+    '/coupons/:id',
+    productDeletionRateLimiter,
+    validateId(),
+    validationErrors,
+    couponController.deleteCouponById.bind(couponController)
+);
+router.delete(
+    '/flash-sales/:id',
+    productUpdateRateLimiter,
+    validateId(),
+    validationErrors,
+    flashSaleController.cancelFlashSale.bind(flashSaleController)
+);
+router.delete(
+    '/:productId/options/:optionId',
+    productDeletionRateLimiter,
+    validateId('productId'),
+    validateId('optionId'),
+    validationErrors,
+    productVariantController.deleteOption.bind(productVariantController)
+);
+router.delete(
+    '/:productId/variants/:variantId',
+    productDeletionRateLimiter,
+    validateId('productId'),
+    validateId('variantId'),
+    validationErrors,
+    productVariantController.deleteVariant.bind(productVariantController)
+);
+router.delete(
+    '/:productId/price-changes/:changeId',
+    productUpdateRateLimiter,
+    validateId('productId'),
+    validateId('changeId'),
+    validationErrors,
+    priceController.cancelPriceChange.bind(priceController)
+);
+router.delete(
+    '/:productId/bundle',
+    productDeletionRateLimiter,
+    validateId('productId'),
+    validationErrors,
+    bundleController.deleteBundle.bind(bundleController)
+);
+router.delete(
+    '/:productId/media/:mediaId',
+    productDeletionRateLimiter,
+    validateId('productId'),
+    validateId('mediaId'),
+    validationErrors,
+    mediaController.deleteProductMedia.bind(mediaController)
+);
 router.delete(
     '/:id',
     productDeletionRateLimiter,
@@ -11,6 +11,7 @@ import {
     validationErrors,
     validateShippingCountryUpdate,
     validateShippingCityUpdate,
+    validateTaxRates,
 } from '@/middlewares/validation';
 
 const router: Router = Router();
@@ -72,6 +73,14 @@ router.put(
     validationErrors,
     shippingController.updateShippingCountry.bind(shippingController)
 );
+router.put(
+    '/countries/:id/tax-rates',
+    shippingUpdateRateLimiter,
+    validateId(),
+    validateTaxRates(),
+    validationErrors,
+    shippingController.updateCountryTaxRates.bind(shippingController)
+);
 router.put(
     '/countries/cities/:id',
     shippingUpdateRateLimiter,
@@ -1,10 +1,17 @@
 import { Router } from 'express';
 import { UserController } from '@/controllers/User.controller';
-import { UserService, PaymentService, NotificationService } from '@/services';
+import { MediaController } from '@/controllers/Media.controller';
+import {
+    UserService,
+    PaymentService,
+    NotificationService,
+    MediaService,
+} from '@/services';
 import authenticateRefreshToken from '@/middlewares/authentication/refreshToken';
 import authenticateAccessToken from '@/middlewares/authentication/accessToken';
 import authenticateGenericToken from '@/middlewares/authentication/genericToken';
 import authorize from '@/middlewares/authorization/authorize';
+import { checkExact } from 'express-validator';
 import {
     signupRateLimiter,
     loginRateLimiter,
@@ -13,6 +20,7 @@ import {
     passwordChangeRateLimiter,
     passwordResetRequestRateLimiter,
 } from '@/middlewares/rateLimiting';
+import { uploadProfilePicture } from '@/middlewares/upload';
 import {
     validateRegistration,
     validateLogIn,
@@ -23,8 +31,11 @@ import {
     validationErrors,
     validatePassword,
     validateEmail,
+    validateProfilePicture,
+    validateCartToken,
 } from '@/middlewares/validation';
 import cartRoutes from './carts.route';
+import wishlistRoutes from './wishlists.route';
 import paymentRoutes from './payments.route';
 import orderRoutes from './orders.route';
 import shippingRoutes from './shippings.route';
@@ -38,6 +49,7 @@ const userService = new UserService(
     new NotificationService()
 );
 const userController = new UserController(userService);
+const mediaController = new MediaController(new MediaService());
 
 /**
  * @swagger
@@ -105,12 +117,15 @@ router.post(
 router.post(
     '/auth/signup',
     authenticateGenericToken,
+    validateCartToken(),
+    validationErrors,
     userController.signUpCustomer.bind(userController)
 );
 router.post(
     '/auth/login',
     loginRateLimiter,
     validateLogIn(),
+    validateCartToken(),
     validationErrors,
     userController.loginUser.bind(userController)
 );
@@ -179,6 +194,22 @@ router.patch(
     userController.updateUser.bind(userController)
 );
 
+router.put(
+    '/profile-picture',
+    authenticateAccessToken,
+    updateRateLimiter,
+    uploadProfilePicture,
+    validateProfilePicture(),
+    checkExact([]),
+    validationErrors,
+    mediaController.setProfilePicture.bind(mediaController)
+);
+
+router.delete(
+    '/profile-picture',
+    authenticateAccessToken,
+    mediaController.deleteProfilePicture.bind(mediaController)
+);
 router.delete(
     '/',
     authenticateAccessToken,
@@ -192,6 +223,13 @@ router.use(
     cartRoutes
 );
 
+router.use(
+    '/customers/wishlists',
+    authenticateAccessToken,
+    authorize(['customer']),
+    wishlistRoutes
+);
+
 router.use(
     '/customers/payments',
     authenticateAccessToken,
@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import { WishlistController } from '@/controllers/Wishlist.controller';
+import { WishlistService } from '@/services';
+import {
+    validateId,
+    validateWishlist,
+    validateWishlistItem,
+    validateWishlistItemNote,
+    validateWishlistMoveToCart,
+    validationErrors,
+} from '@/middlewares/validation';
+
+const router: Router = Router();
+const wishlistController = new WishlistController(new WishlistService());
+
+router.get('/', wishlistController.getWishlists.bind(wishlistController));
+router.post(
+    '/',
+    validateWishlist(),
+    validationErrors,
+    wishlistController.createWishlist.bind(wishlistController)
+);
+
+router.get(
+    '/:id',
+    validateId(),
+    validationErrors,
+    wishlistController.getWishlist.bind(wishlistController)
+);
+router.patch(
+    '/:id',
+    validateId(),
+    validateWishlist(),
+    validationErrors,
+    wishlistController.renameWishlist.bind(wishlistController)
+);
+router.delete(
+    '/:id',
+    validateId(),
+    validationErrors,
+    wishlistController.deleteWishlist.bind(wishlistController)
+);
+
+router.post(
+    '/:id/share',
+    validateId(),
+    validationErrors,
+    wishlistController.shareWishlist.bind(wishlistController)
+);
+router.delete(
+    '/:id/share',
+    validateId(),
+    validationErrors,
+    wishlistController.unshareWishlist.bind(wishlistController)
+);
+
+router.post(
+    '/:id/items',
+    validateId(),
+    validateWishlistItem(),
+    validationErrors,
+    wishlistController.addItem.bind(wishlistController)
+);
+router.patch(
+    '/:id/items/:itemId',
+    validateId(),
+    validateId('itemId'),
+    validateWishlistItemNote(),
+    validationErrors,
+    wishlistController.updateItemNote.bind(wishlistController)
+);
+router.delete(
+    '/:id/items/:itemId',
+    validateId(),
+    validateId('itemId'),
+    validationErrors,
+    wishlistController.removeItem.bind(wishlistController)
+);
+router.post(
+    '/:id/items/:itemId/move-to-cart',
+    validateId(),
+    validateId('itemId'),
+    validateWishlistMoveToCart(),
+    validationErrors,
+    wishlistController.moveToCart.bind(wishlistController)
+);
+
+export default router;
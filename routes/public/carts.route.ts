@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { GuestCartController } from '@/controllers/GuestCart.controller';
+import { CartRecoveryController } from '@/controllers/CartRecovery.controller';
+import { GuestCartService, CartRecoveryService } from '@/services';
+import { guestCartRateLimiter } from '@/middlewares/rateLimiting';
+import {
+    validateCartItemDetails,
+    validateCartItemRemoval,
+    validateCartToken,
+    validateCartRecoveryToken,
+    validateId,
+    validationErrors,
+} from '@/middlewares/validation';
+
+const router: Router = Router();
+const guestCartController = new GuestCartController(new GuestCartService());
+const cartRecoveryController = new CartRecoveryController(
+    new CartRecoveryService()
+);
+
+// Guest carts are identified by the token returned when adding their first item
+router.use(guestCartRateLimiter);
+
+router.post(
+    '/items',
+    validateCartToken(),
+    validateCartItemDetails(),
+    validationErrors,
+    guestCartController.addItemToCart.bind(guestCartController)
+);
+
+router.get(
+    '/items',
+    validateCartToken(true),
+    validationErrors,
+    guestCartController.getCartItems.bind(guestCartController)
+);
+router.get(
+    '/items/checkout',
+    validateCartToken(true),
+    validationErrors,
+    guestCartController.cartCheckout.bind(guestCartController)
+);
+
+router.patch(
+    '/items/:id',
+    validateId(),
+    validateCartToken(true),
+    validateCartItemRemoval(),
+    validationErrors,
+    guestCartController.removeItemFromCart.bind(guestCartController)
+); // Used patch due to common quantity subtraction updates
+
+router.delete(
+    '/items',
+    validateCartToken(true),
+    validationErrors,
+    guestCartController.clearCart.bind(guestCartController)
+);
+
+// Restore links of abandoned cart emails
+router.post(
+    '/restore/:token',
+    validateCartRecoveryToken(),
+    validationErrors,
+    cartRecoveryController.restoreCart.bind(cartRecoveryController)
+);
+
+export default router;
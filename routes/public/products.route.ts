@@ -1,33 +1,111 @@
 import { Router } from 'express';
 import { ProductController } from '@/controllers/Product.controller';
-import { ProductService } from '@/services';
+import { MediaController } from '@/controllers/Media.controller';
+import { FlashSaleController } from '@/controllers/FlashSale.controller';
+import { BundleController } from '@/controllers/Bundle.controller';
+import { AttributeController } from '@/controllers/Attribute.controller';
+import { CategoryController } from '@/controllers/Category.controller';
+import {
+    ProductService,
+    MediaService,
+    FlashSaleService,
+    BundleService,
+    AttributeService,
+    CategoryService,
+} from '@/services';
 import {
     validateId,
+    validateSlug,
+    validateBoolean,
+    validateProductSearch,
+    validateProductComparison,
     validateQuery,
     validationErrors,
 } from '@/middlewares/validation';
 
 const router: Router = Router();
 const productController = new ProductController(new ProductService());
+const mediaController = new MediaController(new MediaService());
+const flashSaleController = new FlashSaleController(new FlashSaleService());
+const bundleController = new BundleController(new BundleService());
+const attributeController = new AttributeController(new AttributeService());
+const categoryController = new CategoryController(new CategoryService());
 
+router.get(
+    '/categories/tree',
+    categoryController.getCategoryTree.bind(categoryController)
+);
+router.get(
+    '/categories/slug/:slug',
+    validateSlug(),
+    validationErrors,
+    categoryController.getCategoryBySlug.bind(categoryController)
+);
 router.get(
     '/categories/:id',
     validateId(),
+    validateBoolean('descendants'),
     validationErrors,
     productController.getProductsByCategory.bind(productController)
 );
+router.get(
+    '/categories/:id/breadcrumbs',
+    validateId(),
+    validationErrors,
+    categoryController.getCategoryBreadcrumbs.bind(categoryController)
+);
+router.get(
+    '/categories/:id/attributes',
+    validateId(),
+    validationErrors,
+    attributeController.getCategorySchema.bind(attributeController)
+);
+router.get(
+    '/compare',
+    validateProductComparison(),
+    validationErrors,
+    attributeController.compareProducts.bind(attributeController)
+);
 router.get(
     '/view/:id',
     validateId(),
     validationErrors,
     productController.viewProductById.bind(productController)
 );
+router.get(
+    '/slug/:slug',
+    validateSlug(),
+    validationErrors,
+    productController.viewProductBySlug.bind(productController)
+);
+router.get(
+    '/:productId/breadcrumbs',
+    validateId('productId'),
+    validationErrors,
+    categoryController.getProductBreadcrumbs.bind(categoryController)
+);
+router.get(
+    '/:productId/media',
+    validateId('productId'),
+    validationErrors,
+    mediaController.getProductMedia.bind(mediaController)
+);
+router.get(
+    '/:productId/bundle',
+    validateId('productId'),
+    validationErrors,
+    bundleController.getBundle.bind(bundleController)
+);
 router.get(
     '/:id/discounted',
     validateId(),
     validationErrors,
     productController.getDiscountedPrice.bind(productController)
 );
+router.get(
+    '/flash-sales',
+    flashSaleController.getCurrentFlashSales.bind(flashSaleController)
+);
 router.get(
     '/categories/top-level',
     productController.getAllTopLevelCategories.bind(productController)
@@ -43,9 +121,15 @@ router.get(
     productController.getSubCategoriesForCategory.bind(productController)
 );
 router.get(
-    '/search',
+    '/search/autocomplete',
     validateQuery(),
     validationErrors,
+    productController.autocompleteProducts.bind(productController)
+);
+router.get(
+    '/search',
+    validateProductSearch(),
+    validationErrors,
     productController.searchProducts.bind(productController)
 );
 router.get('/', productController.getAllProducts.bind(productController));
@@ -0,0 +1,37 @@
+import express, { Router } from 'express';
+import {
+    WebhookService,
+    NotificationService,
+    LoggingService,
+} from '@/services';
+import { WebhookController } from '@/controllers/Webhook.controller';
+
+const router: Router = Router();
+const webhookController = new WebhookController(
+    new WebhookService(
+        process.env.STRIPE_KEY,
+        new NotificationService(),
+        new LoggingService()
+    )
+);
+
+/**
+ * @swagger
+ * /webhooks/stripe:
+ *   post:
+ *     tags:
+ *       - Webhooks
+ *     description: Receives Stripe events. The request signature is verified against the raw body.
+ *     responses:
+ *       200:
+ *         description: The event was received.
+ *       400:
+ *         description: The signature is missing or invalid.
+ */
+router.post(
+    '/stripe',
+    express.raw({ type: 'application/json' }),
+    webhookController.handleStripeWebhook.bind(webhookController)
+);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { WishlistController } from '@/controllers/Wishlist.controller';
+import { WishlistService } from '@/services';
+import {
+    validateWishlistShareToken,
+    validationErrors,
+} from '@/middlewares/validation';
+
+const router: Router = Router();
+const wishlistController = new WishlistController(new WishlistService());
+
+// Share links of customer wishlists
+router.get(
+    '/shared/:token',
+    validateWishlistShareToken(),
+    validationErrors,
+    wishlistController.getSharedWishlist.bind(wishlistController)
+);
+
+export default router;
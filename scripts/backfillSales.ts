@@ -0,0 +1,53 @@
+import 'module-alias/register';
+import * as dotenv from 'dotenv';
+dotenv.config();
+import { sequelize } from '@/config/db';
+import { OrderService } from '@/services/Order.service';
+import { Order, Sale } from '@/models/relational';
+import { logger } from '@/logger';
+
+/**
+ * Reconstructs the missing sales and purchases from the existing orders.
+ *
+ * @remarks
+ * Orders that already have a sale are skipped, so the script can be run
+ * multiple times. Since historical discounts are not stored, the current
+ * product discount is used for the purchase discount rate.
+ */
+async function backfillSales(): Promise<void> {
+    const orderService = new OrderService();
+
+    const orders = await Order.findAll({
+        include: { model: Sale, attributes: [], required: false },
+        where: { '$Sale.id$': null },
+        order: [['id', 'ASC']],
+    });
+
+    logger.log(`Found ${orders.length} orders without a recorded sale`);
+
+    let recorded = 0;
+
+    for (const order of orders) {
+        const transaction = await sequelize.transaction();
+
+        try {
+            await orderService.recordSale(order, transaction);
+            await transaction.commit();
+            recorded++;
+        } catch (error) {
+            await transaction.rollback();
+            logger.error(
+                `Could not record sale for order "${order.id}": ` + error
+            );
+        }
+    }
+
+    logger.log(`Recorded sales for ${recorded}/${orders.length} orders`);
+}
+
+backfillSales()
+    .catch((err) => {
+        logger.error('Error backfilling sales: ' + err);
+        process.exitCode = 1;
+    })
+    .finally(() => sequelize.close());
@@ -0,0 +1,40 @@
+import 'module-alias/register';
+import * as dotenv from 'dotenv';
+dotenv.config();
+import { sequelize } from '@/config/db';
+import { Product } from '@/models/relational';
+import { uniqueSku } from '@/models/relational/slug';
+import { logger } from '@/logger';
+
+/**
+ * Generates the missing SKUs of the existing products.
+ *
+ * @remarks
+ * Products that already have a SKU are skipped, so the script can be run
+ * multiple times. Soft-deleted products get a SKU as well, so that their
+ * SKUs are not handed out to other products if they are restored.
+ */
+async function backfillSkus(): Promise<void> {
+    const products = await Product.findAll({
+        where: { sku: null },
+        attributes: ['id', 'name'],
+        order: [['id', 'ASC']],
+        paranoid: false,
+    });
+
+    for (const product of products) {
+        await Product.update(
+            { sku: await uniqueSku(Product, product.name) },
+            { where: { id: product.id }, paranoid: false }
+        );
+    }
+
+    logger.log(`Generated SKUs for ${products.length} products`);
+}
+
+backfillSkus()
+    .catch((err) => {
+        logger.error('Error backfilling SKUs: ' + err);
+        process.exitCode = 1;
+    })
+    .finally(() => sequelize.close());
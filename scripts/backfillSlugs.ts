@@ -0,0 +1,56 @@
+import 'module-alias/register';
+import * as dotenv from 'dotenv';
+dotenv.config();
+import { sequelize } from '@/config/db';
+import { Category, Product } from '@/models/relational';
+import { uniqueSlug } from '@/models/relational/slug';
+import { logger } from '@/logger';
+
+/**
+ * Generates the missing slugs of the existing categories and products.
+ *
+ * @remarks
+ * Rows that already have a slug are skipped, so the script can be run
+ * multiple times. Soft-deleted rows get a slug as well, so that their
+ * slugs are not handed out to other rows if they are restored.
+ */
+async function backfillSlugs(): Promise<void> {
+    const categories = await Category.findAll({
+        where: { slug: null },
+        attributes: ['id', 'name'],
+        order: [['id', 'ASC']],
+        paranoid: false,
+    });
+
+    for (const category of categories) {
+        await Category.update(
+            { slug: await uniqueSlug(Category, category.name) },
+            { where: { id: category.id! }, paranoid: false }
+        );
+    }
+
+    logger.log(`Generated slugs for ${categories.length} categories`);
+
+    const products = await Product.findAll({
+        where: { slug: null },
+        attributes: ['id', 'name'],
+        order: [['id', 'ASC']],
+        paranoid: false,
+    });
+
+    for (const product of products) {
+        await Product.update(
+            { slug: await uniqueSlug(Product, product.name) },
+            { where: { id: product.id }, paranoid: false }
+        );
+    }
+
+    logger.log(`Generated slugs for ${products.length} products`);
+}
+
+backfillSlugs()
+    .catch((err) => {
+        logger.error('Error backfilling slugs: ' + err);
+        process.exitCode = 1;
+    })
+    .finally(() => sequelize.close());
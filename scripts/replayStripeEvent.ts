@@ -0,0 +1,60 @@
+import 'module-alias/register';
+import * as dotenv from 'dotenv';
+dotenv.config();
+import { readFile } from 'fs/promises';
+import Stripe from 'stripe';
+import { sequelize, connectToMongoDB, mongoose } from '@/config/db';
+import { redisClient } from '@/config/redis';
+import {
+    WebhookService,
+    NotificationService,
+    LoggingService,
+} from '@/services';
+import { logger } from '@/logger';
+
+/**
+ * Replays a Stripe event fixture through the webhook handlers.
+ *
+ * @remarks
+ * The fixture is signed locally with `STRIPE_WEBHOOK_SECRET`, so the
+ * signature verification and the handlers run without reaching Stripe.
+ *
+ * Usage: `npm run replay:stripe-event -- scripts/fixtures/stripe/charge.refunded.json`
+ */
+async function replayStripeEvent(fixturePath: string): Promise<void> {
+    const payload = await readFile(fixturePath, 'utf-8');
+    const signature = Stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret: process.env.STRIPE_WEBHOOK_SECRET,
+    });
+
+    const webhookService = new WebhookService(
+        process.env.STRIPE_KEY,
+        new NotificationService(),
+        new LoggingService()
+    );
+
+    connectToMongoDB();
+
+    const event = webhookService.constructStripeEvent(payload, signature);
+    const handled = await webhookService.handleStripeEvent(event);
+
+    logger.log(
+        handled
+            ? `Handled event "${event.id}" (${event.type})`
+            : `Event "${event.id}" was already handled`
+    );
+}
+
+replayStripeEvent(process.argv[2])
+    .catch((err) => {
+        logger.error('Error replaying Stripe event: ' + err);
+        process.exitCode = 1;
+    })
+    .finally(() =>
+        Promise.all([
+            sequelize.close(),
+            mongoose.connection.close(),
+            redisClient.quit(),
+        ])
+    );
@@ -6,6 +6,7 @@ import cors from 'cors';
 import cookieParser from 'cookie-parser';
 import { sequelize, connectToMongoDB, mongoose } from '@/config/db';
 import indexRoutes from '@/routes';
+import webhookRoutes from '@/routes/public/webhooks.route';
 import swaggerUi from 'swagger-ui-express';
 import swaggerSpec from '@/swagger';
 import { redisClient } from '@/config/redis';
@@ -14,6 +15,7 @@ import { io } from '@/config/socket';
 import { transporter } from './config/transporter';
 import { logger } from '@/logger';
 import { listenToSocketEvents } from '@/socketEvents';
+import { LOCAL_MEDIA_DIR, MEDIA_URL_PATH } from '@/services/media_storage';
 import './queueWorkers';
 
 const HOST = process.env.HOST;
@@ -21,9 +23,13 @@ const PORT = process.env.PORT || 3000;
 const app: Express = express();
 
 app.use(cors());
+// Webhook signatures are computed over the raw body, so they are mounted before the JSON parser
+app.use('/webhooks', webhookRoutes);
 app.use(express.json());
 app.use(cookieParser());
 app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
+// Media uploaded to the local disk driver are served by the app itself
+app.use(MEDIA_URL_PATH, express.static(LOCAL_MEDIA_DIR));
 
 sequelize
     .sync()
@@ -10,7 +10,7 @@ interface AdminResponse {
     id?: number;
     role?: 'admin' | 'manager';
     createdAt?: Date;
-    profilePictureUrl?: string;
+    profilePictureUrl?: string | null;
     firstName: string;
     lastName: string;
     username: string;
@@ -315,7 +315,10 @@ export class AnalyticsService {
                 ],
                 [
                     Sequelize.cast(
-                        Sequelize.fn('SUM', Sequelize.col('discountRate')),
+                        Sequelize.fn(
+                            'SUM',
+                            Sequelize.literal('quantity * discountRate')
+                        ),
                         'float'
                     ),
                     'discountRate',
@@ -366,7 +369,10 @@ export class AnalyticsService {
             attributes: [
                 [
                     Sequelize.cast(
-                        Sequelize.fn('SUM', Sequelize.col('discountRate')),
+                        Sequelize.fn(
+                            'SUM',
+                            Sequelize.literal('quantity * discountRate')
+                        ),
                         'float'
                     ),
                     'discountRate',
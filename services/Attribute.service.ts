@@ -0,0 +1,490 @@
+import { sequelize } from '@/config/db';
+import { Category, CategoryAttribute, Product } from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
+import type {
+    AttributeType,
+    Specifications,
+} from '@/models/relational/CategoryAttribute.model';
+import {
+    CategoryNotFoundError,
+    CategoryAttributeNotFoundError,
+    CategoryAttributeAlreadyExistsError,
+    InvalidProductSpecificationsError,
+    ProductNotFoundError,
+} from '@/errors';
+
+interface AttributeDetails {
+    key: string;
+    name: string;
+    type: AttributeType;
+    unit?: string | null;
+    options?: string[] | null;
+    required?: boolean;
+    filterable?: boolean;
+    position?: number;
+}
+
+// The key and type are fixed, as the values of products depend on them
+type AttributeUpdateDetails = Partial<Omit<AttributeDetails, 'key' | 'type'>>;
+
+interface AttributeResponse {
+    id: number;
+    categoryId: number;
+    key: string;
+    name: string;
+    type: AttributeType;
+    unit: string | null;
+    options: string[] | null;
+    required: boolean;
+    filterable: boolean;
+    position: number;
+    inherited: boolean; // Declared by an ancestor of the category
+}
+
+interface ProductComparison {
+    products: {
+        id: number;
+        categoryId: number;
+        name: string;
+        imageUrl: string;
+        price: number;
+        discount: number;
+        finalPrice: number;
+        stockQuantity: number;
+    }[];
+    // A row per attribute of any of the products, with a value per product
+    rows: {
+        key: string;
+        name: string;
+        type: AttributeType;
+        unit: string | null;
+        values: (number | string | boolean | null)[];
+        differs: boolean;
+    }[];
+}
+
+const MAX_TEXT_LENGTH = 255;
+
+/**
+ * Service responsible for category attribute schemas and product specifications.
+ *
+ * @remarks
+ * Categories declare typed attributes, which also apply to their subcategories.
+ * Products store a value per attribute key in their specifications, which
+ * are validated against the schema of their category on every write and
+ * are indexed for the specification facets of product searches.
+ */
+export class AttributeService {
+    /**
+     * Retrieves the attribute schema of a category.
+     *
+     * @param categoryId - The id of the category
+     * @returns A promise resolving to the attributes of the category and its ancestors
+     *
+     * @throws {@link CategoryNotFoundError}
+     * Thrown if the category is not found.
+     */
+    public async getCategorySchema(
+        categoryId: number
+    ): Promise<AttributeResponse[]> {
+        const category = await Category.findByPk(categoryId, {
+            attributes: ['id'],
+        });
+
+        if (!category) {
+            throw new CategoryNotFoundError();
+        }
+
+        const schema = await this.findSchema(categoryId);
+
+        return schema.map((attribute) => ({
+            ...attribute.toJSON(),
+            inherited: attribute.categoryId !== categoryId,
+        }));
+    }
+
+    /**
+     * Retrieves the attributes faceted in product searches.
+     *
+     * @param [categoryId] - The id of the searched category
+     * @returns A promise resolving to the filterable attributes of the category,
+     * or of all categories if none is searched
+     */
+    public async getFilterableAttributes(
+        categoryId?: number
+    ): Promise<CategoryAttribute[]> {
+        const attributes = categoryId
+            ? await this.findSchema(categoryId)
+            : await CategoryAttribute.findAll({
+                  order: [
+                      ['position', 'ASC'],
+                      ['id', 'ASC'],
+                  ],
+              });
+
+        // Keys are unique within a branch of the category tree,
+        // but unrelated categories may declare the same key
+        const filterable = new Map<string, CategoryAttribute>();
+
+        attributes
+            .filter((attribute) => attribute.filterable)
+            .forEach((attribute) => {
+                if (!filterable.has(attribute.key)) {
+                    filterable.set(attribute.key, attribute);
+                }
+            });
+
+        return Array.from(filterable.values());
+    }
+
+    /**
+     * Adds an attribute to the schema of a category.
+     *
+     * @remarks
+     * Required attributes are enforced on the next write of existing products.
+     *
+     * @param categoryId - The id of the category
+     * @param details - The attribute details
+     * @returns A promise resolving to the created attribute
+     *
+     * @throws {@link CategoryNotFoundError}
+     * Thrown if the category is not found.
+     *
+     * @throws {@link CategoryAttributeAlreadyExistsError}
+     * Thrown if the key is declared by the category, its ancestors or its subcategories.
+     */
+    public async addCategoryAttribute(
+        categoryId: number,
+        details: AttributeDetails
+    ): Promise<AttributeResponse> {
+        const category = await Category.findByPk(categoryId, {
+            attributes: ['id'],
+        });
+
+        if (!category) {
+            throw new CategoryNotFoundError();
+        }
+
+        const parentIds = await Category.findParentIds();
+        const relatedIds = [
+            ...Category.pathOf(categoryId, parentIds),
+            ...Category.descendantsOf(categoryId, parentIds),
+        ];
+
+        if (
+            await CategoryAttribute.count({
+                where: { categoryId: relatedIds, key: details.key },
+            })
+        ) {
+            throw new CategoryAttributeAlreadyExistsError(
+                `Attribute "${details.key}" is already declared for the category or a related category`
+            );
+        }
+
+        const attribute = await CategoryAttribute.create({
+            ...details,
+            categoryId,
+            unit: details.type === 'number' ? (details.unit ?? null) : null,
+            options: details.type === 'enum' ? details.options! : null,
+        });
+
+        return { ...attribute.toJSON(), categoryId, inherited: false };
+    }
+
+    /**
+     * Updates an attribute of a category.
+     *
+     * @param categoryId - The id of the category
+     * @param attributeId - The id of the attribute
+     * @param details - The attribute update details
+     * @returns A promise resolving to the updated attribute
+     *
+     * @throws {@link CategoryAttributeNotFoundError}
+     * Thrown if the category has no attribute with the given id.
+     */
+    public async updateCategoryAttribute(
+        categoryId: number,
+        attributeId: number,
+        details: AttributeUpdateDetails
+    ): Promise<AttributeResponse> {
+        const attribute = await CategoryAttribute.findOne({
+            where: { id: attributeId, categoryId },
+        });
+
+        if (!attribute) {
+            throw new CategoryAttributeNotFoundError();
+        }
+
+        await attribute.update({
+            ...details,
+            ...(attribute.type !== 'number' && { unit: null }),
+            ...(attribute.type !== 'enum' && { options: null }),
+        });
+
+        return { ...attribute.toJSON(), categoryId, inherited: false };
+    }
+
+    /**
+     * Deletes an attribute of a category.
+     *
+     * @remarks
+     * The values of the attribute are removed from the specifications
+     * of the products of the category and its subcategories.
+     *
+     * @param categoryId - The id of the category
+     * @param attributeId - The id of the attribute
+     *
+     * @throws {@link CategoryAttributeNotFoundError}
+     * Thrown if the category has no attribute with the given id.
+     */
+    public async deleteCategoryAttribute(
+        categoryId: number,
+        attributeId: number
+    ): Promise<void> {
+        const parentIds = await Category.findParentIds();
+        const transaction = await sequelize.transaction();
+
+        try {
+            const attribute = await CategoryAttribute.findOne({
+                where: { id: attributeId, categoryId },
+                transaction,
+            });
+
+            if (!attribute) {
+                throw new CategoryAttributeNotFoundError();
+            }
+
+            await attribute.destroy({ transaction });
+
+            const products = await Product.findAll({
+                where: {
+                    categoryId: [
+                        categoryId,
+                        ...Category.descendantsOf(categoryId, parentIds),
+                    ],
+                },
+                attributes: ['id', 'specifications'],
+                transaction,
+            });
+
+            for (const product of products) {
+                if (!(attribute.key in product.specifications)) continue;
+
+                const specifications = { ...product.specifications };
+                delete specifications[attribute.key];
+
+                // Each product is updated for its search outbox entry
+                await product.update({ specifications }, { transaction });
+            }
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    /**
+     * Validates product specifications against the schema of a category.
+     *
+     * @remarks
+     * Numbers and booleans given as strings are converted, and empty
+     * values of optional attributes are left out.
+     *
+     * @param categoryId - The id of the product category
+     * @param specifications - The attribute keys and values
+     * @returns A promise resolving to the validated specifications
+     *
+     * @throws {@link InvalidProductSpecificationsError}
+     * Thrown if an attribute is not declared, a required attribute
+     * is missing or a value does not match the attribute type.
+     */
+    public async validateSpecifications(
+        categoryId: number,
+        specifications: Record<string, unknown>
+    ): Promise<Specifications> {
+        const schema = await this.findSchema(categoryId);
+        const keys = new Set(schema.map(({ key }) => key));
+
+        for (const key of Object.keys(specifications)) {
+            if (!keys.has(key)) {
+                throw new InvalidProductSpecificationsError(
+                    `Attribute "${key}" is not declared for the category`
+                );
+            }
+        }
+
+        const validated: Specifications = {};
+
+        for (const attribute of schema) {
+            const value = specifications[attribute.key];
+
+            if (value === undefined || value === null || value === '') {
+                if (attribute.required) {
+                    throw new InvalidProductSpecificationsError(
+                        `Attribute "${attribute.key}" is required`
+                    );
+                }
+                continue;
+            }
+
+            validated[attribute.key] = this.parseValue(attribute, value);
+        }
+
+        return validated;
+    }
+
+    /**
+     * Compares products side by side.
+     *
+     * @remarks
+     * Rows follow the attribute order of the categories of the products,
+     * and products without a value for an attribute have a null value.
+     *
+     * @param productIds - The ids of the compared products
+     * @returns A promise resolving to the products and their attribute rows
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if any of the products is not found.
+     */
+    public async compareProducts(
+        productIds: number[]
+    ): Promise<ProductComparison> {
+        const ids = [...new Set(productIds)];
+        const products = await Product.findAll({
+            where: { id: ids },
+            attributes: [
+                'id',
+                'categoryId',
+                'name',
+                'imageUrl',
+                'price',
+                'discount',
+                'stockQuantity',
+                'specifications',
+            ],
+        });
+        const productMap = new Map(
+            products.map((product) => [product.id, product])
+        );
+
+        const missingId = ids.find((id) => !productMap.has(id));
+
+        if (missingId) {
+            throw new ProductNotFoundError(
+                `Product with id "${missingId}" not found`
+            );
+        }
+
+        const ordered = ids.map((id) => productMap.get(id)!);
+        const parentIds = await Category.findParentIds();
+        const rows = new Map<string, ProductComparison['rows'][number]>();
+
+        const categoryIds = new Set(ordered.map((p) => p.categoryId!));
+
+        for (const categoryId of categoryIds) {
+            const schema = await this.findSchema(categoryId, parentIds);
+
+            schema.forEach(({ key, name, type, unit }) => {
+                if (rows.has(key)) return;
+
+                const values = ordered.map(
+                    (product) => product.specifications[key] ?? null
+                );
+
+                rows.set(key, {
+                    key,
+                    name,
+                    type,
+                    unit,
+                    values,
+                    differs: new Set(values.map(String)).size > 1,
+                });
+            });
+        }
+
+        return {
+            products: ordered.map((product) => ({
+                id: product.id,
+                categoryId: product.categoryId!,
+                name: product.name,
+                imageUrl: product.imageUrl,
+                price: product.price,
+                discount: product.discount,
+                finalPrice: discountedPrice(product.price, product.discount),
+                stockQuantity: product.stockQuantity,
+            })),
+            rows: Array.from(rows.values()),
+        };
+    }
+
+    // Attributes of the category and its ancestors, the root's first
+    private async findSchema(
+        categoryId: number,
+        parentIds?: Map<number, number | null>
+    ): Promise<CategoryAttribute[]> {
+        const path = Category.pathOf(
+            categoryId,
+            parentIds ?? (await Category.findParentIds())
+        ).reverse();
+        const attributes = await CategoryAttribute.findAll({
+            where: { categoryId: path },
+            order: [
+                ['position', 'ASC'],
+                ['id', 'ASC'],
+            ],
+        });
+
+        return path.flatMap((id) =>
+            attributes.filter((attribute) => attribute.categoryId === id)
+        );
+    }
+
+    private parseValue(
+        attribute: CategoryAttribute,
+        value: unknown
+    ): number | string | boolean {
+        const invalid = (expected: string) =>
+            new InvalidProductSpecificationsError(
+                `Attribute "${attribute.key}" must be ${expected}`
+            );
+
+        switch (attribute.type) {
+            case 'number': {
+                const number =
+                    typeof value === 'string' && value.trim() !== ''
+                        ? Number(value)
+                        : value;
+
+                if (typeof number !== 'number' || !Number.isFinite(number)) {
+                    throw invalid('a number');
+                }
+                return number;
+            }
+            case 'boolean':
+                if (value === true || value === 'true') return true;
+                if (value === false || value === 'false') return false;
+                throw invalid('a boolean');
+            case 'enum':
+                if (
+                    typeof value !== 'string' ||
+                    !attribute.options?.includes(value)
+                ) {
+                    throw invalid(
+                        `one of: ${(attribute.options ?? []).join(', ')}`
+                    );
+                }
+                return value;
+            default:
+                if (
+                    typeof value !== 'string' ||
+                    value.trim().length > MAX_TEXT_LENGTH
+                ) {
+                    throw invalid(
+                        `a text of up to ${MAX_TEXT_LENGTH} characters`
+                    );
+                }
+                return value.trim();
+        }
+    }
+}
@@ -0,0 +1,378 @@
+import { sequelize } from '@/config/db';
+import { ProductVariantService } from './ProductVariant.service';
+import {
+    BundleComponent,
+    Product,
+    ProductVariant,
+    SearchOutbox,
+} from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
+import {
+    BundleNotFoundError,
+    InvalidBundleError,
+    ProductNotFoundError,
+} from '@/errors';
+
+interface ComponentDetails {
+    productId: number;
+    variantId?: number | null;
+    quantity: number;
+}
+
+interface BundleItem {
+    productId: number;
+    variantId: number | null;
+    quantity: number;
+    bundleId: number | null; // The bundle the component was ordered in
+    unitPrice?: number; // Share of the bundle price for components
+}
+
+interface BundleResponse {
+    id: number;
+    name: string;
+    price: number;
+    discount: number;
+    componentsTotal: number; // The price of the components bought separately
+    savings: number;
+    stockQuantity: number;
+    weight: number;
+    components: {
+        productId: number;
+        name: string;
+        variant: {
+            id: number;
+            sku: string;
+            options: Record<string, string>;
+        } | null;
+        unitPrice: number;
+        quantity: number;
+    }[];
+}
+
+/**
+ * Service responsible for product bundles.
+ *
+ * @remarks
+ * A bundle is a product made up of component products, which is sold at
+ * its own price. Its stock and weight are derived from its components, and
+ * it is decomposed into its components for stock reservations, shipping
+ * weights and order items. Bundles cannot have variants or contain bundles.
+ */
+export class BundleService {
+    private productVariantService: ProductVariantService;
+
+    constructor() {
+        this.productVariantService = new ProductVariantService();
+    }
+
+    /**
+     * Retrieves a bundle along with its components.
+     *
+     * @param bundleId - The product id of the bundle
+     * @returns A promise resolving to the bundle
+     *
+     * @throws {@link BundleNotFoundError}
+     * Thrown if the product is not a bundle.
+     */
+    public async getBundle(bundleId: number): Promise<BundleResponse> {
+        const bundle = await Product.findByPk(bundleId, {
+            attributes: [
+                'id',
+                'name',
+                'price',
+                'discount',
+                'stockQuantity',
+                'weight',
+            ],
+            include: {
+                model: BundleComponent,
+                as: 'components',
+                required: true,
+                include: [
+                    {
+                        model: Product,
+                        as: 'product',
+                        attributes: ['id', 'name', 'price', 'discount'],
+                    },
+                    {
+                        model: ProductVariant,
+                        as: 'variant',
+                        attributes: ['id', 'sku', 'options', 'price'],
+                    },
+                ],
+            },
+        });
+
+        if (!bundle) {
+            throw new BundleNotFoundError();
+        }
+
+        const components = bundle.components!.map(
+            ({ product, variant, quantity }) => ({
+                productId: product!.id,
+                name: product!.name,
+                variant: variant
+                    ? {
+                          id: variant.id,
+                          sku: variant.sku,
+                          options: variant.options,
+                      }
+                    : null,
+                unitPrice: discountedPrice(
+                    variant?.price ?? product!.price,
+                    product!.discount
+                ),
+                quantity,
+            })
+        );
+        const componentsTotal = parseFloat(
+            components
+                .reduce((acc, item) => acc + item.unitPrice * item.quantity, 0)
+                .toFixed(2)
+        );
+        const price = discountedPrice(bundle.price, bundle.discount);
+
+        return {
+            id: bundle.id,
+            name: bundle.name,
+            price: bundle.price,
+            discount: bundle.discount,
+            componentsTotal,
+            savings: parseFloat(
+                Math.max(componentsTotal - price, 0).toFixed(2)
+            ),
+            stockQuantity: bundle.stockQuantity,
+            weight: bundle.weight,
+            components,
+        };
+    }
+
+    /**
+     * Sets the components of a bundle, turning the product into a bundle.
+     *
+     * @remarks
+     * The components replace the previous ones, and the stock
+     * and weight of the bundle are derived from them.
+     *
+     * @param bundleId - The product id of the bundle
+     * @param components - The component products and their quantities
+     * @returns A promise resolving to the bundle
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the bundle or any of the components is not found.
+     *
+     * @throws {@link InvalidBundleError}
+     * Thrown if the bundle has variants, is a component of another bundle
+     * or contains itself or another bundle.
+     *
+     * @throws {@link ProductVariantNotFoundError}
+     * Thrown if a component has no variant with the given id.
+     *
+     * @throws {@link ProductVariantRequiredError}
+     * Thrown if no variant is selected for a component with variants.
+     */
+    public async setBundleComponents(
+        bundleId: number,
+        components: ComponentDetails[]
+    ): Promise<BundleResponse> {
+        const bundle = await Product.findByPk(bundleId, { attributes: ['id'] });
+
+        if (!bundle) {
+            throw new ProductNotFoundError();
+        }
+
+        if (await ProductVariant.count({ where: { productId: bundleId } })) {
+            throw new InvalidBundleError(
+                'Products with variants cannot be bundles'
+            );
+        }
+
+        if (await BundleComponent.count({ where: { productId: bundleId } })) {
+            throw new InvalidBundleError(
+                'Components of other bundles cannot be bundles'
+            );
+        }
+
+        for (const component of components) {
+            if (component.productId === bundleId) {
+                throw new InvalidBundleError(
+                    'Bundles cannot contain themselves'
+                );
+            }
+
+            const product = await Product.findByPk(component.productId, {
+                attributes: ['id'],
+            });
+
+            if (!product) {
+                throw new ProductNotFoundError(
+                    `Product with id "${component.productId}" not found`
+                );
+            }
+
+            if (
+                await BundleComponent.count({
+                    where: { bundleId: component.productId },
+                })
+            ) {
+                throw new InvalidBundleError(
+                    `Product with id "${component.productId}" is a bundle itself`
+                );
+            }
+
+            await this.productVariantService.resolveVariant(
+                component.productId,
+                component.variantId
+            );
+        }
+
+        const transaction = await sequelize.transaction();
+
+        try {
+            await BundleComponent.destroy({ where: { bundleId }, transaction });
+            await BundleComponent.bulkCreate(
+                this.mergeComponents(components).map((component) => ({
+                    ...component,
+                    bundleId,
+                })),
+                { transaction }
+            );
+            await BundleComponent.syncBundles([bundleId], transaction);
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+
+        return await this.getBundle(bundleId);
+    }
+
+    /**
+     * Removes the components of a bundle, turning it into a regular product.
+     *
+     * @param bundleId - The product id of the bundle
+     *
+     * @throws {@link BundleNotFoundError}
+     * Thrown if the product is not a bundle.
+     */
+    public async deleteBundle(bundleId: number): Promise<void> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const deleted = await BundleComponent.destroy({
+                where: { bundleId },
+                transaction,
+            });
+
+            if (!deleted) {
+                throw new BundleNotFoundError();
+            }
+
+            await SearchOutbox.record([bundleId], transaction);
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    /**
+     * Decomposes the bundles among items into their components.
+     *
+     * @remarks
+     * Items of other products are kept as they are. The unit price of
+     * a priced bundle is split over its components by their list price.
+     *
+     * @param items - The cart or order items
+     * @returns A promise resolving to the items with the components of bundles
+     */
+    public async expandItems(
+        items: {
+            productId: number;
+            variantId?: number | null;
+            quantity: number;
+            unitPrice?: number;
+        }[]
+    ): Promise<BundleItem[]> {
+        const components = await BundleComponent.findAll({
+            where: { bundleId: items.map((item) => item.productId) },
+            include: [
+                {
+                    model: Product,
+                    as: 'product',
+                    attributes: ['id', 'price'],
+                    paranoid: false,
+                },
+                {
+                    model: ProductVariant,
+                    as: 'variant',
+                    attributes: ['id', 'price'],
+                },
+            ],
+            order: [['id', 'ASC']],
+        });
+
+        return items.flatMap(
+            ({ productId, variantId, quantity, unitPrice }): BundleItem[] => {
+                const bundleComponents = components.filter(
+                    (component) => component.bundleId === productId
+                );
+
+                if (!bundleComponents.length) {
+                    return [
+                        {
+                            productId,
+                            variantId: variantId ?? null,
+                            quantity,
+                            bundleId: null,
+                            unitPrice,
+                        },
+                    ];
+                }
+
+                const componentsTotal = bundleComponents.reduce(
+                    (acc, component) =>
+                        acc + this.listPrice(component) * component.quantity,
+                    0
+                );
+
+                return bundleComponents.map((component) => ({
+                    productId: component.productId,
+                    variantId: component.variantId,
+                    quantity: component.quantity * quantity,
+                    bundleId: productId,
+                    unitPrice:
+                        unitPrice !== undefined && componentsTotal
+                            ? (unitPrice * this.listPrice(component)) /
+                              componentsTotal
+                            : undefined,
+                }));
+            }
+        );
+    }
+
+    private mergeComponents(
+        components: ComponentDetails[]
+    ): Required<ComponentDetails>[] {
+        const merged = new Map<string, Required<ComponentDetails>>();
+
+        components.forEach(({ productId, variantId = null, quantity }) => {
+            const key = `${productId}:${variantId ?? ''}`;
+            const component = merged.get(key);
+
+            if (component) {
+                component.quantity += quantity;
+            } else {
+                merged.set(key, { productId, variantId, quantity });
+            }
+        });
+
+        return Array.from(merged.values());
+    }
+
+    private listPrice(component: BundleComponent): number {
+        return component.variant?.price ?? component.product?.price ?? 0;
+    }
+}
@@ -1,4 +1,16 @@
-import { Cart, CartItem, Customer, Product } from '@/models/relational';
+import { ProductVariantService } from './ProductVariant.service';
+import { FlashSaleService } from './FlashSale.service';
+import { InventoryService } from './Inventory.service';
+import { ShippingService } from './Shipping.service';
+import { PaymentService } from './Payment.service';
+import {
+    Cart,
+    CartItem,
+    Customer,
+    Product,
+    ProductVariant,
+} from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
 import {
     CartNotFoundError,
     CartItemLimitError,
@@ -6,26 +18,136 @@ import {
     ProductNotFoundError,
 } from '@/errors';
 
-const CART_ITEM_LIMIT = 100;
+export const CART_ITEM_LIMIT = 100;
+
+export interface CartItemResponse {
+    id: number;
+    name: string;
+    imageUrl: string;
+    price: number;
+    variant: {
+        id: number;
+        sku: string;
+        options: Record<string, string>;
+    } | null;
+    quantity: number;
+}
+
+interface CartQuoteOptions {
+    shippingCountry?: string;
+    shippingMethod?: string;
+    couponCode?: string;
+    loyaltyPoints?: number;
+}
+
+interface CartQuoteLine {
+    productId: number;
+    variantId: number | null;
+    name: string;
+    imageUrl: string;
+    quantity: number;
+    price: number; // Before discounts
+    discount: number; // The flash sale discount or the product discount
+    unitPrice: number;
+    subtotal: number;
+    availableStock: number;
+}
+
+interface CartWarning {
+    productId: number;
+    variantId: number | null;
+    type:
+        | 'price-changed'
+        | 'discount-changed'
+        | 'out-of-stock'
+        | 'insufficient-stock'
+        | 'unavailable';
+    message: string;
+    previous?: number;
+    current?: number;
+}
+
+interface CartQuote {
+    items: CartQuoteLine[];
+    subtotal: number;
+    savings: number; // Product and flash sale discounts
+    coupon: {
+        code: string;
+        discount: number;
+        shippingDiscount: number;
+    } | null;
+    shipping: {
+        country: string;
+        method: string;
+        cost: number;
+        weightCategory: string;
+        orderWeight: number;
+    } | null;
+    tax: {
+        amount: number;
+        included: boolean;
+        reverseCharge: boolean;
+    } | null;
+    loyalty: {
+        balance: number;
+        maxRedeemablePoints: number;
+        redeemedPoints: number;
+        discount: number;
+        earnedPoints: number;
+    };
+    total: number;
+    warnings: CartWarning[];
+}
 
 /**
  * Service responsible for Customer Cart-related operations.
+ *
+ * @remarks
+ * Each variant of a product is a separate cart item.
  */
 export class CartService {
+    private productVariantService: ProductVariantService;
+    private flashSaleService: FlashSaleService;
+    private inventoryService: InventoryService;
+    private shippingService: ShippingService;
+    private paymentService: PaymentService;
+
+    constructor() {
+        this.productVariantService = new ProductVariantService();
+        this.flashSaleService = new FlashSaleService();
+        this.inventoryService = new InventoryService();
+        this.shippingService = new ShippingService();
+        this.paymentService = new PaymentService(
+            process.env.STRIPE_KEY as string,
+            undefined,
+            this.shippingService
+        );
+    }
+
     /**
      * Inserts an item into the cart.
      *
      * @param userId - The user id.
      * @param productId - The id of the product to insert.
      * @param quantity - The product quantity.
-     * @returns A promise resolving to a boolean value indicating
-     * whether the item was inserted successfully.
+     * @param [variantId] - The id of the selected product variant.
+     * @returns A promise resolving to the inserted cart item.
+     *
+     * @throws {@link ProductVariantNotFoundError}
+     * Thrown if the product has no variant with the given id.
+     *
+     * @throws {@link ProductVariantRequiredError}
+     * Thrown if no variant is selected for a product with variants.
+     *
+     * @throws {@link FlashSaleLimitError}
+     * Thrown if the product is on flash sale and the quantity exceeds one of its limits.
      */
     public async addItemToCart(
         userId: number,
         productId: number,
-        quantity: number
-    ): Promise<object[]> {
+        quantity: number,
+        variantId?: number
+    ): Promise<CartItemResponse> {
         const cart = await Cart.findOne({
             include: {
                 model: Customer,
@@ -43,6 +165,11 @@ export class CartService {
             throw new ProductNotFoundError();
         }
 
+        const variant = await this.productVariantService.resolveVariant(
+            productId,
+            variantId
+        );
+
         const totalCartItems = await CartItem.count({
             where: { cartId: cart.id },
         });
@@ -53,38 +180,48 @@ export class CartService {
             );
         }
 
+        await this.flashSaleService.assertCartQuantity(
+            cart.customerId!,
+            cart.id!,
+            productId,
+            quantity
+        );
+
+        const snapshot = await this.getPriceSnapshot(foundProduct, variant);
         const [item, created] = await CartItem.findOrCreate({
-            where: { cartId: cart.id, productId },
+            where: {
+                cartId: cart.id,
+                productId,
+                variantId: variant?.id ?? null,
+            },
             defaults: {
                 cartId: cart.id,
                 productId,
+                variantId: variant?.id ?? null,
                 quantity,
+                ...snapshot,
             },
         });
 
         if (!created) {
             item.quantity += quantity;
+            item.set(snapshot);
             await item.save();
         }
 
-        const product = await cart.getProducts({
-            where: { id: productId },
-            attributes: ['id', 'name', 'imageUrl', 'price'],
-            joinTableAttributes: [],
-        });
+        item.product = foundProduct;
+        item.variant = variant;
 
-        return product.map((product) => {
-            return { ...product.get(), quantity: item.quantity };
-        });
+        return this.formatCartItem(item);
     }
 
     /**
      * Retrieves all items in the customer's cart.
      *
      * @param userId - The user id
-     * @returns A promise resolving to an array of CartItem instances
+     * @returns A promise resolving to an array of cart items
      */
-    public async getCartItems(userId: number): Promise<object[]> {
+    public async getCartItems(userId: number): Promise<CartItemResponse[]> {
         const cart = await Cart.findOne({
             include: {
                 model: Customer,
@@ -96,27 +233,71 @@ export class CartService {
             throw new CartNotFoundError();
         }
 
-        const products = await cart.getProducts({
-            attributes: ['id', 'name', 'imageUrl', 'price'],
-            joinTableAttributes: ['quantity'],
+        const items = await CartItem.findAll({
+            where: { cartId: cart.id },
+            include: [
+                {
+                    model: Product,
+                    as: 'product',
+                    attributes: ['id', 'name', 'imageUrl', 'price'],
+                    required: true,
+                },
+                {
+                    model: ProductVariant,
+                    as: 'variant',
+                    attributes: ['id', 'sku', 'options', 'price', 'imageUrl'],
+                },
+            ],
+            order: [['id', 'ASC']],
         });
 
-        return products.map((product) => {
-            const { CartItem, ...productData } = product.get({ plain: true });
-            return {
-                ...productData,
-                quantity: CartItem ? CartItem.quantity : null,
-            };
-        });
+        return items.map((item) => this.formatCartItem(item));
     }
 
     /**
      * Retrieves the total cart items amount.
      *
      * @param userId - The user ID
-     * @returns A promise resolving to the total cart items amount
+     * @returns A promise resolving to the total cart items amount, with discounts applied
      */
     public async cartCheckout(userId: number): Promise<number> {
+        return (await this.getCartQuote(userId)).total;
+    }
+
+    /**
+     * Quotes the customer's cart.
+     *
+     * @remarks
+     * Items are priced by the payment service like orders, with the discount
+     * of an active flash sale replacing the discount of their product. Shipping
+     * and tax are only included once a shipping destination is given. Items
+     * whose price or discount changed since they were added, or whose stock
+     * no longer covers their quantity, are reported in the warnings. Items of deleted products or
+     * variants are reported and left out of the totals.
+     *
+     * @param userId - The user id
+     * @param [options] - The shipping destination, coupon code and loyalty points to preview
+     * @returns A promise resolving to the priced items, totals and warnings
+     *
+     * @throws {@link CartNotFoundError}
+     * Thrown if the cart is not found.
+     *
+     * @throws {@link ShippingLocationNotFoundError}
+     * Thrown if the shipping country is not found.
+     *
+     * @throws {@link ShippingOptionNotFoundError}
+     * Thrown if the shipping method is not found.
+     *
+     * @throws {@link CouponNotFoundError}
+     * Thrown if the coupon code does not exist.
+     *
+     * @throws {@link CouponNotApplicableError}
+     * Thrown if the coupon cannot be applied to the cart.
+     */
+    public async getCartQuote(
+        userId: number,
+        options: CartQuoteOptions = {}
+    ): Promise<CartQuote> {
         const cart = await Cart.findOne({
             include: {
                 model: Customer,
@@ -128,7 +309,179 @@ export class CartService {
             throw new CartNotFoundError();
         }
 
-        return await cart.getTotalPrice();
+        const customer = cart.get('Customer') as Customer;
+        const items = await CartItem.findAll({
+            where: { cartId: cart.id },
+            include: [
+                {
+                    model: Product,
+                    as: 'product',
+                    attributes: [
+                        'id',
+                        'name',
+                        'imageUrl',
+                        'price',
+                        'discount',
+                        'categoryId',
+                    ],
+                },
+                {
+                    model: ProductVariant,
+                    as: 'variant',
+                    attributes: ['id', 'price', 'imageUrl'],
+                },
+            ],
+            order: [['id', 'ASC']],
+        });
+        const flashSales = await this.flashSaleService.getActiveSales(
+            items.map((item) => item.productId!)
+        );
+
+        const lines: CartQuoteLine[] = [];
+        const warnings: CartWarning[] = [];
+
+        for (const item of items) {
+            const { product, variant } = item;
+            const ids = {
+                productId: item.productId!,
+                variantId: item.variantId ?? null,
+            };
+
+            if (!product || (item.variantId && !variant)) {
+                warnings.push({
+                    ...ids,
+                    type: 'unavailable',
+                    message: 'The product is no longer available',
+                });
+                continue;
+            }
+
+            const price = variant?.price ?? product.price;
+            const discount =
+                flashSales.get(product.id)?.discount ?? product.discount;
+            const unitPrice = discountedPrice(price, discount);
+            const availableStock = Math.max(
+                await this.inventoryService.getAvailableStock(
+                    ids.productId,
+                    ids.variantId
+                ),
+                0
+            );
+
+            if (item.addedPrice != null && item.addedPrice !== price) {
+                warnings.push({
+                    ...ids,
+                    type: 'price-changed',
+                    message: `The price of "${product.name}" changed since it was added`,
+                    previous: item.addedPrice,
+                    current: price,
+                });
+            }
+
+            if (item.addedDiscount != null && item.addedDiscount !== discount) {
+                warnings.push({
+                    ...ids,
+                    type: 'discount-changed',
+                    message: `The discount of "${product.name}" changed since it was added`,
+                    previous: item.addedDiscount,
+                    current: discount,
+                });
+            }
+
+            if (availableStock < item.quantity) {
+                warnings.push({
+                    ...ids,
+                    type: availableStock
+                        ? 'insufficient-stock'
+                        : 'out-of-stock',
+                    message: availableStock
+                        ? `Only ${availableStock} units of "${product.name}" are available`
+                        : `"${product.name}" is out of stock`,
+                    current: availableStock,
+                });
+            }
+
+            lines.push({
+                ...ids,
+                name: product.name,
+                imageUrl: variant?.imageUrl ?? product.imageUrl,
+                quantity: item.quantity,
+                price,
+                discount,
+                unitPrice,
+                subtotal: parseFloat((unitPrice * item.quantity).toFixed(2)),
+                availableStock,
+            });
+        }
+
+        const subtotal = lines.reduce((acc, line) => acc + line.subtotal, 0);
+        const savings = lines.reduce(
+            (acc, line) => acc + (line.price - line.unitPrice) * line.quantity,
+            0
+        );
+
+        // Checkouts reject points beyond the balance, and the pricing
+        // redeems no more of them than the items are worth
+        const requestedPoints = Math.min(
+            options.loyaltyPoints ?? 0,
+            customer.loyaltyPoints
+        );
+        const pricing = lines.length
+            ? await this.paymentService.quoteOrder(customer, {
+                  orderItems: lines.map(
+                      ({ productId, variantId, quantity }) => ({
+                          productId,
+                          variantId,
+                          quantity,
+                      })
+                  ),
+                  shippingCountry: options.shippingCountry,
+                  shippingMethod: options.shippingMethod,
+                  couponCode: options.couponCode,
+                  loyaltyPoints: requestedPoints,
+              })
+            : null;
+        const breakdown = pricing?.breakdown;
+
+        return {
+            items: lines,
+            subtotal: parseFloat(subtotal.toFixed(2)),
+            savings: parseFloat(savings.toFixed(2)),
+            coupon: pricing?.coupon
+                ? {
+                      code: pricing.coupon.code,
+                      discount: breakdown!.couponDiscount,
+                      shippingDiscount: breakdown!.shippingDiscount,
+                  }
+                : null,
+            shipping: pricing?.shipping
+                ? {
+                      country: options.shippingCountry!,
+                      method: options.shippingMethod!,
+                      cost: pricing.shipping.cost,
+                      weightCategory: pricing.shipping.weightCategory,
+                      orderWeight: pricing.shipping.orderWeight,
+                  }
+                : null,
+            tax: pricing?.tax
+                ? {
+                      amount: breakdown!.tax,
+                      included: breakdown!.taxIncluded,
+                      reverseCharge: breakdown!.reverseCharge,
+                  }
+                : null,
+            loyalty: {
+                balance: customer.loyaltyPoints,
+                maxRedeemablePoints: customer.loyaltyPoints,
+                redeemedPoints: breakdown?.loyaltyPoints ?? 0,
+                discount: breakdown?.loyaltyDiscount ?? 0,
+                earnedPoints: Math.round(
+                    customer.getEarnedLoyaltyPoints(pricing?.productTotal ?? 0)
+                ), // Stored as an integer
+            },
+            total: breakdown?.total ?? 0,
+            warnings,
+        };
     }
 
     /**
@@ -136,10 +489,12 @@ export class CartService {
      * Removes an item from the customer's cart.
      * @param userId - The user id
      * @param productId - The ID of the product to remove
+     * @param [variantId] - The ID of the product variant to remove
      */
     public async removeItemFromCart(
         userId: number,
-        productId: number
+        productId: number,
+        variantId?: number
     ): Promise<void> {
         const cart = await Cart.findOne({
             include: {
@@ -153,7 +508,7 @@ export class CartService {
         }
 
         const item = await CartItem.findOne({
-            where: { cartId: cart.id, productId },
+            where: { cartId: cart.id, productId, variantId: variantId ?? null },
         });
 
         if (!item) {
@@ -187,4 +542,41 @@ export class CartService {
 
         await CartItem.destroy({ where: { cartId: cart.id } });
     }
+
+    /**
+     * Reads the current price and discount of a cart item, which are stored
+     * on the item when it is added to detect later changes.
+     *
+     * @param product - The product of the item
+     * @param variant - The variant of the item, if any
+     * @returns A promise resolving to the price and discount to store
+     */
+    public async getPriceSnapshot(
+        product: Product,
+        variant: ProductVariant | null
+    ): Promise<{ addedPrice: number; addedDiscount: number }> {
+        const flashSale = (
+            await this.flashSaleService.getActiveSales([product.id])
+        ).get(product.id);
+
+        return {
+            addedPrice: variant?.price ?? product.price,
+            addedDiscount: flashSale?.discount ?? product.discount,
+        };
+    }
+
+    private formatCartItem(item: CartItem): CartItemResponse {
+        const { product, variant } = item;
+
+        return {
+            id: product!.id,
+            name: product!.name,
+            imageUrl: variant?.imageUrl ?? product!.imageUrl,
+            price: variant?.price ?? product!.price,
+            variant: variant
+                ? { id: variant.id, sku: variant.sku, options: variant.options }
+                : null,
+            quantity: item.quantity,
+        };
+    }
 }
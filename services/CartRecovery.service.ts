@@ -0,0 +1,260 @@
+import { randomBytes, randomUUID } from 'crypto';
+import pLimit from 'p-limit';
+import { Op, Sequelize } from 'sequelize';
+import {
+    NotificationService,
+    type AbandonedCartEmail,
+} from './Notification.service';
+import { CouponService } from './Coupon.service';
+import { FlashSaleService } from './FlashSale.service';
+import { GuestCartService } from './GuestCart.service';
+import type { CartItemResponse } from './Cart.service';
+import {
+    Cart,
+    CartItem,
+    Customer,
+    Product,
+    ProductVariant,
+    User,
+} from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
+import { CartNotFoundError, EmptyCartError } from '@/errors';
+
+const CLIENT_URL = process.env.CLIENT_URL as string;
+
+const RECOVERY_EMAILS: AbandonedCartEmail[] = [
+    'reminder',
+    'followUp',
+    'lastChance',
+];
+
+// Idle hours before each email of the sequence, e.g. "1,24,72"
+const RECOVERY_THRESHOLDS = (process.env.ABANDONED_CART_THRESHOLDS ?? '1,24,72')
+    .split(',')
+    .slice(0, RECOVERY_EMAILS.length)
+    .map((hours) => Number(hours) * 60 * 60 * 1000);
+
+// Coupons are left out unless the percentage is between 1 and 100
+const couponPercent = Number(process.env.ABANDONED_CART_COUPON_PERCENT);
+const RECOVERY_COUPON_PERCENT =
+    couponPercent >= 1 && couponPercent <= 100 ? couponPercent : null;
+const RECOVERY_COUPON_VALIDITY = 7 * 24 * 60 * 60 * 1000; // 7 days
+const RECOVERY_BATCH_SIZE = 500;
+
+/**
+ * Service responsible for the recovery of abandoned customer carts.
+ *
+ * @remarks
+ * Carts idle for longer than each of the configured thresholds receive
+ * the next email of the sequence, the last one with a single-use coupon
+ * if a coupon percentage is configured. Shorter sequences skip the first
+ * emails. Any change of the cart items restarts the sequence, while
+ * checking out or restoring the cart stops it.
+ */
+export class CartRecoveryService {
+    private notificationService: NotificationService;
+    private couponService: CouponService;
+    private flashSaleService: FlashSaleService;
+    private guestCartService: GuestCartService;
+
+    constructor() {
+        this.notificationService = new NotificationService();
+        this.couponService = new CouponService();
+        this.flashSaleService = new FlashSaleService();
+        this.guestCartService = new GuestCartService();
+    }
+
+    /**
+     * Sends the due emails of the abandoned cart sequence.
+     *
+     * @returns A promise resolving to the number of sent emails
+     */
+    public async processAbandonedCarts(): Promise<number> {
+        const limit = pLimit(10);
+        let sentEmails = 0;
+
+        for (const [step, threshold] of RECOVERY_THRESHOLDS.entries()) {
+            const carts = await Cart.findAll({
+                where: {
+                    recoveryEmailsSent: step,
+                    lastActivityAt: {
+                        [Op.lte]: new Date(Date.now() - threshold),
+                    },
+                    [Op.or]: [
+                        { checkedOutAt: null },
+                        {
+                            checkedOutAt: {
+                                [Op.lt]: Sequelize.col('lastActivityAt'),
+                            },
+                        },
+                    ],
+                },
+                order: [['lastActivityAt', 'ASC']],
+                limit: RECOVERY_BATCH_SIZE,
+            });
+
+            const results = await Promise.all(
+                carts.map((cart) =>
+                    limit(() => this.sendRecoveryEmail(cart, step))
+                )
+            );
+
+            sentEmails += results.filter(Boolean).length;
+        }
+
+        return sentEmails;
+    }
+
+    /**
+     * Restores an abandoned cart from the link of a recovery email.
+     *
+     * @remarks
+     * The items are copied into a new guest cart, so that the link works
+     * on any device and the cart is merged back once the customer logs in.
+     *
+     * @param recoveryToken - The recovery token of the cart
+     * @returns A promise resolving to the guest cart token and its items
+     *
+     * @throws {@link CartNotFoundError}
+     * Thrown if no cart has the recovery token.
+     *
+     * @throws {@link EmptyCartError}
+     * Thrown if the cart has no items left.
+     */
+    public async restoreCart(
+        recoveryToken: string
+    ): Promise<{ cartToken: string; cartItems: CartItemResponse[] }> {
+        const cart = await Cart.findOne({ where: { recoveryToken } });
+
+        if (!cart) {
+            throw new CartNotFoundError();
+        }
+
+        const items = await CartItem.findAll({
+            where: { cartId: cart.id },
+            attributes: ['productId', 'variantId', 'quantity'],
+        });
+
+        if (!items.length) {
+            throw new EmptyCartError();
+        }
+
+        const cartToken = await this.guestCartService.createCart(
+            items.map(({ productId, variantId, quantity }) => ({
+                productId: productId!,
+                variantId: variantId ?? null,
+                quantity,
+            }))
+        );
+
+        // The customer came back, so the rest of the sequence is not sent
+        await cart.update({ recoveryEmailsSent: RECOVERY_THRESHOLDS.length });
+
+        return {
+            cartToken,
+            cartItems: await this.guestCartService.getCartItems(cartToken),
+        };
+    }
+
+    /**
+     * Sends the email of a step of the sequence for a cart.
+     *
+     * @returns A promise resolving to true if the email was sent
+     */
+    private async sendRecoveryEmail(
+        cart: Cart,
+        step: number
+    ): Promise<boolean> {
+        const items = await CartItem.findAll({
+            where: { cartId: cart.id },
+            include: [
+                {
+                    model: Product,
+                    as: 'product',
+                    attributes: ['id', 'name', 'imageUrl', 'price', 'discount'],
+                    required: true,
+                },
+                {
+                    model: ProductVariant,
+                    as: 'variant',
+                    attributes: ['price', 'imageUrl'],
+                },
+            ],
+            order: [['id', 'ASC']],
+        });
+
+        // Claims the step, so that concurrent runs or new activity never
+        // send it twice, and ends the sequence of empty carts right away
+        const [claimed] = await Cart.update(
+            {
+                recoveryEmailsSent: items.length
+                    ? step + 1
+                    : RECOVERY_THRESHOLDS.length,
+            },
+            {
+                where: {
+                    id: cart.id,
+                    recoveryEmailsSent: step,
+                    lastActivityAt: cart.lastActivityAt,
+                },
+            }
+        );
+
+        if (!claimed || !items.length) {
+            return false;
+        }
+
+        const customer = await Customer.findByPk(cart.customerId, {
+            include: {
+                model: User,
+                as: 'user',
+                attributes: ['email', 'firstName'],
+            },
+            attributes: ['id'],
+        });
+
+        if (!cart.recoveryToken) {
+            await cart.update({ recoveryToken: randomUUID() });
+        }
+
+        const isLastEmail = step === RECOVERY_THRESHOLDS.length - 1;
+        const coupon =
+            isLastEmail && RECOVERY_COUPON_PERCENT
+                ? await this.couponService.createCoupon({
+                      code: `COMEBACK-${randomBytes(4).toString('hex')}`,
+                      type: 'percent',
+                      value: RECOVERY_COUPON_PERCENT,
+                      usageLimit: 1,
+                      usageLimitPerCustomer: 1,
+                      expiresAt: new Date(
+                          Date.now() + RECOVERY_COUPON_VALIDITY
+                      ),
+                  })
+                : null;
+
+        // Items are shown at the price they would be checked out at
+        const flashSales = await this.flashSaleService.getActiveSales(
+            items.map(({ productId }) => productId!)
+        );
+
+        await this.notificationService.sendAbandonedCartEmail(
+            customer!.user!.email,
+            customer!.user!.firstName,
+            RECOVERY_EMAILS.slice(-RECOVERY_THRESHOLDS.length)[step],
+            items.map(({ product, variant, quantity }) => ({
+                name: product!.name,
+                imageUrl: variant?.imageUrl ?? product!.imageUrl,
+                price: discountedPrice(
+                    variant?.price ?? product!.price,
+                    flashSales.get(product!.id)?.discount ?? product!.discount
+                ),
+                quantity,
+            })),
+            `${CLIENT_URL}/cart/restore/${cart.recoveryToken}`,
+            coupon?.code ?? null,
+            coupon ? RECOVERY_COUPON_PERCENT : null
+        );
+
+        return true;
+    }
+}
@@ -0,0 +1,430 @@
+import { Op } from 'sequelize';
+import type { Transaction } from 'sequelize';
+import { sequelize } from '@/config/db';
+import {
+    Category,
+    CategoryAttribute,
+    Product,
+    SearchOutbox,
+} from '@/models/relational';
+import {
+    CategoryNotFoundError,
+    InvalidCategoryMoveError,
+    InvalidCategoryOrderError,
+    ProductNotFoundError,
+} from '@/errors';
+
+interface Breadcrumb {
+    id: number;
+    name: string;
+    slug: string | null;
+}
+
+interface CategoryNode {
+    id: number;
+    name: string;
+    slug: string | null;
+    description: string;
+    position: number;
+    taxClass: 'standard' | 'reduced';
+    productCount: number; // Products of the category and its subcategories
+    children: CategoryNode[];
+}
+
+interface CategoryResponse {
+    id?: number;
+    name: string;
+    slug?: string | null;
+    description: string;
+    hasProducts?: boolean;
+    parentId?: number | null;
+    position?: number;
+    taxClass?: 'standard' | 'reduced';
+    breadcrumbs: Breadcrumb[]; // From the root category to the category itself
+    children: Breadcrumb[];
+}
+
+/**
+ * Service responsible for the category tree.
+ *
+ * @remarks
+ * Siblings are ordered by their position, and categories are appended
+ * after their siblings when created or moved without a position.
+ * Products are indexed with the path of their category, so moving
+ * a category reindexes the products of its whole subtree.
+ */
+export class CategoryService {
+    /**
+     * Retrieves the nested category tree.
+     *
+     * @returns A promise resolving to the top level categories with their subcategories
+     */
+    public async getCategoryTree(): Promise<CategoryNode[]> {
+        const [categories, counts] = await Promise.all([
+            Category.findAll({
+                attributes: [
+                    'id',
+                    'name',
+                    'slug',
+                    'description',
+                    'parentId',
+                    'position',
+                    'taxClass',
+                ],
+                order: [
+                    ['position', 'ASC'],
+                    ['id', 'ASC'],
+                ],
+            }),
+            Product.count({
+                attributes: ['categoryId'],
+                group: ['categoryId'],
+            }),
+        ]);
+
+        const productCounts = new Map(
+            counts.map(({ categoryId, count }) => [Number(categoryId), count])
+        );
+        const nodes = new Map<number, CategoryNode>(
+            categories.map((category) => [
+                category.id!,
+                {
+                    id: category.id!,
+                    name: category.name,
+                    slug: category.slug ?? null,
+                    description: category.description,
+                    position: category.position!,
+                    taxClass: category.taxClass!,
+                    productCount: productCounts.get(category.id!) ?? 0,
+                    children: [],
+                },
+            ])
+        );
+        const roots: CategoryNode[] = [];
+
+        // Subcategories of deleted categories are left out
+        for (const category of categories) {
+            const node = nodes.get(category.id!)!;
+
+            if (category.parentId === null) {
+                roots.push(node);
+            } else {
+                nodes.get(category.parentId)?.children.push(node);
+            }
+        }
+
+        const countProducts = (node: CategoryNode): number => {
+            node.productCount += node.children.reduce(
+                (acc, child) => acc + countProducts(child),
+                0
+            );
+            return node.productCount;
+        };
+
+        roots.forEach(countProducts);
+
+        return roots;
+    }
+
+    /**
+     * Retrieves a category by its slug.
+     *
+     * @param slug - The slug of the category
+     * @returns A promise resolving to the category with its breadcrumbs and subcategories
+     *
+     * @throws {@link CategoryNotFoundError}
+     * Thrown if no category has the slug.
+     */
+    public async getCategoryBySlug(slug: string): Promise<CategoryResponse> {
+        const category = await Category.findOne({
+            where: { slug },
+            attributes: { exclude: ['deletedAt'] },
+        });
+
+        if (!category) {
+            throw new CategoryNotFoundError();
+        }
+
+        return await this.toResponse(category);
+    }
+
+    /**
+     * Retrieves the breadcrumbs of a category.
+     *
+     * @param categoryId - The id of the category
+     * @returns A promise resolving to the categories from the root to the category
+     *
+     * @throws {@link CategoryNotFoundError}
+     * Thrown if the category is not found.
+     */
+    public async getCategoryBreadcrumbs(
+        categoryId: number
+    ): Promise<Breadcrumb[]> {
+        const path = Category.pathOf(
+            categoryId,
+            await Category.findParentIds()
+        );
+        const categories = await Category.findAll({
+            where: { id: path },
+            attributes: ['id', 'name', 'slug'],
+        });
+
+        if (!categories.some(({ id }) => id === categoryId)) {
+            throw new CategoryNotFoundError();
+        }
+
+        return path
+            .reverse()
+            .flatMap((id) =>
+                categories
+                    .filter((category) => category.id === id)
+                    .map((category) => this.toBreadcrumb(category))
+            );
+    }
+
+    /**
+     * Retrieves the breadcrumbs of a product.
+     *
+     * @param productId - The id of the product
+     * @returns A promise resolving to the categories from the root to the
+     * category of the product, and the product itself
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     */
+    public async getProductBreadcrumbs(
+        productId: number
+    ): Promise<{ categories: Breadcrumb[]; product: Breadcrumb }> {
+        const product = await Product.findByPk(productId, {
+            attributes: ['id', 'categoryId', 'name', 'slug'],
+        });
+
+        if (!product) {
+            throw new ProductNotFoundError();
+        }
+
+        return {
+            categories: await this.getCategoryBreadcrumbs(product.categoryId!),
+            product: { id: product.id, name: product.name, slug: product.slug },
+        };
+    }
+
+    /**
+     * Moves a category along with its subcategories under another parent.
+     *
+     * @remarks
+     * The category is inserted at the position among its new siblings, or
+     * appended after them, and the positions of its previous siblings are
+     * closed up. Product specifications of attributes inherited from the
+     * previous ancestors are kept until the products are updated.
+     *
+     * @param categoryId - The id of the category
+     * @param parentId - The id of the new parent, or null for a top level category
+     * @param [position] - The zero-based position among the new siblings
+     * @returns A promise resolving to the moved category
+     *
+     * @throws {@link CategoryNotFoundError}
+     * Thrown if the category or the parent is not found.
+     *
+     * @throws {@link InvalidCategoryMoveError}
+     * Thrown if the parent is the category itself or one of its subcategories,
+     * or if it declares an attribute key of the moved subtree.
+     */
+    public async moveCategory(
+        categoryId: number,
+        parentId: number | null,
+        position?: number
+    ): Promise<CategoryResponse> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            // The whole tree is locked, so that two concurrent moves of
+            // different categories cannot form a cycle together
+            const parentIds = await Category.findParentIds(transaction, true);
+            const category = await Category.findByPk(categoryId, {
+                transaction,
+            });
+
+            if (!category) {
+                throw new CategoryNotFoundError();
+            }
+            if (parentId && !parentIds.has(parentId)) {
+                throw new CategoryNotFoundError('Parent category not found');
+            }
+
+            const subtreeIds = [
+                categoryId,
+                ...Category.descendantsOf(categoryId, parentIds),
+            ];
+
+            if (parentId && subtreeIds.includes(parentId)) {
+                throw new InvalidCategoryMoveError(
+                    'A category cannot be moved under itself or its subcategories'
+                );
+            }
+
+            const subtreeKeys = await CategoryAttribute.findAll({
+                where: { categoryId: subtreeIds },
+                attributes: ['key'],
+                transaction,
+            });
+            const conflict =
+                parentId && subtreeKeys.length
+                    ? await CategoryAttribute.findOne({
+                          where: {
+                              categoryId: Category.pathOf(parentId, parentIds),
+                              key: subtreeKeys.map(({ key }) => key),
+                          },
+                          transaction,
+                      })
+                    : null;
+
+            if (conflict) {
+                throw new InvalidCategoryMoveError(
+                    `Attribute "${conflict.key}" is already declared by the new parent or its ancestors`
+                );
+            }
+
+            const siblings = await Category.findAll({
+                where: { parentId, id: { [Op.ne]: categoryId } },
+                order: [
+                    ['position', 'ASC'],
+                    ['id', 'ASC'],
+                ],
+                transaction,
+            });
+
+            siblings.splice(position ?? siblings.length, 0, category);
+
+            const previousParentId = category.parentId;
+
+            await category.update({ parentId }, { transaction });
+            await this.savePositions(siblings, transaction);
+
+            if (previousParentId !== parentId) {
+                const previousSiblings = await Category.findAll({
+                    where: { parentId: previousParentId },
+                    order: [
+                        ['position', 'ASC'],
+                        ['id', 'ASC'],
+                    ],
+                    transaction,
+                });
+
+                await this.savePositions(previousSiblings, transaction);
+            }
+
+            const products = await Product.findAll({
+                where: { categoryId: subtreeIds },
+                attributes: ['id'],
+                transaction,
+            });
+
+            await SearchOutbox.record(
+                products.map(({ id }) => id),
+                transaction
+            );
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+
+        const category = await Category.findByPk(categoryId, {
+            attributes: { exclude: ['deletedAt'] },
+        });
+
+        return await this.toResponse(category!);
+    }
+
+    /**
+     * Reorders the subcategories of a category, or the top level categories.
+     *
+     * @param parentId - The id of the parent, or null for the top level categories
+     * @param categoryIds - The ids of all siblings in their new order
+     * @returns A promise resolving to the reordered categories
+     *
+     * @throws {@link InvalidCategoryOrderError}
+     * Thrown if the ids are not exactly the ids of the siblings.
+     */
+    public async reorderCategories(
+        parentId: number | null,
+        categoryIds: number[]
+    ): Promise<Breadcrumb[]> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const siblings = await Category.findAll({
+                where: { parentId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+            const ids = new Set(categoryIds);
+
+            if (
+                ids.size !== categoryIds.length ||
+                ids.size !== siblings.length ||
+                siblings.some(({ id }) => !ids.has(id!))
+            ) {
+                throw new InvalidCategoryOrderError(
+                    'Category ids must list every sibling category once'
+                );
+            }
+
+            await this.savePositions(
+                categoryIds.map(
+                    (id) => siblings.find((sibling) => sibling.id === id)!
+                ),
+                transaction
+            );
+
+            await transaction.commit();
+
+            return categoryIds.map((id) =>
+                this.toBreadcrumb(
+                    siblings.find((sibling) => sibling.id === id)!
+                )
+            );
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    private async toResponse(category: Category): Promise<CategoryResponse> {
+        const children = await Category.findAll({
+            where: { parentId: category.id! },
+            attributes: ['id', 'name', 'slug'],
+            order: [
+                ['position', 'ASC'],
+                ['id', 'ASC'],
+            ],
+        });
+
+        return {
+            ...category.toJSON(),
+            breadcrumbs: await this.getCategoryBreadcrumbs(category.id!),
+            children: children.map((child) => this.toBreadcrumb(child)),
+        };
+    }
+
+    private async savePositions(
+        categories: Category[],
+        transaction: Transaction
+    ): Promise<void> {
+        for (const [position, category] of categories.entries()) {
+            if (category.position !== position) {
+                await category.update({ position }, { transaction });
+            }
+        }
+    }
+
+    private toBreadcrumb(category: Category): Breadcrumb {
+        return {
+            id: category.id!,
+            name: category.name,
+            slug: category.slug ?? null,
+        };
+    }
+}
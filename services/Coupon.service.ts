@@ -0,0 +1,420 @@
+import { sequelize } from '@/config/db';
+import type { Transaction } from 'sequelize';
+import { Coupon, CouponRedemption } from '@/models/relational';
+import type { CouponType } from '@/models/relational/Coupon.model';
+import {
+    CouponAlreadyExistsError,
+    CouponNotApplicableError,
+    CouponNotFoundError,
+    InvalidCouponError,
+} from '@/errors';
+
+interface CouponDetails {
+    code: string;
+    type: CouponType;
+    value?: number | null;
+    buyQuantity?: number | null;
+    getQuantity?: number | null;
+    minBasket?: number | null;
+    productIds?: number[] | null;
+    categoryIds?: number[] | null;
+    usageLimit?: number | null;
+    usageLimitPerCustomer?: number | null;
+    startsAt?: Date | null;
+    expiresAt?: Date | null;
+}
+
+interface PricedItem {
+    productId: number;
+    categoryId: number;
+    quantity: number;
+    unitPrice: number;
+}
+
+interface CouponBreakdown {
+    couponId: number;
+    code: string;
+    type: CouponType;
+    itemsDiscount: number;
+    shippingDiscount: number;
+}
+
+/**
+ * Service responsible for first-party coupons and their redemptions.
+ *
+ * @remarks
+ * Like stock reservations, a redemption is first bound to the reservation key
+ * of a checkout and then to its payment reference once the payment succeeds.
+ */
+export class CouponService {
+    /**
+     * Creates a coupon.
+     *
+     * @param details - The coupon details
+     * @returns A promise resolving to the created coupon
+     *
+     * @throws {@link CouponAlreadyExistsError}
+     * Thrown if a coupon with the same code exists.
+     */
+    public async createCoupon(details: CouponDetails): Promise<Coupon> {
+        const existing = await Coupon.findOne({
+            where: { code: details.code.trim().toUpperCase() },
+            paranoid: false,
+        });
+
+        if (existing) {
+            throw new CouponAlreadyExistsError(
+                `Coupon "${existing.code}" already exists`
+            );
+        }
+
+        return await Coupon.create(details);
+    }
+
+    /**
+     * Retrieves all coupons.
+     *
+     * @returns A promise resolving to the coupons
+     */
+    public async getCoupons(): Promise<Coupon[]> {
+        return await Coupon.findAll({ order: [['createdAt', 'DESC']] });
+    }
+
+    /**
+     * Retrieves a coupon by its id.
+     *
+     * @param id - The id of the coupon
+     * @returns A promise resolving to the coupon
+     *
+     * @throws {@link CouponNotFoundError}
+     * Thrown if the coupon is not found.
+     */
+    public async getCouponById(id: number): Promise<Coupon> {
+        const coupon = await Coupon.findByPk(id);
+
+        if (!coupon) {
+            throw new CouponNotFoundError();
+        }
+
+        return coupon;
+    }
+
+    /**
+     * Updates a coupon.
+     *
+     * @remarks
+     * The code and type of a coupon cannot be changed once it is created,
+     * so the updated values are checked against the stored type.
+     *
+     * @param id - The id of the coupon
+     * @param details - The details to update
+     * @returns A promise resolving to the updated coupon
+     *
+     * @throws {@link CouponNotFoundError}
+     * Thrown if the coupon is not found.
+     *
+     * @throws {@link InvalidCouponError}
+     * Thrown if the updated values do not fit the coupon type.
+     */
+    public async updateCoupon(
+        id: number,
+        details: Partial<Omit<CouponDetails, 'code' | 'type'>>
+    ): Promise<Coupon> {
+        const coupon = await this.getCouponById(id);
+        const { value, buyQuantity, getQuantity } = {
+            value: coupon.value,
+            buyQuantity: coupon.buyQuantity,
+            getQuantity: coupon.getQuantity,
+            ...details,
+        };
+
+        switch (coupon.type) {
+            case 'percent':
+                if (!value || value > 100) {
+                    throw new InvalidCouponError(
+                        'Percent coupons need a value up to 100'
+                    );
+                }
+                break;
+            case 'fixed':
+                if (!value) {
+                    throw new InvalidCouponError('Fixed coupons need a value');
+                }
+                break;
+            case 'buy-x-get-y':
+                if (!buyQuantity || !getQuantity) {
+                    throw new InvalidCouponError(
+                        'Buy-x-get-y coupons need both quantities'
+                    );
+                }
+                break;
+        }
+
+        return await coupon.update(details);
+    }
+
+    /**
+     * Deletes a coupon.
+     *
+     * @param id - The id of the coupon
+     *
+     * @throws {@link CouponNotFoundError}
+     * Thrown if the coupon is not found.
+     */
+    public async deleteCoupon(id: number): Promise<void> {
+        const coupon = await this.getCouponById(id);
+
+        await coupon.destroy();
+    }
+
+    /**
+     * Calculates the discount a coupon grants on an order.
+     *
+     * @remarks
+     * The minimum basket is compared against the subtotal of all items,
+     * while the discount only applies to the items in the coupon's scope
+     * and never exceeds their subtotal.
+     * Buy-X-get-Y coupons make the cheapest eligible units free.
+     *
+     * @param code - The coupon code
+     * @param customerId - The id of the customer
+     * @param items - The order items with their unit prices
+     * @param shippingCost - The shipping cost of the order
+     * @returns A promise resolving to the discount breakdown
+     *
+     * @throws {@link CouponNotFoundError}
+     * Thrown if no coupon has the given code.
+     *
+     * @throws {@link CouponNotApplicableError}
+     * Thrown if the coupon is not valid for the customer or the order.
+     */
+    public async calculateDiscount(
+        code: string,
+        customerId: number,
+        items: PricedItem[],
+        shippingCost: number
+    ): Promise<CouponBreakdown> {
+        const coupon = await Coupon.findOne({
+            where: { code: code.trim().toUpperCase() },
+        });
+
+        if (!coupon) {
+            throw new CouponNotFoundError(`Coupon "${code}" not found`);
+        }
+
+        await this.assertUsable(coupon, customerId);
+
+        const subtotal = items.reduce(
+            (acc, item) => acc + item.unitPrice * item.quantity,
+            0
+        );
+
+        if (coupon.minBasket && subtotal < coupon.minBasket) {
+            throw new CouponNotApplicableError(
+                `Coupon "${coupon.code}" requires a minimum basket of ${coupon.minBasket}`
+            );
+        }
+
+        const eligibleItems = items.filter(
+            (item) =>
+                (!coupon.productIds && !coupon.categoryIds) ||
+                coupon.productIds?.includes(item.productId) ||
+                coupon.categoryIds?.includes(item.categoryId)
+        );
+
+        if (!eligibleItems.length) {
+            throw new CouponNotApplicableError(
+                `Coupon "${coupon.code}" does not apply to any of the order items`
+            );
+        }
+
+        const eligibleSubtotal = eligibleItems.reduce(
+            (acc, item) => acc + item.unitPrice * item.quantity,
+            0
+        );
+
+        let itemsDiscount = 0;
+        let shippingDiscount = 0;
+
+        switch (coupon.type) {
+            case 'percent':
+                itemsDiscount = Math.min(
+                    (eligibleSubtotal * coupon.value!) / 100,
+                    eligibleSubtotal
+                );
+                break;
+            case 'fixed':
+                itemsDiscount = Math.min(coupon.value!, eligibleSubtotal);
+                break;
+            case 'free-shipping':
+                shippingDiscount = shippingCost;
+                break;
+            case 'buy-x-get-y': {
+                const unitPrices = eligibleItems
+                    .flatMap((item) =>
+                        Array<number>(item.quantity).fill(item.unitPrice)
+                    )
+                    .sort((a, b) => a - b);
+                const freeUnits =
+                    Math.floor(
+                        unitPrices.length /
+                            (coupon.buyQuantity! + coupon.getQuantity!)
+                    ) * coupon.getQuantity!;
+
+                if (!freeUnits) {
+                    throw new CouponNotApplicableError(
+                        `Coupon "${coupon.code}" requires buying ${coupon.buyQuantity! + coupon.getQuantity!} eligible items`
+                    );
+                }
+
+                itemsDiscount = unitPrices
+                    .slice(0, freeUnits)
+                    .reduce((acc, price) => acc + price, 0);
+                break;
+            }
+        }
+
+        return {
+            couponId: coupon.id,
+            code: coupon.code,
+            type: coupon.type,
+            itemsDiscount: parseFloat(itemsDiscount.toFixed(2)),
+            shippingDiscount: parseFloat(shippingDiscount.toFixed(2)),
+        };
+    }
+
+    /**
+     * Records the use of a coupon by a customer.
+     *
+     * @remarks
+     * The usage caps are checked again while the coupon row is locked,
+     * so that concurrent checkouts cannot exceed them.
+     *
+     * @param couponId - The id of the coupon
+     * @param customerId - The id of the customer
+     * @param discount - The total discount granted by the coupon
+     * @param reference - The stock reservation key of the checkout
+     *
+     * @throws {@link CouponNotApplicableError}
+     * Thrown if the coupon has reached one of its usage caps.
+     */
+    public async redeemCoupon(
+        couponId: number,
+        customerId: number,
+        discount: number,
+        reference: string
+    ): Promise<void> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const coupon = await Coupon.findByPk(couponId, {
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            if (!coupon) {
+                throw new CouponNotFoundError();
+            }
+
+            await this.assertUsable(coupon, customerId, transaction);
+
+            await coupon.increment('usageCount', { transaction });
+
+            await CouponRedemption.create(
+                {
+                    couponId,
+                    customerId,
+                    discount,
+                    paymentReference: reference,
+                },
+                { transaction }
+            );
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    /**
+     * Binds a redemption to the payment of its checkout.
+     *
+     * @param reference - The stock reservation key of the checkout
+     * @param paymentReference - The payment intent id or payment reference
+     */
+    public async attachPaymentReference(
+        reference: string,
+        paymentReference: string
+    ): Promise<void> {
+        await CouponRedemption.update(
+            { paymentReference },
+            { where: { paymentReference: reference } }
+        );
+    }
+
+    /**
+     * Releases the redemption of a checkout that did not create an order.
+     *
+     * @param reference - The stock reservation key or the payment reference of the checkout
+     */
+    public async releaseRedemption(reference: string): Promise<void> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const redemption = await CouponRedemption.findOne({
+                where: { paymentReference: reference },
+                transaction,
+            });
+
+            if (redemption) {
+                await Coupon.decrement('usageCount', {
+                    where: { id: redemption.couponId },
+                    transaction,
+                });
+                await redemption.destroy({ transaction });
+            }
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    private async assertUsable(
+        coupon: Coupon,
+        customerId: number,
+        transaction?: Transaction
+    ): Promise<void> {
+        const now = new Date();
+
+        if (
+            (coupon.startsAt && coupon.startsAt > now) ||
+            (coupon.expiresAt && coupon.expiresAt <= now)
+        ) {
+            throw new CouponNotApplicableError(
+                `Coupon "${coupon.code}" is not valid at this time`
+            );
+        }
+
+        if (coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) {
+            throw new CouponNotApplicableError(
+                `Coupon "${coupon.code}" has reached its usage limit`
+            );
+        }
+
+        if (coupon.usageLimitPerCustomer) {
+            const customerUsage = await CouponRedemption.count({
+                where: { couponId: coupon.id, customerId },
+                transaction,
+            });
+
+            if (customerUsage >= coupon.usageLimitPerCustomer) {
+                throw new CouponNotApplicableError(
+                    `Coupon "${coupon.code}" has already been used`
+                );
+            }
+        }
+    }
+}
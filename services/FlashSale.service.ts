@@ -0,0 +1,660 @@
+import { Op } from 'sequelize';
+import type { Transaction } from 'sequelize';
+import { sequelize } from '@/config/db';
+import { io } from '@/config/socket';
+import { queue10 } from '@/jobQueues';
+import {
+    CartItem,
+    FlashSale,
+    FlashSaleClaim,
+    PriceHistory,
+    Product,
+} from '@/models/relational';
+import type { FlashSaleStatus } from '@/models/relational/FlashSale.model';
+import {
+    FlashSaleConflictError,
+    FlashSaleLimitError,
+    FlashSaleNotFoundError,
+    InvalidFlashSaleError,
+    ProductNotFoundError,
+} from '@/errors';
+
+interface FlashSaleDetails {
+    name: string;
+    productIds: number[];
+    discount: number;
+    startsAt: Date;
+    endsAt: Date;
+    quantityLimit: number;
+    perCustomerLimit?: number | null;
+}
+
+interface FlashSaleResponse {
+    id: number;
+    name: string;
+    productIds: number[];
+    discount: number;
+    status: FlashSaleStatus;
+    startsAt: Date;
+    endsAt: Date;
+    remainingQuantity: number;
+    perCustomerLimit: number | null;
+    secondsLeft: number; // Until the start of scheduled sales and the end of active ones
+}
+
+interface FlashSaleItem {
+    productId: number;
+    quantity: number;
+    flashSaleId: number | null;
+}
+
+/**
+ * Service responsible for flash sales.
+ *
+ * @remarks
+ * Flash sales are activated and deactivated by delayed jobs of the flash
+ * sale queue. While a sale is active, its discount replaces the discount of
+ * its products until its quantity limit is sold. Units are claimed when the
+ * payment is processed and every change of the remaining quantity is pushed
+ * to the connected clients as a `flashSaleStock` event. The sale price and
+ * the regular price are recorded in the price history of the products when
+ * a sale starts and ends.
+ */
+export class FlashSaleService {
+    /**
+     * Creates a flash sale.
+     *
+     * @param username - The username of the admin creating the sale
+     * @param details - The products, discount, period and limits of the sale
+     * @returns A promise resolving to the created sale
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if any of the products is not found.
+     *
+     * @throws {@link InvalidFlashSaleError}
+     * Thrown if the sale starts in the past or ends before it starts.
+     *
+     * @throws {@link FlashSaleConflictError}
+     * Thrown if any of the products is part of an overlapping sale.
+     */
+    public async createFlashSale(
+        username: string,
+        details: FlashSaleDetails
+    ): Promise<FlashSale> {
+        const productIds = [...new Set(details.productIds)];
+        const startsAt = new Date(details.startsAt);
+        const endsAt = new Date(details.endsAt);
+
+        const products = await Product.findAll({
+            where: { id: productIds },
+            attributes: ['id'],
+        });
+        const missingId = productIds.find(
+            (id) => !products.some((product) => product.id === id)
+        );
+
+        if (missingId) {
+            throw new ProductNotFoundError(
+                `Product with id "${missingId}" not found`
+            );
+        }
+
+        if (startsAt.getTime() <= Date.now()) {
+            throw new InvalidFlashSaleError(
+                'Flash sale must start in the future'
+            );
+        }
+
+        if (endsAt <= startsAt) {
+            throw new InvalidFlashSaleError(
+                'Flash sale must end after it starts'
+            );
+        }
+
+        await this.assertNoOverlap(productIds, startsAt, endsAt);
+
+        const flashSale = await FlashSale.create({
+            name: details.name,
+            productIds,
+            discount: details.discount,
+            startsAt,
+            endsAt,
+            quantityLimit: details.quantityLimit,
+            perCustomerLimit: details.perCustomerLimit ?? null,
+            username,
+        });
+
+        await queue10.add(
+            'activateFlashSaleJob',
+            { flashSaleId: flashSale.id },
+            {
+                jobId: this.jobId(flashSale.id, 'activate'),
+                delay: startsAt.getTime() - Date.now(),
+            }
+        );
+
+        return flashSale;
+    }
+
+    /**
+     * Retrieves all flash sales.
+     *
+     * @param [status] - Only retrieves sales with this status
+     * @returns A promise resolving to the sales, newest first
+     */
+    public async getFlashSales(status?: FlashSaleStatus): Promise<FlashSale[]> {
+        return await FlashSale.findAll({
+            where: { ...(status && { status }) },
+            order: [['startsAt', 'DESC']],
+        });
+    }
+
+    /**
+     * Retrieves a flash sale by its id.
+     *
+     * @param flashSaleId - The id of the sale
+     * @returns A promise resolving to the sale
+     *
+     * @throws {@link FlashSaleNotFoundError}
+     * Thrown if the sale is not found.
+     */
+    public async getFlashSaleById(flashSaleId: number): Promise<FlashSale> {
+        const flashSale = await FlashSale.findByPk(flashSaleId);
+
+        if (!flashSale) {
+            throw new FlashSaleNotFoundError();
+        }
+
+        return flashSale;
+    }
+
+    /**
+     * Retrieves the active and upcoming flash sales for the storefront.
+     *
+     * @returns A promise resolving to the sales with their remaining quantity and countdown
+     */
+    public async getCurrentFlashSales(): Promise<FlashSaleResponse[]> {
+        const flashSales = await FlashSale.findAll({
+            where: { status: ['scheduled', 'active'] },
+            order: [['startsAt', 'ASC']],
+        });
+
+        return flashSales.map((flashSale) => this.formatFlashSale(flashSale));
+    }
+
+    /**
+     * Cancels a scheduled or active flash sale.
+     *
+     * @param flashSaleId - The id of the sale
+     * @returns A promise resolving to the cancelled sale
+     *
+     * @throws {@link FlashSaleNotFoundError}
+     * Thrown if the sale is not found.
+     *
+     * @throws {@link InvalidFlashSaleError}
+     * Thrown if the sale has already ended or is cancelled.
+     */
+    public async cancelFlashSale(flashSaleId: number): Promise<FlashSale> {
+        const flashSale = await this.getFlashSaleById(flashSaleId);
+
+        if (flashSale.status !== 'scheduled' && flashSale.status !== 'active') {
+            throw new InvalidFlashSaleError(
+                `Flash sale is already ${flashSale.status}`
+            );
+        }
+
+        const action =
+            flashSale.status === 'scheduled' ? 'activate' : 'deactivate';
+
+        await (
+            await queue10.getJob(this.jobId(flashSale.id, action))
+        )?.remove();
+        await this.changeStatus(flashSale, 'cancelled');
+
+        this.emitStock(flashSale);
+
+        return flashSale;
+    }
+
+    /**
+     * Activates a scheduled flash sale.
+     *
+     * @remarks
+     * This method is called from the activate flash sale job,
+     * which queues the job deactivating the sale at its end.
+     *
+     * @param flashSaleId - The id of the sale
+     */
+    public async activateFlashSale(flashSaleId: number): Promise<void> {
+        const flashSale = await FlashSale.findByPk(flashSaleId);
+
+        if (!flashSale) return;
+
+        if (flashSale.status === 'scheduled') {
+            await this.changeStatus(flashSale, 'active');
+            this.emitStock(flashSale);
+        }
+
+        // Adding a job with an existing id is ignored, so retries are safe
+        if (flashSale.status === 'active') {
+            await queue10.add(
+                'deactivateFlashSaleJob',
+                { flashSaleId: flashSale.id },
+                {
+                    jobId: this.jobId(flashSale.id, 'deactivate'),
+                    delay: Math.max(flashSale.endsAt.getTime() - Date.now(), 0),
+                }
+            );
+        }
+    }
+
+    /**
+     * Ends an active flash sale.
+     *
+     * @remarks
+     * This method is called from the deactivate flash sale job.
+     *
+     * @param flashSaleId - The id of the sale
+     */
+    public async deactivateFlashSale(flashSaleId: number): Promise<void> {
+        const flashSale = await FlashSale.findByPk(flashSaleId);
+
+        if (flashSale?.status === 'active') {
+            await this.changeStatus(flashSale, 'ended');
+            this.emitStock(flashSale);
+        }
+    }
+
+    /**
+     * Retrieves the active flash sales of products.
+     *
+     * @remarks
+     * Sold out sales are left out, so their products are sold at their regular price again.
+     *
+     * @param productIds - The ids of the products
+     * @returns A promise resolving to the sale of each product id on sale
+     */
+    public async getActiveSales(
+        productIds: number[]
+    ): Promise<Map<number, FlashSale>> {
+        const flashSales = await FlashSale.findAll({
+            where: { status: 'active', endsAt: { [Op.gt]: new Date() } },
+        });
+        const activeSales = new Map<number, FlashSale>();
+
+        for (const flashSale of flashSales) {
+            if (flashSale.soldQuantity >= flashSale.quantityLimit) continue;
+
+            for (const productId of flashSale.productIds) {
+                if (productIds.includes(productId)) {
+                    activeSales.set(productId, flashSale);
+                }
+            }
+        }
+
+        return activeSales;
+    }
+
+    /**
+     * Checks that a cart can hold a quantity of a product on flash sale.
+     *
+     * @remarks
+     * The cart quantity of all products of the sale counts towards the
+     * limit per customer, together with the units already claimed.
+     *
+     * @param customerId - The id of the customer
+     * @param cartId - The id of the customer's cart
+     * @param productId - The id of the product to add
+     * @param quantity - The quantity to add
+     *
+     * @throws {@link FlashSaleLimitError}
+     * Thrown if the quantity exceeds the remaining quantity or the limit per customer.
+     */
+    public async assertCartQuantity(
+        customerId: number,
+        cartId: number,
+        productId: number,
+        quantity: number
+    ): Promise<void> {
+        const flashSale = (await this.getActiveSales([productId])).get(
+            productId
+        );
+
+        if (!flashSale) return;
+
+        const cartQuantity =
+            ((await CartItem.sum('quantity', {
+                where: { cartId, productId: flashSale.productIds },
+            })) || 0) + quantity;
+
+        if (cartQuantity > flashSale.quantityLimit - flashSale.soldQuantity) {
+            throw new FlashSaleLimitError(
+                `Only ${flashSale.quantityLimit - flashSale.soldQuantity} units are left in flash sale "${flashSale.name}"`
+            );
+        }
+
+        if (flashSale.perCustomerLimit) {
+            const claimedQuantity = await this.getClaimedQuantity(
+                flashSale.id,
+                customerId
+            );
+
+            if (claimedQuantity + cartQuantity > flashSale.perCustomerLimit) {
+                throw new FlashSaleLimitError(
+                    `Flash sale "${flashSale.name}" is limited to ${flashSale.perCustomerLimit} units per customer`
+                );
+            }
+        }
+    }
+
+    /**
+     * Claims the flash sale units of a checkout.
+     *
+     * @remarks
+     * The limits are checked again while the sale rows are locked,
+     * so that concurrent checkouts cannot exceed them.
+     *
+     * @param customerId - The id of the customer
+     * @param items - The items of the checkout with the sale they were priced with
+     * @param reference - The stock reservation key of the checkout
+     *
+     * @throws {@link FlashSaleLimitError}
+     * Thrown if a sale has ended or the items exceed one of its limits.
+     */
+    public async claimItems(
+        customerId: number,
+        items: FlashSaleItem[],
+        reference: string
+    ): Promise<void> {
+        const saleItems = items.filter((item) => item.flashSaleId !== null);
+
+        if (!saleItems.length) return;
+
+        const transaction = await sequelize.transaction();
+        let flashSales: FlashSale[];
+
+        try {
+            flashSales = await FlashSale.findAll({
+                where: { id: saleItems.map((item) => item.flashSaleId!) },
+                order: [['id', 'ASC']],
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            for (const flashSale of flashSales) {
+                const claims = saleItems.filter(
+                    (item) => item.flashSaleId === flashSale.id
+                );
+                const quantity = claims.reduce(
+                    (acc, item) => acc + item.quantity,
+                    0
+                );
+
+                if (
+                    flashSale.status !== 'active' ||
+                    flashSale.endsAt <= new Date()
+                ) {
+                    throw new FlashSaleLimitError(
+                        `Flash sale "${flashSale.name}" has ended`
+                    );
+                }
+
+                if (
+                    flashSale.soldQuantity + quantity >
+                    flashSale.quantityLimit
+                ) {
+                    throw new FlashSaleLimitError(
+                        `Only ${flashSale.quantityLimit - flashSale.soldQuantity} units are left in flash sale "${flashSale.name}"`
+                    );
+                }
+
+                if (
+                    flashSale.perCustomerLimit &&
+                    (await this.getClaimedQuantity(
+                        flashSale.id,
+                        customerId,
+                        transaction
+                    )) +
+                        quantity >
+                        flashSale.perCustomerLimit
+                ) {
+                    throw new FlashSaleLimitError(
+                        `Flash sale "${flashSale.name}" is limited to ${flashSale.perCustomerLimit} units per customer`
+                    );
+                }
+
+                await flashSale.increment('soldQuantity', {
+                    by: quantity,
+                    transaction,
+                });
+                await FlashSaleClaim.bulkCreate(
+                    claims.map((item) => ({
+                        flashSaleId: flashSale.id,
+                        customerId,
+                        productId: item.productId,
+                        quantity: item.quantity,
+                        paymentReference: reference,
+                    })),
+                    { transaction }
+                );
+            }
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+
+        for (const flashSale of flashSales) {
+            await flashSale.reload();
+            this.emitStock(flashSale);
+        }
+    }
+
+    /**
+     * Binds the claims of a checkout to its payment.
+     *
+     * @param reference - The stock reservation key of the checkout
+     * @param paymentReference - The payment intent id or payment reference
+     */
+    public async attachPaymentReference(
+        reference: string,
+        paymentReference: string
+    ): Promise<void> {
+        await FlashSaleClaim.update(
+            { paymentReference },
+            { where: { paymentReference: reference } }
+        );
+    }
+
+    /**
+     * Releases the claims of a checkout so that their units can be sold again.
+     *
+     * @remarks
+     * Called when a checkout does not create an order, when its stock
+     * reservation expires, and when its order is canceled or fully refunded.
+     *
+     * @param reference - The stock reservation key or the payment reference of the checkout
+     * @param [transactionObj] - An existing transaction
+     */
+    public async releaseClaims(
+        reference: string,
+        transactionObj?: Transaction
+    ): Promise<void> {
+        const transaction: Transaction =
+            transactionObj ?? (await sequelize.transaction());
+
+        try {
+            const claims = await FlashSaleClaim.findAll({
+                where: { paymentReference: reference },
+                transaction,
+            });
+            const flashSaleIds = [
+                ...new Set(claims.map((claim) => claim.flashSaleId)),
+            ];
+
+            for (const flashSaleId of flashSaleIds) {
+                await FlashSale.decrement('soldQuantity', {
+                    by: claims
+                        .filter((claim) => claim.flashSaleId === flashSaleId)
+                        .reduce((acc, claim) => acc + claim.quantity, 0),
+                    where: { id: flashSaleId },
+                    transaction,
+                });
+            }
+
+            await FlashSaleClaim.destroy({
+                where: { paymentReference: reference },
+                transaction,
+            });
+
+            if (flashSaleIds.length) {
+                const flashSales = await FlashSale.findAll({
+                    where: { id: flashSaleIds },
+                    transaction,
+                });
+
+                transaction.afterCommit(() =>
+                    flashSales.forEach((flashSale) => this.emitStock(flashSale))
+                );
+            }
+
+            if (!transactionObj) {
+                await transaction.commit();
+            }
+        } catch (error) {
+            if (!transactionObj) {
+                await transaction.rollback();
+            }
+
+            throw error;
+        }
+    }
+
+    private async getClaimedQuantity(
+        flashSaleId: number,
+        customerId: number,
+        transaction?: Transaction
+    ): Promise<number> {
+        return (
+            (await FlashSaleClaim.sum('quantity', {
+                where: { flashSaleId, customerId },
+                transaction,
+            })) || 0
+        );
+    }
+
+    /**
+     * Checks that none of the products is part of an overlapping pending sale.
+     */
+    private async assertNoOverlap(
+        productIds: number[],
+        startsAt: Date,
+        endsAt: Date
+    ): Promise<void> {
+        const flashSales = await FlashSale.findAll({
+            where: {
+                status: ['scheduled', 'active'],
+                startsAt: { [Op.lt]: endsAt },
+                endsAt: { [Op.gt]: startsAt },
+            },
+        });
+        const overlapping = flashSales.find((flashSale) =>
+            flashSale.productIds.some((id) => productIds.includes(id))
+        );
+
+        if (overlapping) {
+            throw new FlashSaleConflictError(
+                `Flash sale overlaps flash sale with id "${overlapping.id}"`
+            );
+        }
+    }
+
+    /**
+     * Changes the status of a sale and records the price of its products
+     * when the sale starts or stops being active.
+     */
+    private async changeStatus(
+        flashSale: FlashSale,
+        status: FlashSaleStatus
+    ): Promise<void> {
+        const transaction = await sequelize.transaction();
+        const wasActive = flashSale.status === 'active';
+
+        try {
+            await flashSale.update({ status }, { transaction });
+
+            if (wasActive || status === 'active') {
+                const products = await Product.findAll({
+                    where: { id: flashSale.productIds },
+                    attributes: ['id', 'price', 'discount'],
+                    transaction,
+                });
+
+                for (const product of products) {
+                    await PriceHistory.record(
+                        {
+                            id: product.id,
+                            price: product.price,
+                            discount:
+                                status === 'active'
+                                    ? flashSale.discount
+                                    : product.discount,
+                        },
+                        transaction
+                    );
+                }
+            }
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    private emitStock(flashSale: FlashSale): void {
+        io.emit('flashSaleStock', {
+            flashSaleId: flashSale.id,
+            productIds: flashSale.productIds,
+            status: flashSale.status,
+            remainingQuantity: Math.max(
+                flashSale.quantityLimit - flashSale.soldQuantity,
+                0
+            ),
+        });
+    }
+
+    private formatFlashSale(flashSale: FlashSale): FlashSaleResponse {
+        const countdownEnd =
+            flashSale.status === 'scheduled'
+                ? flashSale.startsAt
+                : flashSale.endsAt;
+
+        return {
+            id: flashSale.id,
+            name: flashSale.name,
+            productIds: flashSale.productIds,
+            discount: flashSale.discount,
+            status: flashSale.status,
+            startsAt: flashSale.startsAt,
+            endsAt: flashSale.endsAt,
+            remainingQuantity: Math.max(
+                flashSale.quantityLimit - flashSale.soldQuantity,
+                0
+            ),
+            perCustomerLimit: flashSale.perCustomerLimit,
+            secondsLeft: Math.max(
+                Math.ceil((countdownEnd.getTime() - Date.now()) / 1000),
+                0
+            ),
+        };
+    }
+
+    private jobId(
+        flashSaleId: number,
+        action: 'activate' | 'deactivate'
+    ): string {
+        return `flashSale-${flashSaleId}-${action}`;
+    }
+}
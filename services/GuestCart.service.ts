@@ -0,0 +1,481 @@
+import { randomUUID } from 'crypto';
+import { connectToRedisServer } from '@/config/redis';
+import { ProductVariantService } from './ProductVariant.service';
+import { FlashSaleService } from './FlashSale.service';
+import {
+    CART_ITEM_LIMIT,
+    CartService,
+    type CartItemResponse,
+} from './Cart.service';
+import {
+    Cart,
+    CartItem,
+    Customer,
+    Product,
+    ProductVariant,
+} from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
+import {
+    CartNotFoundError,
+    CartItemLimitError,
+    CartItemNotFoundError,
+    FlashSaleLimitError,
+    ProductNotFoundError,
+    ProductVariantNotFoundError,
+    ProductVariantRequiredError,
+} from '@/errors';
+
+const redisConnection = connectToRedisServer();
+
+const GUEST_CART_TTL = 7 * 24 * 60 * 60; // 7 days in seconds
+
+interface GuestCartEntry {
+    field: string;
+    productId: number;
+    variantId: number | null;
+    quantity: number;
+}
+
+export interface GuestCartMergeResult {
+    mergedItems: number;
+    skippedItems: {
+        productId: number;
+        variantId: number | null;
+        reason: string;
+    }[];
+}
+
+/**
+ * Service responsible for the carts of visitors without an account.
+ *
+ * @remarks
+ * Guest carts are Redis hashes identified by a random token, with one
+ * field per product variant holding its quantity. Every operation
+ * extends their expiry, so only inactive guest carts expire.
+ * Prices are never stored and are read from the products instead.
+ */
+export class GuestCartService {
+    private productVariantService: ProductVariantService;
+    private flashSaleService: FlashSaleService;
+    private cartService: CartService;
+
+    constructor() {
+        this.productVariantService = new ProductVariantService();
+        this.flashSaleService = new FlashSaleService();
+        this.cartService = new CartService();
+    }
+
+    /**
+     * Inserts an item into a guest cart.
+     *
+     * @remarks
+     * A new guest cart is started if no token is given or if the cart
+     * of the token has expired, so the returned token must be kept.
+     *
+     * @param token - The guest cart token, if any
+     * @param productId - The id of the product to insert
+     * @param quantity - The product quantity
+     * @param [variantId] - The id of the selected product variant
+     * @returns A promise resolving to the guest cart token and the inserted cart item
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     *
+     * @throws {@link ProductVariantNotFoundError}
+     * Thrown if the product has no variant with the given id.
+     *
+     * @throws {@link ProductVariantRequiredError}
+     * Thrown if no variant is selected for a product with variants.
+     *
+     * @throws {@link CartItemLimitError}
+     * Thrown if the cart already holds the maximum number of items.
+     */
+    public async addItemToCart(
+        token: string | undefined,
+        productId: number,
+        quantity: number,
+        variantId?: number
+    ): Promise<{ cartToken: string; cartItem: CartItemResponse }> {
+        const cartToken =
+            token && (await redisConnection.exists(this.cartKey(token)))
+                ? token
+                : randomUUID();
+        const key = this.cartKey(cartToken);
+
+        const foundProduct = await Product.findByPk(productId);
+
+        if (!foundProduct) {
+            throw new ProductNotFoundError();
+        }
+
+        const variant = await this.productVariantService.resolveVariant(
+            productId,
+            variantId
+        );
+        const field = this.itemField(productId, variant?.id ?? null);
+
+        if (
+            !(await redisConnection.hexists(key, field)) &&
+            (await redisConnection.hlen(key)) >= CART_ITEM_LIMIT
+        ) {
+            throw new CartItemLimitError(
+                `Cart item limit reached. You cannot add more than "${CART_ITEM_LIMIT}" items.`
+            );
+        }
+
+        const [[, newQuantity]] = (await redisConnection
+            .multi()
+            .hincrby(key, field, quantity)
+            .expire(key, GUEST_CART_TTL)
+            .exec()) as [[Error | null, number]];
+
+        return {
+            cartToken,
+            cartItem: this.formatCartItem(foundProduct, variant, newQuantity),
+        };
+    }
+
+    /**
+     * Starts a guest cart holding the given items.
+     *
+     * @param items - The items of the cart, at least one
+     * @returns A promise resolving to the guest cart token
+     */
+    public async createCart(
+        items: {
+            productId: number;
+            variantId: number | null;
+            quantity: number;
+        }[]
+    ): Promise<string> {
+        const cartToken = randomUUID();
+        const key = this.cartKey(cartToken);
+
+        await redisConnection
+            .multi()
+            .hset(
+                key,
+                Object.fromEntries(
+                    items.map(({ productId, variantId, quantity }) => [
+                        this.itemField(productId, variantId),
+                        quantity,
+                    ])
+                )
+            )
+            .expire(key, GUEST_CART_TTL)
+            .exec();
+
+        return cartToken;
+    }
+
+    /**
+     * Retrieves all items in a guest cart.
+     *
+     * @remarks
+     * Items of deleted products or variants are dropped from the cart.
+     *
+     * @param token - The guest cart token
+     * @returns A promise resolving to an array of cart items
+     *
+     * @throws {@link CartNotFoundError}
+     * Thrown if the guest cart is not found or has expired.
+     */
+    public async getCartItems(token: string): Promise<CartItemResponse[]> {
+        const entries = await this.findEntries(token);
+
+        const [products, variants] = await Promise.all([
+            Product.findAll({
+                where: { id: entries.map(({ productId }) => productId) },
+                attributes: ['id', 'name', 'imageUrl', 'price'],
+            }),
+            ProductVariant.findAll({
+                where: {
+                    id: entries.flatMap(({ variantId }) =>
+                        variantId ? [variantId] : []
+                    ),
+                },
+                attributes: ['id', 'sku', 'options', 'price', 'imageUrl'],
+            }),
+        ]);
+
+        const items: CartItemResponse[] = [];
+        const staleFields: string[] = [];
+
+        for (const { field, productId, variantId, quantity } of entries) {
+            const product = products.find(({ id }) => id === productId);
+            const variant = variantId
+                ? variants.find(({ id }) => id === variantId)
+                : null;
+
+            if (!product || variant === undefined) {
+                staleFields.push(field);
+                continue;
+            }
+
+            items.push(this.formatCartItem(product, variant, quantity));
+        }
+
+        if (staleFields.length) {
+            await redisConnection.hdel(this.cartKey(token), ...staleFields);
+        }
+
+        return items;
+    }
+
+    /**
+     * Retrieves the total guest cart items amount.
+     *
+     * @remarks
+     * Items are priced like the items of customer carts, with the discount
+     * of an active flash sale replacing the discount of their product.
+     *
+     * @param token - The guest cart token
+     * @returns A promise resolving to the total cart items amount, with discounts applied
+     *
+     * @throws {@link CartNotFoundError}
+     * Thrown if the guest cart is not found or has expired.
+     */
+    public async cartCheckout(token: string): Promise<number> {
+        const items = await this.getCartItems(token);
+        const productIds = items.map(({ id }) => id);
+        const [products, flashSales] = await Promise.all([
+            Product.findAll({
+                where: { id: productIds },
+                attributes: ['id', 'discount'],
+            }),
+            this.flashSaleService.getActiveSales(productIds),
+        ]);
+        const discounts = new Map(
+            products.map((product) => [product.id, product.discount])
+        );
+
+        const total = items.reduce((acc, item) => {
+            const discount =
+                flashSales.get(item.id)?.discount ?? discounts.get(item.id);
+            const unitPrice = discountedPrice(item.price, discount);
+
+            return acc + parseFloat((unitPrice * item.quantity).toFixed(2));
+        }, 0);
+
+        return parseFloat(total.toFixed(2));
+    }
+
+    /**
+     * Removes one unit of an item from a guest cart.
+     *
+     * @param token - The guest cart token
+     * @param productId - The ID of the product to remove
+     * @param [variantId] - The ID of the product variant to remove
+     *
+     * @throws {@link CartNotFoundError}
+     * Thrown if the guest cart is not found or has expired.
+     *
+     * @throws {@link CartItemNotFoundError}
+     * Thrown if the item is not in the guest cart.
+     */
+    public async removeItemFromCart(
+        token: string,
+        productId: number,
+        variantId?: number
+    ): Promise<void> {
+        const key = this.cartKey(token);
+        const field = this.itemField(productId, variantId ?? null);
+        const entries = await this.findEntries(token);
+        const item = entries.find((entry) => entry.field === field);
+
+        if (!item) {
+            throw new CartItemNotFoundError();
+        }
+
+        if (item.quantity > 1) {
+            await redisConnection.hincrby(key, field, -1);
+        } else {
+            await redisConnection.hdel(key, field);
+        }
+    }
+
+    /**
+     * Deletes a guest cart.
+     *
+     * @param token - The guest cart token
+     */
+    public async clearCart(token: string): Promise<void> {
+        await redisConnection.del(this.cartKey(token));
+    }
+
+    /**
+     * Merges a guest cart into the cart of a customer and deletes it.
+     *
+     * @remarks
+     * Items that are in both carts keep the larger of the two quantities
+     * instead of their sum, so that an item added again as a guest is not
+     * doubled and merging the same guest cart twice changes nothing.
+     * Items that are no longer available, that exceed a flash sale limit,
+     * or that do not fit within the cart item limit are skipped and reported.
+     *
+     * @param token - The guest cart token
+     * @param userId - The user id of the customer
+     * @returns A promise resolving to the merged and skipped items
+     *
+     * @throws {@link CartNotFoundError}
+     * Thrown if the guest cart or the customer's cart is not found.
+     */
+    public async mergeGuestCart(
+        token: string,
+        userId: number
+    ): Promise<GuestCartMergeResult> {
+        const entries = await this.findEntries(token);
+        const cart = await Cart.findOne({
+            include: {
+                model: Customer,
+                where: { userId },
+            },
+        });
+
+        if (!cart) {
+            throw new CartNotFoundError();
+        }
+
+        const result: GuestCartMergeResult = {
+            mergedItems: 0,
+            skippedItems: [],
+        };
+        let totalCartItems = await CartItem.count({
+            where: { cartId: cart.id },
+        });
+
+        for (const { productId, variantId, quantity } of entries) {
+            const item = await CartItem.findOne({
+                where: { cartId: cart.id, productId, variantId },
+            });
+
+            if (item && item.quantity >= quantity) {
+                result.mergedItems++;
+                continue;
+            }
+
+            if (!item && totalCartItems >= CART_ITEM_LIMIT) {
+                result.skippedItems.push({
+                    productId,
+                    variantId,
+                    reason: `Cart item limit of "${CART_ITEM_LIMIT}" items reached`,
+                });
+                continue;
+            }
+
+            let snapshot: { addedPrice: number; addedDiscount: number };
+
+            try {
+                const product = await Product.findByPk(productId);
+
+                if (!product) {
+                    throw new ProductNotFoundError();
+                }
+
+                const variant = await this.productVariantService.resolveVariant(
+                    productId,
+                    variantId
+                );
+                await this.flashSaleService.assertCartQuantity(
+                    cart.customerId!,
+                    cart.id!,
+                    productId,
+                    quantity - (item?.quantity ?? 0)
+                );
+                snapshot = await this.cartService.getPriceSnapshot(
+                    product,
+                    variant
+                );
+            } catch (error) {
+                if (
+                    error instanceof ProductNotFoundError ||
+                    error instanceof ProductVariantNotFoundError ||
+                    error instanceof ProductVariantRequiredError ||
+                    error instanceof FlashSaleLimitError
+                ) {
+                    result.skippedItems.push({
+                        productId,
+                        variantId,
+                        reason: error.message,
+                    });
+                    continue;
+                }
+
+                throw error;
+            }
+
+            if (item) {
+                item.quantity = quantity;
+                item.set(snapshot);
+                await item.save();
+            } else {
+                await CartItem.create({
+                    cartId: cart.id,
+                    productId,
+                    variantId,
+                    quantity,
+                    ...snapshot,
+                });
+                totalCartItems++;
+            }
+
+            result.mergedItems++;
+        }
+
+        await this.clearCart(token);
+
+        return result;
+    }
+
+    /**
+     * Reads the items of a guest cart and extends its expiry.
+     */
+    private async findEntries(token: string): Promise<GuestCartEntry[]> {
+        const key = this.cartKey(token);
+        const [[, fields]] = (await redisConnection
+            .multi()
+            .hgetall(key)
+            .expire(key, GUEST_CART_TTL)
+            .exec()) as [[Error | null, Record<string, string>]];
+
+        if (!Object.keys(fields).length) {
+            throw new CartNotFoundError();
+        }
+
+        return Object.entries(fields).map(([field, quantity]) => {
+            const [productId, variantId] = field.split(':').map(Number);
+
+            return {
+                field,
+                productId,
+                variantId: variantId || null,
+                quantity: Number(quantity),
+            };
+        });
+    }
+
+    private cartKey(token: string): string {
+        return `guestCart:${token}`;
+    }
+
+    private itemField(productId: number, variantId: number | null): string {
+        return `${productId}:${variantId ?? 0}`;
+    }
+
+    private formatCartItem(
+        product: Product,
+        variant: ProductVariant | null,
+        quantity: number
+    ): CartItemResponse {
+        return {
+            id: product.id,
+            name: product.name,
+            imageUrl: variant?.imageUrl ?? product.imageUrl,
+            price: variant?.price ?? product.price,
+            variant: variant
+                ? { id: variant.id, sku: variant.sku, options: variant.options }
+                : null,
+            quantity,
+        };
+    }
+}
@@ -0,0 +1,398 @@
+import { randomUUID } from 'crypto';
+import { sequelize } from '@/config/db';
+import { Op } from 'sequelize';
+import type { Transaction } from 'sequelize';
+import {
+    BundleComponent,
+    Product,
+    ProductVariant,
+    SearchOutbox,
+    StockReservation,
+} from '@/models/relational';
+import {
+    ProductNotFoundError,
+    ProductOutOfStockError,
+    ProductVariantNotFoundError,
+} from '@/errors';
+
+interface StockItem {
+    productId: number;
+    variantId?: number | null;
+    quantity: number;
+}
+
+const RESERVATION_TTL = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Service responsible for product stock related operations.
+ *
+ * @remarks
+ * Quantities are first reserved when a payment intent is created and
+ * are only decremented from the product stock when the order is created.
+ * Reservations that are never committed expire after {@link RESERVATION_TTL}.
+ * Items of a variant are reserved against the variant stock, and the stock
+ * of their product is updated along with it. Bundles are reserved as their
+ * components, and their stock is derived again once the components change.
+ */
+export class InventoryService {
+    /**
+     * Retrieves the stock quantity of a product or one of its variants
+     * that is not held by an active reservation.
+     *
+     * @param productId - The id of the product
+     * @param variantId - The id of the variant or null for the product itself
+     * @param [transaction] - An existing transaction
+     * @returns A promise resolving to the available stock quantity
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     *
+     * @throws {@link ProductVariantNotFoundError}
+     * Thrown if the product has no variant with the given id.
+     */
+    public async getAvailableStock(
+        productId: number,
+        variantId: number | null,
+        transaction?: Transaction
+    ): Promise<number> {
+        const stock = variantId
+            ? await ProductVariant.findOne({
+                  where: { id: variantId, productId },
+                  attributes: ['id', 'stockQuantity'],
+                  transaction,
+                  lock: transaction?.LOCK.UPDATE,
+              })
+            : await Product.findByPk(productId, {
+                  attributes: ['id', 'stockQuantity'],
+                  transaction,
+                  lock: transaction?.LOCK.UPDATE,
+              });
+
+        if (!stock) {
+            throw variantId
+                ? new ProductVariantNotFoundError(
+                      `Variant with id "${variantId}" of product with id "${productId}" not found`
+                  )
+                : new ProductNotFoundError(
+                      `Product with id "${productId}" not found`
+                  );
+        }
+
+        const reserved: number =
+            (await StockReservation.sum('quantity', {
+                where: {
+                    productId,
+                    variantId,
+                    status: 'reserved',
+                    expiresAt: { [Op.gt]: new Date() },
+                },
+                transaction,
+            })) ?? 0;
+
+        return stock.stockQuantity - reserved;
+    }
+
+    /**
+     * Reserves the stock quantities of the given items.
+     *
+     * @param items - The items to reserve
+     * @returns A promise resolving to the reservation key
+     *
+     * @throws {@link ProductOutOfStockError}
+     * Thrown if any of the items exceeds the available stock.
+     */
+    public async reserveStock(items: StockItem[]): Promise<string> {
+        const reservationKey = randomUUID();
+        const expiresAt = new Date(Date.now() + RESERVATION_TTL);
+        const transaction = await sequelize.transaction();
+
+        try {
+            // Locks are acquired in a fixed order to prevent deadlocks
+            for (const { productId, variantId, quantity } of this.mergeItems(
+                items
+            )) {
+                const available = await this.getAvailableStock(
+                    productId,
+                    variantId,
+                    transaction
+                );
+
+                if (available < quantity) {
+                    throw new ProductOutOfStockError(
+                        `${this.describeItem(productId, variantId)} is out of stock. Only ${Math.max(available, 0)} left.`
+                    );
+                }
+
+                await StockReservation.create(
+                    {
+                        productId,
+                        variantId,
+                        reservationKey,
+                        quantity,
+                        expiresAt,
+                    },
+                    { transaction }
+                );
+            }
+
+            await transaction.commit();
+
+            return reservationKey;
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    /**
+     * Binds a reservation to the payment intent that was created for it.
+     *
+     * @param reservationKey - The reservation key
+     * @param paymentIntentId - The id of the payment intent
+     */
+    public async attachPaymentIntent(
+        reservationKey: string,
+        paymentIntentId: string
+    ): Promise<void> {
+        await StockReservation.update(
+            { paymentIntentId },
+            { where: { reservationKey, status: 'reserved' } }
+        );
+    }
+
+    /**
+     * Releases a reservation so that its quantities become available again.
+     *
+     * @param key - The reservation key or the payment intent id
+     */
+    public async releaseReservation(key: string): Promise<void> {
+        await StockReservation.update(
+            { status: 'released' },
+            {
+                where: {
+                    [Op.or]: [
+                        { reservationKey: key },
+                        { paymentIntentId: key },
+                    ],
+                    status: 'reserved',
+                },
+            }
+        );
+    }
+
+    /**
+     * Decrements the product stock for an order.
+     *
+     * @remarks
+     * This method is called from the order service inside the order
+     * creation transaction. Items without an active reservation, including
+     * those whose reservation has expired, are checked against the
+     * available stock before being decremented.
+     *
+     * @param orderId - The id of the order
+     * @param paymentIntentId - The id of the payment intent of the order
+     * @param items - The order items
+     * @param transaction - The order creation transaction
+     *
+     * @throws {@link ProductOutOfStockError}
+     * Thrown if an unreserved item exceeds the available stock.
+     */
+    public async commitStock(
+        orderId: number,
+        paymentIntentId: string,
+        items: StockItem[],
+        transaction: Transaction
+    ): Promise<void> {
+        const now = new Date();
+
+        for (const { productId, variantId, quantity } of this.mergeItems(
+            items
+        )) {
+            // Expired reservations no longer hold their quantities, which
+            // may have been sold since, so they are checked like unreserved items
+            const pending = await StockReservation.findAll({
+                where: {
+                    productId,
+                    variantId,
+                    paymentIntentId,
+                    status: 'reserved',
+                },
+                transaction,
+            });
+            const reservations = pending.filter(
+                ({ expiresAt }) => expiresAt > now
+            );
+            const expired = pending.filter(({ expiresAt }) => expiresAt <= now);
+            const reserved = reservations.reduce(
+                (acc, reservation) => acc + reservation.quantity,
+                0
+            );
+
+            if (reserved < quantity) {
+                const available = await this.getAvailableStock(
+                    productId,
+                    variantId,
+                    transaction
+                );
+
+                if (available < quantity - reserved) {
+                    throw new ProductOutOfStockError(
+                        `${this.describeItem(productId, variantId)} is out of stock. Only ${Math.max(available, 0)} left.`
+                    );
+                }
+            }
+
+            if (variantId) {
+                await ProductVariant.decrement('stockQuantity', {
+                    by: quantity,
+                    where: { id: variantId },
+                    transaction,
+                });
+            }
+
+            await Product.decrement('stockQuantity', {
+                by: quantity,
+                where: { id: productId },
+                transaction,
+            });
+            await SearchOutbox.record([productId], transaction);
+
+            if (reservations.length > 0) {
+                await StockReservation.update(
+                    { status: 'committed', orderId },
+                    {
+                        where: { id: reservations.map(({ id }) => id) },
+                        transaction,
+                    }
+                );
+            }
+
+            if (expired.length > 0) {
+                await StockReservation.update(
+                    { status: 'released' },
+                    {
+                        where: { id: expired.map(({ id }) => id) },
+                        transaction,
+                    }
+                );
+            }
+
+            // The unreserved quantity is recorded as well so that
+            // restocking the order returns the whole quantity
+            if (reserved < quantity) {
+                await StockReservation.create(
+                    {
+                        productId,
+                        variantId,
+                        orderId,
+                        reservationKey: randomUUID(),
+                        paymentIntentId,
+                        quantity: quantity - reserved,
+                        status: 'committed',
+                        expiresAt: now,
+                    },
+                    { transaction }
+                );
+            }
+        }
+
+        await BundleComponent.syncBundles(
+            items.map(({ productId }) => productId),
+            transaction
+        );
+    }
+
+    /**
+     * Returns the committed quantities of an order back to the product stock.
+     *
+     * @remarks
+     * Called when an order is canceled or fully refunded.
+     *
+     * @param orderId - The id of the order
+     * @param [transactionObj] - An existing transaction
+     */
+    public async restockOrder(
+        orderId: number,
+        transactionObj?: Transaction
+    ): Promise<void> {
+        const transaction: Transaction =
+            transactionObj ?? (await sequelize.transaction());
+
+        try {
+            const reservations = await StockReservation.findAll({
+                where: { orderId, status: 'committed' },
+                order: [
+                    ['productId', 'ASC'],
+                    ['variantId', 'ASC'],
+                ],
+                transaction,
+            });
+
+            for (const reservation of reservations) {
+                if (reservation.variantId) {
+                    await ProductVariant.increment('stockQuantity', {
+                        by: reservation.quantity,
+                        where: { id: reservation.variantId },
+                        transaction,
+                    });
+                }
+
+                await Product.increment('stockQuantity', {
+                    by: reservation.quantity,
+                    where: { id: reservation.productId },
+                    transaction,
+                });
+                await SearchOutbox.record([reservation.productId], transaction);
+
+                reservation.status = 'restocked';
+                await reservation.save({ transaction });
+            }
+
+            await BundleComponent.syncBundles(
+                reservations.map(({ productId }) => productId),
+                transaction
+            );
+
+            if (!transactionObj) {
+                await transaction.commit();
+            }
+        } catch (error) {
+            if (!transactionObj) {
+                await transaction.rollback();
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Merges duplicate product and variant entries
+     * and sorts them by product and variant id.
+     */
+    private mergeItems(items: StockItem[]): Required<StockItem>[] {
+        const merged = new Map<string, Required<StockItem>>();
+
+        items.forEach(({ productId, variantId = null, quantity }) => {
+            const key = `${productId}:${variantId ?? ''}`;
+            const item = merged.get(key);
+
+            if (item) {
+                item.quantity += quantity;
+            } else {
+                merged.set(key, { productId, variantId, quantity });
+            }
+        });
+
+        return Array.from(merged.values()).sort(
+            (a, b) =>
+                a.productId - b.productId ||
+                (a.variantId ?? 0) - (b.variantId ?? 0)
+        );
+    }
+
+    private describeItem(productId: number, variantId: number | null): string {
+        return variantId
+            ? `Variant with id "${variantId}" of product with id "${productId}"`
+            : `Product with id "${productId}"`;
+    }
+}
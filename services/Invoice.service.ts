@@ -0,0 +1,547 @@
+import PDFDocument from 'pdfkit';
+import fs from 'fs';
+import { mkdir } from 'fs/promises';
+import path from 'path';
+import { sequelize } from '@/config/db';
+import { queue6 } from '@/jobQueues';
+import {
+    Customer,
+    Invoice,
+    Order,
+    OrderItem,
+    OrderTaxLine,
+    Product,
+    ProductVariant,
+    User,
+} from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
+import type { InvoiceType } from '@/models/relational/Invoice.model';
+import { PlatformData } from '@/models/document';
+import { InvoiceNotFoundError, OrderNotFoundError } from '@/errors';
+
+const invoicesDir = path.join(__dirname, '../invoices');
+
+const formatter = new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency: 'EUR',
+});
+
+interface InvoiceResponse {
+    id: number;
+    type: InvoiceType;
+    number: string;
+    amount: number;
+    reason: string | null;
+    createdAt: Date;
+}
+
+interface DocumentLine {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+}
+
+interface DocumentContent {
+    title: string;
+    number: string;
+    order: Order;
+    customer: Customer;
+    reference?: string;
+    lines: DocumentLine[];
+    taxLines: Pick<OrderTaxLine, 'label' | 'rate' | 'taxAmount'>[];
+    total: number;
+    note?: string;
+}
+
+/**
+ * Service responsible for the invoices and credit notes of orders.
+ *
+ * @remarks
+ * Documents are rendered once, stored as PDF files in the invoices directory
+ * and never regenerated, so that they keep the data they were issued with.
+ */
+export class InvoiceService {
+    /**
+     * Queues the issuing of the invoice of a paid order.
+     *
+     * @param orderId - The id of the order
+     */
+    public async queueInvoice(orderId: number): Promise<void> {
+        await queue6.add(
+            'invoiceJob',
+            { orderId },
+            { jobId: `invoice-${orderId}` }
+        );
+    }
+
+    /**
+     * Queues the issuing of a credit note for a refund.
+     *
+     * @param orderId - The id of the order
+     * @param amount - The refunded amount
+     * @param reason - The reason of the refund
+     */
+    public async queueCreditNote(
+        orderId: number,
+        amount: number,
+        reason: string
+    ): Promise<void> {
+        await queue6.add('creditNoteJob', { orderId, amount, reason });
+    }
+
+    /**
+     * Issues the invoice of an order.
+     *
+     * @remarks
+     * This method is called from the invoice generation job and from
+     * the replenishment worker. An order has at most one invoice, so
+     * the existing invoice is returned if it was already issued.
+     * Items are billed at the price paid when the order was placed,
+     * followed by the discounts and shipping cost of the order.
+     *
+     * @param orderId - The id of the order
+     * @returns A promise resolving to the invoice
+     *
+     * @throws {@link OrderNotFoundError}
+     * Thrown if the order is not found.
+     */
+    public async createInvoice(orderId: number): Promise<InvoiceResponse> {
+        const existing = await Invoice.findOne({
+            where: { orderId, type: 'invoice' },
+        });
+
+        if (existing) {
+            return this.formatInvoice(existing);
+        }
+
+        const { order, customer } = await this.getOrderDetails(orderId);
+
+        const items = await OrderItem.findAll({
+            where: { orderId },
+            include: [
+                {
+                    model: Product,
+                    as: 'product',
+                    attributes: ['id', 'name', 'price', 'discount'],
+                    paranoid: false,
+                },
+                {
+                    model: ProductVariant,
+                    as: 'variant',
+                    attributes: ['id', 'sku', 'options', 'price'],
+                    paranoid: false,
+                },
+                {
+                    model: Product,
+                    as: 'bundle',
+                    attributes: ['id', 'name'],
+                    paranoid: false,
+                },
+            ],
+            order: [['id', 'ASC']],
+        });
+
+        const lines: DocumentLine[] = [];
+        const bundleLines = new Map<number, DocumentLine>();
+
+        for (const { product, variant, bundle, quantity, unitPrice } of items) {
+            const name = variant
+                ? `${product!.name} (${Object.values(variant.options).join(', ')}) - ${variant.sku}`
+                : product!.name;
+            const price = variant?.price ?? product!.price;
+            // Orders placed before unit prices were recorded fall back to the current price
+            const paid = unitPrice ?? discountedPrice(price, product!.discount);
+
+            if (!bundle) {
+                lines.push({ description: name, quantity, unitPrice: paid });
+                continue;
+            }
+
+            // Components are billed together at the price of their bundle
+            const bundleLine = bundleLines.get(bundle.id);
+
+            if (bundleLine) {
+                bundleLine.description += `, ${quantity} x ${name}`;
+                bundleLine.unitPrice += paid * quantity;
+            } else {
+                const line = {
+                    description: `${bundle.name}: ${quantity} x ${name}`,
+                    quantity: 1,
+                    unitPrice: paid * quantity,
+                };
+
+                bundleLines.set(bundle.id, line);
+                lines.push(line);
+            }
+        }
+
+        bundleLines.forEach((line) => {
+            line.unitPrice = parseFloat(line.unitPrice.toFixed(2));
+        });
+
+        if (order.couponDiscount) {
+            lines.push({
+                description: `Coupon ${order.couponCode}`,
+                quantity: 1,
+                unitPrice: -order.couponDiscount,
+            });
+        }
+
+        if (order.loyaltyDiscount) {
+            lines.push({
+                description: 'Loyalty points',
+                quantity: 1,
+                unitPrice: -order.loyaltyDiscount,
+            });
+        }
+
+        if (order.shippingCost) {
+            lines.push({
+                description: `Shipping (${order.shippingMethod})`,
+                quantity: 1,
+                unitPrice: order.shippingCost,
+            });
+        }
+
+        if (order.shippingDiscount) {
+            lines.push({
+                description: `Shipping discount (coupon ${order.couponCode})`,
+                quantity: 1,
+                unitPrice: -order.shippingDiscount,
+            });
+        }
+
+        // The VAT included in the prices is deducted from reverse charged orders
+        const linesTotal = lines.reduce(
+            (acc, line) => acc + line.unitPrice * line.quantity,
+            0
+        );
+        const deducted = parseFloat((linesTotal - order.total).toFixed(2));
+
+        if (order.reverseCharge && deducted > 0) {
+            lines.push({
+                description: 'VAT deducted (reverse charge)',
+                quantity: 1,
+                unitPrice: -deducted,
+            });
+        }
+
+        return await this.issueDocument(order, 'invoice', order.total, null, {
+            title: 'Invoice',
+            order,
+            customer,
+            lines,
+            taxLines: order.taxLines ?? [],
+            total: order.total,
+            note: order.reverseCharge
+                ? `VAT reverse charged. Customer VAT ID: ${order.customerVatId}`
+                : undefined,
+        });
+    }
+
+    /**
+     * Issues a credit note for a refunded amount of an order.
+     *
+     * @remarks
+     * The tax of the credit note is the share of the order's tax
+     * that corresponds to the refunded amount.
+     *
+     * @param orderId - The id of the order
+     * @param amount - The refunded amount
+     * @param reason - The reason of the refund
+     * @returns A promise resolving to the credit note
+     *
+     * @throws {@link OrderNotFoundError}
+     * Thrown if the order is not found.
+     */
+    public async createCreditNote(
+        orderId: number,
+        amount: number,
+        reason: string
+    ): Promise<InvoiceResponse> {
+        const invoice = await this.createInvoice(orderId);
+        const { order, customer } = await this.getOrderDetails(orderId);
+        const share = order.total ? amount / order.total : 0;
+
+        return await this.issueDocument(order, 'credit-note', amount, reason, {
+            title: 'Credit Note',
+            order,
+            customer,
+            reference: invoice.number,
+            lines: [
+                {
+                    description: `Refund for order ${order.trackingNumber}: ${reason}`,
+                    quantity: 1,
+                    unitPrice: amount,
+                },
+            ],
+            taxLines: (order.taxLines ?? []).map((line) => ({
+                label: line.label,
+                rate: line.rate,
+                taxAmount: parseFloat((line.taxAmount * share).toFixed(2)),
+            })),
+            total: amount,
+        });
+    }
+
+    /**
+     * Retrieves the invoice and credit notes of an order.
+     *
+     * @param userId - The user id of the customer or undefined for admins
+     * @param orderId - The id of the order
+     * @returns A promise resolving to the documents of the order
+     *
+     * @throws {@link OrderNotFoundError}
+     * Thrown if the order is not found.
+     */
+    public async getOrderInvoices(
+        userId: number | undefined,
+        orderId: number
+    ): Promise<InvoiceResponse[]> {
+        await this.findOrder(userId, orderId);
+
+        const invoices = await Invoice.findAll({
+            where: { orderId },
+            order: [['id', 'ASC']],
+        });
+
+        return invoices.map((invoice) => this.formatInvoice(invoice));
+    }
+
+    /**
+     * Retrieves the file of an invoice or credit note.
+     *
+     * @param userId - The user id of the customer or undefined for admins
+     * @param orderId - The id of the order
+     * @param number - The number of the document
+     * @returns A promise resolving to the file path and its download name
+     *
+     * @throws {@link OrderNotFoundError}
+     * Thrown if the order is not found.
+     *
+     * @throws {@link InvoiceNotFoundError}
+     * Thrown if the order has no document with the given number.
+     */
+    public async getInvoiceFile(
+        userId: number | undefined,
+        orderId: number,
+        number: string
+    ): Promise<{ filePath: string; fileName: string }> {
+        await this.findOrder(userId, orderId);
+
+        const invoice = await Invoice.findOne({ where: { orderId, number } });
+
+        if (!invoice) {
+            throw new InvoiceNotFoundError();
+        }
+
+        const filePath = path.join(invoicesDir, invoice.fileName);
+
+        if (!fs.existsSync(filePath)) {
+            throw new InvoiceNotFoundError('Invoice file is missing');
+        }
+
+        return { filePath, fileName: invoice.fileName };
+    }
+
+    private async issueDocument(
+        order: Order,
+        type: InvoiceType,
+        amount: number,
+        reason: string | null,
+        content: Omit<DocumentContent, 'number'>
+    ): Promise<InvoiceResponse> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const number = await Invoice.nextNumber(type, transaction);
+            const fileName = `${number}.pdf`;
+
+            await this.renderDocument(fileName, { ...content, number });
+
+            const invoice = await Invoice.create(
+                { orderId: order.id, type, number, amount, reason, fileName },
+                { transaction }
+            );
+
+            await transaction.commit();
+
+            return this.formatInvoice(invoice);
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    private async renderDocument(
+        fileName: string,
+        content: DocumentContent
+    ): Promise<void> {
+        const platform = (await PlatformData.find({}))[0];
+
+        await mkdir(invoicesDir, { recursive: true });
+
+        await new Promise<void>((resolve, reject) => {
+            const doc = new PDFDocument({ margin: 50 });
+            const stream = fs.createWriteStream(
+                path.join(invoicesDir, fileName)
+            );
+
+            stream.on('finish', resolve);
+            stream.on('error', reject);
+            doc.pipe(stream);
+
+            doc.fontSize(22).text(content.title, { align: 'right' });
+            doc.fontSize(10)
+                .text(`No. ${content.number}`, { align: 'right' })
+                .text(`Date: ${new Date().toISOString().split('T')[0]}`, {
+                    align: 'right',
+                })
+                .text(`Order: ${content.order.trackingNumber}`, {
+                    align: 'right',
+                });
+
+            if (content.reference) {
+                doc.text(`Refers to invoice ${content.reference}`, {
+                    align: 'right',
+                });
+            }
+
+            doc.moveDown()
+                .font('Helvetica-Bold')
+                .text(platform?.companyName ?? 'E-Commerce Site', 50)
+                .font('Helvetica')
+                .text(platform?.headquartersAddress ?? '');
+
+            doc.moveDown()
+                .font('Helvetica-Bold')
+                .text('Billed to')
+                .font('Helvetica')
+                .text(
+                    `${content.customer.user!.firstName} ${content.customer.user!.lastName}`
+                )
+                .text(content.customer.billingAddress ?? '');
+
+            if (content.order.customerVatId) {
+                doc.text(`VAT ID: ${content.order.customerVatId}`);
+            }
+
+            doc.moveDown(2).font('Helvetica-Bold');
+            const headerY = doc.y;
+            doc.text('Description', 50, headerY)
+                .text('Qty', 330, headerY, { width: 40, align: 'right' })
+                .text('Unit price', 380, headerY, {
+                    width: 80,
+                    align: 'right',
+                })
+                .text('Amount', 470, headerY, { width: 80, align: 'right' });
+            doc.moveTo(50, doc.y + 2)
+                .lineTo(550, doc.y + 2)
+                .stroke();
+            doc.font('Helvetica').moveDown(0.5);
+
+            for (const line of content.lines) {
+                const y = doc.y;
+
+                doc.text(line.description, 50, y, { width: 270 });
+                const nextY = doc.y;
+
+                doc.text(String(line.quantity), 330, y, {
+                    width: 40,
+                    align: 'right',
+                })
+                    .text(formatter.format(line.unitPrice), 380, y, {
+                        width: 80,
+                        align: 'right',
+                    })
+                    .text(
+                        formatter.format(line.unitPrice * line.quantity),
+                        470,
+                        y,
+                        { width: 80, align: 'right' }
+                    );
+                doc.y = Math.max(nextY, doc.y);
+                doc.moveDown(0.25);
+            }
+
+            doc.moveDown();
+
+            for (const taxLine of content.taxLines) {
+                doc.text(
+                    `${taxLine.label}: ${formatter.format(taxLine.taxAmount)}`,
+                    300,
+                    doc.y,
+                    { width: 250, align: 'right' }
+                );
+            }
+
+            doc.font('Helvetica-Bold')
+                .fontSize(12)
+                .text(`Total: ${formatter.format(content.total)}`, 300, doc.y, {
+                    width: 250,
+                    align: 'right',
+                });
+
+            if (content.note) {
+                doc.moveDown()
+                    .font('Helvetica')
+                    .fontSize(10)
+                    .text(content.note, 50);
+            }
+
+            doc.end();
+        });
+    }
+
+    private async getOrderDetails(
+        orderId: number
+    ): Promise<{ order: Order; customer: Customer }> {
+        const order = await Order.findByPk(orderId, {
+            include: [{ model: OrderTaxLine, as: 'taxLines' }],
+        });
+
+        if (!order) {
+            throw new OrderNotFoundError();
+        }
+
+        const customer = (await Customer.findByPk(order.customerId, {
+            include: [{ model: User, as: 'user' }],
+        }))!;
+
+        return { order, customer };
+    }
+
+    private async findOrder(
+        userId: number | undefined,
+        orderId: number
+    ): Promise<Order> {
+        const order = await Order.findByPk(orderId, {
+            attributes: ['id', 'customerId'],
+        });
+
+        if (!order) {
+            throw new OrderNotFoundError();
+        }
+
+        if (userId) {
+            const customer = await Customer.findOne({ where: { userId } });
+
+            if (!customer || customer.id !== order.customerId) {
+                throw new OrderNotFoundError();
+            }
+        }
+
+        return order;
+    }
+
+    private formatInvoice(invoice: Invoice): InvoiceResponse {
+        return {
+            id: invoice.id,
+            type: invoice.type,
+            number: invoice.number,
+            amount: invoice.amount,
+            reason: invoice.reason,
+            createdAt: invoice.createdAt,
+        };
+    }
+}
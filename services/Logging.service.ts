@@ -54,6 +54,15 @@ export class LoggingService {
             'sales report',
             'stock report',
             'membership',
+            'coupon',
+            'product option',
+            'product variant',
+            'product media',
+            'product import',
+            'price change',
+            'flash sale',
+            'product bundle',
+            'category attribute',
         ];
 
         if (!categories.includes(target)) {
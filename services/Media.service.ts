@@ -0,0 +1,504 @@
+import sharp from 'sharp';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { sequelize } from '@/config/db';
+import { createStorageDriver } from './media_storage';
+import type { StorageDriver } from './media_storage';
+import { Product, ProductMedia, User } from '@/models/relational';
+import type {
+    MediaType,
+    ThumbnailSize,
+    Thumbnails,
+} from '@/models/relational/ProductMedia.model';
+import {
+    InvalidMediaError,
+    MediaLimitError,
+    MediaNotFoundError,
+    ProductNotFoundError,
+    UserNotFoundError,
+} from '@/errors';
+
+const PRODUCT_MEDIA_LIMIT = 20;
+
+// Used as the image of products whose gallery has no images left
+const PLACEHOLDER_IMAGE_URL = process.env.PRODUCT_PLACEHOLDER_IMAGE_URL ?? '';
+
+// Thumbnails fit in a square of the given width, keeping their aspect ratio
+const THUMBNAIL_SIZES: Record<ThumbnailSize, number> = {
+    small: 150,
+    medium: 400,
+    large: 800,
+};
+
+const MEDIA_TYPES: Record<string, { type: MediaType; extension: string }> = {
+    'image/jpeg': { type: 'image', extension: '.jpg' },
+    'image/png': { type: 'image', extension: '.png' },
+    'image/webp': { type: 'image', extension: '.webp' },
+    'image/gif': { type: 'image', extension: '.gif' },
+    'video/mp4': { type: 'video', extension: '.mp4' },
+    'video/webm': { type: 'video', extension: '.webm' },
+};
+
+interface StoredFile {
+    type: MediaType;
+    key: string;
+    url: string;
+    thumbnails: Thumbnails | null;
+}
+
+interface ProfilePictureResponse {
+    profilePictureUrl: string | null;
+    profilePictureThumbnails: Thumbnails | null;
+    profilePictureAlt: string | null;
+}
+
+/**
+ * Service responsible for the product media and the profile pictures of users.
+ *
+ * @remarks
+ * Uploaded files are kept in the storage selected by `MEDIA_STORAGE_DRIVER`.
+ * Thumbnails are generated for images in each of the {@link THUMBNAIL_SIZES}.
+ * The first image of a product's gallery is used as its `imageUrl`.
+ */
+export class MediaService {
+    private storage: StorageDriver;
+
+    constructor() {
+        this.storage = createStorageDriver();
+    }
+
+    /**
+     * Retrieves the media gallery of a product.
+     *
+     * @param productId - The id of the product
+     * @returns A promise resolving to the product media in gallery order
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     */
+    public async getProductMedia(productId: number): Promise<ProductMedia[]> {
+        await this.findProduct(productId);
+
+        return await ProductMedia.findAll({
+            where: { productId },
+            order: [
+                ['position', 'ASC'],
+                ['id', 'ASC'],
+            ],
+        });
+    }
+
+    /**
+     * Adds uploaded images and videos to the end of a product's gallery.
+     *
+     * @param productId - The id of the product
+     * @param files - The uploaded files
+     * @param [altTexts] - The alt texts of the files, in upload order
+     * @returns A promise resolving to the created product media
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     *
+     * @throws {@link MediaLimitError}
+     * Thrown if the gallery would exceed {@link PRODUCT_MEDIA_LIMIT} files.
+     *
+     * @throws {@link InvalidMediaError}
+     * Thrown if a file is not a supported image or video.
+     */
+    public async addProductMedia(
+        productId: number,
+        files: Express.Multer.File[],
+        altTexts: string[] = []
+    ): Promise<ProductMedia[]> {
+        await this.findProduct(productId);
+
+        if (!files.length) {
+            throw new InvalidMediaError('No files were uploaded');
+        }
+
+        const count = await ProductMedia.count({ where: { productId } });
+
+        if (count + files.length > PRODUCT_MEDIA_LIMIT) {
+            throw new MediaLimitError(
+                `A product cannot have more than ${PRODUCT_MEDIA_LIMIT} media files`
+            );
+        }
+
+        const storedFiles: StoredFile[] = [];
+        const transaction = await sequelize.transaction();
+
+        try {
+            for (const file of files) {
+                storedFiles.push(
+                    await this.storeFile(`products/${productId}`, file)
+                );
+            }
+
+            const lastPosition: number =
+                (await ProductMedia.max('position', {
+                    where: { productId },
+                    transaction,
+                })) ?? -1;
+
+            const media = await ProductMedia.bulkCreate(
+                storedFiles.map((storedFile, index) => ({
+                    productId,
+                    type: storedFile.type,
+                    storageKey: storedFile.key,
+                    url: storedFile.url,
+                    thumbnails: storedFile.thumbnails,
+                    mimeType: files[index].mimetype,
+                    altText: altTexts[index] || null,
+                    position: lastPosition + index + 1,
+                })),
+                { transaction }
+            );
+
+            await transaction.commit();
+            await this.syncPrimaryImage(productId);
+
+            return media;
+        } catch (error) {
+            await transaction.rollback();
+
+            for (const storedFile of storedFiles) {
+                await this.removeFile(storedFile.key);
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Updates the alt text of a product media.
+     *
+     * @param productId - The id of the product
+     * @param mediaId - The id of the media
+     * @param altText - The new alt text, or null to remove it
+     * @returns A promise resolving to the updated media
+     *
+     * @throws {@link MediaNotFoundError}
+     * Thrown if the product has no media with the given id.
+     */
+    public async updateProductMedia(
+        productId: number,
+        mediaId: number,
+        altText: string | null
+    ): Promise<ProductMedia> {
+        const media = await this.findMedia(productId, mediaId);
+
+        return await media.update({ altText: altText || null });
+    }
+
+    /**
+     * Reorders the gallery of a product.
+     *
+     * @param productId - The id of the product
+     * @param mediaIds - The ids of all product media in their new order
+     * @returns A promise resolving to the reordered media
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     *
+     * @throws {@link InvalidMediaError}
+     * Thrown if the ids are not exactly the ids of the product's media.
+     */
+    public async reorderProductMedia(
+        productId: number,
+        mediaIds: number[]
+    ): Promise<ProductMedia[]> {
+        const media = await this.getProductMedia(productId);
+        const ids = new Set(mediaIds);
+
+        if (
+            ids.size !== mediaIds.length ||
+            ids.size !== media.length ||
+            media.some(({ id }) => !ids.has(id))
+        ) {
+            throw new InvalidMediaError(
+                'Media ids must list every media of the product once'
+            );
+        }
+
+        const transaction = await sequelize.transaction();
+
+        try {
+            for (const [position, id] of mediaIds.entries()) {
+                await ProductMedia.update(
+                    { position },
+                    { where: { id }, transaction }
+                );
+            }
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+
+        await this.syncPrimaryImage(productId);
+
+        return await this.getProductMedia(productId);
+    }
+
+    /**
+     * Deletes a product media along with its stored files.
+     *
+     * @param productId - The id of the product
+     * @param mediaId - The id of the media
+     *
+     * @throws {@link MediaNotFoundError}
+     * Thrown if the product has no media with the given id.
+     */
+    public async deleteProductMedia(
+        productId: number,
+        mediaId: number
+    ): Promise<void> {
+        const media = await this.findMedia(productId, mediaId);
+
+        await media.destroy();
+        await this.removeFile(media.storageKey);
+        await this.syncPrimaryImage(productId, media.url);
+    }
+
+    /**
+     * Uploads the profile picture of a user, replacing the previous one.
+     *
+     * @param userId - The id of the user
+     * @param file - The uploaded image
+     * @param [altText] - The alt text of the picture
+     * @returns A promise resolving to the profile picture URLs and alt text
+     *
+     * @throws {@link UserNotFoundError}
+     * Thrown if the user is not found.
+     *
+     * @throws {@link InvalidMediaError}
+     * Thrown if the file is not a supported image.
+     */
+    public async setProfilePicture(
+        userId: number,
+        file: Express.Multer.File | undefined,
+        altText?: string
+    ): Promise<ProfilePictureResponse> {
+        const user = await this.findUser(userId);
+
+        if (!file || MEDIA_TYPES[file.mimetype]?.type !== 'image') {
+            throw new InvalidMediaError('A profile picture must be an image');
+        }
+
+        const previousKey = user.profilePictureKey;
+        const storedFile = await this.storeFile(`users/${userId}`, file);
+
+        try {
+            await user.update({
+                profilePictureUrl: storedFile.url,
+                profilePictureKey: storedFile.key,
+                profilePictureThumbnails: storedFile.thumbnails,
+                profilePictureAlt: altText || null,
+            });
+        } catch (error) {
+            await this.removeFile(storedFile.key);
+            throw error;
+        }
+
+        if (previousKey) {
+            await this.removeFile(previousKey);
+        }
+
+        return this.formatProfilePicture(user);
+    }
+
+    /**
+     * Deletes the profile picture of a user.
+     *
+     * @param userId - The id of the user
+     *
+     * @throws {@link UserNotFoundError}
+     * Thrown if the user is not found.
+     *
+     * @throws {@link MediaNotFoundError}
+     * Thrown if the user has no profile picture.
+     */
+    public async deleteProfilePicture(userId: number): Promise<void> {
+        const user = await this.findUser(userId);
+
+        if (!user.profilePictureUrl) {
+            throw new MediaNotFoundError('User has no profile picture');
+        }
+
+        const key = user.profilePictureKey;
+
+        await user.update({
+            profilePictureUrl: null,
+            profilePictureKey: null,
+            profilePictureThumbnails: null,
+            profilePictureAlt: null,
+        });
+
+        if (key) {
+            await this.removeFile(key);
+        }
+    }
+
+    /**
+     * Deletes the stored files of a media, including its thumbnails.
+     *
+     * @param key - The storage key of the original file
+     */
+    public async removeFile(key: string): Promise<void> {
+        await Promise.all([
+            this.storage.delete(key),
+            ...Object.keys(THUMBNAIL_SIZES).map((size) =>
+                this.storage.delete(this.thumbnailKey(key, size))
+            ),
+        ]);
+    }
+
+    private async storeFile(
+        folder: string,
+        file: Express.Multer.File
+    ): Promise<StoredFile> {
+        const mediaType = MEDIA_TYPES[file.mimetype];
+
+        if (!mediaType) {
+            throw new InvalidMediaError(
+                `Unsupported media type "${file.mimetype}" of file "${file.originalname}"`
+            );
+        }
+
+        const key = `${folder}/${randomUUID()}${mediaType.extension}`;
+
+        if (mediaType.type === 'video') {
+            return {
+                type: 'video',
+                key,
+                url: await this.storage.put(key, file.buffer, file.mimetype),
+                thumbnails: null,
+            };
+        }
+
+        // Thumbnails are generated first, as they also verify the image
+        let thumbnailBuffers: [string, Buffer][];
+
+        try {
+            thumbnailBuffers = await Promise.all(
+                Object.entries(THUMBNAIL_SIZES).map(
+                    async ([size, width]): Promise<[string, Buffer]> => [
+                        size,
+                        await sharp(file.buffer)
+                            .rotate()
+                            .resize({
+                                width,
+                                height: width,
+                                fit: 'inside',
+                                withoutEnlargement: true,
+                            })
+                            .webp()
+                            .toBuffer(),
+                    ]
+                )
+            );
+        } catch {
+            throw new InvalidMediaError(
+                `File "${file.originalname}" is not a valid image`
+            );
+        }
+
+        const url = await this.storage.put(key, file.buffer, file.mimetype);
+        const thumbnails = {} as Thumbnails;
+
+        for (const [size, buffer] of thumbnailBuffers) {
+            thumbnails[size as ThumbnailSize] = await this.storage.put(
+                this.thumbnailKey(key, size),
+                buffer,
+                'image/webp'
+            );
+        }
+
+        return { type: 'image', key, url, thumbnails };
+    }
+
+    private thumbnailKey(key: string, size: string): string {
+        const { dir, name } = path.posix.parse(key);
+
+        return `${dir}/${name}_${size}.webp`;
+    }
+
+    /**
+     * Uses the first image of the gallery as the image of the product.
+     * If the image of the product was removed and the gallery has no
+     * images left, the placeholder image is used instead.
+     */
+    private async syncPrimaryImage(
+        productId: number,
+        removedUrl?: string
+    ): Promise<void> {
+        const [product, image] = await Promise.all([
+            Product.findByPk(productId),
+            ProductMedia.findOne({
+                where: { productId, type: 'image' },
+                order: [
+                    ['position', 'ASC'],
+                    ['id', 'ASC'],
+                ],
+            }),
+        ]);
+
+        if (!product) return;
+
+        const imageUrl =
+            image?.url ??
+            (product.imageUrl === removedUrl
+                ? PLACEHOLDER_IMAGE_URL
+                : product.imageUrl);
+
+        if (product.imageUrl !== imageUrl) {
+            await product.update({ imageUrl });
+        }
+    }
+
+    private formatProfilePicture(user: User): ProfilePictureResponse {
+        return {
+            profilePictureUrl: user.profilePictureUrl,
+            profilePictureThumbnails: user.profilePictureThumbnails,
+            profilePictureAlt: user.profilePictureAlt,
+        };
+    }
+
+    private async findProduct(productId: number): Promise<Product> {
+        const product = await Product.findByPk(productId, {
+            attributes: ['id'],
+        });
+
+        if (!product) {
+            throw new ProductNotFoundError();
+        }
+
+        return product;
+    }
+
+    private async findMedia(
+        productId: number,
+        mediaId: number
+    ): Promise<ProductMedia> {
+        const media = await ProductMedia.findOne({
+            where: { id: mediaId, productId },
+        });
+
+        if (!media) {
+            throw new MediaNotFoundError();
+        }
+
+        return media;
+    }
+
+    private async findUser(userId: number): Promise<User> {
+        const user = await User.findByPk(userId);
+
+        if (!user) {
+            throw new UserNotFoundError();
+        }
+
+        return user;
+    }
+}
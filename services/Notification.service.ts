@@ -33,6 +33,12 @@ interface EmailOptions {
     subject: string;
     text?: string;
     html?: string;
+    attachments?: EmailAttachment[];
+}
+
+interface EmailAttachment {
+    filename: string;
+    path: string;
 }
 
 interface NewProduct {
@@ -44,6 +50,23 @@ interface NewProduct {
 
 type Promotion = 'newArrival' | 'discount';
 
+export type AbandonedCartEmail = 'reminder' | 'followUp' | 'lastChance';
+
+interface AbandonedCartItem {
+    name: string;
+    imageUrl: string;
+    price: number;
+    quantity: number;
+}
+
+export interface WishlistAlert {
+    type: 'priceDrop' | 'backInStock';
+    name: string;
+    imageUrl: string;
+    price: number;
+    previousPrice: number | null; // Set for price drops
+}
+
 interface PromotionData {
     file: string;
     shopRoute: string;
@@ -102,6 +125,7 @@ export class NotificationService {
             subject: options.subject,
             text: options.text || '',
             html: options.html || '',
+            attachments: options.attachments,
         };
 
         await this.transporter.sendMail(mailOptions);
@@ -498,6 +522,128 @@ export class NotificationService {
         }
     }
 
+    /**
+     * Sends an email of the abandoned cart sequence to a customer.
+     *
+     * @param email - The email of the customer
+     * @param firstName - The first name of the customer
+     * @param type - The email of the sequence to send
+     * @param items - The items left in the cart
+     * @param restoreUrl - The link restoring the cart
+     * @param [promotionCode] - The customer's coupon code
+     * @param [percentOff] - The percentage of the coupon discount
+     */
+    public async sendAbandonedCartEmail(
+        email: string,
+        firstName: string,
+        type: AbandonedCartEmail,
+        items: AbandonedCartItem[],
+        restoreUrl: string,
+        promotionCode: string | null,
+        percentOff: number | null
+    ): Promise<void> {
+        const emails = new Map<
+            AbandonedCartEmail,
+            Omit<PromotionData, 'shopRoute'>
+        >([
+            [
+                'reminder',
+                {
+                    file: 'send-abandoned-cart-reminder-email.hbs',
+                    subject: `${firstName}, you left something in your cart`,
+                },
+            ],
+            [
+                'followUp',
+                {
+                    file: 'send-abandoned-cart-follow-up-email.hbs',
+                    subject: `${firstName}, your cart is still waiting for you`,
+                },
+            ],
+            [
+                'lastChance',
+                {
+                    file: 'send-abandoned-cart-last-chance-email.hbs',
+                    subject: promotionCode
+                        ? `${firstName}, here is ${percentOff}% off the items in your cart`
+                        : `${firstName}, last chance to get the items in your cart`,
+                },
+            ],
+        ]);
+
+        const emailFile = await readFile(
+            path.join(TEMPLATES_PATH, emails.get(type)!.file),
+            'utf-8'
+        );
+        const template = Handlebars.compile(emailFile);
+        const htmlData = template({
+            firstName,
+            items: items.map((item) => ({
+                ...item,
+                price: formatter.format(item.price),
+            })),
+            total: formatter.format(
+                items.reduce((acc, item) => acc + item.price * item.quantity, 0)
+            ),
+            restoreUrl,
+            promotionCode,
+            percentOff,
+        });
+
+        try {
+            await this.sendEmail({
+                to: email,
+                subject: emails.get(type)!.subject,
+                html: htmlData,
+            });
+        } catch (error) {
+            this.logger.error('Error sending abandoned cart email: ' + error);
+        }
+    }
+
+    /**
+     * Sends the price drop and back in stock alerts of wishlisted products to a customer.
+     *
+     * @param email - The email of the customer
+     * @param firstName - The first name of the customer
+     * @param alerts - The alerts of the wishlisted products
+     */
+    public async sendWishlistAlertEmail(
+        email: string,
+        firstName: string,
+        alerts: WishlistAlert[]
+    ): Promise<void> {
+        const emailFile = await readFile(
+            path.join(TEMPLATES_PATH, 'send-wishlist-alerts-email.hbs'),
+            'utf-8'
+        );
+        const template = Handlebars.compile(emailFile);
+        const htmlData = template({
+            firstName,
+            alerts: alerts.map((alert) => ({
+                ...alert,
+                price: formatter.format(alert.price),
+                previousPrice: alert.previousPrice
+                    ? formatter.format(alert.previousPrice)
+                    : null,
+            })),
+            wishlistsUrl: CLIENT_URL + '/wishlists',
+        });
+
+        try {
+            await this.sendEmail({
+                to: email,
+                subject:
+                    alerts.length === 1
+                        ? `${firstName}, an item on your wishlist ${alerts[0].type === 'priceDrop' ? 'dropped in price' : 'is back in stock'}`
+                        : `${firstName}, ${alerts.length} items on your wishlists have news`,
+                html: htmlData,
+            });
+        } catch (error) {
+            this.logger.error('Error sending wishlist alert email: ' + error);
+        }
+    }
+
     /**
      * Sends a handled refund request email to a customer.
      *
@@ -533,12 +679,14 @@ export class NotificationService {
      * @subject - The subject of the email
      * @emailTemplate - The template of the email
      * @data - The data to be sent in the email
+     * @attachments - The files attached to the email (e.g. the order invoice)
      */
     public async sendReplenishmentPaymentEmail(
         userEmail: string,
         subject: string,
         emailTemplate: string,
-        data: SuccessfulPaymentEmailData | FailedPaymentEmailData
+        data: SuccessfulPaymentEmailData | FailedPaymentEmailData,
+        attachments?: EmailAttachment[]
     ): Promise<void> {
         const emailFile = await readFile(
             path.join(TEMPLATES_PATH, emailTemplate),
@@ -553,6 +701,7 @@ export class NotificationService {
             subject,
             text: 'Fallback test',
             html: htmlData,
+            attachments,
         });
     }
 
@@ -1,16 +1,62 @@
 import { sequelize } from '@/config/db';
 import { Op } from 'sequelize';
 import type { Transaction } from 'sequelize';
-import { Order, Customer } from '@/models/relational';
+import { InventoryService } from './Inventory.service';
+import { WalletService } from './Wallet.service';
+import { InvoiceService } from './Invoice.service';
+import { BundleService } from './Bundle.service';
+import { FlashSaleService } from './FlashSale.service';
+import { queue5 } from '@/jobQueues';
+import {
+    Order,
+    OrderItem,
+    BundleComponent,
+    Cart,
+    Customer,
+    Product,
+    ProductVariant,
+    Purchase,
+    Sale,
+    OrderStatusEvent,
+    OrderTaxLine,
+    Shipment,
+    ShipmentItem,
+} from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
 import {
     UserNotFoundError,
     OrderNotFoundError,
     OrderAlreadyMarkedError,
+    InvalidShipmentError,
 } from '@/errors';
 
 interface OrderItemAttributes {
     productId: number;
+    variantId?: number | null;
     quantity: number;
+    unitPrice?: number; // The price paid per unit
+}
+
+const BANK_TRANSFER_PAYMENT_WINDOW = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface OrderTaxDetails {
+    reverseCharge: boolean;
+    vatId: string | null;
+    taxTotal: number;
+    lines: {
+        label: string;
+        rate: number;
+        taxableAmount: number;
+        taxAmount: number;
+    }[];
+}
+
+interface OrderPricingDetails {
+    coupon: string | null;
+    couponDiscount: number;
+    loyaltyDiscount: number;
+    shippingCost: number;
+    shippingDiscount: number;
 }
 
 interface OrderResponse {
@@ -26,7 +72,9 @@ interface OrderResponse {
         | 'extra-heavy';
     shippingMethod: 'standard' | 'express' | 'next-day';
     status:
+        | 'awaiting-payment'
         | 'pending'
+        | 'processing'
         | 'shipped'
         | 'awaiting pickup'
         | 'delivered'
@@ -35,7 +83,48 @@ interface OrderResponse {
         | 'partially-refunded';
     trackingNumber: string;
     total: number;
+    paymentIntentId?: string;
+    paymentDueAt?: Date | null;
+    taxTotal?: number;
+    reverseCharge?: boolean;
+    customerVatId?: string | null;
     createdAt?: Date;
+    taxLines?: OrderTaxDetails['lines'];
+    timeline?: OrderStatusEventResponse[];
+    shipments?: ShipmentResponse[];
+}
+
+interface OrderStatusEventResponse {
+    fromStatus: string | null;
+    toStatus: string;
+    createdAt: Date;
+}
+
+interface ShipmentDetails {
+    carrier: string;
+    trackingNumber: string;
+    packages: {
+        weight: number;
+        length?: number;
+        width?: number;
+        height?: number;
+    }[];
+    items?: OrderItemAttributes[];
+}
+
+interface UnshippedItem {
+    productId: number;
+    variantId: number | null;
+    quantity: number;
+}
+
+interface ShipmentResponse {
+    id: number;
+    carrier: string;
+    trackingNumber: string;
+    packages: ShipmentDetails['packages'];
+    shippedAt: Date;
+    items?: OrderItemAttributes[];
 }
 
 interface OrderItemResponse {
@@ -45,6 +134,16 @@ interface OrderItemResponse {
     imageUrl: string;
     weight: number;
     price: number;
+    discount: number;
+    variant: {
+        id: number;
+        sku: string;
+        options: Record<string, string>;
+    } | null;
+    bundle?: {
+        id: number;
+        name: string;
+    } | null;
     quantity?: number;
 }
 
@@ -52,9 +151,28 @@ interface OrderItemResponse {
  * Service responsible for Order-related operations.
  */
 export class OrderService {
+    private inventoryService: InventoryService;
+    private walletService: WalletService;
+    private invoiceService: InvoiceService;
+    private bundleService: BundleService;
+    private flashSaleService: FlashSaleService;
+
+    constructor() {
+        this.inventoryService = new InventoryService();
+        this.walletService = new WalletService();
+        this.invoiceService = new InvoiceService();
+        this.bundleService = new BundleService();
+        this.flashSaleService = new FlashSaleService();
+    }
+
     /**
      * Creates an order for a customer.
      *
+     * @remarks
+     * Bank transfer orders await their payment until {@link BANK_TRANSFER_PAYMENT_WINDOW}
+     * passes, after which they are canceled. Their sale is recorded once they are paid.
+     * Bundles are added to the order as their components.
+     *
      * @param userId - The user id
      * @param items - The items to add to the order
      * @param paymentMethod - The payment method for the order
@@ -62,14 +180,19 @@ export class OrderService {
      * @param shippingWeight - The shipping weight for the order
      * @param shippingMethod - The shipping method for the order
      * @param orderTotal - The total price of the order
-     * @param paymentIntentId - The id of the payment intent which is used for refunds
+     * @param paymentIntentId - The id of the payment intent or the payment reference which is used for refunds
+     * @param tax - The VAT lines of the order
+     * @param pricing - The shipping cost and discounts of the order
      * @param [transactionObj] - An existing transaction
      * @returns A promise resolving to the created order
+     *
+     * @throws {@link ProductOutOfStockError}
+     * Thrown if an item exceeds the available stock.
      */
     public async createOrder(
         userId: number,
         items: OrderItemAttributes[],
-        paymentMethod: 'card',
+        paymentMethod: 'card' | 'wallet' | 'bank-transfer',
         shippingCountry: string,
         weightCategory:
             | 'light'
@@ -81,6 +204,8 @@ export class OrderService {
         shippingMethod: 'standard' | 'express' | 'next-day',
         orderTotal: number,
         paymentIntentId: string,
+        tax: OrderTaxDetails,
+        pricing: OrderPricingDetails,
         transactionObj?: Transaction
     ): Promise<OrderResponse> {
         const transaction: Transaction =
@@ -106,20 +231,84 @@ export class OrderService {
                     shippingMethod,
                     total: orderTotal,
                     paymentIntentId,
+                    taxTotal: tax.taxTotal,
+                    reverseCharge: tax.reverseCharge,
+                    customerVatId: tax.vatId,
+                    couponCode: pricing.coupon,
+                    couponDiscount: pricing.couponDiscount,
+                    loyaltyDiscount: pricing.loyaltyDiscount,
+                    shippingCost: pricing.shippingCost,
+                    shippingDiscount: pricing.shippingDiscount,
+                    ...(paymentMethod === 'bank-transfer' && {
+                        status: 'awaiting-payment',
+                        paymentDueAt: new Date(
+                            Date.now() + BANK_TRANSFER_PAYMENT_WINDOW
+                        ),
+                    }),
                 },
                 { transaction }
             );
 
+            const orderItems = await this.bundleService.expandItems(items);
+
             await Promise.all(
-                items.map(async ({ productId, quantity }) => {
-                    await order.addItem(productId, quantity, transaction);
-                })
+                orderItems.map(
+                    async ({
+                        productId,
+                        variantId,
+                        quantity,
+                        bundleId,
+                        unitPrice,
+                    }) => {
+                        await order.addItem(
+                            productId,
+                            quantity,
+                            transaction,
+                            variantId,
+                            bundleId,
+                            unitPrice
+                        );
+                    }
+                )
+            );
+
+            await OrderTaxLine.bulkCreate(
+                tax.lines.map((line) => ({ ...line, orderId: order.id })),
+                { transaction }
             );
 
+            await this.inventoryService.commitStock(
+                order.id,
+                paymentIntentId,
+                orderItems,
+                transaction
+            );
+
+            await Cart.markCheckedOut(customer.id, transaction);
+
+            if (paymentMethod !== 'bank-transfer') {
+                await this.recordSale(order, transaction);
+            }
+
             if (!transactionObj) {
                 await transaction.commit();
             }
 
+            if (paymentMethod !== 'bank-transfer' && !transactionObj) {
+                await this.invoiceService.queueInvoice(order.id);
+            }
+
+            if (paymentMethod === 'bank-transfer') {
+                await queue5.add(
+                    'bankTransferExpirationJob',
+                    { orderId: order.id },
+                    {
+                        delay: BANK_TRANSFER_PAYMENT_WINDOW,
+                        jobId: `bankTransferExpiration-${order.id}`,
+                    }
+                );
+            }
+
             return order.toJSON();
         } catch (error) {
             if (!transactionObj) {
@@ -131,7 +320,127 @@ export class OrderService {
     }
 
     /**
-     * Retrieves a specific order by ID.
+     * Records the sale of an order along with a purchase for each order item.
+     *
+     * @remarks
+     * This method is called inside the order creation transaction and from
+     * the sales backfill script. The discount rate of a purchase is the
+     * fraction of the product price that was paid per unit, taken from the
+     * unit price recorded when the order was placed. Orders placed before
+     * unit prices were recorded fall back to the current discount, with
+     * components of bundles sharing the discount of the bundle against
+     * their total price, taking the price of their variant where they have one.
+     *
+     * @param order - The order to record
+     * @param transaction - An existing transaction
+     */
+    public async recordSale(
+        order: Order,
+        transaction: Transaction
+    ): Promise<void> {
+        const items = await OrderItem.findAll({
+            where: { orderId: order.id },
+            transaction,
+        });
+
+        const bundleIds = [
+            ...new Set(
+                items.flatMap((item) => (item.bundleId ? [item.bundleId] : []))
+            ),
+        ];
+
+        const products = await Product.findAll({
+            where: {
+                id: [...items.map((item) => item.productId), ...bundleIds],
+            },
+            attributes: ['id', 'price', 'discount'],
+            paranoid: false,
+            transaction,
+        });
+
+        const discountRates = new Map<number, number>(
+            products.map((product) => [
+                product.id,
+                product.discount
+                    ? parseFloat(
+                          (
+                              discountedPrice(product.price, product.discount) /
+                              product.price
+                          ).toFixed(4)
+                      )
+                    : 1,
+            ])
+        );
+
+        const prices = new Map(
+            products.map((product) => [product.id, product.price])
+        );
+        const components = await BundleComponent.findAll({
+            where: { bundleId: bundleIds },
+            include: [
+                {
+                    model: ProductVariant,
+                    as: 'variant',
+                    attributes: ['price'],
+                    paranoid: false,
+                },
+            ],
+            transaction,
+        });
+        const bundleRates = new Map<number, number>(
+            bundleIds.map((bundleId) => {
+                const componentsTotal = components
+                    .filter((component) => component.bundleId === bundleId)
+                    .reduce(
+                        (acc, component) =>
+                            acc +
+                            (component.variant?.price ??
+                                prices.get(component.productId) ??
+                                0) *
+                                component.quantity,
+                        0
+                    );
+                const bundlePrice =
+                    (prices.get(bundleId) ?? 0) *
+                    (discountRates.get(bundleId) ?? 1);
+
+                return [
+                    bundleId,
+                    componentsTotal
+                        ? parseFloat((bundlePrice / componentsTotal).toFixed(4))
+                        : 1,
+                ];
+            })
+        );
+
+        await Purchase.bulkCreate(
+            items.map((item) => ({
+                customerId: order.customerId,
+                productId: item.productId,
+                quantity: item.quantity,
+                discountRate:
+                    item.unitPrice != null && prices.get(item.productId)
+                        ? parseFloat(
+                              (
+                                  item.unitPrice / prices.get(item.productId)!
+                              ).toFixed(4)
+                          )
+                        : ((item.bundleId
+                              ? bundleRates.get(item.bundleId)
+                              : discountRates.get(item.productId)) ?? 1),
+            })),
+            { transaction }
+        );
+
+        await Sale.create(
+            { orderId: order.id, total: order.total },
+            { transaction }
+        );
+    }
+
+    /**
+     * Retrieves a specific order by ID along with its status
+     * timeline and shipments.
      *
      * @param userId - The id of the user
      * @param orderId - The ID of the order
@@ -143,20 +452,55 @@ export class OrderService {
     ): Promise<OrderResponse> {
         let order: Order | null;
 
+        const include = [
+            {
+                model: OrderStatusEvent,
+                as: 'timeline',
+                attributes: ['fromStatus', 'toStatus', 'createdAt'],
+            },
+            {
+                model: OrderTaxLine,
+                as: 'taxLines',
+                attributes: { exclude: ['id', 'orderId'] },
+            },
+            {
+                model: Shipment,
+                as: 'shipments',
+                attributes: { exclude: ['orderId', 'createdAt', 'updatedAt'] },
+                include: [
+                    {
+                        model: ShipmentItem,
+                        as: 'items',
+                        attributes: ['productId', 'variantId', 'quantity'],
+                    },
+                ],
+            },
+        ];
+
         if (userId) {
             order = await Order.findOne({
                 where: { id: orderId },
                 attributes: { exclude: ['updatedAt', 'customerId'] },
-                include: {
-                    model: Customer,
-                    attributes: [],
-                    where: { userId },
-                    required: true,
-                },
+                include: [
+                    {
+                        model: Customer,
+                        attributes: [],
+                        where: { userId },
+                        required: true,
+                    },
+                    ...include,
+                ],
+                order: [
+                    [{ model: OrderStatusEvent, as: 'timeline' }, 'id', 'ASC'],
+                ],
             });
         } else {
             order = await Order.findByPk(orderId, {
                 attributes: { exclude: ['updatedAt', 'customerId'] },
+                include,
+                order: [
+                    [{ model: OrderStatusEvent, as: 'timeline' }, 'id', 'ASC'],
+                ],
             });
         }
 
@@ -201,25 +545,60 @@ export class OrderService {
             throw new OrderNotFoundError();
         }
 
-        const orderItems = await order.getProducts({
-            attributes: [
-                'id',
-                'name',
-                'description',
-                'imageUrl',
-                'weight',
-                'price',
-                'discount',
+        const orderItems = await OrderItem.findAll({
+            where: { orderId: order.id },
+            include: [
+                {
+                    model: Product,
+                    as: 'product',
+                    attributes: [
+                        'id',
+                        'name',
+                        'description',
+                        'imageUrl',
+                        'weight',
+                        'price',
+                        'discount',
+                    ],
+                    paranoid: false,
+                },
+                {
+                    model: ProductVariant,
+                    as: 'variant',
+                    attributes: [
+                        'id',
+                        'sku',
+                        'options',
+                        'imageUrl',
+                        'weight',
+                        'price',
+                    ],
+                    paranoid: false,
+                },
+                {
+                    model: Product,
+                    as: 'bundle',
+                    attributes: ['id', 'name'],
+                    paranoid: false,
+                },
             ],
-            joinTableAttributes: ['quantity'],
+            order: [['id', 'ASC']],
         });
 
-        return orderItems.map((item) => {
-            const product = item.toJSON();
-            product.quantity = product.OrderItem!.quantity;
-            delete product.OrderItem;
-            return product;
-        });
+        return orderItems.map(({ product, variant, bundle, quantity }) => ({
+            id: product!.id,
+            name: product!.name,
+            description: product!.description,
+            imageUrl: variant?.imageUrl ?? product!.imageUrl,
+            weight: variant?.weight ?? product!.weight,
+            price: variant?.price ?? product!.price,
+            discount: product!.discount,
+            variant: variant
+                ? { id: variant.id, sku: variant.sku, options: variant.options }
+                : null,
+            bundle: bundle ? { id: bundle.id, name: bundle.name } : null,
+            quantity,
+        }));
     }
 
     /**
@@ -369,67 +748,506 @@ export class OrderService {
     }
 
     /**
-     * Marks customer's order as delivered.
+     * Marks a bank transfer order as paid.
      *
-     * @param orderId - The id of the order
+     * @remarks
+     * The order moves to the "pending" status, its sale is recorded
+     * and its payment expiration job is removed.
+     *
+     * @param paymentReference - The bank transfer reference of the order
+     * @returns A promise resolving to the paid order
      *
      * @throws {@link OrderNotFoundError}
-     * Thrown if the order is not found.
+     * Thrown if no bank transfer order has the given reference.
      *
      * @throws {@link OrderAlreadyMarkedError}
-     * Thrown if the order is already marked as delivered or canceled.
+     * Thrown if the order is not awaiting its payment.
      */
-    public async markAsDelivered(orderId: number): Promise<void> {
-        const order = await Order.findByPk(orderId);
+    public async markAsPaid(paymentReference: string): Promise<OrderResponse> {
+        const transaction = await sequelize.transaction();
 
-        if (!order) {
-            throw new OrderNotFoundError();
-        }
+        try {
+            const order = await Order.findOne({
+                where: {
+                    paymentIntentId: paymentReference,
+                    paymentMethod: 'bank-transfer',
+                },
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            if (!order) {
+                throw new OrderNotFoundError();
+            }
+
+            if (order.status !== 'awaiting-payment') {
+                throw new OrderAlreadyMarkedError(
+                    `Order is already marked as "${order.status}"`
+                );
+            }
 
-        if (order.status === 'delivered') {
-            throw new OrderAlreadyMarkedError();
+            order.status = 'pending';
+            order.paymentDueAt = null;
+            await order.save({ transaction });
+
+            await this.recordSale(order, transaction);
+
+            await transaction.commit();
+
+            await this.removePaymentExpirationJob(order.id);
+            await this.invoiceService.queueInvoice(order.id);
+
+            return order.toJSON();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
         }
+    }
 
-        if (order.status === 'canceled') {
-            throw new OrderAlreadyMarkedError(
-                'Cannot mark a canceled order as delivered'
+    /**
+     * Cancels a bank transfer order whose payment was not received in time.
+     *
+     * @remarks
+     * This method is called from the bank transfer expiration job.
+     *
+     * @param orderId - The id of the order
+     * @returns A promise resolving to the user id of the customer or null if the order was already paid
+     */
+    public async expireUnpaidOrder(orderId: number): Promise<number | null> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const order = await Order.findByPk(orderId, {
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            if (!order || order.status !== 'awaiting-payment') {
+                await transaction.commit();
+                return null;
+            }
+
+            order.status = 'canceled';
+            await order.save({ transaction });
+
+            await this.inventoryService.restockOrder(order.id, transaction);
+            await this.flashSaleService.releaseClaims(
+                order.paymentIntentId,
+                transaction
             );
+
+            const customer = await Customer.findByPk(order.customerId, {
+                attributes: ['userId'],
+                transaction,
+            });
+
+            await transaction.commit();
+
+            return customer!.userId;
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
         }
+    }
 
-        order.status = 'delivered';
-        await order.save();
+    /**
+     * Marks a pending order as processing.
+     *
+     * @param orderId - The id of the order
+     *
+     * @throws {@link OrderNotFoundError}
+     * Thrown if the order is not found.
+     *
+     * @throws {@link OrderAlreadyMarkedError}
+     * Thrown if the order cannot move to the "processing" status.
+     */
+    public async markAsProcessing(orderId: number): Promise<void> {
+        await this.changeOrderStatus(orderId, 'processing');
+    }
+
+    /**
+     * Ships the remaining items of a processing order or a part of them.
+     *
+     * @remarks
+     * The order is marked as shipped once all of its items are shipped.
+     * If no items are provided, all remaining items are shipped.
+     *
+     * @param orderId - The id of the order
+     * @param details - The shipment details
+     * @returns A promise resolving to the created shipment
+     *
+     * @throws {@link OrderNotFoundError}
+     * Thrown if the order is not found.
+     *
+     * @throws {@link OrderAlreadyMarkedError}
+     * Thrown if the order is not being processed.
+     *
+     * @throws {@link InvalidShipmentError}
+     * Thrown if an item is not part of the order or is already shipped.
+     */
+    public async shipOrder(
+        orderId: number,
+        details: ShipmentDetails
+    ): Promise<ShipmentResponse> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const order = await Order.findByPk(orderId, {
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            if (!order) {
+                throw new OrderNotFoundError();
+            }
+
+            // Partially refunded orders are checked against the status
+            // they resume from once the shipment completes them
+            if (
+                order.status !== 'processing' &&
+                order.status !== 'partially-refunded'
+            ) {
+                throw new OrderAlreadyMarkedError(
+                    `Cannot ship a "${order.status}" order`
+                );
+            }
+
+            const remaining = await this.getUnshippedQuantities(
+                orderId,
+                transaction
+            );
+
+            // Items that were already shipped in full are left out
+            const items =
+                details.items?.map((item) => ({
+                    ...item,
+                    variantId: item.variantId ?? null,
+                })) ??
+                Array.from(remaining.values())
+                    .filter(({ quantity }) => quantity > 0)
+                    .map((item) => ({ ...item }));
+
+            if (items.length === 0) {
+                throw new InvalidShipmentError('No items left to ship');
+            }
+
+            items.forEach(({ productId, variantId, quantity }) => {
+                const left = remaining.get(
+                    this.shipmentKey(productId, variantId)
+                );
+                const label = variantId
+                    ? `product with id "${productId}" and variant id "${variantId}"`
+                    : `product with id "${productId}"`;
+
+                if (left === undefined) {
+                    throw new InvalidShipmentError(
+                        `Item of ${label} is not part of this order`
+                    );
+                }
+
+                if (quantity > left.quantity) {
+                    throw new InvalidShipmentError(
+                        `Only ${left.quantity} item(s) of ${label} are left to ship`
+                    );
+                }
+
+                left.quantity -= quantity;
+            });
+
+            const shipment = await Shipment.create(
+                {
+                    orderId,
+                    carrier: details.carrier,
+                    trackingNumber: details.trackingNumber,
+                    packages: details.packages,
+                },
+                { transaction }
+            );
+
+            await ShipmentItem.bulkCreate(
+                items.map(({ productId, variantId, quantity }) => ({
+                    shipmentId: shipment.id,
+                    productId,
+                    variantId,
+                    quantity,
+                })),
+                { transaction }
+            );
+
+            if (
+                Array.from(remaining.values()).every(
+                    ({ quantity }) => quantity === 0
+                )
+            ) {
+                order.status = 'shipped';
+                await order.save({ transaction });
+            }
+
+            await transaction.commit();
+
+            return {
+                id: shipment.id,
+                carrier: shipment.carrier,
+                trackingNumber: shipment.trackingNumber,
+                packages: shipment.packages,
+                shippedAt: shipment.shippedAt,
+                items,
+            };
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
     }
 
     /**
-     * Cancels a customer's order.
+     * Retrieves the shipments of an order.
      *
      * @param userId - The id of the user
      * @param orderId - The id of the order
+     * @returns A promise resolving to an array of shipments
      *
      * @throws {@link OrderNotFoundError}
      * Thrown if the order is not found.
      */
-    public async cancelOrder(userId: number, orderId: number): Promise<void> {
+    public async getOrderShipments(
+        userId: number | undefined,
+        orderId: number
+    ): Promise<ShipmentResponse[]> {
         const order = await Order.findOne({
             where: { id: orderId },
+            include: userId
+                ? {
+                      model: Customer,
+                      attributes: [],
+                      where: { userId },
+                      required: true,
+                  }
+                : undefined,
+        });
+
+        if (!order) {
+            throw new OrderNotFoundError();
+        }
+
+        const shipments = await Shipment.findAll({
+            where: { orderId },
+            attributes: { exclude: ['orderId', 'createdAt', 'updatedAt'] },
             include: {
-                model: Customer,
-                where: { userId },
-                attributes: [],
+                model: ShipmentItem,
+                as: 'items',
+                attributes: ['productId', 'variantId', 'quantity'],
             },
+            order: [['shippedAt', 'ASC']],
         });
 
+        return shipments.map((shipment) => shipment.toJSON());
+    }
+
+    /**
+     * Marks a shipped order as awaiting pickup.
+     *
+     * @param orderId - The id of the order
+     *
+     * @throws {@link OrderNotFoundError}
+     * Thrown if the order is not found.
+     *
+     * @throws {@link OrderAlreadyMarkedError}
+     * Thrown if the order cannot move to the "awaiting pickup" status.
+     */
+    public async markAsAwaitingPickup(orderId: number): Promise<void> {
+        await this.changeOrderStatus(orderId, 'awaiting pickup');
+    }
+
+    /**
+     * Marks customer's order as delivered.
+     *
+     * @param orderId - The id of the order
+     *
+     * @throws {@link OrderNotFoundError}
+     * Thrown if the order is not found.
+     *
+     * @throws {@link OrderAlreadyMarkedError}
+     * Thrown if the order is already marked as delivered or is not shipped.
+     */
+    public async markAsDelivered(orderId: number): Promise<void> {
+        await this.changeOrderStatus(orderId, 'delivered');
+    }
+
+    /**
+     * Changes the status of an order.
+     *
+     * @remarks
+     * Illegal transitions are rejected by the order model, which
+     * also records each transition in the order timeline.
+     */
+    private async changeOrderStatus(
+        orderId: number,
+        status: 'processing' | 'awaiting pickup' | 'delivered'
+    ): Promise<void> {
+        const order = await Order.findByPk(orderId);
+
         if (!order) {
             throw new OrderNotFoundError();
         }
 
-        if (order.status !== 'pending') {
-            throw new Error(
-                'Cannot cancel order. It has passed the "pending" status.'
+        if (order.status === status) {
+            throw new OrderAlreadyMarkedError(
+                `Order is already marked as "${status}"`
             );
         }
 
-        order.status = 'canceled';
+        order.status = status;
         await order.save();
     }
+
+    /**
+     * Retrieves the quantity of each ordered product variant that is not shipped yet.
+     *
+     * @remarks
+     * Items shipped before shipments recorded their variant are deducted
+     * from the variants of their product in order.
+     */
+    private async getUnshippedQuantities(
+        orderId: number,
+        transaction: Transaction
+    ): Promise<Map<string, UnshippedItem>> {
+        const [orderItems, shippedItems] = await Promise.all([
+            OrderItem.findAll({ where: { orderId }, transaction }),
+            ShipmentItem.findAll({
+                include: {
+                    model: Shipment,
+                    attributes: [],
+                    where: { orderId },
+                },
+                transaction,
+            }),
+        ]);
+
+        const remaining = new Map<string, UnshippedItem>();
+
+        orderItems.forEach(({ productId, variantId, quantity }) => {
+            const key = this.shipmentKey(productId, variantId);
+            const item = remaining.get(key);
+
+            if (item) {
+                item.quantity += quantity;
+            } else {
+                remaining.set(key, {
+                    productId,
+                    variantId: variantId ?? null,
+                    quantity,
+                });
+            }
+        });
+
+        shippedItems.forEach(({ productId, variantId, quantity }) => {
+            const item = remaining.get(this.shipmentKey(productId, variantId));
+
+            if (item || variantId) {
+                if (item) item.quantity -= quantity;
+                return;
+            }
+
+            let left = quantity;
+
+            for (const variantItem of remaining.values()) {
+                if (variantItem.productId !== productId || !left) continue;
+
+                const deducted = Math.min(variantItem.quantity, left);
+
+                variantItem.quantity -= deducted;
+                left -= deducted;
+            }
+        });
+
+        return remaining;
+    }
+
+    private shipmentKey(productId: number, variantId?: number | null): string {
+        return `${productId}:${variantId ?? 0}`;
+    }
+
+    /**
+     * Cancels a customer's order and returns its items to stock.
+     *
+     * @remarks
+     * Paid wallet and bank transfer orders are credited to the customer's wallet
+     * and a credit note is issued for them.
+     *
+     * @param userId - The id of the user
+     * @param orderId - The id of the order
+     *
+     * @throws {@link OrderNotFoundError}
+     * Thrown if the order is not found.
+     */
+    public async cancelOrder(userId: number, orderId: number): Promise<void> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const order = await Order.findOne({
+                where: { id: orderId },
+                include: {
+                    model: Customer,
+                    where: { userId },
+                    attributes: [],
+                },
+                transaction,
+            });
+
+            if (!order) {
+                throw new OrderNotFoundError();
+            }
+
+            if (
+                order.status !== 'pending' &&
+                order.status !== 'awaiting-payment'
+            ) {
+                throw new Error(
+                    'Cannot cancel order. It has passed the "pending" status.'
+                );
+            }
+
+            const paid = order.status === 'pending';
+
+            order.status = 'canceled';
+            await order.save({ transaction });
+
+            await this.inventoryService.restockOrder(order.id, transaction);
+            await this.flashSaleService.releaseClaims(
+                order.paymentIntentId,
+                transaction
+            );
+
+            if (paid && order.paymentMethod !== 'card' && order.total > 0) {
+                await this.walletService.credit(
+                    order.customerId,
+                    order.total,
+                    'refund',
+                    order.paymentIntentId,
+                    transaction
+                );
+            }
+
+            await transaction.commit();
+
+            await this.removePaymentExpirationJob(order.id);
+
+            if (paid && order.paymentMethod !== 'card') {
+                await this.invoiceService.queueCreditNote(
+                    order.id,
+                    order.total,
+                    'Order canceled'
+                );
+            }
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    private async removePaymentExpirationJob(orderId: number): Promise<void> {
+        const job = await queue5.getJob(`bankTransferExpiration-${orderId}`);
+
+        await job?.remove();
+    }
 }
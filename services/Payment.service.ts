@@ -1,17 +1,40 @@
-import Stripe from 'stripe';
 import dotenv from 'dotenv';
+import { Op } from 'sequelize';
 import pLimit from 'p-limit';
+import { createHash, randomUUID } from 'crypto';
+import { sequelize } from '@/config/db';
+import { redisClient } from '@/config/redis';
+import { Logger } from '@/logger';
 import { OrderService } from './Order.service';
 import { ShippingService } from './Shipping.service';
 import { NotificationService } from './Notification.service';
+import { InventoryService } from './Inventory.service';
+import { WalletService } from './Wallet.service';
+import { CouponService } from './Coupon.service';
+import { FlashSaleService } from './FlashSale.service';
+import { BundleService } from './Bundle.service';
+import { TaxService } from './Tax.service';
+import { InvoiceService } from './Invoice.service';
+import { ProductVariantService } from './ProductVariant.service';
+import { createPaymentProvider } from './payment_provider';
+import type { PaymentProvider, PaymentMethodDetails } from './payment_provider';
 import {
+    Cart,
+    CartItem,
     Customer,
     Order,
+    OrderItem as OrderItemModel,
     Product,
     User,
     RefundRequest,
+    StockReservation,
 } from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
 import {
+    CartNotFoundError,
+    CheckoutInProgressError,
+    EmptyCartError,
+    IdempotencyKeyReusedError,
     OrderNotFoundError,
     ProductNotFoundError,
     UserNotFoundError,
@@ -24,26 +47,20 @@ const formatter = new Intl.NumberFormat('de-DE', {
     currency: 'EUR',
 });
 
-interface PaymentMethodResponse {
-    id: string;
-    type: string;
-    card?: CardPaymentMethod;
-    created: number;
-}
-
-interface CardPaymentMethod {
-    brand?: string;
-    country?: string | null;
-    exp_month?: number;
-    exp_year?: number;
-    funding?: string;
-    last4?: string;
-}
-
-interface SetupIntentResponse {
-    customer: string;
-    payment_method: string;
-}
+const CHECKOUT_LOCK_TTL = 5 * 60; // 5 minutes in seconds, in case the server stops mid-checkout
+const CHECKOUT_LOCK_RENEWAL = 60 * 1000; // 1 minute, keeps the lock while a checkout runs
+const CHECKOUT_RESULT_TTL = 24 * 60 * 60; // 24 hours in seconds
+
+type PaymentMethodResponse = PaymentMethodDetails;
+type OrderResponse = Awaited<ReturnType<OrderService['createOrder']>>;
+type WalletResponse = Awaited<ReturnType<WalletService['getWallet']>>;
+type TaxCalculation = Awaited<ReturnType<TaxService['calculateTax']>>;
+type ShippingCalculation = Awaited<
+    ReturnType<ShippingService['calculateShippingCost']>
+>;
+type CouponCalculation = Awaited<
+    ReturnType<CouponService['calculateDiscount']>
+>;
 
 interface MembershipSubscribeDetails {
     currency: string;
@@ -63,16 +80,63 @@ interface PaymentProcessingData {
     shippingCountry: string;
     shippingMethod: 'standard' | 'express' | 'next-day';
     currency: 'usd' | 'eur';
-    paymentMethodType: 'card';
+    paymentMethodType: 'card' | 'wallet' | 'bank-transfer';
     paymentMethodId: string;
     loyaltyPoints?: number;
+    couponCode?: string;
+}
+
+type CartCheckoutData = Omit<PaymentProcessingData, 'orderItems'>;
+
+interface OrderPricingData {
+    orderItems: OrderItem[];
+    shippingCountry?: string;
+    shippingMethod?: string;
+    loyaltyPoints?: number;
+    couponCode?: string;
 }
 
 interface OrderItem {
     productId: number;
+    variantId?: number | null;
     quantity: number;
 }
 
+interface PricedOrderItem extends OrderItem {
+    categoryId: number;
+    unitPrice: number;
+    flashSaleId: number | null;
+}
+
+interface PaymentBreakdown {
+    subtotal: number;
+    coupon: string | null;
+    couponDiscount: number;
+    loyaltyPoints: number; // Redeemed, at most what covers the items after the coupon
+    loyaltyDiscount: number;
+    shippingCost: number;
+    shippingDiscount: number;
+    tax: number;
+    taxIncluded: boolean;
+    reverseCharge: boolean;
+    total: number;
+}
+
+interface OrderPricing {
+    pricedItems: PricedOrderItem[];
+    productTotal: number;
+    shipping: ShippingCalculation | null;
+    coupon: CouponCalculation | null;
+    tax: TaxCalculation | null;
+    breakdown: PaymentBreakdown;
+}
+
+interface CheckoutRecord {
+    status: 'processing' | 'completed';
+    fingerprint: string; // Hash of the request data, to detect reused keys
+    result?: { order: OrderResponse; breakdown: PaymentBreakdown };
+}
+
 interface RefundRequestResponse {
     id: number;
     customerId: number;
@@ -91,10 +155,19 @@ interface SubscriptionFormattedResponse {
 }
 
 export class PaymentService {
-    private stripe: Stripe;
+    private paymentProvider: PaymentProvider;
     private orderService?: OrderService;
     private shippingService?: ShippingService;
     private notificationService?: NotificationService;
+    private inventoryService: InventoryService;
+    private walletService: WalletService;
+    private couponService: CouponService;
+    private flashSaleService: FlashSaleService;
+    private bundleService: BundleService;
+    private taxService: TaxService;
+    private invoiceService: InvoiceService;
+    private productVariantService: ProductVariantService;
+    private logger: Logger;
 
     constructor(
         stripeKey: string,
@@ -102,64 +175,39 @@ export class PaymentService {
         shippingService?: ShippingService,
         notificationService?: NotificationService
     ) {
-        this.stripe = new Stripe(stripeKey);
+        this.paymentProvider = createPaymentProvider(stripeKey);
         this.orderService = orderService;
         this.shippingService = shippingService;
         this.notificationService = notificationService;
+        this.inventoryService = new InventoryService();
+        this.walletService = new WalletService();
+        this.couponService = new CouponService();
+        this.flashSaleService = new FlashSaleService();
+        this.bundleService = new BundleService();
+        this.taxService = new TaxService();
+        this.invoiceService = new InvoiceService();
+        this.productVariantService = new ProductVariantService();
+        this.logger = new Logger();
     }
 
     /**
-     * Creates a new stripe customer.
+     * Creates a new payment provider customer.
      *
      * @param name - Name of the customer
      * @param email - Email of the customer
-     * @returns A Promise resolving to the Stripe customer id
+     * @returns A Promise resolving to the provider customer id
      */
     public async createCustomer(name: string, email: string): Promise<string> {
-        const stripeCustomer = await this.stripe.customers.create({
-            name,
-            email,
-        });
-
-        return stripeCustomer.id;
+        return await this.paymentProvider.createCustomer(name, email);
     }
 
     /**
-     * Removes a stripe customer.
+     * Removes a payment provider customer.
      *
-     * @param customerId - Stripe customer id
+     * @param customerId - The provider customer id
      */
     public async deleteCustomer(customerId: string): Promise<void> {
-        await this.stripe.customers.del(customerId);
-    }
-
-    private async createPaymentMethod(
-        type: 'card',
-        token: string
-    ): Promise<string> {
-        const paymentMethod = await this.stripe.paymentMethods.create({
-            type,
-            card: { token },
-        });
-
-        return paymentMethod.id;
-    }
-
-    private async createSetupIntent(
-        customerId: string,
-        paymentMethodId: string
-    ): Promise<SetupIntentResponse> {
-        const setupIntent = await this.stripe.setupIntents.create({
-            confirm: true,
-            customer: customerId,
-            payment_method: paymentMethodId,
-            return_url: 'http://localhost:3000/success', // Only for testing
-        });
-
-        return {
-            customer: setupIntent.customer as string,
-            payment_method: setupIntent.payment_method as string,
-        };
+        await this.paymentProvider.deleteCustomer(customerId);
     }
 
     public async addPaymentDetails(
@@ -173,21 +221,21 @@ export class PaymentService {
             throw new UserNotFoundError('Customer not found');
         }
 
-        const paymentMethodId = await this.createPaymentMethod(
+        const paymentMethodId = await this.paymentProvider.addPaymentMethod(
+            customer.stripeId,
             paymentType,
             token
         );
 
-        await this.createSetupIntent(customer.stripeId!, paymentMethodId);
-
-        const setupIntents = await this.stripe.setupIntents.list({
-            customer: customer.stripeId,
-        });
+        const paymentMethods = await this.paymentProvider.listPaymentMethods(
+            customer.stripeId
+        );
 
-        if (setupIntents.data.length === 1) {
-            await this.stripe.customers.update(customer.stripeId, {
-                invoice_settings: { default_payment_method: paymentMethodId },
-            });
+        if (paymentMethods.length === 1) {
+            await this.paymentProvider.setDefaultPaymentMethod(
+                customer.stripeId,
+                paymentMethodId
+            );
         }
     }
 
@@ -201,9 +249,10 @@ export class PaymentService {
             throw new UserNotFoundError('Customer not found');
         }
 
-        await this.stripe.customers.update(customer.stripeId, {
-            invoice_settings: { default_payment_method: paymentMethodId },
-        });
+        await this.paymentProvider.setDefaultPaymentMethod(
+            customer.stripeId,
+            paymentMethodId
+        );
     }
 
     /**
@@ -221,25 +270,7 @@ export class PaymentService {
             throw new UserNotFoundError('Customer not found');
         }
 
-        const paymentMethods = await this.stripe.customers.listPaymentMethods(
-            customer.stripeId!
-        );
-
-        return paymentMethods.data.map((pm) => {
-            return {
-                id: pm.id,
-                type: pm.type,
-                card: {
-                    brand: pm.card?.brand,
-                    country: pm.card?.country,
-                    exp_month: pm.card?.exp_month,
-                    exp_year: pm.card?.exp_year,
-                    funding: pm.card?.funding,
-                    last4: pm.card?.last4,
-                },
-                created: pm.created,
-            };
-        });
+        return await this.paymentProvider.listPaymentMethods(customer.stripeId);
     }
 
     /**
@@ -248,6 +279,9 @@ export class PaymentService {
      * @param userId - The user id of the customer
      * @param paymentMethodId - The payment method id to retrieve
      * @returns A promise resolving to the payment method object
+     *
+     * @throws {@link PaymentMethodNotFoundError}
+     * Thrown if the customer has no such payment method.
      */
     public async getPaymentMethodById(
         userId: number,
@@ -259,24 +293,10 @@ export class PaymentService {
             throw new UserNotFoundError('Customer not found');
         }
 
-        const paymentMethod = await this.stripe.customers.retrievePaymentMethod(
-            customer.stripeId!,
+        return await this.paymentProvider.getPaymentMethod(
+            customer.stripeId,
             paymentMethodId
         );
-
-        return {
-            id: paymentMethod.id,
-            type: paymentMethod.type,
-            card: {
-                brand: paymentMethod.card?.brand,
-                country: paymentMethod.card?.country,
-                exp_month: paymentMethod.card?.exp_month,
-                exp_year: paymentMethod.card?.exp_year,
-                funding: paymentMethod.card?.funding,
-                last4: paymentMethod.card?.last4,
-            },
-            created: paymentMethod.created,
-        };
     }
 
     /**
@@ -285,27 +305,25 @@ export class PaymentService {
      * @remarks
      * This method is called from the subscription service.
      *
-     * @param customerId - The Stripe customer id
+     * @param customerId - The provider customer id
      * @returns A promise resolving to the customer subscription object
      */
     public async getCustomerSubscription(
         customerId: string
     ): Promise<SubscriptionFormattedResponse | null> {
-        const { ['data']: subscription } = await this.stripe.subscriptions.list(
-            {
-                customer: customerId,
-            }
-        );
+        const subscription = await this.paymentProvider.listSubscriptions({
+            customerId,
+        });
         if (subscription.length === 0) {
             return null;
         }
 
-        const price = subscription[0].items.data[0].plan.amount;
+        const price = subscription[0].amount;
 
         return {
-            plan: subscription[0].items.data[0].plan.interval,
+            plan: subscription[0].interval,
             price: price ? price / 100 : null,
-            status: subscription[0].canceled_at ? 'canceled' : 'active',
+            status: subscription[0].canceledAt ? 'canceled' : 'active',
             created: new Date(subscription[0].created * 1000),
         };
     }
@@ -319,11 +337,10 @@ export class PaymentService {
     public async hasCanceledSubscriptions(
         customerId: string
     ): Promise<boolean> {
-        const { ['data']: subscriptions } =
-            await this.stripe.subscriptions.list({
-                customer: customerId,
-                status: 'canceled',
-            });
+        const subscriptions = await this.paymentProvider.listSubscriptions({
+            customerId,
+            status: 'canceled',
+        });
 
         return subscriptions.length > 0;
     }
@@ -336,6 +353,9 @@ export class PaymentService {
      * @param [expMonth] - The card expiration month
      * @param [expYear] - The card expiration year
      * @returns A promise resolving to the updated payment method object
+     *
+     * @throws {@link PaymentMethodNotFoundError}
+     * Thrown if the payment method does not exist.
      */
     public async updatePaymentMethod(
         userId: number,
@@ -349,29 +369,11 @@ export class PaymentService {
             throw new UserNotFoundError('Customer not found');
         }
 
-        const paymentMethod = await this.stripe.paymentMethods.update(
+        return await this.paymentProvider.updatePaymentMethod(
             paymentMethodId,
-            {
-                card: {
-                    exp_month: expMonth,
-                    exp_year: expYear,
-                },
-            }
+            expMonth,
+            expYear
         );
-
-        return {
-            id: paymentMethod.id,
-            type: paymentMethod.type,
-            card: {
-                brand: paymentMethod.card?.brand,
-                country: paymentMethod.card?.country,
-                exp_month: paymentMethod.card?.exp_month,
-                exp_year: paymentMethod.card?.exp_year,
-                funding: paymentMethod.card?.funding,
-                last4: paymentMethod.card?.last4,
-            },
-            created: paymentMethod.created,
-        };
     }
 
     /**
@@ -379,6 +381,9 @@ export class PaymentService {
      *
      * @param userId - The user id of the customer
      * @param paymentMethodId - The payment method id to delete
+     *
+     * @throws {@link PaymentMethodNotFoundError}
+     * Thrown if the customer has no such payment method.
      */
     public async deletePaymentMethod(
         userId: number,
@@ -386,11 +391,11 @@ export class PaymentService {
     ): Promise<void> {
         await this.getPaymentMethodById(userId, paymentMethodId);
 
-        await this.stripe.paymentMethods.detach(paymentMethodId);
+        await this.paymentProvider.detachPaymentMethod(paymentMethodId);
     }
 
     /**
-     * Create a payment intent using the Stripe API.
+     * Create a payment intent using the payment provider.
      *
      * @param userId - The user id of the customer
      * @param amount - The amount to charge (in smallest currency unit, such as cents).
@@ -402,7 +407,7 @@ export class PaymentService {
      * Thrown if the user is not found.
      *
      * @throws {Error}
-     * Thrown if the stripe customer is deleted.
+     * Thrown if the provider customer is deleted.
      */
     public async createPaymentIntent(
         userId: number,
@@ -410,44 +415,22 @@ export class PaymentService {
         currency: 'usd' | 'eur' = 'eur',
         paymentMethodId?: string
     ): Promise<string> {
-        let stripeCustomer;
-        let fetchedPaymentMethodId;
-
         const customer = await Customer.findOne({ where: { userId } });
 
         if (!customer) {
             throw new UserNotFoundError('Customer not found');
         }
 
-        if (!paymentMethodId) {
-            stripeCustomer = await this.stripe.customers.retrieve(
-                customer.stripeId
-            );
-
-            if (stripeCustomer.deleted) {
-                throw new Error('Stripe customer is mistakenly deleted');
-            }
-
-            if (!stripeCustomer.invoice_settings.default_payment_method) {
-                throw new Error(
-                    'Stripe customer has no default payment method'
-                );
-            }
-
-            fetchedPaymentMethodId =
-                stripeCustomer.invoice_settings.default_payment_method.toString();
-        }
-
-        return (
-            await this.stripe.paymentIntents.create({
-                amount: Math.round(amount * 100),
-                confirm: true,
-                currency,
-                customer: customer.stripeId,
-                payment_method: paymentMethodId ?? fetchedPaymentMethodId,
-                return_url: 'http://localhost:3000/success',
-            })
-        ).id;
+        return await this.paymentProvider.createPaymentIntent({
+            amount: Math.round(amount * 100),
+            currency,
+            customerId: customer.stripeId,
+            paymentMethodId:
+                paymentMethodId ??
+                (await this.paymentProvider.getDefaultPaymentMethod(
+                    customer.stripeId
+                )),
+        });
     }
 
     /**
@@ -464,30 +447,51 @@ export class PaymentService {
     ): Promise<string[]> {
         const customer = await Customer.findOne({ where: { userId } });
 
-        const paymentIntents = await this.stripe.paymentIntents.list({
-            customer: customer!.stripeId,
-        });
-
-        return paymentIntents.data.map((item) => item.id);
+        return await this.paymentProvider.listPaymentIntents(
+            customer!.stripeId
+        );
     }
 
     /**
-     * Refunds a payment intent.
+     * Refunds the payment of an order.
      *
-     * @param paymentIntentId - The ID of the payment intent to refund
+     * @remarks
+     * Card payments are refunded through the payment provider,
+     * while wallet and bank transfer payments are credited to the customer's wallet.
+     * A credit note is issued for the refunded amount.
+     *
+     * @param order - The order to refund
      * @param refundReason - The reason for the refund
      * @param [amount]- The amount to refund
      */
     private async refundPayment(
-        paymentIntentId: string,
+        order: Pick<
+            Order,
+            'id' | 'customerId' | 'paymentMethod' | 'paymentIntentId' | 'total'
+        >,
         refundReason: string,
         amount?: number
     ): Promise<void> {
-        await this.stripe.refunds.create({
-            payment_intent: paymentIntentId,
-            amount: amount && amount * 100,
-            metadata: { refundReason },
-        });
+        if (order.paymentMethod !== 'card') {
+            await this.walletService.credit(
+                order.customerId,
+                amount ?? order.total,
+                'refund',
+                order.paymentIntentId
+            );
+        } else {
+            await this.paymentProvider.refund({
+                paymentIntentId: order.paymentIntentId,
+                amount: amount && amount * 100,
+                reason: refundReason,
+            });
+        }
+
+        await this.invoiceService.queueCreditNote(
+            order.id,
+            amount ?? order.total,
+            refundReason
+        );
     }
 
     /**
@@ -530,13 +534,20 @@ export class PaymentService {
             throw new OrderNotFoundError();
         }
 
-        if (order.status === 'pending') {
-            await this.refundPayment(order.paymentIntentId, reason, amount);
+        if (order.status === 'pending' || order.status === 'processing') {
+            await this.refundPayment(order, reason, amount);
 
             await order.update({
                 status: amount ? 'partially-refunded' : 'refunded',
             });
 
+            if (!amount) {
+                await this.inventoryService.restockOrder(order.id);
+                await this.flashSaleService.releaseClaims(
+                    order.paymentIntentId
+                );
+            }
+
             return await this.notificationService!.sendNotification(
                 userId,
                 'Order refunded successfully',
@@ -652,6 +663,8 @@ export class PaymentService {
                     as: 'orders',
                     attributes: [
                         'id',
+                        'customerId',
+                        'paymentMethod',
                         'paymentIntentId',
                         'trackingNumber',
                         'total',
@@ -694,7 +707,7 @@ export class PaymentService {
             }
 
             await this.refundPayment(
-                order.paymentIntentId,
+                order,
                 `${request.reason} | Approved by admin.`,
                 request.amount ?? undefined
             );
@@ -703,6 +716,13 @@ export class PaymentService {
             await foundOrder!.update({
                 status: request.amount ? 'partially-refunded' : 'refunded',
             });
+
+            if (!request.amount) {
+                await this.inventoryService.restockOrder(order.id);
+                await this.flashSaleService.releaseClaims(
+                    order.paymentIntentId
+                );
+            }
         } else if (!rejectionReason) {
             throw new Error(
                 'Rejection reason is required for "denied" requests'
@@ -733,25 +753,11 @@ export class PaymentService {
         productId: string;
         priceId: string;
     }> {
-        const newProduct = await this.stripe.products.create({
-            name: details.name,
-        });
-
-        const priceObj = await this.stripe.prices.create({
-            billing_scheme: 'per_unit',
-            currency: details.currency,
-            product: newProduct.id,
-            unit_amount_decimal: String(details.price * 100),
-        });
-
-        await this.stripe.products.update(newProduct.id, {
-            default_price: priceObj.id,
-        });
-
-        return {
-            productId: newProduct.id,
-            priceId: priceObj.id,
-        };
+        return await this.paymentProvider.createProduct(
+            details.name,
+            details.currency,
+            details.price * 100
+        );
     }
 
     /** Retrieves subscribed customers by membership price and cancels their subscriptions.
@@ -760,30 +766,30 @@ export class PaymentService {
      * This method is called from the subscription service.
      *
      * @param priceId - The price id of the membership plan
-     * @returns A promise resolving to an array of stripe customer ids
+     * @returns A promise resolving to an array of provider customer ids
      */
     public async retrieveSubscribedCustomersByMembershipPriceAndCancelSubscriptions(
         priceId: string
     ): Promise<Map<string, number>> {
         const limit = pLimit(10);
-        const subscriptions = await this.stripe.subscriptions.list({
-            price: priceId,
+        const subscriptions = await this.paymentProvider.listSubscriptions({
+            priceId,
         });
 
         const customerSubscriptionData = new Map<string, number>();
 
-        subscriptions.data.forEach((subscription) =>
+        subscriptions.forEach((subscription) =>
             customerSubscriptionData.set(
-                subscription.customer.toString(),
-                subscription.current_period_end
+                subscription.customerId,
+                subscription.currentPeriodEnd
             )
         );
 
-        const cancellationPromises = subscriptions.data.map((subscription) =>
+        const cancellationPromises = subscriptions.map((subscription) =>
             limit(() =>
-                this.stripe.subscriptions.update(subscription.id, {
-                    cancel_at_period_end: true,
-                })
+                this.paymentProvider.cancelSubscriptionAtPeriodEnd(
+                    subscription.id
+                )
             )
         );
 
@@ -810,18 +816,11 @@ export class PaymentService {
         const creationPromises = Array.from(subscriptionData.entries()).map(
             ([customerId, endOfPeriod]) =>
                 limit(() =>
-                    this.stripe.subscriptions.create({
-                        customer: customerId,
+                    this.paymentProvider.createSubscription({
+                        customerId,
+                        priceId,
                         currency: 'eur',
-                        items: [
-                            {
-                                price: priceId,
-                                quantity: 1,
-                            },
-                        ],
-                        off_session: true,
-                        proration_behavior: 'none',
-                        trial_end: endOfPeriod,
+                        trialEnd: endOfPeriod,
                     })
                 )
         );
@@ -843,23 +842,16 @@ export class PaymentService {
         priceId: string,
         endOfPeriod: number
     ): Promise<void> {
-        await this.stripe.subscriptions.create({
-            customer: customerId,
+        await this.paymentProvider.createSubscription({
+            customerId,
+            priceId,
             currency: 'eur',
-            items: [
-                {
-                    price: priceId,
-                    quantity: 1,
-                },
-            ],
-            off_session: true,
-            proration_behavior: 'none',
-            trial_end: endOfPeriod,
+            trialEnd: endOfPeriod,
         });
     }
 
     /**
-     * Updates a stripe membership product along with its related prices.
+     * Updates a provider membership product along with its related prices.
      *
      * @remarks
      * This method is called from the subscription service.
@@ -874,23 +866,11 @@ export class PaymentService {
         priceType: 'annual' | 'monthly',
         price: number
     ): Promise<string> {
-        const { id } = await this.stripe.prices.create({
-            billing_scheme: 'per_unit',
-            currency: 'eur',
-            product: productId,
-            recurring: {
-                interval: priceType === 'annual' ? 'year' : 'month',
-                interval_count: 1,
-                usage_type: 'licensed',
-            },
-            unit_amount_decimal: String(price * 100),
-        });
-
-        await this.stripe.products.update(productId, {
-            default_price: id,
-        });
-
-        return id;
+        return await this.paymentProvider.createRecurringPrice(
+            productId,
+            priceType === 'annual' ? 'year' : 'month',
+            price * 100
+        );
     }
 
     /**
@@ -907,18 +887,10 @@ export class PaymentService {
         percentage: number,
         customerId: string
     ): Promise<string> {
-        const coupon = await this.stripe.coupons.create({
-            percent_off: percentage,
-            max_redemptions: 1,
-        });
-
-        const promotionCode = await this.stripe.promotionCodes.create({
-            coupon: coupon.id,
-            customer: customerId,
-            max_redemptions: 1,
-        });
-
-        return promotionCode.code;
+        return await this.paymentProvider.createPromotionCode(
+            percentage,
+            customerId
+        );
     }
 
     /**
@@ -940,38 +912,19 @@ export class PaymentService {
         trial?: boolean,
         promoCode?: string
     ): Promise<void> {
-        const promotionCode =
-            promoCode &&
-            (await this.stripe.promotionCodes.list({
-                code: promoCode,
-            }));
-
-        await this.stripe.subscriptions.create({
-            customer: customerId,
+        await this.paymentProvider.createSubscription({
+            customerId,
+            priceId: annual
+                ? membership.stripeAnnualPriceId
+                : membership.stripeMonthlyPriceId,
             currency: membership.currency,
-            items: [
-                {
-                    price: annual
-                        ? membership.stripeAnnualPriceId
-                        : membership.stripeMonthlyPriceId,
-                    quantity: 1,
-                },
-            ],
-            off_session: true,
-            proration_behavior: 'none',
-            trial_period_days: membership.hasTrial && trial ? 30 : undefined,
-            discounts: [
-                {
-                    promotion_code: promotionCode
-                        ? promotionCode.data[0].id
-                        : undefined,
-                },
-            ],
+            trialPeriodDays: membership.hasTrial && trial ? 30 : undefined,
+            promotionCode: promoCode,
         });
     }
 
     /**
-     * Cancels a stripe customer's subscription.
+     * Cancels a provider customer's subscription.
      *
      * @remarks
      * This method is called from the subscription service.
@@ -991,51 +944,45 @@ export class PaymentService {
         customerId: string,
         immediate?: boolean
     ): Promise<void> {
-        const subscriptions = await this.stripe.subscriptions.list({
-            customer: customerId,
+        const subscriptions = await this.paymentProvider.listSubscriptions({
+            customerId,
         });
 
-        if (subscriptions.data.length === 0) {
+        if (subscriptions.length === 0) {
             throw new Error('No subscriptions found to cancel');
         }
 
         if (!immediate) {
-            await this.stripe.subscriptions.update(subscriptions.data[0].id, {
-                cancel_at_period_end: true,
-            });
+            await this.paymentProvider.cancelSubscriptionAtPeriodEnd(
+                subscriptions[0].id
+            );
             return;
         }
 
         if (
-            subscriptions.data[0].trial_end &&
-            subscriptions.data[0].trial_end * 1000 > Date.now()
+            subscriptions[0].trialEnd &&
+            subscriptions[0].trialEnd * 1000 > Date.now()
         ) {
-            await this.stripe.subscriptions.cancel(subscriptions.data[0].id);
+            await this.paymentProvider.cancelSubscription(subscriptions[0].id);
             return;
         }
 
-        const canceledSubscription = await this.stripe.subscriptions.cancel(
-            subscriptions.data[0].id,
-            { invoice_now: true, prorate: true }
+        const proratedInvoiceId = await this.paymentProvider.cancelSubscription(
+            subscriptions[0].id,
+            true
         );
 
-        if (!subscriptions.data[0].latest_invoice) return;
+        if (!subscriptions[0].latestInvoiceId) return;
 
         const [latestInvoice, proratedInvoice] = await Promise.all([
-            this.stripe.invoices.retrieve(
-                subscriptions.data[0].latest_invoice.toString()
-            ),
-            this.stripe.invoices.retrieve(
-                canceledSubscription.latest_invoice!.toString()
-            ),
+            this.paymentProvider.getInvoice(subscriptions[0].latestInvoiceId),
+            this.paymentProvider.getInvoice(proratedInvoiceId!),
         ]);
 
         const creditAmount = Math.abs(proratedInvoice.total);
 
-        if (!latestInvoice.charge) {
-            await this.stripe.invoices.finalizeInvoice(
-                canceledSubscription.latest_invoice!.toString()
-            );
+        if (!latestInvoice.chargeId) {
+            await this.paymentProvider.finalizeInvoice(proratedInvoiceId!);
 
             return await this.notificationService!.sendNotification(
                 userId,
@@ -1044,25 +991,20 @@ export class PaymentService {
         }
 
         const refundAmount =
-            creditAmount > latestInvoice.amount_paid
-                ? latestInvoice.amount_paid
+            creditAmount > latestInvoice.amountPaid
+                ? latestInvoice.amountPaid
                 : creditAmount;
 
-        await this.stripe.refunds.create({
+        await this.paymentProvider.refund({
             amount: refundAmount,
-            charge: latestInvoice.charge.toString(),
+            chargeId: latestInvoice.chargeId,
         });
 
-        await this.stripe.invoices.finalizeInvoice(
-            canceledSubscription.latest_invoice!.toString()
+        await this.paymentProvider.finalizeInvoice(proratedInvoiceId!);
+        await this.paymentProvider.adjustCustomerBalance(
+            customerId,
+            refundAmount
         );
-        const stripeCustomer = await this.stripe.customers.retrieve(customerId);
-
-        if (!stripeCustomer.deleted) {
-            await this.stripe.customers.update(customerId, {
-                balance: stripeCustomer.balance + refundAmount,
-            });
-        }
 
         await this.notificationService!.sendNotification(
             userId,
@@ -1080,29 +1022,25 @@ export class PaymentService {
     public async cancelMembershipSubscriptionWithProrate(
         customerId: string
     ): Promise<void> {
-        const subscriptions = await this.stripe.subscriptions.list({
-            customer: customerId,
+        const subscriptions = await this.paymentProvider.listSubscriptions({
+            customerId,
         });
 
-        if (subscriptions.data.length === 0) return;
+        if (subscriptions.length === 0) return;
 
         if (
-            subscriptions.data[0].trial_end &&
-            subscriptions.data[0].trial_end * 1000 > Date.now()
+            subscriptions[0].trialEnd &&
+            subscriptions[0].trialEnd * 1000 > Date.now()
         ) {
-            await this.stripe.subscriptions.cancel(subscriptions.data[0].id);
+            await this.paymentProvider.cancelSubscription(subscriptions[0].id);
         } else {
-            const subscription = await this.stripe.subscriptions.cancel(
-                subscriptions.data[0].id,
-                {
-                    invoice_now: true,
-                    prorate: true,
-                }
-            );
+            const latestInvoiceId =
+                await this.paymentProvider.cancelSubscription(
+                    subscriptions[0].id,
+                    true
+                );
 
-            await this.stripe.invoices.finalizeInvoice(
-                subscription.latest_invoice!.toString()
-            );
+            await this.paymentProvider.finalizeInvoice(latestInvoiceId!);
         }
     }
 
@@ -1114,7 +1052,22 @@ export class PaymentService {
      *
      * @param userId - The id of the user to process payment for
      * @param data - The payment processing data
-     * @returns A promise resolving to the weight range, payment intent id, and the payment amount
+     * @returns A promise resolving to the weight range, payment intent id, the payment amount and its breakdown
+     *
+     * @throws {@link ProductOutOfStockError}
+     * Thrown if any of the order items exceeds the available stock.
+     *
+     * @throws {@link InsufficientFundsError}
+     * Thrown if the wallet balance does not cover a wallet payment.
+     *
+     * @throws {@link CouponNotFoundError}
+     * Thrown if the coupon code does not exist.
+     *
+     * @throws {@link CouponNotApplicableError}
+     * Thrown if the coupon cannot be applied to the order.
+     *
+     * @throws {@link FlashSaleLimitError}
+     * Thrown if a flash sale has ended or the order exceeds one of its limits.
      */
     public async processPayment(
         userId: number,
@@ -1129,6 +1082,9 @@ export class PaymentService {
         orderWeight: number;
         paymentIntentId: string;
         paymentAmount: number;
+        pricedItems: PricedOrderItem[];
+        breakdown: PaymentBreakdown;
+        tax: TaxCalculation;
     }> {
         const customer = await Customer.findOne({
             where: { userId },
@@ -1144,68 +1100,70 @@ export class PaymentService {
             );
         }
 
-        const productTotal: number = await Promise.all(
-            data.orderItems.map(async (item: OrderItem) => {
-                const product = await Product.findByPk(item.productId, {
-                    attributes: ['price', 'discount'],
-                });
+        if (data.loyaltyPoints && data.paymentMethodType === 'bank-transfer') {
+            throw new Error(
+                'Loyalty points cannot be redeemed with bank transfers'
+            );
+        }
 
-                if (!product) {
-                    throw new ProductNotFoundError(
-                        `Product with id "${item.productId}" not found`
-                    );
-                }
+        const { pricedItems, productTotal, shipping, coupon, tax, breakdown } =
+            await this.quoteOrder(customer, data);
+        const { weightCategory, orderWeight } = shipping!;
 
-                return (
-                    (product.discount
-                        ? Math.ceil(
-                              product.price -
-                                  (product.price * product.discount) / 100
-                          ) - 0.01
-                        : product.price) * item.quantity
-                );
-            })
-        ).then((prices) => prices.reduce((acc, price) => acc + price, 0));
+        customer.loyaltyPoints -= breakdown.loyaltyPoints;
 
-        const {
-            cost: shippingCost,
-            weightCategory,
-            orderWeight,
-        } = await this.shippingService!.calculateShippingCost(
-            data.shippingCountry,
-            data.shippingMethod,
-            undefined,
-            data.orderItems
+        const reservationKey = await this.inventoryService.reserveStock(
+            await this.bundleService.expandItems(data.orderItems)
         );
 
-        let discountedPrice: number | null = null; // Discounted from loyalty points
-        if (data.loyaltyPoints) {
-            discountedPrice = productTotal - data.loyaltyPoints / 10;
-            customer.loyaltyPoints -= data.loyaltyPoints;
+        let paymentIntentId: string;
+
+        try {
+            await this.flashSaleService.claimItems(
+                customer.id,
+                pricedItems,
+                reservationKey
+            );
+
+            if (coupon) {
+                await this.couponService.redeemCoupon(
+                    coupon.couponId,
+                    customer.id,
+                    breakdown.couponDiscount + breakdown.shippingDiscount,
+                    reservationKey
+                );
+            }
+
+            paymentIntentId = await this.collectPayment(
+                userId,
+                customer.id,
+                breakdown.total,
+                data
+            );
+        } catch (error) {
+            await this.releaseCheckout(reservationKey);
+            throw error;
         }
 
-        const totalAmount: number = parseFloat(
-            ((discountedPrice ?? productTotal) + shippingCost).toFixed(2)
+        await this.inventoryService.attachPaymentIntent(
+            reservationKey,
+            paymentIntentId
         );
-
-        const paymentIntentId = await this.createPaymentIntent(
-            userId,
-            totalAmount,
-            data.currency,
-            data.paymentMethodId
+        await this.flashSaleService.attachPaymentReference(
+            reservationKey,
+            paymentIntentId
         );
 
-        switch (customer.membership) {
-            case 'plus':
-                customer.loyaltyPoints =
-                    customer.loyaltyPoints + productTotal * 2;
-                break;
-            case 'premium':
-                customer.loyaltyPoints =
-                    customer.loyaltyPoints + productTotal * 3;
-                break;
-            default:
-                customer.loyaltyPoints = customer.loyaltyPoints + productTotal;
+        if (coupon) {
+            await this.couponService.attachPaymentReference(
+                reservationKey,
+                paymentIntentId
+            );
+        }
+
+        // Bank transfer orders earn their loyalty points once they are paid
+        if (data.paymentMethodType !== 'bank-transfer') {
+            this.awardLoyaltyPoints(customer, productTotal);
         }
 
         await customer.save();
@@ -1214,33 +1172,681 @@ export class PaymentService {
             weightCategory,
             orderWeight,
             paymentIntentId,
-            paymentAmount: totalAmount,
+            paymentAmount: breakdown.total,
+            pricedItems,
+            breakdown,
+            tax: tax!,
+        };
+    }
+
+    /**
+     * Prices an order without reserving its items or charging the customer.
+     *
+     * @remarks
+     * Checkouts and cart quotes are priced alike. The discount of an active
+     * flash sale replaces the discount of a product, and order level discounts
+     * are spread over the items by their price before they are taxed. Orders
+     * without a shipping destination are priced without shipping and tax.
+     *
+     * @param customer - The customer placing the order
+     * @param data - The items, shipping destination, coupon code and loyalty points of the order
+     * @returns A promise resolving to the priced items, the shipping, coupon and tax calculations and the breakdown
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if any of the products is not found.
+     *
+     * @throws {@link ShippingLocationNotFoundError}
+     * Thrown if the shipping country is not found.
+     *
+     * @throws {@link CouponNotFoundError}
+     * Thrown if the coupon code does not exist.
+     *
+     * @throws {@link CouponNotApplicableError}
+     * Thrown if the coupon cannot be applied to the order.
+     */
+    public async quoteOrder(
+        customer: Customer,
+        data: OrderPricingData
+    ): Promise<OrderPricing> {
+        const pricedItems = await this.getItemPrices(data.orderItems);
+        const productTotal = pricedItems.reduce(
+            (acc, item) => acc + item.unitPrice * item.quantity,
+            0
+        );
+
+        const shipping =
+            data.shippingCountry && data.shippingMethod
+                ? await this.shippingService!.calculateShippingCost(
+                      data.shippingCountry,
+                      data.shippingMethod,
+                      undefined,
+                      data.orderItems
+                  )
+                : null;
+        const shippingCost = shipping?.cost ?? 0;
+
+        const coupon = data.couponCode
+            ? await this.couponService.calculateDiscount(
+                  data.couponCode,
+                  customer.id,
+                  pricedItems,
+                  shippingCost
+              )
+            : null;
+        const couponDiscount = coupon?.itemsDiscount ?? 0;
+        const shippingDiscount = coupon?.shippingDiscount ?? 0;
+
+        // Loyalty points are worth a tenth of a unit each, and only
+        // redeemed up to what is left of the items after the coupon
+        const loyaltyPoints = Math.max(
+            Math.min(
+                data.loyaltyPoints ?? 0,
+                Math.floor((productTotal - couponDiscount) * 10)
+            ),
+            0
+        );
+        const loyaltyDiscount = loyaltyPoints / 10;
+        const itemsTotal = Math.max(
+            productTotal - couponDiscount - loyaltyDiscount,
+            0
+        );
+
+        // Order level discounts are spread over the items by their price
+        const discountRatio = productTotal ? itemsTotal / productTotal : 0;
+        const tax = shipping
+            ? await this.taxService.calculateTax(
+                  data.shippingCountry!,
+                  customer.vatId,
+                  pricedItems.map((item) => ({
+                      categoryId: item.categoryId,
+                      amount: item.unitPrice * item.quantity * discountRatio,
+                  })),
+                  shippingCost - shippingDiscount
+              )
+            : null;
+
+        return {
+            pricedItems,
+            productTotal,
+            shipping,
+            coupon,
+            tax,
+            breakdown: {
+                subtotal: parseFloat(productTotal.toFixed(2)),
+                coupon: coupon?.code ?? null,
+                couponDiscount,
+                loyaltyPoints,
+                loyaltyDiscount,
+                shippingCost,
+                shippingDiscount,
+                tax: tax?.taxTotal ?? 0,
+                taxIncluded:
+                    !!tax && tax.pricesIncludeTax && !tax.reverseCharge,
+                reverseCharge: tax?.reverseCharge ?? false,
+                total: Math.max(
+                    parseFloat(
+                        (
+                            itemsTotal +
+                            shippingCost -
+                            shippingDiscount +
+                            (tax?.adjustment ?? 0)
+                        ).toFixed(2)
+                    ),
+                    0
+                ),
+            },
         };
     }
 
     /**
      * Processes a payment and creates an order for a customer.
      *
+     * @remarks
+     * The payment is reversed if the order cannot be created.
+     *
      * @param userId - The customer's user ID
      * @param data - The payment processing data
+     * @returns A promise resolving to the created order and its payment breakdown
      */
     public async processPaymentAndCreateOrder(
         userId: number,
         data: PaymentProcessingData
-    ): Promise<void> {
-        const { weightCategory, orderWeight, paymentIntentId, paymentAmount } =
-            await this.processPayment(userId, data);
+    ): Promise<{ order: OrderResponse; breakdown: PaymentBreakdown }> {
+        const {
+            weightCategory,
+            orderWeight,
+            paymentIntentId,
+            paymentAmount,
+            pricedItems,
+            breakdown,
+            tax,
+        } = await this.processPayment(userId, data);
+
+        try {
+            const order = await this.orderService!.createOrder(
+                userId,
+                pricedItems,
+                data.paymentMethodType,
+                data.shippingCountry,
+                weightCategory,
+                orderWeight,
+                data.shippingMethod,
+                paymentAmount,
+                paymentIntentId,
+                tax,
+                breakdown
+            );
+
+            return { order, breakdown };
+        } catch (error) {
+            await this.reversePayment(
+                userId,
+                { ...data, loyaltyPoints: breakdown.loyaltyPoints },
+                paymentIntentId,
+                paymentAmount,
+                breakdown.subtotal
+            );
+
+            throw error;
+        }
+    }
+
+    /**
+     * Checks out the customer's cart, creating an order from its items.
+     *
+     * @remarks
+     * The order and the removal of the checked out items from the cart are
+     * committed together, and the payment is reversed if they fail.
+     * Each checkout is identified by a client generated idempotency key,
+     * so that a retried request returns the order of the first one instead
+     * of charging the customer twice. The key of a failed checkout is
+     * released, so the same request can be retried.
+     *
+     * @param userId - The customer's user ID
+     * @param idempotencyKey - The idempotency key of the checkout
+     * @param data - The shipping, payment and discount details
+     * @returns A promise resolving to the created order, its payment breakdown
+     * and whether it was created by an earlier request with the same key
+     *
+     * @throws {@link CheckoutInProgressError}
+     * Thrown if a request with the same key is still being processed.
+     *
+     * @throws {@link IdempotencyKeyReusedError}
+     * Thrown if the key was used for a request with different data.
+     *
+     * @throws {@link CartNotFoundError}
+     * Thrown if the cart is not found.
+     *
+     * @throws {@link EmptyCartError}
+     * Thrown if the cart has no items.
+     *
+     * @throws {@link ProductOutOfStockError}
+     * Thrown if any of the cart items exceeds the available stock.
+     *
+     * @throws {@link InsufficientFundsError}
+     * Thrown if the wallet balance does not cover a wallet payment.
+     *
+     * @throws {@link CouponNotFoundError}
+     * Thrown if the coupon code does not exist.
+     *
+     * @throws {@link CouponNotApplicableError}
+     * Thrown if the coupon cannot be applied to the order.
+     *
+     * @throws {@link FlashSaleLimitError}
+     * Thrown if a flash sale has ended or the order exceeds one of its limits.
+     */
+    public async checkoutCart(
+        userId: number,
+        idempotencyKey: string,
+        data: CartCheckoutData
+    ): Promise<{
+        order: OrderResponse;
+        breakdown: PaymentBreakdown;
+        replayed: boolean;
+    }> {
+        const key = `checkout:${userId}:${idempotencyKey}`;
+        const fingerprint = createHash('sha256')
+            .update(JSON.stringify(data))
+            .digest('hex');
+
+        const claimed = await redisClient.set(
+            key,
+            JSON.stringify({ status: 'processing', fingerprint }),
+            'EX',
+            CHECKOUT_LOCK_TTL,
+            'NX'
+        );
+
+        if (!claimed) {
+            const stored = await redisClient.get(key);
+            const checkout: CheckoutRecord | null = stored
+                ? JSON.parse(stored)
+                : null;
+
+            if (checkout && checkout.fingerprint !== fingerprint) {
+                throw new IdempotencyKeyReusedError();
+            }
+            if (!checkout?.result) {
+                throw new CheckoutInProgressError();
+            }
+
+            return { ...checkout.result, replayed: true };
+        }
+
+        // The lock is renewed so that slow payments cannot be checked out twice
+        const renewal = setInterval(() => {
+            redisClient.expire(key, CHECKOUT_LOCK_TTL).catch(() => undefined);
+        }, CHECKOUT_LOCK_RENEWAL);
+        let result: { order: OrderResponse; breakdown: PaymentBreakdown };
+
+        try {
+            result = await this.createOrderFromCart(userId, data);
+        } catch (error) {
+            clearInterval(renewal);
+            await redisClient.del(key);
+            throw error;
+        }
+
+        clearInterval(renewal);
+
+        // The order is committed, so the key is kept from here on
+        await redisClient.set(
+            key,
+            JSON.stringify({ status: 'completed', fingerprint, result }),
+            'EX',
+            CHECKOUT_RESULT_TTL
+        );
+
+        // A failed invoice is logged instead of failing the committed checkout
+        if (data.paymentMethodType !== 'bank-transfer') {
+            try {
+                await this.invoiceService.queueInvoice(result.order.id);
+            } catch (error) {
+                this.logger.error(
+                    `Invoice of order with id "${result.order.id}" could not be queued: ${(error as Error).message}`
+                );
+            }
+        }
+
+        return { ...result, replayed: false };
+    }
+
+    /**
+     * Confirms the receipt of a bank transfer and releases its order.
+     *
+     * @param reference - The bank transfer reference of the order
+     * @returns A promise resolving to the paid order
+     *
+     * @throws {@link OrderNotFoundError}
+     * Thrown if no bank transfer order has the given reference.
+     *
+     * @throws {@link OrderAlreadyMarkedError}
+     * Thrown if the order is not awaiting its payment.
+     */
+    public async confirmBankTransfer(
+        reference: string
+    ): Promise<OrderResponse> {
+        const order = await this.orderService!.markAsPaid(reference);
+
+        const customer = (await Customer.findByPk(order.customerId))!;
+        const items = await OrderItemModel.findAll({
+            where: { orderId: order.id },
+            attributes: ['productId', 'variantId', 'quantity'],
+        });
+
+        this.awardLoyaltyPoints(
+            customer,
+            await this.calculateProductTotal(items)
+        );
+        await customer.save();
+
+        await this.notificationService?.sendNotification(
+            customer.userId,
+            `Your bank transfer for order "${order.trackingNumber}" has been received.`
+        );
+
+        return order;
+    }
 
-        await this.orderService!.createOrder(
+    /**
+     * Retrieves the wallet of a customer.
+     *
+     * @param userId - The user id of the customer
+     * @returns A promise resolving to the wallet balance and transactions
+     *
+     * @throws {@link UserNotFoundError}
+     * Thrown if the customer is not found.
+     */
+    public async getWallet(userId: number): Promise<WalletResponse> {
+        return await this.walletService.getWallet(userId);
+    }
+
+    /**
+     * Tops up the wallet of a customer by charging a payment method.
+     *
+     * @param userId - The user id of the customer
+     * @param amount - The amount to add
+     * @param [paymentMethodId] - The payment method to charge, the default one if omitted
+     * @returns A promise resolving to the new balance
+     *
+     * @throws {@link UserNotFoundError}
+     * Thrown if the customer is not found.
+     */
+    public async topUpWallet(
+        userId: number,
+        amount: number,
+        paymentMethodId?: string
+    ): Promise<number> {
+        const customer = await Customer.findOne({ where: { userId } });
+
+        if (!customer) {
+            throw new UserNotFoundError('Customer not found');
+        }
+
+        const paymentIntentId = await this.createPaymentIntent(
             userId,
-            data.orderItems,
-            data.paymentMethodType,
-            data.shippingCountry,
+            amount,
+            'eur',
+            paymentMethodId
+        );
+
+        return await this.walletService.credit(
+            customer.id,
+            amount,
+            'top-up',
+            paymentIntentId
+        );
+    }
+
+    /**
+     * Releases the checkouts whose stock reservation expired without an order.
+     *
+     * @remarks
+     * This method is called from the expired checkout job. Besides the
+     * reservation, the coupon redemption and flash sale claims of each
+     * checkout are released, so that abandoned payments do not hold sale
+     * units or coupon uses.
+     *
+     * @returns A promise resolving to the number of released checkouts
+     */
+    public async releaseExpiredCheckouts(): Promise<number> {
+        const reservations = await StockReservation.findAll({
+            where: { status: 'reserved', expiresAt: { [Op.lte]: new Date() } },
+            attributes: ['reservationKey', 'paymentIntentId'],
+        });
+        const references = [
+            ...new Set(
+                reservations.map(
+                    (reservation) =>
+                        reservation.paymentIntentId ??
+                        reservation.reservationKey
+                )
+            ),
+        ];
+
+        for (const reference of references) {
+            await this.releaseCheckout(reference);
+        }
+
+        return references.length;
+    }
+
+    /**
+     * Pays for the items of the customer's cart and creates their order.
+     *
+     * @remarks
+     * The invoice of the order is left to the caller.
+     */
+    private async createOrderFromCart(
+        userId: number,
+        data: CartCheckoutData
+    ): Promise<{ order: OrderResponse; breakdown: PaymentBreakdown }> {
+        const cart = await Cart.findOne({
+            include: {
+                model: Customer,
+                where: { userId },
+            },
+        });
+
+        if (!cart) {
+            throw new CartNotFoundError();
+        }
+
+        const cartItems = await CartItem.findAll({
+            where: { cartId: cart.id },
+            attributes: ['id', 'productId', 'variantId', 'quantity'],
+            order: [['id', 'ASC']],
+        });
+
+        if (!cartItems.length) {
+            throw new EmptyCartError();
+        }
+
+        const orderItems = cartItems.map(
+            ({ productId, variantId, quantity }) => ({
+                productId: productId!,
+                variantId: variantId ?? null,
+                quantity,
+            })
+        );
+        const {
             weightCategory,
             orderWeight,
-            data.shippingMethod,
+            paymentIntentId,
             paymentAmount,
-            paymentIntentId
+            pricedItems,
+            breakdown,
+            tax,
+        } = await this.processPayment(userId, { ...data, orderItems });
+
+        const transaction = await sequelize.transaction();
+        let order: OrderResponse;
+
+        try {
+            order = await this.orderService!.createOrder(
+                userId,
+                pricedItems,
+                data.paymentMethodType,
+                data.shippingCountry,
+                weightCategory,
+                orderWeight,
+                data.shippingMethod,
+                paymentAmount,
+                paymentIntentId,
+                tax,
+                breakdown,
+                transaction
+            );
+
+            // Items added during the checkout stay in the cart
+            await CartItem.destroy({
+                where: { id: cartItems.map(({ id }) => id!) },
+                transaction,
+            });
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            await this.reversePayment(
+                userId,
+                { ...data, loyaltyPoints: breakdown.loyaltyPoints },
+                paymentIntentId,
+                paymentAmount,
+                breakdown.subtotal
+            );
+
+            throw error;
+        }
+
+        return { order, breakdown };
+    }
+
+    /**
+     * Reverses the payment of an order that could not be created.
+     *
+     * @remarks
+     * The stock reservation, coupon redemption and flash sale claims of the
+     * payment are released, card payments are refunded, wallet payments are
+     * credited back, and the loyalty points of the customer are restored.
+     * Failures of each step are logged for manual follow-up instead of
+     * thrown, so that the remaining steps still run and the caller can
+     * rethrow its own error. Anything left reserved is released by the
+     * expired checkout job.
+     */
+    private async reversePayment(
+        userId: number,
+        data: Pick<
+            PaymentProcessingData,
+            'paymentMethodType' | 'loyaltyPoints'
+        >,
+        paymentIntentId: string,
+        paymentAmount: number,
+        productTotal: number
+    ): Promise<void> {
+        const customer = (await Customer.findOne({ where: { userId } }))!;
+
+        try {
+            if (data.paymentMethodType === 'wallet' && paymentAmount > 0) {
+                await this.walletService.credit(
+                    customer.id,
+                    paymentAmount,
+                    'refund',
+                    paymentIntentId
+                );
+            } else if (data.paymentMethodType === 'card') {
+                await this.paymentProvider.refund({
+                    paymentIntentId,
+                    reason: 'Order creation failed',
+                });
+            }
+        } catch (error) {
+            this.logger.error(
+                `Payment "${paymentIntentId}" could not be reversed: ${(error as Error).message}`
+            );
+        }
+
+        try {
+            await this.releaseCheckout(paymentIntentId);
+        } catch (error) {
+            this.logger.error(
+                `Checkout of payment "${paymentIntentId}" could not be released: ${(error as Error).message}`
+            );
+        }
+
+        // Bank transfer orders had not earned their loyalty points yet
+        const earnedPoints =
+            data.paymentMethodType !== 'bank-transfer'
+                ? customer.getEarnedLoyaltyPoints(productTotal)
+                : 0;
+
+        customer.loyaltyPoints = Math.round(
+            customer.loyaltyPoints + (data.loyaltyPoints ?? 0) - earnedPoints
         );
+        await customer.save();
+    }
+
+    /**
+     * Releases the stock reservation, coupon redemption
+     * and flash sale claims of a checkout.
+     */
+    private async releaseCheckout(reference: string): Promise<void> {
+        await this.inventoryService.releaseReservation(reference);
+        await this.couponService.releaseRedemption(reference);
+        await this.flashSaleService.releaseClaims(reference);
+    }
+
+    private async collectPayment(
+        userId: number,
+        customerId: number,
+        amount: number,
+        data: PaymentProcessingData
+    ): Promise<string> {
+        switch (data.paymentMethodType) {
+            case 'wallet': {
+                const reference = `wallet_${randomUUID()}`;
+
+                // Orders fully covered by discounts have nothing to debit
+                if (amount > 0) {
+                    await this.walletService.debit(
+                        customerId,
+                        amount,
+                        reference
+                    );
+                }
+
+                return reference;
+            }
+            case 'bank-transfer':
+                return Order.generatePaymentReference();
+            default:
+                return await this.createPaymentIntent(
+                    userId,
+                    amount,
+                    data.currency,
+                    data.paymentMethodId
+                );
+        }
+    }
+
+    private async calculateProductTotal(
+        orderItems: OrderItem[]
+    ): Promise<number> {
+        const pricedItems = await this.getItemPrices(orderItems);
+
+        return pricedItems.reduce(
+            (acc, item) => acc + item.unitPrice * item.quantity,
+            0
+        );
+    }
+
+    /**
+     * Prices order items at their current price.
+     *
+     * @remarks
+     * The discount of an active flash sale replaces the discount of its products.
+     */
+    private async getItemPrices(
+        orderItems: OrderItem[]
+    ): Promise<PricedOrderItem[]> {
+        const flashSales = await this.flashSaleService.getActiveSales(
+            orderItems.map((item) => item.productId)
+        );
+
+        return await Promise.all(
+            orderItems.map(async (item) => {
+                const product = await Product.findByPk(item.productId, {
+                    attributes: ['price', 'discount', 'categoryId'],
+                });
+
+                if (!product) {
+                    throw new ProductNotFoundError(
+                        `Product with id "${item.productId}" not found`
+                    );
+                }
+
+                const variant = await this.productVariantService.resolveVariant(
+                    item.productId,
+                    item.variantId
+                );
+                const price = variant?.price ?? product.price;
+                const flashSale = flashSales.get(item.productId);
+                const discount = flashSale?.discount ?? product.discount;
+
+                return {
+                    productId: item.productId,
+                    variantId: variant?.id ?? null,
+                    quantity: item.quantity,
+                    categoryId: product.categoryId!,
+                    unitPrice: discountedPrice(price, discount),
+                    flashSaleId: flashSale?.id ?? null,
+                };
+            })
+        );
+    }
+
+    private awardLoyaltyPoints(customer: Customer, productTotal: number): void {
+        customer.loyaltyPoints =
+            customer.loyaltyPoints +
+            customer.getEarnedLoyaltyPoints(productTotal);
     }
 }
@@ -0,0 +1,488 @@
+import { Op, Sequelize } from 'sequelize';
+import type { WhereOptions } from 'sequelize';
+import { sequelize } from '@/config/db';
+import { queue9 } from '@/jobQueues';
+import {
+    PriceHistory,
+    Product,
+    ScheduledPriceChange,
+} from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
+import type { PriceChangeStatus } from '@/models/relational/ScheduledPriceChange.model';
+import {
+    InvalidPriceChangeError,
+    PriceChangeConflictError,
+    PriceChangeNotFoundError,
+    ProductNotFoundError,
+} from '@/errors';
+
+// Period of the lowest price shown next to reduced prices
+const LOWEST_PRICE_DAYS = 30;
+
+interface PriceChangeDetails {
+    price?: number | null;
+    discount?: number | null;
+    startsAt: Date;
+    endsAt?: Date | null;
+}
+
+/**
+ * Service responsible for scheduled price changes and the price history of products.
+ *
+ * @remarks
+ * Price changes are applied and reverted by delayed jobs of the price change
+ * queue. A change with an end is active until then, after which the price
+ * and discount in effect before the change are restored. Every price or
+ * discount change of a product is recorded in its price history.
+ */
+export class PriceService {
+    /**
+     * Schedules a change of the price or discount of a product.
+     *
+     * @param username - The username of the admin scheduling the change
+     * @param productId - The id of the product
+     * @param details - The new price or discount and the period of the change
+     * @returns A promise resolving to the scheduled change
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     *
+     * @throws {@link InvalidPriceChangeError}
+     * Thrown if the change starts in the past or ends before it starts.
+     *
+     * @throws {@link PriceChangeConflictError}
+     * Thrown if the change overlaps another pending change of the product.
+     */
+    public async schedulePriceChange(
+        username: string,
+        productId: number,
+        details: PriceChangeDetails
+    ): Promise<ScheduledPriceChange> {
+        await this.findProduct(productId);
+
+        const startsAt = new Date(details.startsAt);
+        const endsAt = details.endsAt ? new Date(details.endsAt) : null;
+
+        if (startsAt.getTime() <= Date.now()) {
+            throw new InvalidPriceChangeError(
+                'Price change must start in the future'
+            );
+        }
+
+        if (endsAt && endsAt <= startsAt) {
+            throw new InvalidPriceChangeError(
+                'Price change must end after it starts'
+            );
+        }
+
+        await this.assertNoOverlap(productId, startsAt, endsAt);
+
+        const change = await ScheduledPriceChange.create({
+            productId,
+            price: details.price ?? null,
+            discount: details.discount ?? null,
+            startsAt,
+            endsAt,
+            username,
+        });
+
+        await queue9.add(
+            'applyPriceChangeJob',
+            { changeId: change.id },
+            {
+                jobId: this.jobId(change.id, 'apply'),
+                delay: startsAt.getTime() - Date.now(),
+            }
+        );
+
+        return change;
+    }
+
+    /**
+     * Retrieves the price changes of a product.
+     *
+     * @param productId - The id of the product
+     * @param [status] - Only retrieves changes with this status
+     * @returns A promise resolving to the changes ordered by their start
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     */
+    public async getPriceChanges(
+        productId: number,
+        status?: PriceChangeStatus
+    ): Promise<ScheduledPriceChange[]> {
+        await this.findProduct(productId);
+
+        return await ScheduledPriceChange.findAll({
+            where: { productId, ...(status && { status }) },
+            order: [['startsAt', 'ASC']],
+        });
+    }
+
+    /**
+     * Cancels a pending price change.
+     *
+     * @remarks
+     * Active changes are reverted immediately.
+     *
+     * @param productId - The id of the product
+     * @param changeId - The id of the change
+     * @returns A promise resolving to the cancelled change
+     *
+     * @throws {@link PriceChangeNotFoundError}
+     * Thrown if the product has no change with the given id.
+     *
+     * @throws {@link InvalidPriceChangeError}
+     * Thrown if the change is already completed or cancelled.
+     */
+    public async cancelPriceChange(
+        productId: number,
+        changeId: number
+    ): Promise<ScheduledPriceChange> {
+        const change = await ScheduledPriceChange.findOne({
+            where: { id: changeId, productId },
+        });
+
+        if (!change) {
+            throw new PriceChangeNotFoundError();
+        }
+
+        if (change.status === 'scheduled') {
+            await (
+                await queue9.getJob(this.jobId(change.id, 'apply'))
+            )?.remove();
+            return await change.update({ status: 'cancelled' });
+        }
+
+        if (change.status === 'active') {
+            await this.restorePrices(change, 'cancelled');
+            await (
+                await queue9.getJob(this.jobId(change.id, 'revert'))
+            )?.remove();
+            return change;
+        }
+
+        throw new InvalidPriceChangeError(
+            `Price change is already ${change.status}`
+        );
+    }
+
+    /**
+     * Applies a scheduled price change to its product.
+     *
+     * @remarks
+     * This method is called from the apply price change job.
+     * Changes with an end queue the job reverting them.
+     *
+     * @param changeId - The id of the change
+     */
+    public async applyPriceChange(changeId: number): Promise<void> {
+        const change = await ScheduledPriceChange.findByPk(changeId);
+
+        if (!change) return;
+
+        if (change.status === 'scheduled') {
+            const transaction = await sequelize.transaction();
+
+            try {
+                const product = await Product.findByPk(change.productId, {
+                    transaction,
+                    lock: transaction.LOCK.UPDATE,
+                });
+
+                if (!product) {
+                    await change.update(
+                        { status: 'cancelled' },
+                        { transaction }
+                    );
+                    await transaction.commit();
+                    return;
+                }
+
+                await change.update(
+                    {
+                        previousPrice: product.price,
+                        previousDiscount: product.discount,
+                        status: change.endsAt ? 'active' : 'completed',
+                    },
+                    { transaction }
+                );
+                await product.update(
+                    {
+                        ...(change.price !== null && { price: change.price }),
+                        ...(change.discount !== null && {
+                            discount: change.discount,
+                        }),
+                    },
+                    { transaction }
+                );
+
+                await transaction.commit();
+            } catch (error) {
+                await transaction.rollback();
+                throw error;
+            }
+        }
+
+        // Adding a job with an existing id is ignored, so retries are safe
+        if (change.status === 'active' && change.endsAt) {
+            await queue9.add(
+                'revertPriceChangeJob',
+                { changeId: change.id },
+                {
+                    jobId: this.jobId(change.id, 'revert'),
+                    delay: Math.max(change.endsAt.getTime() - Date.now(), 0),
+                }
+            );
+        }
+    }
+
+    /**
+     * Restores the price and discount in effect before an active change.
+     *
+     * @remarks
+     * This method is called from the revert price change job.
+     *
+     * @param changeId - The id of the change
+     */
+    public async revertPriceChange(changeId: number): Promise<void> {
+        const change = await ScheduledPriceChange.findByPk(changeId);
+
+        if (change?.status === 'active') {
+            await this.restorePrices(change, 'completed');
+        }
+    }
+
+    /**
+     * Retrieves the price history of a product.
+     *
+     * @param productId - The id of the product
+     * @param days - The number of past days to retrieve
+     * @returns A promise resolving to the price history, newest first
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     */
+    public async getPriceHistory(
+        productId: number,
+        days: number = LOWEST_PRICE_DAYS
+    ): Promise<PriceHistory[]> {
+        await this.findProduct(productId);
+
+        return await PriceHistory.findAll({
+            where: {
+                productId,
+                createdAt: { [Op.gte]: this.daysAgo(days) },
+            },
+            order: [
+                ['createdAt', 'DESC'],
+                ['id', 'DESC'],
+            ],
+        });
+    }
+
+    /**
+     * Calculates the lowest final price of products in the 30 days before
+     * their current reduction.
+     *
+     * @remarks
+     * A reduction starts with the change following the last higher price
+     * of a product, and the lowest price is taken from the period before
+     * it, so the reduced price itself never counts. Products without a
+     * reduction get the lowest price of the last 30 days instead. The
+     * price in effect at the start of a period counts as well, since it
+     * was charged until the first change within the period. Only the
+     * history since the period before the last higher price is loaded.
+     *
+     * @param products - The products with their current price and discount
+     * @returns A promise resolving to the lowest price of each product id
+     */
+    public async getLowestPrices(
+        products: Pick<Product, 'id' | 'price' | 'discount'>[]
+    ): Promise<Map<number, number>> {
+        const lowestPrices = new Map<number, number>();
+
+        if (!products.length) return lowestPrices;
+
+        const currentPrices = new Map(
+            products.map(({ id, price, discount }) => [
+                id,
+                discountedPrice(price, discount),
+            ])
+        );
+
+        // A reduction starts after the last higher price, so its period
+        // starts at most 30 days before that price
+        const higherPriceDates = await this.findLatestEntryDates(
+            products.map(({ id }) => ({
+                productId: id,
+                finalPrice: { [Op.gt]: currentPrices.get(id)! + 0.005 },
+            }))
+        );
+        const periodStarts = new Map(
+            products.map(({ id }) => [
+                id,
+                this.daysAgo(LOWEST_PRICE_DAYS, higherPriceDates.get(id)),
+            ])
+        );
+        const startPriceDates = await this.findLatestEntryDates(
+            products.map(({ id }) => ({
+                productId: id,
+                createdAt: { [Op.lt]: periodStarts.get(id)! },
+            }))
+        );
+
+        const entries = await PriceHistory.findAll({
+            attributes: ['productId', 'finalPrice', 'createdAt'],
+            where: {
+                [Op.or]: products.map(({ id }) => ({
+                    productId: id,
+                    createdAt: {
+                        [Op.gte]:
+                            startPriceDates.get(id) ?? periodStarts.get(id)!,
+                    },
+                })),
+            },
+            order: [
+                ['createdAt', 'DESC'],
+                ['id', 'DESC'],
+            ],
+        });
+        const histories = new Map<number, PriceHistory[]>();
+
+        for (const entry of entries) {
+            histories.set(entry.productId, [
+                ...(histories.get(entry.productId) ?? []),
+                entry,
+            ]);
+        }
+
+        for (const product of products) {
+            const currentPrice = currentPrices.get(product.id)!;
+            const history = histories.get(product.id) ?? [];
+            const lastHigher = history.findIndex(
+                ({ finalPrice }) => finalPrice - currentPrice > 0.005 // Rounding of stored prices
+            );
+            const reducedAt =
+                lastHigher > 0 ? history[lastHigher - 1].createdAt : null;
+            const end = reducedAt ?? new Date();
+            const start = this.daysAgo(LOWEST_PRICE_DAYS, end);
+
+            const previous = history.filter(({ createdAt }) => createdAt < end);
+            const changed = previous.filter(
+                ({ createdAt }) => createdAt >= start
+            ).length;
+            const prices = previous
+                .slice(0, changed + 1)
+                .map(({ finalPrice }) => finalPrice);
+
+            lowestPrices.set(
+                product.id,
+                Math.min(...prices, ...(reducedAt ? [] : [currentPrice]))
+            );
+        }
+
+        return lowestPrices;
+    }
+
+    private async restorePrices(
+        change: ScheduledPriceChange,
+        status: PriceChangeStatus
+    ): Promise<void> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const product = await Product.findByPk(change.productId, {
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            await product?.update(
+                {
+                    ...(change.price !== null && {
+                        price: change.previousPrice!,
+                    }),
+                    ...(change.discount !== null && {
+                        discount: change.previousDiscount!,
+                    }),
+                },
+                { transaction }
+            );
+            await change.update({ status }, { transaction });
+
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    /**
+     * Checks that a change does not overlap the pending changes of the product.
+     *
+     * @remarks
+     * Changes without an end are checked at their start only.
+     */
+    private async assertNoOverlap(
+        productId: number,
+        startsAt: Date,
+        endsAt: Date | null
+    ): Promise<void> {
+        const changes = await ScheduledPriceChange.findAll({
+            where: { productId, status: ['scheduled', 'active'] },
+        });
+        const end = endsAt ?? startsAt;
+        const overlapping = changes.find(
+            (change) =>
+                change.startsAt <= end &&
+                startsAt <= (change.endsAt ?? change.startsAt)
+        );
+
+        if (overlapping) {
+            throw new PriceChangeConflictError(
+                `Price change overlaps price change with id "${overlapping.id}"`
+            );
+        }
+    }
+
+    private jobId(changeId: number, action: 'apply' | 'revert'): string {
+        return `priceChange-${changeId}-${action}`;
+    }
+
+    private async findLatestEntryDates(
+        conditions: WhereOptions<PriceHistory>[]
+    ): Promise<Map<number, Date>> {
+        const entries = await PriceHistory.findAll({
+            attributes: [
+                'productId',
+                [Sequelize.fn('MAX', Sequelize.col('createdAt')), 'createdAt'],
+            ],
+            where: { [Op.or]: conditions },
+            group: ['productId'],
+        });
+
+        return new Map(
+            entries.map(({ productId, createdAt }) => [
+                productId,
+                new Date(createdAt),
+            ])
+        );
+    }
+
+    private daysAgo(days: number, from = new Date()): Date {
+        return new Date(from.getTime() - days * 24 * 60 * 60 * 1000);
+    }
+
+    private async findProduct(productId: number): Promise<Product> {
+        const product = await Product.findByPk(productId, {
+            attributes: ['id'],
+        });
+
+        if (!product) {
+            throw new ProductNotFoundError();
+        }
+
+        return product;
+    }
+}
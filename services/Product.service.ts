@@ -1,21 +1,67 @@
 import { sequelize } from '@/config/db';
 import { Op } from 'sequelize';
+import type { Includeable, InferAttributes } from 'sequelize';
+import type { estypes } from '@elastic/elasticsearch';
 import client from '@/config/elasticsearch';
 import { connectToRedisServer } from '@/config/redis';
 import { queue4 } from '@/jobQueues';
 import { NotificationService } from './Notification.service';
-import { Admin, Category, Product, User } from '@/models/relational';
+import { PRODUCTS_ALIAS } from './SearchIndex.service';
+import { PriceService } from './Price.service';
+import { AttributeService } from './Attribute.service';
+import {
+    Admin,
+    Category,
+    CategoryAttribute,
+    Product,
+    ProductOption,
+    ProductVariant,
+    ProductMedia,
+    User,
+} from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
+import type {
+    AttributeType,
+    Specifications,
+} from '@/models/relational/CategoryAttribute.model';
+import { SearchQuery } from '@/models/document';
+import type { ISearchQuery } from '@/models/document';
 import {
     CategoryAlreadyExistsError,
     CategoryNotFoundError,
     ProductNotFoundError,
     ProductAlreadyExistsError,
+    InvalidSearchCursorError,
 } from '@/errors';
 const redisConnection = connectToRedisServer();
 
+const SEARCH_PAGE_SIZE = 20;
+const PRICE_RANGES = [
+    { to: 25 },
+    { from: 25, to: 50 },
+    { from: 50, to: 100 },
+    { from: 100, to: 250 },
+    { from: 250 },
+];
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+const SPECIFICATION_VALUES_SIZE = 50;
+const AUTOCOMPLETE_SIZE = 5;
+
+// The product id breaks ties so that cursors point to a single position
+const SEARCH_SORTS: Record<ProductSearchSort, estypes.SortCombinations[]> = {
+    relevance: ['_score', { id: 'asc' }],
+    'price-asc': [{ finalPrice: 'asc' }, { id: 'asc' }],
+    'price-desc': [{ finalPrice: 'desc' }, { id: 'asc' }],
+    newest: [{ createdAt: 'desc' }, { id: 'asc' }],
+    popularity: [{ views: 'desc' }, { id: 'asc' }],
+};
+
 interface ProductDetails {
+    sku?: string | null;
+    slug?: string; // Generated from the name if not given
     name: string;
     description: string;
+    specifications?: Record<string, unknown>; // Attribute keys and values
     currency: string;
     price: number;
     discount?: number;
@@ -24,20 +70,121 @@ interface ProductDetails {
     stockQuantity?: number;
     weight: number;
     views?: number;
+    membershipExclusive?: boolean;
 }
 
-interface ProductObject {
+type ProductSearchSort =
+    | 'relevance'
+    | 'price-asc'
+    | 'price-desc'
+    | 'newest'
+    | 'popularity';
+
+// Any of the values, or a range of numbers
+type SpecificationFilter = string[] | { min?: number; max?: number };
+
+interface ProductSearchFilters {
+    q?: string;
+    categoryId?: number;
+    specifications?: Record<string, SpecificationFilter>; // By attribute key
+    minPrice?: number;
+    maxPrice?: number;
+    minRating?: number;
+    inStock?: boolean;
+    discounted?: boolean;
+    membershipExclusive?: boolean;
+    sort?: ProductSearchSort;
+    limit?: number;
+    cursor?: string;
+}
+
+interface SearchHitSource {
+    id: number;
+    rating: number | null;
+}
+
+interface SearchAggregations {
+    categories: { values: { buckets: { key: number; doc_count: number }[] } };
+    priceRanges: {
+        values: {
+            buckets: { from?: number; to?: number; doc_count: number }[];
+        };
+    };
+    ratings: { values: { buckets: { from: number; doc_count: number }[] } };
+    inStock: { doc_count: number };
+    discounted: { doc_count: number };
+    membershipExclusive: { doc_count: number };
+    // A bucket per filterable attribute key, counted without its own filter
+    specifications?: {
+        buckets: Record<
+            string,
+            {
+                values: {
+                    keys: {
+                        buckets: {
+                            key: string;
+                            values: {
+                                buckets: { key: string; doc_count: number }[];
+                            };
+                            range: { min: number | null; max: number | null };
+                        }[];
+                    };
+                };
+            }
+        >;
+    };
+}
+
+interface CategoryFacet {
+    id: number;
     name: string;
-    description: string;
-    price: number;
+    count: number;
+    children: CategoryFacet[];
+}
+
+interface SpecificationFacet {
+    key: string;
+    name: string;
+    type: AttributeType;
+    unit: string | null;
+    values: { value: string; count: number }[];
+    min: number | null; // Numbers only
+    max: number | null;
+}
+
+interface ProductSearchResult {
+    total: number;
+    products: (ProductResponse & {
+        rating: number | null;
+        highlights: Record<string, string[]>;
+    })[];
+    facets: {
+        categories: CategoryFacet[];
+        priceRanges: { from?: number; to?: number; count: number }[];
+        ratings: { minRating: number; count: number }[];
+        inStock: number;
+        discounted: number;
+        membershipExclusive: number;
+        specifications: SpecificationFacet[];
+    };
+    nextCursor: string | null;
+    didYouMean: string | null;
+}
+
+interface AutocompleteResult {
+    products: { id: number; name: string }[];
+    categories: { id: number; name: string }[];
+    queries: string[];
 }
 
 interface CategoryResponse {
     id?: number;
     name: string;
+    slug?: string | null;
     description: string;
     hasProducts?: boolean;
     parentId?: number | null;
+    taxClass?: 'standard' | 'reduced';
     createdAt?: Date;
     updatedAt?: Date;
 }
@@ -46,7 +193,9 @@ interface ProductResponse {
     id?: number;
     categoryId?: number;
     name: string;
+    slug?: string | null;
     description: string;
+    specifications?: Specifications;
     currency: string;
     price: number;
     discount?: number;
@@ -54,10 +203,14 @@ interface ProductResponse {
     stockQuantity?: number;
     weight: number;
     views?: number;
+    membershipExclusive?: boolean;
     updatedAt?: Date;
     createdAt?: Date;
 }
 
+// Products with the lowest price of the last 30 days, shown next to reduced prices
+type PricedProduct = InferAttributes<Product> & { lowestPrice30Days: number };
+
 type Promotion = 'newArrival' | 'discount';
 
 /**
@@ -65,9 +218,13 @@ type Promotion = 'newArrival' | 'discount';
  */
 export class ProductService {
     private notificationService?: NotificationService;
+    private priceService: PriceService;
+    private attributeService: AttributeService;
 
     constructor(notificationService?: NotificationService) {
         this.notificationService = notificationService;
+        this.priceService = new PriceService();
+        this.attributeService = new AttributeService();
     }
 
     /**
@@ -76,6 +233,7 @@ export class ProductService {
      * @param name - The name of the category
      * @param description - The description of the category
      * @param parentId - The id of the parent category
+     * @param [taxClass] - The VAT rate class of the category's products
      * @returns A promise resolving to the created category
      *
      * @throws {@link CategoryAlreadyExistsError}
@@ -84,11 +242,12 @@ export class ProductService {
     public async addCategory(
         name: string,
         description: string,
-        parentId: number | null
+        parentId: number | null,
+        taxClass?: 'standard' | 'reduced'
     ): Promise<CategoryResponse> {
         const [category, created] = await Category.findOrCreate({
             where: { name },
-            defaults: { name, description, parentId },
+            defaults: { name, description, parentId, taxClass },
         });
 
         if (!created) {
@@ -109,8 +268,10 @@ export class ProductService {
      * Thrown if the category is not found.
      *
      * @throws {@link ProductAlreadyExistsError}
-     * Thrown if the product already exists or if the
-     * product image is already in use.
+     * Thrown if a product with the same name, SKU or slug already exists.
+     *
+     * @throws {@link InvalidProductSpecificationsError}
+     * Thrown if the specifications do not match the category attributes.
      */
     public async addProductByCategoryId(
         username: string,
@@ -124,22 +285,40 @@ export class ProductService {
             throw new CategoryNotFoundError();
         }
 
-        const [productName, productImage] = await Promise.all([
-            Product.findOne({ where: { name: details.name } }),
-            Product.findOne({ where: { imageUrl: details.imageUrl } }),
-        ]);
+        const productName = await Product.findOne({
+            where: { name: details.name },
+        });
 
         if (productName) {
             throw new ProductAlreadyExistsError();
         }
 
-        if (productImage) {
-            throw new ProductAlreadyExistsError('Product image already in use');
+        if (
+            details.sku &&
+            (await Product.findOne({
+                where: { sku: details.sku.toUpperCase() },
+                paranoid: false,
+            }))
+        ) {
+            throw new ProductAlreadyExistsError(
+                `Product with SKU "${details.sku}" already exists`
+            );
+        }
+
+        if (details.slug) {
+            await this.assertProductSlugAvailable(details.slug);
         }
 
+        const specifications =
+            await this.attributeService.validateSpecifications(
+                categoryId,
+                details.specifications ?? {}
+            );
+
         const newProduct = await Product.create({
             categoryId,
             ...details,
+            specifications,
         });
 
         if (details.availableDue) {
@@ -248,6 +427,10 @@ export class ProductService {
     }> {
         const { count, rows } = await Category.findAndCountAll({
             where: { parentId: null },
+            order: [
+                ['position', 'ASC'],
+                ['id', 'ASC'],
+            ],
         });
 
         return { count, rows };
@@ -284,6 +467,10 @@ export class ProductService {
 
         const { count, rows } = await Category.findAndCountAll({
             where: { parentId: categoryId },
+            order: [
+                ['position', 'ASC'],
+                ['id', 'ASC'],
+            ],
         });
 
         return { count, rows };
@@ -296,69 +483,113 @@ export class ProductService {
      */
     public async getAllProducts(): Promise<{
         count: number;
-        rows: Product[];
+        rows: PricedProduct[];
     }> {
         const { count, rows } = await Product.findAndCountAll();
 
-        return { count, rows };
+        return { count, rows: await this.withLowestPrices(rows) };
     }
 
     /**
      * Retrieves all products of a certain category.
      *
      * @param categoryId - The ID of the category
+     * @param [includeDescendants] - Whether to include the products of all subcategories
      * @returns a promise resolving to an array of Product instances
      */
     public async getProductsByCategory(
-        categoryId: number
-    ): Promise<{ count: number; rows: Product[] }> {
+        categoryId: number,
+        includeDescendants = false
+    ): Promise<{ count: number; rows: PricedProduct[] }> {
         const foundCategory = await Category.findByPk(categoryId);
 
         if (!foundCategory) {
             throw new CategoryNotFoundError();
         }
 
+        const categoryIds = includeDescendants
+            ? [
+                  categoryId,
+                  ...Category.descendantsOf(
+                      categoryId,
+                      await Category.findParentIds()
+                  ),
+              ]
+            : [categoryId];
+
         const { count, rows } = await Product.findAndCountAll({
-            where: { categoryId: foundCategory.id },
+            where: { categoryId: categoryIds },
         });
 
-        return { count, rows };
+        return { count, rows: await this.withLowestPrices(rows) };
     }
 
     /**
      * Retrieves a product by ID for admins only.
      *
      * @param productId - The ID of the product
-     * @returns a promise resolving to a Product instance
+     * @returns a promise resolving to the product with its variants, media and lowest price
      */
-    public async getProductById(productId: number): Promise<Product> {
-        const product = await Product.findByPk(productId);
+    public async getProductById(productId: number): Promise<PricedProduct> {
+        const product = await Product.findByPk(productId, {
+            include: this.detailIncludes(),
+        });
 
         if (!product) {
             throw new ProductNotFoundError();
         }
 
-        return product;
+        const [pricedProduct] = await this.withLowestPrices([product]);
+
+        return pricedProduct;
     }
 
     /**
      * Retrieves a product by ID for customers only.
      *
      * @param productId - The ID of the product
-     * @returns a promise resolving to a Product instance
+     * @returns a promise resolving to the product with its variants, media and lowest price
      *
      * @throws {@link ProductNotFoundError}
      * Thrown if the product is not found
      */
-    public async viewProductById(productId: number): Promise<Product> {
-        const product = await Product.findByPk(productId);
+    public async viewProductById(productId: number): Promise<PricedProduct> {
+        const product = await Product.findByPk(productId, {
+            include: this.detailIncludes(),
+        });
 
         if (!product) {
             throw new ProductNotFoundError();
         }
 
         product.views!++;
-        return await product.save();
+        await product.save();
+
+        const [pricedProduct] = await this.withLowestPrices([product]);
+
+        return pricedProduct;
+    }
+
+    /**
+     * Retrieves a product by its slug for customers only.
+     *
+     * @param slug - The slug of the product
+     * @returns a promise resolving to the product with its variants, media and lowest price
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if no product has the slug
+     */
+    public async viewProductBySlug(slug: string): Promise<PricedProduct> {
+        const product = await Product.findOne({
+            where: { slug },
+            attributes: ['id'],
+        });
+
+        if (!product) {
+            throw new ProductNotFoundError();
+        }
+
+        return await this.viewProductById(product.id);
     }
 
     /**
@@ -433,14 +664,7 @@ export class ProductService {
             throw new ProductNotFoundError();
         }
 
-        if (product.discount === 0) {
-            return product.price;
-        }
-
-        const discountedPrice =
-            product.price - (product.price * product.discount!) / 100;
-
-        return Math.ceil(discountedPrice) - 0.01;
+        return discountedPrice(product.price, product.discount);
     }
 
     /**
@@ -449,15 +673,22 @@ export class ProductService {
      * @param categoryId - The id of the category to update
      * @param name - The new name of the category
      * @param description - The new description of the category
+     * @param [taxClass] - The new VAT rate class of the category
+     * @param [slug] - The new slug of the category
      * @returns A promise that resolves to the updated category
      *
      * @throws {@link CategoryNotFoundError}
      * Thrown if the category doesn't exist
+     *
+     * @throws {@link CategoryAlreadyExistsError}
+     * Thrown if another category has the slug
      */
     public async updateCategoryById(
         categoryId: number,
         name: string,
-        description: string
+        description: string,
+        taxClass?: 'standard' | 'reduced',
+        slug?: string
     ): Promise<CategoryResponse> {
         const category = await Category.findByPk(categoryId, {
             attributes: { exclude: ['deletedAt'] },
@@ -467,7 +698,17 @@ export class ProductService {
             throw new CategoryNotFoundError();
         }
 
-        await category.update({ name, description });
+        if (
+            slug &&
+            slug !== category.slug &&
+            (await Category.findOne({ where: { slug }, paranoid: false }))
+        ) {
+            throw new CategoryAlreadyExistsError(
+                `Category with slug "${slug}" already exists`
+            );
+        }
+
+        await category.update({ name, description, taxClass, slug });
 
         return category.toJSON();
     }
@@ -496,18 +737,11 @@ export class ProductService {
         product.discount = discount;
         await product.save();
 
-        if (product.discount === 0) {
-            return product.price;
-        }
-
-        const discountedPrice =
-            product.price - (product.price * product.discount!) / 100;
-
-        if (promote) {
+        if (promote && product.discount !== 0) {
             await this.handlePromotions(productId, username, 'discount', 5);
         }
 
-        return Math.ceil(discountedPrice) - 0.01;
+        return discountedPrice(product.price, product.discount);
     }
 
     /**
@@ -519,6 +753,12 @@ export class ProductService {
      *
      * @throws {@link ProductNotFoundError}
      * Thrown if the product doesn't exist.
+     *
+     * @throws {@link ProductAlreadyExistsError}
+     * Thrown if another product has the slug or the SKU.
+     *
+     * @throws {@link InvalidProductSpecificationsError}
+     * Thrown if the specifications do not match the category attributes.
      */
     public async updateProductById(
         productId: number,
@@ -532,6 +772,33 @@ export class ProductService {
             throw new ProductNotFoundError();
         }
 
+        if (details.slug && details.slug !== product.slug) {
+            await this.assertProductSlugAvailable(details.slug);
+        }
+
+        if (
+            details.sku &&
+            (await Product.findOne({
+                where: {
+                    sku: details.sku.toUpperCase(),
+                    id: { [Op.ne]: productId },
+                },
+                paranoid: false,
+            }))
+        ) {
+            throw new ProductAlreadyExistsError(
+                `Product with SKU "${details.sku}" already exists`
+            );
+        }
+
+        // Given specifications replace the previous ones
+        const specifications = details.specifications
+            ? await this.attributeService.validateSpecifications(
+                  product.categoryId!,
+                  details.specifications
+              )
+            : product.specifications;
+
         if (
             details.availableDue &&
             details.availableDue !== product.availableDue
@@ -574,7 +841,7 @@ export class ProductService {
             await job.remove();
         }
 
-        await product.update(details);
+        await product.update({ ...details, specifications });
 
         return product.toJSON();
     }
@@ -626,24 +893,514 @@ export class ProductService {
     }
 
     /**
-     * Searches for products based on a query.
+     * Searches for products with filters, facets and cursor pagination.
+     *
+     * @remarks
+     * Queries tolerate typos and highlight the matched parts of the name
+     * and description. Each facet is counted with all filters except its own,
+     * so that the other values of a filtered facet remain selectable.
+     * The category filter also matches the products of its subcategories.
+     * The filterable attributes of the searched category, or of all
+     * categories, are faceted by the values of the product specifications.
+     * Queries are logged on their first page, and a spelling suggestion
+     * is returned when a query matches no products.
+     *
+     * @param filters - The search query, filters, sort and pagination options
+     * @returns A promise resolving to the matched products, facets and next cursor
+     *
+     * @throws {@link InvalidSearchCursorError}
+     * Thrown if the cursor is malformed or belongs to another sort.
+     */
+    public async searchProducts(
+        filters: ProductSearchFilters
+    ): Promise<ProductSearchResult> {
+        const sort = filters.sort ?? (filters.q ? 'relevance' : 'newest');
+        const limit = filters.limit ?? SEARCH_PAGE_SIZE;
+
+        const inStockFilter = { range: { stockQuantity: { gt: 0 } } };
+        const discountedFilter = { range: { discount: { gt: 0 } } };
+        const exclusiveFilter = { term: { membershipExclusive: true } };
+
+        const facetFilters: Record<string, estypes.QueryDslQueryContainer> = {};
+
+        if (filters.categoryId) {
+            facetFilters.categories = {
+                term: { categoryPath: filters.categoryId },
+            };
+        }
+        if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+            facetFilters.priceRanges = {
+                range: {
+                    finalPrice: {
+                        gte: filters.minPrice,
+                        lte: filters.maxPrice,
+                    },
+                },
+            };
+        }
+        if (filters.minRating) {
+            facetFilters.ratings = {
+                range: { rating: { gte: filters.minRating } },
+            };
+        }
+        if (filters.inStock) facetFilters.inStock = inStockFilter;
+        if (filters.discounted) facetFilters.discounted = discountedFilter;
+        if (filters.membershipExclusive !== undefined) {
+            facetFilters.membershipExclusive = {
+                term: { membershipExclusive: filters.membershipExclusive },
+            };
+        }
+        Object.entries(filters.specifications ?? {}).forEach(
+            ([key, filter]) => {
+                facetFilters[`specifications.${key}`] = {
+                    nested: {
+                        path: 'specifications',
+                        query: {
+                            bool: {
+                                filter: [
+                                    { term: { 'specifications.key': key } },
+                                    Array.isArray(filter)
+                                        ? {
+                                              terms: {
+                                                  'specifications.value':
+                                                      filter,
+                                              },
+                                          }
+                                        : {
+                                              range: {
+                                                  'specifications.number': {
+                                                      gte: filter.min,
+                                                      lte: filter.max,
+                                                  },
+                                              },
+                                          },
+                                ],
+                            },
+                        },
+                    },
+                };
+            }
+        );
+
+        const filtersExcept = (
+            facet: string,
+            ...extra: estypes.QueryDslQueryContainer[]
+        ): estypes.QueryDslQueryContainer => ({
+            bool: {
+                filter: [
+                    ...Object.entries(facetFilters)
+                        .filter(([name]) => name !== facet)
+                        .map(([, filter]) => filter),
+                    ...extra,
+                ],
+            },
+        });
+
+        const attributes = await this.attributeService.getFilterableAttributes(
+            filters.categoryId
+        );
+        const attributeKeys = attributes.map(({ key }) => key);
+
+        const res = await client.search<SearchHitSource, SearchAggregations>({
+            index: PRODUCTS_ALIAS,
+            size: limit,
+            track_total_hits: true,
+            _source: ['id', 'rating'],
+            query: filters.q
+                ? {
+                      multi_match: {
+                          query: filters.q,
+                          fields: ['name^3', 'description'],
+                          fuzziness: 'AUTO',
+                          prefix_length: 1,
+                      },
+                  }
+                : { match_all: {} },
+            post_filter: filtersExcept(''),
+            sort: SEARCH_SORTS[sort],
+            search_after: filters.cursor
+                ? this.decodeCursor(filters.cursor, sort)
+                : undefined,
+            suggest: filters.q
+                ? {
+                      didYouMean: {
+                          text: filters.q,
+                          phrase: {
+                              field: 'name.suggest',
+                              size: 1,
+                              gram_size: 3,
+                              direct_generator: [
+                                  {
+                                      field: 'name.suggest',
+                                      suggest_mode: 'always',
+                                  },
+                              ],
+                          },
+                      },
+                  }
+                : undefined,
+            highlight: {
+                fields: {
+                    name: { number_of_fragments: 0 },
+                    description: { fragment_size: 150, number_of_fragments: 2 },
+                },
+            },
+            aggs: {
+                categories: {
+                    filter: filtersExcept('categories'),
+                    aggs: {
+                        values: { terms: { field: 'categoryPath', size: 500 } },
+                    },
+                },
+                priceRanges: {
+                    filter: filtersExcept('priceRanges'),
+                    aggs: {
+                        values: {
+                            range: {
+                                field: 'finalPrice',
+                                ranges: PRICE_RANGES,
+                            },
+                        },
+                    },
+                },
+                ratings: {
+                    filter: filtersExcept('ratings'),
+                    aggs: {
+                        values: {
+                            range: {
+                                field: 'rating',
+                                ranges: RATING_THRESHOLDS.map((from) => ({
+                                    from,
+                                })),
+                            },
+                        },
+                    },
+                },
+                inStock: {
+                    filter: filtersExcept('inStock', inStockFilter),
+                },
+                discounted: {
+                    filter: filtersExcept('discounted', discountedFilter),
+                },
+                membershipExclusive: {
+                    filter: filtersExcept(
+                        'membershipExclusive',
+                        exclusiveFilter
+                    ),
+                },
+                ...(attributeKeys.length && {
+                    specifications: {
+                        filters: {
+                            filters: Object.fromEntries(
+                                attributeKeys.map((key) => [
+                                    key,
+                                    filtersExcept(`specifications.${key}`),
+                                ])
+                            ),
+                        },
+                        aggs: {
+                            values: {
+                                nested: { path: 'specifications' },
+                                aggs: {
+                                    keys: {
+                                        terms: {
+                                            field: 'specifications.key',
+                                            include: attributeKeys,
+                                            size: attributeKeys.length,
+                                        },
+                                        aggs: {
+                                            values: {
+                                                terms: {
+                                                    field: 'specifications.value',
+                                                    size: SPECIFICATION_VALUES_SIZE,
+                                                },
+                                            },
+                                            range: {
+                                                stats: {
+                                                    field: 'specifications.number',
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                }),
+            },
+        });
+
+        const hits = res.hits.hits;
+        const products = await Product.findAll({
+            where: { id: hits.map((hit) => hit._source!.id) },
+            attributes: { exclude: ['deletedAt'] },
+        });
+        const productMap = new Map(
+            products.map((product) => [product.id, product])
+        );
+        const aggregations = res.aggregations!;
+        const total = res.hits.total as estypes.SearchTotalHits;
+        const suggestion = res.suggest?.didYouMean?.[0]?.options;
+
+        if (filters.q && !filters.cursor) {
+            await this.logSearchQuery(filters.q, total.value);
+        }
+
+        return {
+            total: total.value,
+            // Products deleted since they were indexed are skipped
+            products: hits
+                .filter((hit) => productMap.has(hit._source!.id))
+                .map((hit) => ({
+                    ...productMap.get(hit._source!.id)!.toJSON(),
+                    rating: hit._source!.rating,
+                    highlights: hit.highlight ?? {},
+                })),
+            facets: {
+                categories: await this.buildCategoryFacets(
+                    aggregations.categories.values.buckets
+                ),
+                priceRanges: aggregations.priceRanges.values.buckets.map(
+                    ({ from, to, doc_count }) => ({
+                        from,
+                        to,
+                        count: doc_count,
+                    })
+                ),
+                ratings: aggregations.ratings.values.buckets.map(
+                    ({ from, doc_count }) => ({
+                        minRating: from,
+                        count: doc_count,
+                    })
+                ),
+                inStock: aggregations.inStock.doc_count,
+                discounted: aggregations.discounted.doc_count,
+                membershipExclusive: aggregations.membershipExclusive.doc_count,
+                specifications: this.buildSpecificationFacets(
+                    attributes,
+                    aggregations.specifications?.buckets ?? {}
+                ),
+            },
+            nextCursor:
+                hits.length === limit
+                    ? Buffer.from(
+                          JSON.stringify({
+                              sort,
+                              after: hits[hits.length - 1].sort,
+                          })
+                      ).toString('base64url')
+                    : null,
+            didYouMean:
+                !total.value && Array.isArray(suggestion) && suggestion.length
+                    ? suggestion[0].text
+                    : null,
+        };
+    }
+
+    /**
+     * Suggests products, categories and past queries while a query is typed.
+     *
+     * @remarks
+     * Past queries are only suggested if their last search had results.
      *
-     * @param query - The search query
-     * @returns A promise resolving to an array of matched products
+     * @param query - The partially typed query
+     * @returns A promise resolving to the suggestions
      */
-    public async searchProducts(query: string): Promise<ProductObject[]> {
-        const res = await client.search<ProductObject>({
-            index: 'products',
-            body: {
+    public async autocompleteProducts(
+        query: string
+    ): Promise<AutocompleteResult> {
+        const prefix = query.trim().toLowerCase();
+        const escapedPrefix = prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+        const [res, categories, queries] = await Promise.all([
+            client.search<{ id: number; name: string }>({
+                index: PRODUCTS_ALIAS,
+                size: AUTOCOMPLETE_SIZE,
+                _source: ['id', 'name'],
                 query: {
-                    multi_match: {
-                        query: query,
-                        fields: ['name', 'description'],
+                    match: {
+                        'name.autocomplete': { query: prefix, operator: 'and' },
                     },
                 },
+                sort: ['_score', { views: 'desc' }],
+            }),
+            Category.findAll({
+                where: { name: { [Op.substring]: prefix } },
+                attributes: ['id', 'name'],
+                limit: AUTOCOMPLETE_SIZE,
+            }),
+            SearchQuery.find({
+                query: { $regex: `^${escapedPrefix}` },
+                lastResultCount: { $gt: 0 },
+            })
+                .sort({ count: -1 })
+                .limit(AUTOCOMPLETE_SIZE)
+                .select('query')
+                .lean(),
+        ]);
+
+        return {
+            products: res.hits.hits.map((hit) => hit._source!),
+            categories: categories.map((category) => ({
+                id: category.id!,
+                name: category.name,
+            })),
+            queries: queries.map((searchQuery) => searchQuery.query),
+        };
+    }
+
+    /**
+     * Retrieves the most frequent searches that matched no products.
+     *
+     * @param limit - The number of searches to retrieve
+     * @returns A promise resolving to the zero-result searches
+     */
+    public async getZeroResultSearches(limit: number): Promise<ISearchQuery[]> {
+        return await SearchQuery.find({ zeroResultCount: { $gt: 0 } })
+            .sort({ zeroResultCount: -1 })
+            .limit(limit)
+            .select('-_id -__v')
+            .lean();
+    }
+
+    private async assertProductSlugAvailable(slug: string): Promise<void> {
+        if (await Product.findOne({ where: { slug }, paranoid: false })) {
+            throw new ProductAlreadyExistsError(
+                `Product with slug "${slug}" already exists`
+            );
+        }
+    }
+
+    private async withLowestPrices(
+        products: Product[]
+    ): Promise<PricedProduct[]> {
+        const lowestPrices = await this.priceService.getLowestPrices(products);
+
+        return products.map((product) => ({
+            ...product.toJSON(),
+            lowestPrice30Days: lowestPrices.get(product.id)!,
+        }));
+    }
+
+    private detailIncludes(): Includeable[] {
+        return [
+            { model: ProductOption, as: 'options' },
+            { model: ProductVariant, as: 'variants' },
+            {
+                model: ProductMedia,
+                as: 'media',
+                separate: true,
+                order: [
+                    ['position', 'ASC'],
+                    ['id', 'ASC'],
+                ],
             },
+        ];
+    }
+
+    private async logSearchQuery(
+        query: string,
+        resultCount: number
+    ): Promise<void> {
+        await SearchQuery.updateOne(
+            { query: query.trim().toLowerCase() },
+            {
+                $inc: { count: 1, zeroResultCount: resultCount ? 0 : 1 },
+                $set: {
+                    lastResultCount: resultCount,
+                    lastSearchedAt: new Date(),
+                },
+            },
+            { upsert: true }
+        );
+    }
+
+    private decodeCursor(
+        cursor: string,
+        sort: ProductSearchSort
+    ): estypes.SortResults {
+        let decoded: { sort?: string; after?: estypes.SortResults };
+
+        try {
+            decoded = JSON.parse(
+                Buffer.from(cursor, 'base64url').toString('utf-8')
+            );
+        } catch {
+            throw new InvalidSearchCursorError();
+        }
+
+        if (decoded.sort !== sort || !Array.isArray(decoded.after)) {
+            throw new InvalidSearchCursorError(
+                'Search cursor does not match the search sort'
+            );
+        }
+
+        return decoded.after;
+    }
+
+    private buildSpecificationFacets(
+        attributes: CategoryAttribute[],
+        buckets: NonNullable<SearchAggregations['specifications']>['buckets']
+    ): SpecificationFacet[] {
+        return attributes.flatMap((attribute) => {
+            // Each attribute is counted in the bucket without its own filter
+            const bucket = buckets[attribute.key]?.values.keys.buckets.find(
+                ({ key }) => key === attribute.key
+            );
+
+            if (!bucket) return [];
+
+            return [
+                {
+                    key: attribute.key,
+                    name: attribute.name,
+                    type: attribute.type,
+                    unit: attribute.unit,
+                    values: bucket.values.buckets.map(({ key, doc_count }) => ({
+                        value: key,
+                        count: doc_count,
+                    })),
+                    min: attribute.type === 'number' ? bucket.range.min : null,
+                    max: attribute.type === 'number' ? bucket.range.max : null,
+                },
+            ];
+        });
+    }
+
+    private async buildCategoryFacets(
+        buckets: { key: number; doc_count: number }[]
+    ): Promise<CategoryFacet[]> {
+        const counts = new Map(
+            buckets.map(({ key, doc_count }) => [key, doc_count])
+        );
+        const categories = await Category.findAll({
+            where: { id: [...counts.keys()] },
+            attributes: ['id', 'name', 'parentId'],
         });
 
-        return res.hits.hits.map((hit) => hit._source!);
+        const facets = new Map<number, CategoryFacet>(
+            categories.map((category) => [
+                category.id!,
+                {
+                    id: category.id!,
+                    name: category.name,
+                    count: counts.get(category.id!)!,
+                    children: [],
+                },
+            ])
+        );
+        const roots: CategoryFacet[] = [];
+
+        // Every ancestor of a matched category is matched as well
+        for (const category of categories) {
+            const parent =
+                category.parentId !== null
+                    ? facets.get(category.parentId)
+                    : undefined;
+
+            (parent ? parent.children : roots).push(facets.get(category.id!)!);
+        }
+
+        return roots;
     }
 }
@@ -0,0 +1,567 @@
+import path from 'path';
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { Op } from 'sequelize';
+import { parse } from 'csv-parse/sync';
+import { stringify } from 'csv-stringify/sync';
+import { matchedData, validationResult } from 'express-validator';
+import { queue8 } from '@/jobQueues';
+import {
+    Category,
+    Product,
+    ProductImport,
+    ProductVariant,
+} from '@/models/relational';
+import type {
+    ImportFormat,
+    ImportRowError,
+} from '@/models/relational/ProductImport.model';
+import { validateProductImportRow } from '@/middlewares/validation';
+import { InvalidImportFileError, ProductImportNotFoundError } from '@/errors';
+
+const importsDir = path.join(__dirname, '../imports');
+
+const MAX_IMPORT_ROWS = 10000;
+const EXPORT_BATCH_SIZE = 1000;
+const CATEGORY_PATH_SEPARATOR = ' > ';
+
+// Columns of exported files, which can be imported again as they are
+const PRODUCT_COLUMNS = [
+    'sku',
+    'categoryPath',
+    'name',
+    'description',
+    'currency',
+    'price',
+    'discount',
+    'imageUrl',
+    'stockQuantity',
+    'weight',
+    'membershipExclusive',
+] as const;
+
+type ProductRecord = Record<(typeof PRODUCT_COLUMNS)[number], unknown>;
+
+interface ImportRowDetails {
+    sku: string;
+    categoryPath?: string;
+    categoryId?: number;
+    name: string;
+    description: string;
+    currency?: string;
+    price: string | number;
+    discount?: string | number;
+    imageUrl: string;
+    stockQuantity?: string | number;
+    weight: string | number;
+    membershipExclusive?: boolean;
+}
+
+interface ProductImportResponse {
+    id: number;
+    format: ImportFormat;
+    dryRun: boolean;
+    status: string;
+    totalRows: number;
+    createdCount: number;
+    updatedCount: number;
+    failedCount: number;
+    createdAt: Date;
+    completedAt: Date | null;
+}
+
+/**
+ * Service responsible for the bulk import and export of products.
+ *
+ * @remarks
+ * Imports are uploaded as CSV or JSON files and processed by the product
+ * import job. Each row is validated with the product creation validations
+ * and upserted by its SKU. Dry runs validate the rows without writing them.
+ * Rows that fail are collected in an error report, so that a corrected file
+ * containing only those rows can be imported again.
+ */
+export class ProductImportService {
+    /**
+     * Stores an uploaded import file and queues its processing.
+     *
+     * @param username - The username of the admin who uploaded the file
+     * @param file - The uploaded CSV or JSON file
+     * @param dryRun - Whether the rows are only validated
+     * @returns A promise resolving to the queued import
+     *
+     * @throws {@link InvalidImportFileError}
+     * Thrown if the file is missing or is neither CSV nor JSON.
+     */
+    public async queueImport(
+        username: string,
+        file: Express.Multer.File | undefined,
+        dryRun: boolean = false
+    ): Promise<ProductImportResponse> {
+        if (!file) {
+            throw new InvalidImportFileError('No file was uploaded');
+        }
+
+        const format = this.detectFormat(file);
+        const fileName = `${randomUUID()}.${format}`;
+
+        await mkdir(importsDir, { recursive: true });
+        await writeFile(path.join(importsDir, fileName), file.buffer);
+
+        const productImport = await ProductImport.create({
+            username,
+            format,
+            dryRun,
+            fileName,
+        });
+
+        await queue8.add('productImportJob', { importId: productImport.id });
+
+        return this.formatImport(productImport);
+    }
+
+    /**
+     * Retrieves the status and summary of an import.
+     *
+     * @param importId - The id of the import
+     * @returns A promise resolving to the import summary
+     *
+     * @throws {@link ProductImportNotFoundError}
+     * Thrown if the import is not found.
+     */
+    public async getImport(importId: number): Promise<ProductImportResponse> {
+        return this.formatImport(await this.findImport(importId));
+    }
+
+    /**
+     * Builds the CSV error report of an import.
+     *
+     * @param importId - The id of the import
+     * @returns A promise resolving to the CSV report
+     *
+     * @throws {@link ProductImportNotFoundError}
+     * Thrown if the import is not found.
+     */
+    public async getErrorReport(importId: number): Promise<string> {
+        const { rowErrors } = await this.findImport(importId);
+
+        return stringify(rowErrors, {
+            header: true,
+            columns: ['row', 'sku', 'field', 'message'],
+        });
+    }
+
+    /**
+     * Validates and upserts the rows of an import file.
+     *
+     * @remarks
+     * This method is called from the product import job. Rows are processed
+     * one by one, so that a failing row does not prevent the others from
+     * being imported. The file is deleted once the import is processed.
+     *
+     * @param importId - The id of the import
+     * @returns A promise resolving to the processed import
+     *
+     * @throws {@link ProductImportNotFoundError}
+     * Thrown if the import is not found.
+     */
+    public async processImport(importId: number): Promise<ProductImport> {
+        const productImport = await this.findImport(importId);
+        const filePath = path.join(importsDir, productImport.fileName);
+
+        await productImport.update({ status: 'processing' });
+
+        let rows: Record<string, unknown>[];
+
+        try {
+            rows = this.parseRows(
+                await readFile(filePath, 'utf8'),
+                productImport.format
+            );
+        } catch (error) {
+            await unlink(filePath).catch(() => undefined);
+
+            return await productImport.update({
+                status: 'failed',
+                rowErrors: [
+                    {
+                        row: 0,
+                        sku: null,
+                        field: null,
+                        message: (error as Error).message,
+                    },
+                ],
+                completedAt: new Date(),
+            });
+        }
+
+        const categoryIds = this.invertPaths(await this.getCategoryPaths());
+        const seenSkus = new Set<string>();
+        const rowErrors: ImportRowError[] = [];
+        let createdCount = 0;
+        let updatedCount = 0;
+
+        for (const [index, row] of rows.entries()) {
+            const result = await this.importRow(
+                index + 1,
+                row,
+                categoryIds,
+                seenSkus,
+                productImport.dryRun
+            );
+
+            if (result === 'created') createdCount++;
+            else if (result === 'updated') updatedCount++;
+            else rowErrors.push(...result);
+        }
+
+        await unlink(filePath).catch(() => undefined);
+
+        return await productImport.update({
+            status: 'completed',
+            totalRows: rows.length,
+            createdCount,
+            updatedCount,
+            failedCount: new Set(rowErrors.map(({ row }) => row)).size,
+            rowErrors,
+            completedAt: new Date(),
+        });
+    }
+
+    /**
+     * Exports the full catalog with the category path of each product.
+     *
+     * @remarks
+     * Products are read in batches and yielded as chunks of the file,
+     * so that large catalogs are streamed to the client.
+     *
+     * @param format - The format of the exported file
+     * @returns An async generator of the file chunks
+     */
+    public async *exportProducts(format: ImportFormat): AsyncGenerator<string> {
+        const categoryPaths = await this.getCategoryPaths();
+        let lastId = 0;
+        let first = true;
+
+        if (format === 'json') yield '[';
+
+        for (;;) {
+            const products = await Product.findAll({
+                where: { id: { [Op.gt]: lastId } },
+                order: [['id', 'ASC']],
+                limit: EXPORT_BATCH_SIZE,
+            });
+
+            if (!products.length) break;
+
+            const records = products.map(
+                (product): ProductRecord => ({
+                    sku: product.sku,
+                    categoryPath: categoryPaths.get(product.categoryId!) ?? '',
+                    name: product.name,
+                    description: product.description,
+                    currency: product.currency,
+                    price: product.price,
+                    discount: product.discount,
+                    imageUrl: product.imageUrl,
+                    stockQuantity: product.stockQuantity,
+                    weight: product.weight,
+                    membershipExclusive: product.membershipExclusive,
+                })
+            );
+
+            if (format === 'json') {
+                yield (first ? '' : ',') +
+                    records.map((record) => JSON.stringify(record)).join(',');
+            } else {
+                yield stringify(records, {
+                    header: first,
+                    columns: [...PRODUCT_COLUMNS],
+                    cast: { boolean: (value) => `${value}` },
+                });
+            }
+
+            first = false;
+            lastId = products[products.length - 1].id;
+        }
+
+        if (format === 'json') {
+            yield ']';
+        } else if (first) {
+            yield stringify([], {
+                header: true,
+                columns: [...PRODUCT_COLUMNS],
+            });
+        }
+    }
+
+    /**
+     * Validates a row and creates or updates the product with its SKU.
+     *
+     * @returns The performed upsert, or the errors of the row
+     */
+    private async importRow(
+        row: number,
+        values: Record<string, unknown>,
+        categoryIds: Map<string, number>,
+        seenSkus: Set<string>,
+        dryRun: boolean
+    ): Promise<'created' | 'updated' | ImportRowError[]> {
+        const sku =
+            typeof values.sku === 'string' && values.sku.trim()
+                ? values.sku.trim().toUpperCase()
+                : null;
+        const rowError = (
+            message: string,
+            field: string | null = null
+        ): ImportRowError[] => [{ row, sku, field, message }];
+
+        // The row is validated as the body of a product creation request
+        const req = { body: { details: values }, query: {} };
+
+        for (const chain of validateProductImportRow()) {
+            await chain.run(req);
+        }
+
+        const result = validationResult(req);
+
+        if (!result.isEmpty()) {
+            return result.array().map((error) => ({
+                row,
+                sku,
+                field:
+                    error.type === 'field'
+                        ? error.path.replace(/^details\./, '')
+                        : null,
+                message: error.msg,
+            }));
+        }
+
+        if (seenSkus.has(sku!)) {
+            return rowError('SKU is duplicated in the file', 'sku');
+        }
+        seenSkus.add(sku!);
+
+        const { details } = matchedData(req) as { details: ImportRowDetails };
+        const categoryId =
+            details.categoryId ??
+            categoryIds.get(this.normalizePath(details.categoryPath!));
+
+        if (!categoryId || !(await Category.findByPk(categoryId))) {
+            return rowError('Category not found', 'categoryPath');
+        }
+
+        const existing = await Product.findOne({
+            where: { sku: sku! },
+            paranoid: false,
+        });
+
+        if (existing?.isSoftDeleted()) {
+            return rowError('SKU belongs to a deleted product', 'sku');
+        }
+
+        const sameName = await Product.findOne({
+            where: {
+                name: details.name,
+                ...(existing && { id: { [Op.ne]: existing.id } }),
+            },
+        });
+
+        if (sameName) {
+            return rowError(
+                'Product with the same name already exists',
+                'name'
+            );
+        }
+
+        if (dryRun) {
+            return existing ? 'updated' : 'created';
+        }
+
+        // The stock of products with variants is the sum of their variants
+        const hasVariants =
+            !!existing &&
+            (await ProductVariant.count({
+                where: { productId: existing.id },
+            })) > 0;
+        const attributes = {
+            categoryId,
+            sku,
+            name: details.name,
+            description: details.description,
+            price: Number(details.price),
+            imageUrl: details.imageUrl,
+            weight: Number(details.weight),
+            currency: details.currency ?? existing?.currency ?? 'eur',
+            ...(details.discount !== undefined && {
+                discount: Number(details.discount),
+            }),
+            ...(details.stockQuantity !== undefined &&
+                !hasVariants && {
+                    stockQuantity: Number(details.stockQuantity),
+                }),
+            ...(details.membershipExclusive !== undefined && {
+                membershipExclusive: details.membershipExclusive,
+            }),
+        };
+
+        try {
+            if (existing) {
+                await existing.update(attributes);
+                return 'updated';
+            }
+
+            await Product.create(attributes);
+            return 'created';
+        } catch (error) {
+            return rowError((error as Error).message);
+        }
+    }
+
+    private parseRows(
+        content: string,
+        format: ImportFormat
+    ): Record<string, unknown>[] {
+        let rows: unknown;
+
+        try {
+            rows =
+                format === 'json'
+                    ? JSON.parse(content)
+                    : parse(content, {
+                          columns: true,
+                          bom: true,
+                          skip_empty_lines: true,
+                          trim: true,
+                      });
+        } catch (error) {
+            throw new InvalidImportFileError(
+                `File could not be parsed: ${(error as Error).message}`
+            );
+        }
+
+        if (
+            !Array.isArray(rows) ||
+            rows.some((row) => !row || typeof row !== 'object')
+        ) {
+            throw new InvalidImportFileError(
+                'File must contain an array of product objects'
+            );
+        }
+
+        if (rows.length > MAX_IMPORT_ROWS) {
+            throw new InvalidImportFileError(
+                `File cannot contain more than ${MAX_IMPORT_ROWS} rows`
+            );
+        }
+
+        return format === 'csv' ? rows.map(this.normalizeCsvRow) : rows;
+    }
+
+    /**
+     * Converts the string values of a CSV row to the types of JSON rows.
+     */
+    private normalizeCsvRow(
+        row: Record<string, string>
+    ): Record<string, unknown> {
+        const values: Record<string, unknown> = {};
+
+        for (const [column, value] of Object.entries(row)) {
+            if (value === '') continue;
+
+            values[column] =
+                column === 'membershipExclusive' &&
+                ['true', 'false'].includes(value.toLowerCase())
+                    ? value.toLowerCase() === 'true'
+                    : value;
+        }
+
+        return values;
+    }
+
+    private detectFormat(file: Express.Multer.File): ImportFormat {
+        const extension = path.extname(file.originalname).toLowerCase();
+
+        if (extension === '.csv' || file.mimetype === 'text/csv') {
+            return 'csv';
+        }
+        if (extension === '.json' || file.mimetype === 'application/json') {
+            return 'json';
+        }
+
+        throw new InvalidImportFileError(
+            'Import file must be either a CSV or a JSON file'
+        );
+    }
+
+    /**
+     * Maps the id of each category to its path from the top-level category.
+     */
+    private async getCategoryPaths(): Promise<Map<number, string>> {
+        const categories = await Category.findAll({
+            attributes: ['id', 'name', 'parentId'],
+        });
+        const categoryMap = new Map(
+            categories.map((category) => [category.id!, category])
+        );
+        const paths = new Map<number, string>();
+
+        for (const category of categories) {
+            const names: string[] = [];
+            const visited = new Set<number>();
+            let current = category as Category | undefined;
+
+            while (current && !visited.has(current.id!)) {
+                visited.add(current.id!);
+                names.unshift(current.name);
+                current = current.parentId
+                    ? categoryMap.get(current.parentId)
+                    : undefined;
+            }
+
+            paths.set(category.id!, names.join(CATEGORY_PATH_SEPARATOR));
+        }
+
+        return paths;
+    }
+
+    private invertPaths(paths: Map<number, string>): Map<string, number> {
+        return new Map(
+            [...paths].map(([id, categoryPath]) => [
+                this.normalizePath(categoryPath),
+                id,
+            ])
+        );
+    }
+
+    private normalizePath(categoryPath: string): string {
+        return categoryPath
+            .split('>')
+            .map((name) => name.trim().toLowerCase())
+            .join(CATEGORY_PATH_SEPARATOR);
+    }
+
+    private formatImport(productImport: ProductImport): ProductImportResponse {
+        return {
+            id: productImport.id,
+            format: productImport.format,
+            dryRun: productImport.dryRun,
+            status: productImport.status,
+            totalRows: productImport.totalRows,
+            createdCount: productImport.createdCount,
+            updatedCount: productImport.updatedCount,
+            failedCount: productImport.failedCount,
+            createdAt: productImport.createdAt,
+            completedAt: productImport.completedAt,
+        };
+    }
+
+    private async findImport(importId: number): Promise<ProductImport> {
+        const productImport = await ProductImport.findByPk(importId);
+
+        if (!productImport) {
+            throw new ProductImportNotFoundError();
+        }
+
+        return productImport;
+    }
+}
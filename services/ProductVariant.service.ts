@@ -0,0 +1,502 @@
+import { sequelize } from '@/config/db';
+import { Op } from 'sequelize';
+import type { Transaction } from 'sequelize';
+import {
+    BundleComponent,
+    Product,
+    ProductOption,
+    ProductVariant,
+    SearchOutbox,
+} from '@/models/relational';
+import {
+    ProductNotFoundError,
+    ProductVariantNotFoundError,
+    ProductVariantRequiredError,
+    ProductVariantAlreadyExistsError,
+    InvalidVariantOptionsError,
+    ProductOptionNotFoundError,
+    ProductOptionInUseError,
+} from '@/errors';
+
+interface OptionDetails {
+    name: string;
+    values: string[];
+    position?: number;
+}
+
+interface VariantDetails {
+    sku: string;
+    options: Record<string, string>;
+    price?: number | null;
+    weight?: number | null;
+    stockQuantity?: number;
+    imageUrl?: string | null;
+}
+
+interface ProductVariantsResponse {
+    options: ProductOption[];
+    variants: ProductVariant[];
+}
+
+/**
+ * Service responsible for the options and variants of products.
+ *
+ * @remarks
+ * Options are the types a product varies in (e.g. size or color), and each
+ * variant picks one value of every option. Variants may override the price,
+ * weight and image of their product and hold their own stock. The stock of a
+ * product with variants is kept equal to the sum of its variants' stock.
+ */
+export class ProductVariantService {
+    /**
+     * Retrieves the options and variants of a product.
+     *
+     * @param productId - The id of the product
+     * @returns A promise resolving to the product options and variants
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     */
+    public async getProductVariants(
+        productId: number
+    ): Promise<ProductVariantsResponse> {
+        await this.findProduct(productId);
+
+        const [options, variants] = await Promise.all([
+            ProductOption.findAll({
+                where: { productId },
+                order: [
+                    ['position', 'ASC'],
+                    ['id', 'ASC'],
+                ],
+            }),
+            ProductVariant.findAll({
+                where: { productId },
+                order: [['id', 'ASC']],
+            }),
+        ]);
+
+        return { options, variants };
+    }
+
+    /**
+     * Adds an option to a product.
+     *
+     * @param productId - The id of the product
+     * @param details - The option name and values
+     * @returns A promise resolving to the created option
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     *
+     * @throws {@link ProductOptionInUseError}
+     * Thrown if the product already has variants, which lack the new option.
+     *
+     * @throws {@link InvalidVariantOptionsError}
+     * Thrown if the product already has an option with the same name.
+     */
+    public async createOption(
+        productId: number,
+        details: OptionDetails
+    ): Promise<ProductOption> {
+        await this.findProduct(productId);
+
+        if (await ProductVariant.count({ where: { productId } })) {
+            throw new ProductOptionInUseError(
+                'Options cannot be added to a product that has variants'
+            );
+        }
+
+        const existing = await ProductOption.findOne({
+            where: { productId, name: details.name },
+        });
+
+        if (existing) {
+            throw new InvalidVariantOptionsError(
+                `Product already has a "${details.name}" option`
+            );
+        }
+
+        return await ProductOption.create({
+            productId,
+            name: details.name,
+            values: [...new Set(details.values)],
+            position: details.position,
+        });
+    }
+
+    /**
+     * Updates the values or position of a product option.
+     *
+     * @param productId - The id of the product
+     * @param optionId - The id of the option
+     * @param details - The details to update
+     * @returns A promise resolving to the updated option
+     *
+     * @throws {@link ProductOptionNotFoundError}
+     * Thrown if the product has no option with the given id.
+     *
+     * @throws {@link ProductOptionInUseError}
+     * Thrown if a removed value is used by a variant.
+     */
+    public async updateOption(
+        productId: number,
+        optionId: number,
+        details: Partial<Omit<OptionDetails, 'name'>>
+    ): Promise<ProductOption> {
+        const option = await this.findOption(productId, optionId);
+
+        if (details.values) {
+            const values = new Set(details.values);
+            const variants = await ProductVariant.findAll({
+                where: { productId },
+                attributes: ['sku', 'options'],
+            });
+            const variant = variants.find(
+                ({ options }) => !values.has(options[option.name])
+            );
+
+            if (variant) {
+                throw new ProductOptionInUseError(
+                    `Value "${variant.options[option.name]}" of option "${option.name}" is used by variant "${variant.sku}"`
+                );
+            }
+
+            option.values = [...values];
+        }
+
+        if (details.position !== undefined) {
+            option.position = details.position;
+        }
+
+        return await option.save();
+    }
+
+    /**
+     * Deletes an option of a product.
+     *
+     * @param productId - The id of the product
+     * @param optionId - The id of the option
+     *
+     * @throws {@link ProductOptionNotFoundError}
+     * Thrown if the product has no option with the given id.
+     *
+     * @throws {@link ProductOptionInUseError}
+     * Thrown if the product has variants.
+     */
+    public async deleteOption(
+        productId: number,
+        optionId: number
+    ): Promise<void> {
+        const option = await this.findOption(productId, optionId);
+
+        if (await ProductVariant.count({ where: { productId } })) {
+            throw new ProductOptionInUseError(
+                'Options cannot be deleted from a product that has variants'
+            );
+        }
+
+        await option.destroy();
+    }
+
+    /**
+     * Creates a variant of a product.
+     *
+     * @param productId - The id of the product
+     * @param details - The variant details
+     * @returns A promise resolving to the created variant
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     *
+     * @throws {@link InvalidVariantOptionsError}
+     * Thrown if the options do not pick one value of every product option.
+     *
+     * @throws {@link ProductVariantAlreadyExistsError}
+     * Thrown if the SKU or the option combination is already used.
+     */
+    public async createVariant(
+        productId: number,
+        details: VariantDetails
+    ): Promise<ProductVariant> {
+        await this.findProduct(productId);
+        await this.assertOptions(productId, details.options);
+        await this.assertUnique(productId, details.sku, details.options);
+
+        const transaction = await sequelize.transaction();
+
+        try {
+            const variant = await ProductVariant.create(
+                { ...details, productId },
+                { transaction }
+            );
+
+            await this.syncProductStock(productId, transaction);
+            await transaction.commit();
+
+            return variant;
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    /**
+     * Updates a variant of a product.
+     *
+     * @param productId - The id of the product
+     * @param variantId - The id of the variant
+     * @param details - The details to update
+     * @returns A promise resolving to the updated variant
+     *
+     * @throws {@link ProductVariantNotFoundError}
+     * Thrown if the product has no variant with the given id.
+     *
+     * @throws {@link InvalidVariantOptionsError}
+     * Thrown if the options do not pick one value of every product option.
+     *
+     * @throws {@link ProductVariantAlreadyExistsError}
+     * Thrown if the SKU or the option combination is already used.
+     */
+    public async updateVariant(
+        productId: number,
+        variantId: number,
+        details: Partial<VariantDetails>
+    ): Promise<ProductVariant> {
+        const variant = await this.findVariant(productId, variantId);
+
+        if (details.options) {
+            await this.assertOptions(productId, details.options);
+        }
+
+        if (details.sku || details.options) {
+            await this.assertUnique(
+                productId,
+                details.sku ?? variant.sku,
+                details.options ?? variant.options,
+                variant.id
+            );
+        }
+
+        const transaction = await sequelize.transaction();
+
+        try {
+            await variant.update(details, { transaction });
+
+            if (details.stockQuantity !== undefined) {
+                await this.syncProductStock(productId, transaction);
+            }
+
+            await transaction.commit();
+
+            return variant;
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes a variant of a product.
+     *
+     * @param productId - The id of the product
+     * @param variantId - The id of the variant
+     *
+     * @throws {@link ProductVariantNotFoundError}
+     * Thrown if the product has no variant with the given id.
+     */
+    public async deleteVariant(
+        productId: number,
+        variantId: number
+    ): Promise<void> {
+        const variant = await this.findVariant(productId, variantId);
+        const transaction = await sequelize.transaction();
+
+        try {
+            await variant.destroy({ transaction });
+            await this.syncProductStock(productId, transaction);
+            await transaction.commit();
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    /**
+     * Resolves the variant selected for an item of a product.
+     *
+     * @remarks
+     * Products with variants can only be bought as one of their variants.
+     *
+     * @param productId - The id of the product
+     * @param [variantId] - The id of the selected variant
+     * @param [transaction] - An existing transaction
+     * @returns A promise resolving to the variant, or null for products without variants
+     *
+     * @throws {@link ProductVariantNotFoundError}
+     * Thrown if the product has no variant with the given id.
+     *
+     * @throws {@link ProductVariantRequiredError}
+     * Thrown if no variant is selected for a product with variants.
+     */
+    public async resolveVariant(
+        productId: number,
+        variantId?: number | null,
+        transaction?: Transaction
+    ): Promise<ProductVariant | null> {
+        if (variantId) {
+            return await this.findVariant(productId, variantId, transaction);
+        }
+
+        if (await ProductVariant.count({ where: { productId }, transaction })) {
+            throw new ProductVariantRequiredError(
+                `A variant of product with id "${productId}" must be selected`
+            );
+        }
+
+        return null;
+    }
+
+    /**
+     * Checks that the options pick exactly one allowed value of every option of the product.
+     */
+    private async assertOptions(
+        productId: number,
+        options: Record<string, string>
+    ): Promise<void> {
+        const productOptions = await ProductOption.findAll({
+            where: { productId },
+        });
+
+        if (!productOptions.length) {
+            throw new InvalidVariantOptionsError(
+                'Options must be added to the product before its variants'
+            );
+        }
+
+        const unknown = Object.keys(options).find(
+            (name) => !productOptions.some((option) => option.name === name)
+        );
+
+        if (unknown) {
+            throw new InvalidVariantOptionsError(
+                `Product has no "${unknown}" option`
+            );
+        }
+
+        for (const option of productOptions) {
+            if (!option.values.includes(options[option.name])) {
+                throw new InvalidVariantOptionsError(
+                    `Option "${option.name}" must be one of: ${option.values.join(', ')}`
+                );
+            }
+        }
+    }
+
+    private async assertUnique(
+        productId: number,
+        sku: string,
+        options: Record<string, string>,
+        excludedId?: number
+    ): Promise<void> {
+        const skuVariant = await ProductVariant.findOne({
+            where: {
+                sku: sku.trim().toUpperCase(),
+                ...(excludedId && { id: { [Op.ne]: excludedId } }),
+            },
+            paranoid: false,
+        });
+
+        if (skuVariant) {
+            throw new ProductVariantAlreadyExistsError(
+                `Variant with SKU "${skuVariant.sku}" already exists`
+            );
+        }
+
+        const variants = await ProductVariant.findAll({
+            where: {
+                productId,
+                ...(excludedId && { id: { [Op.ne]: excludedId } }),
+            },
+            attributes: ['sku', 'options'],
+        });
+        const duplicate = variants.find((variant) =>
+            Object.entries(options).every(
+                ([name, value]) => variant.options[name] === value
+            )
+        );
+
+        if (duplicate) {
+            throw new ProductVariantAlreadyExistsError(
+                `Variant "${duplicate.sku}" has the same options`
+            );
+        }
+    }
+
+    /**
+     * Sets the product stock to the sum of its variants' stock.
+     */
+    private async syncProductStock(
+        productId: number,
+        transaction: Transaction
+    ): Promise<void> {
+        const stockQuantity: number =
+            (await ProductVariant.sum('stockQuantity', {
+                where: { productId },
+                transaction,
+            })) ?? 0;
+
+        await Product.update(
+            { stockQuantity },
+            { where: { id: productId }, transaction }
+        );
+        await SearchOutbox.record([productId], transaction);
+        await BundleComponent.syncBundles([productId], transaction);
+    }
+
+    private async findProduct(productId: number): Promise<Product> {
+        const product = await Product.findByPk(productId, {
+            attributes: ['id'],
+        });
+
+        if (!product) {
+            throw new ProductNotFoundError();
+        }
+
+        return product;
+    }
+
+    private async findOption(
+        productId: number,
+        optionId: number
+    ): Promise<ProductOption> {
+        const option = await ProductOption.findOne({
+            where: { id: optionId, productId },
+        });
+
+        if (!option) {
+            throw new ProductOptionNotFoundError();
+        }
+
+        return option;
+    }
+
+    private async findVariant(
+        productId: number,
+        variantId: number,
+        transaction?: Transaction
+    ): Promise<ProductVariant> {
+        const variant = await ProductVariant.findOne({
+            where: { id: variantId, productId },
+            transaction,
+        });
+
+        if (!variant) {
+            throw new ProductVariantNotFoundError(
+                `Variant with id "${variantId}" of product with id "${productId}" not found`
+            );
+        }
+
+        return variant;
+    }
+}
@@ -1,6 +1,6 @@
 import { Model } from 'mongoose';
 import { PlatformRating, ProductRating, IRating } from '@/models/document';
-import { User, Product, Customer } from '@/models/relational';
+import { User, Product, Customer, SearchOutbox } from '@/models/relational';
 import {
     UserNotFoundError,
     ProductNotFoundError,
@@ -132,6 +132,8 @@ export class RatingService {
             ...details,
         });
 
+        await SearchOutbox.record([productId]);
+
         return {
             userId,
             productId,
@@ -351,12 +353,16 @@ export class RatingService {
         ratingId: string,
         details: ProductRatingDetails
     ): Promise<ProductRatingResponse> {
-        return (await this.updateRating(
+        const rating = (await this.updateRating(
             ProductRating,
             userId,
             ratingId,
             details
         )) as ProductRatingResponse;
+
+        await SearchOutbox.record([rating.productId]);
+
+        return rating;
     }
 
     /**
@@ -412,12 +418,16 @@ export class RatingService {
             if (!deleted) {
                 throw new RatingNotFoundError('Product rating not found');
             }
+
+            await SearchOutbox.record([deleted.productId]);
         } else {
             const deleted = await ProductRating.findByIdAndDelete(ratingId);
 
             if (!deleted) {
                 throw new RatingNotFoundError('Product rating not found');
             }
+
+            await SearchOutbox.record([deleted.productId]);
         }
     }
 }
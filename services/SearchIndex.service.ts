@@ -0,0 +1,463 @@
+import { Op } from 'sequelize';
+import type { estypes } from '@elastic/elasticsearch';
+import client from '@/config/elasticsearch';
+import { queue7 } from '@/jobQueues';
+import { Logger } from '@/logger';
+import { Category, Product, SearchOutbox } from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
+import { ProductRating } from '@/models/document';
+import { ReindexInProgressError } from '@/errors';
+
+export const PRODUCTS_ALIAS = 'products';
+
+// Points at the index being built by a running reindex
+const REINDEX_ALIAS = `${PRODUCTS_ALIAS}_reindex`;
+
+const OUTBOX_BATCH_SIZE = 500;
+const REINDEX_BATCH_SIZE = 1000;
+const REINDEX_JOB_ID = 'productsReindex';
+
+// Bump on every mapping change, so that outdated indices are rebuilt
+const MAPPING_VERSION = 3;
+
+const productSettings: estypes.IndicesIndexSettings = {
+    analysis: {
+        filter: {
+            autocomplete_filter: {
+                type: 'edge_ngram',
+                min_gram: 2,
+                max_gram: 20,
+            },
+            shingle_filter: {
+                type: 'shingle',
+                min_shingle_size: 2,
+                max_shingle_size: 3,
+            },
+        },
+        analyzer: {
+            // Indexes the prefixes of each word for search-as-you-type
+            autocomplete: {
+                type: 'custom',
+                tokenizer: 'standard',
+                filter: ['lowercase', 'asciifolding', 'autocomplete_filter'],
+            },
+            autocomplete_search: {
+                type: 'custom',
+                tokenizer: 'standard',
+                filter: ['lowercase', 'asciifolding'],
+            },
+            // Unstemmed word sequences for the did-you-mean suggestions
+            suggest: {
+                type: 'custom',
+                tokenizer: 'standard',
+                filter: ['lowercase', 'shingle_filter'],
+            },
+        },
+    },
+};
+
+const productMappings: estypes.MappingTypeMapping = {
+    dynamic: 'strict',
+    _meta: { version: MAPPING_VERSION },
+    properties: {
+        id: { type: 'integer' },
+        categoryId: { type: 'integer' },
+        categoryPath: { type: 'integer' },
+        name: {
+            type: 'text',
+            analyzer: 'english',
+            fields: {
+                keyword: { type: 'keyword', ignore_above: 256 },
+                autocomplete: {
+                    type: 'text',
+                    analyzer: 'autocomplete',
+                    search_analyzer: 'autocomplete_search',
+                },
+                suggest: { type: 'text', analyzer: 'suggest' },
+            },
+        },
+        description: { type: 'text', analyzer: 'english' },
+        // Nested, so that filters match the key and value of the same attribute
+        specifications: {
+            type: 'nested',
+            properties: {
+                key: { type: 'keyword' },
+                value: { type: 'keyword' },
+                number: { type: 'double' },
+            },
+        },
+        currency: { type: 'keyword' },
+        price: { type: 'scaled_float', scaling_factor: 100 },
+        discount: { type: 'float' },
+        finalPrice: { type: 'scaled_float', scaling_factor: 100 },
+        availableDue: { type: 'date' },
+        imageUrl: { type: 'keyword', index: false },
+        stockQuantity: { type: 'integer' },
+        weight: { type: 'float' },
+        views: { type: 'integer' },
+        rating: { type: 'float' },
+        ratingCount: { type: 'integer' },
+        membershipExclusive: { type: 'boolean' },
+        createdAt: { type: 'date' },
+        updatedAt: { type: 'date' },
+    },
+};
+
+interface ProductDocument {
+    id: number;
+    categoryId: number;
+    categoryPath: number[]; // The category and all of its ancestors
+    name: string;
+    description: string;
+    specifications: SpecificationEntry[];
+    currency: string;
+    price: number;
+    discount: number;
+    finalPrice: number;
+    availableDue: Date | null;
+    imageUrl: string;
+    stockQuantity: number;
+    weight: number;
+    views: number;
+    rating: number | null;
+    ratingCount: number;
+    membershipExclusive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+interface SpecificationEntry {
+    key: string;
+    value: string; // Numbers and booleans are also indexed as strings for term facets
+    number: number | null;
+}
+
+type BulkOperation = estypes.BulkOperationContainer | ProductDocument;
+
+/**
+ * Service responsible for keeping the products search index in sync.
+ *
+ * @remarks
+ * Product changes are recorded in the search outbox within the transaction
+ * of the change and are bulk-indexed by the search index sync job.
+ * Searches always go through the {@link PRODUCTS_ALIAS} alias, so a full
+ * reindex builds a new index and swaps the alias once it is complete.
+ * The outbox is not synced while a reindex runs, so that its changes are
+ * applied to the new index once the alias has been swapped.
+ * Indices built with an older mapping version are rebuilt by the next sync.
+ */
+export class SearchIndexService {
+    private logger: Logger;
+
+    constructor() {
+        this.logger = new Logger();
+    }
+
+    /**
+     * Indexes the products recorded in the search outbox.
+     *
+     * @remarks
+     * This method is called from the search index sync job.
+     * Entries of products that fail to index are kept for the next run.
+     * Nothing is synced while a reindex runs, the entries are kept until
+     * the new index has replaced the previous one.
+     *
+     * @returns A promise resolving to the number of synchronized products
+     */
+    public async syncOutbox(): Promise<number> {
+        await this.ensureIndex();
+
+        const entries = await SearchOutbox.findAll({
+            order: [['id', 'ASC']],
+            limit: OUTBOX_BATCH_SIZE,
+        });
+
+        if (!entries.length) return 0;
+
+        // Checked after reading the entries, so that a reindex starting later
+        // reads the products after these changes
+        if (await client.indices.existsAlias({ name: REINDEX_ALIAS })) {
+            return 0;
+        }
+
+        const productIds = [
+            ...new Set(entries.map(({ productId }) => productId)),
+        ];
+        const products = await Product.findAll({ where: { id: productIds } });
+        const documents = await this.toDocuments(products);
+        const documentMap = new Map(
+            documents.map((document) => [document.id, document])
+        );
+
+        // Deleted products are not found, so they are removed from the index
+        const operations = productIds.flatMap((productId): BulkOperation[] => {
+            const document = documentMap.get(productId);
+            const action = { _index: PRODUCTS_ALIAS, _id: `${productId}` };
+
+            return document
+                ? [{ index: action }, document]
+                : [{ delete: action }];
+        });
+
+        const failedIds = await this.bulk(operations);
+
+        await SearchOutbox.destroy({
+            where: {
+                id: entries
+                    .filter(({ productId }) => !failedIds.has(productId))
+                    .map(({ id }) => id),
+            },
+        });
+
+        return productIds.length - failedIds.size;
+    }
+
+    /**
+     * Queues a full reindex of the products.
+     *
+     * @throws {@link ReindexInProgressError}
+     * Thrown if a reindex is already queued or running.
+     */
+    public async queueReindex(): Promise<void> {
+        const job = await queue7.getJob(REINDEX_JOB_ID);
+
+        if (job && !(await job.isFailed())) {
+            throw new ReindexInProgressError();
+        }
+
+        await job?.remove();
+        await queue7.add('reindexJob', {}, { jobId: REINDEX_JOB_ID });
+    }
+
+    /**
+     * Rebuilds the products search index without downtime.
+     *
+     * @remarks
+     * This method is called from the reindex job. All products are indexed
+     * into a new index, which replaces the previous one behind the alias
+     * in a single atomic alias update. The previous index is then deleted.
+     * Until then, the new index is marked by {@link REINDEX_ALIAS}, which
+     * pauses the outbox sync. An index left behind by an interrupted reindex
+     * is deleted first.
+     *
+     * @returns A promise resolving to the name of the new index
+     */
+    public async reindexProducts(): Promise<string> {
+        const index = `${PRODUCTS_ALIAS}_${Date.now()}`;
+
+        if (await client.indices.existsAlias({ name: REINDEX_ALIAS })) {
+            const staleIndices = await client.indices.getAlias({
+                name: REINDEX_ALIAS,
+            });
+
+            await client.indices.delete(
+                { index: Object.keys(staleIndices) },
+                { ignore: [404] }
+            );
+        }
+
+        await client.indices.create({
+            index,
+            settings: productSettings,
+            mappings: productMappings,
+            aliases: { [REINDEX_ALIAS]: {} },
+        });
+
+        try {
+            let lastId = 0;
+
+            for (;;) {
+                const products = await Product.findAll({
+                    where: { id: { [Op.gt]: lastId } },
+                    order: [['id', 'ASC']],
+                    limit: REINDEX_BATCH_SIZE,
+                });
+
+                if (!products.length) break;
+
+                const documents = await this.toDocuments(products);
+                const failedIds = await this.bulk(
+                    documents.flatMap((document) => [
+                        { index: { _index: index, _id: `${document.id}` } },
+                        document,
+                    ])
+                );
+
+                if (failedIds.size) {
+                    throw new Error(
+                        `Failed to index products: ${[...failedIds].join(', ')}`
+                    );
+                }
+
+                lastId = products[products.length - 1].id;
+            }
+
+            await client.indices.refresh({ index });
+            await this.swapAlias(index);
+        } catch (error) {
+            await client.indices.delete({ index }, { ignore: [404] });
+            throw error;
+        }
+
+        return index;
+    }
+
+    private async ensureIndex(): Promise<void> {
+        if (await client.indices.existsAlias({ name: PRODUCTS_ALIAS })) {
+            const indices = await client.indices.getMapping({
+                index: PRODUCTS_ALIAS,
+            });
+            const outdated = Object.values(indices).some(
+                ({ mappings }) => mappings._meta?.version !== MAPPING_VERSION
+            );
+
+            if (outdated) {
+                await this.reindexProducts();
+            }
+            return;
+        }
+
+        // A concrete index from before aliases were used is migrated
+        if (await client.indices.exists({ index: PRODUCTS_ALIAS })) {
+            await this.reindexProducts();
+            return;
+        }
+
+        const index = `${PRODUCTS_ALIAS}_${Date.now()}`;
+
+        await client.indices.create({
+            index,
+            settings: productSettings,
+            mappings: productMappings,
+            aliases: { [PRODUCTS_ALIAS]: {} },
+        });
+    }
+
+    private async swapAlias(index: string): Promise<void> {
+        const previousIndices = (await client.indices.existsAlias({
+            name: PRODUCTS_ALIAS,
+        }))
+            ? Object.keys(
+                  await client.indices.getAlias({ name: PRODUCTS_ALIAS })
+              )
+            : [];
+        const hasLegacyIndex =
+            !previousIndices.length &&
+            (await client.indices.exists({ index: PRODUCTS_ALIAS }));
+
+        const actions: estypes.IndicesUpdateAliasesAction[] = [
+            ...previousIndices.map((previousIndex) => ({
+                remove: { index: previousIndex, alias: PRODUCTS_ALIAS },
+            })),
+            ...(hasLegacyIndex
+                ? [{ remove_index: { index: PRODUCTS_ALIAS } }]
+                : []),
+            { add: { index, alias: PRODUCTS_ALIAS } },
+            { remove: { index, alias: REINDEX_ALIAS } },
+        ];
+
+        await client.indices.updateAliases({ actions });
+
+        for (const previousIndex of previousIndices) {
+            await client.indices.delete(
+                { index: previousIndex },
+                { ignore: [404] }
+            );
+        }
+    }
+
+    private async bulk(operations: BulkOperation[]): Promise<Set<number>> {
+        const failedIds = new Set<number>();
+        const res = await client.bulk({ operations });
+
+        if (res.errors) {
+            for (const item of res.items) {
+                const result = Object.values(item)[0];
+
+                if (result?.error) {
+                    failedIds.add(Number(result._id));
+                    this.logger.error(
+                        `Failed to index product "${result._id}": ${result.error.reason}`
+                    );
+                }
+            }
+        }
+
+        return failedIds;
+    }
+
+    private async toDocuments(products: Product[]): Promise<ProductDocument[]> {
+        const [categories, ratings] = await Promise.all([
+            Category.findAll({
+                attributes: ['id', 'parentId'],
+                paranoid: false,
+            }),
+            ProductRating.aggregate<{
+                _id: number;
+                average: number;
+                count: number;
+            }>([
+                {
+                    $match: {
+                        productId: { $in: products.map(({ id }) => id) },
+                    },
+                },
+                {
+                    $group: {
+                        _id: '$productId',
+                        average: { $avg: '$rating' },
+                        count: { $sum: 1 },
+                    },
+                },
+            ]),
+        ]);
+
+        const parentIds = new Map(
+            categories.map((category) => [category.id, category.parentId])
+        );
+        const ratingMap = new Map(
+            ratings.map((rating) => [rating._id, rating])
+        );
+
+        return products.map((product) => {
+            const categoryPath: number[] = [];
+            let categoryId: number | null | undefined = product.categoryId;
+
+            while (categoryId && !categoryPath.includes(categoryId)) {
+                categoryPath.push(categoryId);
+                categoryId = parentIds.get(categoryId);
+            }
+
+            const rating = ratingMap.get(product.id);
+
+            return {
+                id: product.id,
+                categoryId: product.categoryId!,
+                categoryPath,
+                name: product.name,
+                description: product.description,
+                specifications: Object.entries(product.specifications).map(
+                    ([key, value]) => ({
+                        key,
+                        value: String(value),
+                        number: typeof value === 'number' ? value : null,
+                    })
+                ),
+                currency: product.currency,
+                price: product.price,
+                discount: product.discount,
+                finalPrice: discountedPrice(product.price, product.discount),
+                availableDue: product.availableDue,
+                imageUrl: product.imageUrl,
+                stockQuantity: product.stockQuantity,
+                weight: product.weight,
+                views: product.views,
+                rating: rating ? parseFloat(rating.average.toFixed(2)) : null,
+                ratingCount: rating?.count ?? 0,
+                membershipExclusive: product.membershipExclusive,
+                createdAt: product.createdAt,
+                updatedAt: product.updatedAt,
+            };
+        });
+    }
+}
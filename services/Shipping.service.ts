@@ -4,9 +4,11 @@ import {
     Cart,
     Customer,
     Product,
+    ProductVariant,
     CartItem,
 } from '@/models/relational';
 import { ShippingMethod, ShippingWeight } from '@/models/document';
+import { BundleService } from './Bundle.service';
 import {
     ShippingLocationNotFoundError,
     ShippingOptionNotFoundError,
@@ -20,6 +22,15 @@ interface ShippingCountryResponse {
     id?: number;
     name: string;
     rate: number;
+    vatRate?: number;
+    reducedVatRate?: number | null;
+    pricesIncludeTax?: boolean;
+}
+
+interface TaxRateDetails {
+    vatRate: number;
+    reducedVatRate?: number | null;
+    pricesIncludeTax?: boolean;
 }
 
 interface ShippingCityResponse {
@@ -42,6 +53,7 @@ interface ShippingWeightResponse {
 
 interface ProductItem {
     productId: number;
+    variantId?: number | null;
     quantity: number;
 }
 
@@ -62,6 +74,12 @@ type WeightCategory =
  * Service responsible for shipping-related operations
  */
 export class ShippingService {
+    private bundleService: BundleService;
+
+    constructor() {
+        this.bundleService = new BundleService();
+    }
+
     /**
      * Adds a country to the Shipping Countries.
      *
@@ -175,6 +193,31 @@ export class ShippingService {
         return country.toJSON();
     }
 
+    /**
+     * Updates the VAT rates of a shipping country.
+     *
+     * @param countryId - Country id
+     * @param details - The standard and reduced rates and whether prices include them
+     * @returns A promise that resolves to the updated country
+     *
+     * @throws {@link ShippingLocationNotFoundError}
+     * Thrown if the country is not found.
+     */
+    public async updateCountryTaxRates(
+        countryId: number,
+        details: TaxRateDetails
+    ): Promise<ShippingCountryResponse> {
+        const country = await ShippingCountry.findByPk(countryId);
+
+        if (!country) {
+            throw new ShippingLocationNotFoundError('country');
+        }
+
+        await country.update(details);
+
+        return country.toJSON();
+    }
+
     /**
      * Updates a shipping city.
      *
@@ -315,7 +358,7 @@ export class ShippingService {
 
         const cartItems = await CartItem.findAll({
             where: { cartId: cart.id },
-            attributes: ['productId', 'quantity'],
+            attributes: ['productId', 'variantId', 'quantity'],
         }).then((items) =>
             items
                 .map((item) => item.toJSON())
@@ -334,14 +377,19 @@ export class ShippingService {
     /**
      * Determines the order items weight range.
      *
+     * @remarks
+     * Variants without their own weight weigh as much as their product,
+     * and bundles weigh as much as their components.
+     *
      * @param productItems - The product items. Either cart items or order items
      * @returns A promise that resolves to a string representing the weight range
      */
     private async determineWeightCategory(
         productItems: ProductItem[]
     ): Promise<{ weightCategory: WeightCategory; orderWeight: number }> {
+        const items = await this.bundleService.expandItems(productItems);
         const orderWeight = await Promise.all(
-            productItems.map(async (item) => {
+            items.map(async (item) => {
                 const product = await Product.findByPk(item.productId, {
                     attributes: ['weight'],
                 });
@@ -350,7 +398,13 @@ export class ShippingService {
                     throw new ProductNotFoundError();
                 }
 
-                return product.weight * item.quantity;
+                const variant = item.variantId
+                    ? await ProductVariant.findByPk(item.variantId, {
+                          attributes: ['weight'],
+                      })
+                    : null;
+
+                return (variant?.weight ?? product.weight) * item.quantity;
             })
         ).then((weights) => weights.reduce((acc, weight) => acc + weight, 0));
 
@@ -0,0 +1,141 @@
+import dotenv from 'dotenv';
+import { Category, ShippingCountry } from '@/models/relational';
+import { ShippingLocationNotFoundError } from '@/errors';
+dotenv.config();
+
+interface TaxableItem {
+    categoryId: number;
+    amount: number; // Price of the item line after discounts
+}
+
+interface TaxLineDetails {
+    label: string;
+    rate: number;
+    taxableAmount: number;
+    taxAmount: number;
+}
+
+interface TaxCalculation {
+    pricesIncludeTax: boolean;
+    reverseCharge: boolean;
+    vatId: string | null;
+    lines: TaxLineDetails[];
+    taxTotal: number;
+    adjustment: number; // Amount to add to the order total
+}
+
+/**
+ * Service responsible for the VAT of orders.
+ *
+ * @remarks
+ * Rates are configured per shipping country, and each product category
+ * is taxed at either the standard or the reduced rate of the country.
+ * Shipping is always taxed at the standard rate.
+ */
+export class TaxService {
+    /**
+     * Calculates the VAT lines of an order.
+     *
+     * @remarks
+     * When the country's prices include tax, the tax is extracted from the prices
+     * and the total is unchanged. Otherwise the tax is added on top of them.
+     * Business customers with a VAT ID shipping outside of `TAX_HOME_COUNTRY`
+     * are reverse-charged, so they pay the net prices and no tax.
+     *
+     * @param countryName - The name of the shipping country
+     * @param vatId - The VAT ID of the customer
+     * @param items - The taxable item lines
+     * @param shippingAmount - The shipping cost after discounts
+     * @returns A promise resolving to the tax lines and the total adjustment
+     *
+     * @throws {@link ShippingLocationNotFoundError}
+     * Thrown if the shipping country is not found.
+     */
+    public async calculateTax(
+        countryName: string,
+        vatId: string | null | undefined,
+        items: TaxableItem[],
+        shippingAmount: number
+    ): Promise<TaxCalculation> {
+        const country = await ShippingCountry.findOne({
+            where: { name: countryName.toLowerCase() },
+        });
+
+        if (!country) {
+            throw new ShippingLocationNotFoundError('country');
+        }
+
+        const categories = await Category.findAll({
+            where: { id: [...new Set(items.map((item) => item.categoryId))] },
+            attributes: ['id', 'taxClass'],
+            paranoid: false,
+        });
+        const reducedCategoryIds = new Set(
+            categories
+                .filter((category) => category.taxClass === 'reduced')
+                .map((category) => category.id)
+        );
+
+        const reverseCharge =
+            !!vatId &&
+            country.name !== process.env.TAX_HOME_COUNTRY?.toLowerCase();
+        const reducedRate = country.reducedVatRate ?? country.vatRate;
+
+        const amounts = new Map<string, { rate: number; amount: number }>();
+        const addAmount = (label: string, rate: number, amount: number) => {
+            const current = amounts.get(label) ?? { rate, amount: 0 };
+            amounts.set(label, { rate, amount: current.amount + amount });
+        };
+
+        for (const item of items) {
+            const rate = reducedCategoryIds.has(item.categoryId)
+                ? reducedRate
+                : country.vatRate;
+            addAmount(`VAT ${rate}%`, rate, item.amount);
+        }
+
+        if (shippingAmount > 0) {
+            addAmount(
+                `Shipping VAT ${country.vatRate}%`,
+                country.vatRate,
+                shippingAmount
+            );
+        }
+
+        const lines: TaxLineDetails[] = [];
+        let adjustment = 0;
+
+        for (const [label, { rate, amount }] of amounts) {
+            if (!rate) continue;
+
+            const taxableAmount = country.pricesIncludeTax
+                ? amount / (1 + rate / 100)
+                : amount;
+            const taxAmount = reverseCharge ? 0 : (taxableAmount * rate) / 100;
+
+            if (reverseCharge && country.pricesIncludeTax) {
+                adjustment -= amount - taxableAmount;
+            } else if (!country.pricesIncludeTax) {
+                adjustment += taxAmount;
+            }
+
+            lines.push({
+                label: reverseCharge ? `${label} (reverse charge)` : label,
+                rate: reverseCharge ? 0 : rate,
+                taxableAmount: parseFloat(taxableAmount.toFixed(2)),
+                taxAmount: parseFloat(taxAmount.toFixed(2)),
+            });
+        }
+
+        return {
+            pricesIncludeTax: country.pricesIncludeTax,
+            reverseCharge,
+            vatId: vatId ?? null,
+            lines,
+            taxTotal: parseFloat(
+                lines.reduce((acc, line) => acc + line.taxAmount, 0).toFixed(2)
+            ),
+            adjustment: parseFloat(adjustment.toFixed(2)),
+        };
+    }
+}
@@ -5,11 +5,18 @@ import { queue2 } from '@/jobQueues';
 import { addBirthdayJobScheduler } from '@/jobSchedulers';
 import { PaymentService } from './Payment.service';
 import { NotificationService } from './Notification.service';
+import { MediaService } from './Media.service';
+import {
+    GuestCartService,
+    type GuestCartMergeResult,
+} from './GuestCart.service';
+import type { Thumbnails } from '@/models/relational/ProductMedia.model';
 import { User, Customer, Admin } from '@/models/relational';
 import {
     UserNotFoundError,
     UserAlreadyExistsError,
     InvalidCredentialsError,
+    CartNotFoundError,
 } from '@/errors';
 
 const {
@@ -38,11 +45,13 @@ export interface UserCreationDetails extends UserDetails {
 interface CustomerDetails {
     shippingAddress: string;
     billingAddress: string;
+    vatId?: string | null;
 }
 
 interface AuthTokens {
     refreshToken: string;
     accessToken: string;
+    cartMerge?: GuestCartMergeResult; // Set if a guest cart was merged
 }
 
 export interface CustomerResponse {
@@ -50,9 +59,12 @@ export interface CustomerResponse {
     stripeId?: string;
     shippingAddress?: string;
     billingAddress?: string;
+    vatId?: string | null;
     isActive?: boolean;
     createdAt?: Date;
-    profilePictureUrl?: string;
+    profilePictureUrl?: string | null;
+    profilePictureThumbnails?: Thumbnails | null;
+    profilePictureAlt?: string | null;
     firstName: string;
     lastName: string;
     username: string;
@@ -65,6 +77,8 @@ export interface CustomerResponse {
 export class UserService {
     protected paymentService: PaymentService;
     protected notificationService: NotificationService;
+    protected mediaService: MediaService;
+    protected guestCartService: GuestCartService;
 
     constructor(
         paymentService: PaymentService,
@@ -72,6 +86,8 @@ export class UserService {
     ) {
         this.paymentService = paymentService;
         this.notificationService = notificationService;
+        this.mediaService = new MediaService();
+        this.guestCartService = new GuestCartService();
     }
 
     /**
@@ -159,10 +175,12 @@ export class UserService {
      * Signs-Up a new customer user type in the platform.
      *
      * @param details - The details of the customer to sign-up
+     * @param [cartToken] - The token of a guest cart to merge into the customer's cart
      * @returns A promise resolving to an object containing access and refresh tokens
      */
     public async signUpCustomer(
-        details: UserCreationDetails
+        details: UserCreationDetails,
+        cartToken?: string
     ): Promise<AuthTokens> {
         const newCustomer = await this.userFactory(Customer, details);
         newCustomer.stripeId = await this.paymentService.createCustomer(
@@ -182,7 +200,13 @@ export class UserService {
             newCustomer.email
         );
 
-        return this.generateTokens(newCustomer.userId!, newCustomer.username);
+        return {
+            ...this.generateTokens(newCustomer.userId!, newCustomer.username),
+            cartMerge: await this.mergeGuestCart(
+                newCustomer.userId!,
+                cartToken
+            ),
+        };
     }
 
     /**
@@ -190,13 +214,15 @@ export class UserService {
      *
      * @param username - The username of the user
      * @param password - The password of the user
+     * @param [cartToken] - The token of a guest cart to merge into the customer's cart
      * @returns A promise resolving to an object containing access and refresh tokens
      * @throws UserNotFoundError if the user is not found
      * @throws InvalidCredentialsError if the password is invalid
      */
     public async loginUser(
         username: string,
-        password: string
+        password: string,
+        cartToken?: string
     ): Promise<AuthTokens> {
         let role: 'admin' | 'manager' | 'customer' | null = null;
         const user = await User.findOne({ where: { username } });
@@ -215,7 +241,40 @@ export class UserService {
 
         role = admin ? admin.role! : 'customer';
 
-        return this.generateTokens(user.id!, user.username, role);
+        return {
+            ...this.generateTokens(user.id!, user.username, role),
+            cartMerge:
+                role === 'customer'
+                    ? await this.mergeGuestCart(user.id!, cartToken)
+                    : undefined,
+        };
+    }
+
+    /**
+     * Merges a guest cart into the cart of a customer who signed-up or logged in.
+     *
+     * @remarks
+     * Expired guest carts are ignored, as they must not prevent the authentication.
+     *
+     * @param userId - The user id of the customer
+     * @param [cartToken] - The token of the guest cart
+     * @returns A promise resolving to the merge result, or undefined if nothing was merged
+     */
+    private async mergeGuestCart(
+        userId: number,
+        cartToken?: string
+    ): Promise<GuestCartMergeResult | undefined> {
+        if (!cartToken) return undefined;
+
+        try {
+            return await this.guestCartService.mergeGuestCart(
+                cartToken,
+                userId
+            );
+        } catch (error) {
+            if (error instanceof CartNotFoundError) return undefined;
+            throw error;
+        }
     }
 
     /**
@@ -294,6 +353,7 @@ export class UserService {
                 'stripeId',
                 'shippingAddress',
                 'billingAddress',
+                'vatId',
                 'isActive',
                 'createdAt',
             ],
@@ -302,6 +362,8 @@ export class UserService {
                 as: 'user',
                 attributes: [
                     'profilePictureUrl',
+                    'profilePictureThumbnails',
+                    'profilePictureAlt',
                     'firstName',
                     'lastName',
                     'username',
@@ -355,6 +417,10 @@ export class UserService {
     /**
      * Updates customer's shipping and billing details.
      *
+     * @remarks
+     * Customers with a VAT ID are invoiced under the reverse-charge
+     * mechanism when shipping to another country.
+     *
      * @param userId - The user ID of the Customer
      * @param details - The shipping and billing details
      *
@@ -394,6 +460,17 @@ export class UserService {
             throw new UserNotFoundError();
         }
 
+        // A picture URL set directly replaces the uploaded picture
+        if (details.profilePictureUrl && user.profilePictureKey) {
+            await this.mediaService.removeFile(user.profilePictureKey);
+
+            user.set({
+                profilePictureKey: null,
+                profilePictureThumbnails: null,
+                profilePictureAlt: null,
+            });
+        }
+
         return await user.update(details);
     }
 
@@ -423,6 +500,10 @@ export class UserService {
         }
 
         await user.destroy();
+
+        if (user.profilePictureKey) {
+            await this.mediaService.removeFile(user.profilePictureKey);
+        }
     }
 
     /**
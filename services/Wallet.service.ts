@@ -0,0 +1,179 @@
+import { sequelize } from '@/config/db';
+import type { Transaction } from 'sequelize';
+import { Customer, Wallet, WalletTransaction } from '@/models/relational';
+import {
+    InsufficientFundsError,
+    InvalidPaymentAmountError,
+    UserNotFoundError,
+} from '@/errors';
+
+interface WalletResponse {
+    balance: number;
+    transactions: WalletTransactionResponse[];
+}
+
+interface WalletTransactionResponse {
+    id: number;
+    type: 'top-up' | 'payment' | 'refund';
+    amount: number;
+    reference: string;
+    createdAt: Date;
+}
+
+/**
+ * Service responsible for the customers' store-credit wallets.
+ *
+ * @remarks
+ * Every balance change is recorded as a wallet transaction.
+ * Wallets are created on their first use. Credits and debits
+ * take positive amounts, so a debit can never raise the balance.
+ */
+export class WalletService {
+    /**
+     * Retrieves a customer's wallet balance and transactions.
+     *
+     * @param userId - The user id of the customer
+     * @returns A promise resolving to the wallet
+     *
+     * @throws {@link UserNotFoundError}
+     * Thrown if the customer is not found.
+     */
+    public async getWallet(userId: number): Promise<WalletResponse> {
+        const customer = await Customer.findOne({ where: { userId } });
+
+        if (!customer) {
+            throw new UserNotFoundError('Customer not found');
+        }
+
+        const [wallet] = await Wallet.findOrCreate({
+            where: { customerId: customer.id },
+            defaults: { customerId: customer.id },
+        });
+
+        const transactions = await WalletTransaction.findAll({
+            where: { walletId: wallet.id },
+            attributes: { exclude: ['walletId'] },
+            order: [['createdAt', 'DESC']],
+        });
+
+        return {
+            balance: wallet.balance,
+            transactions: transactions.map((transaction) =>
+                transaction.toJSON()
+            ),
+        };
+    }
+
+    /**
+     * Adds funds to a customer's wallet.
+     *
+     * @param customerId - The id of the customer
+     * @param amount - The amount to add
+     * @param type - The reason of the credit
+     * @param reference - The payment reference of the credit
+     * @param [transactionObj] - An existing transaction
+     * @returns A promise resolving to the new balance
+     *
+     * @throws {@link InvalidPaymentAmountError}
+     * Thrown if the amount is not positive.
+     */
+    public async credit(
+        customerId: number,
+        amount: number,
+        type: 'top-up' | 'refund',
+        reference: string,
+        transactionObj?: Transaction
+    ): Promise<number> {
+        return await this.changeBalance(
+            customerId,
+            amount,
+            type,
+            reference,
+            transactionObj
+        );
+    }
+
+    /**
+     * Spends funds from a customer's wallet.
+     *
+     * @param customerId - The id of the customer
+     * @param amount - The amount to spend
+     * @param reference - The payment reference of the debit
+     * @param [transactionObj] - An existing transaction
+     * @returns A promise resolving to the new balance
+     *
+     * @throws {@link InsufficientFundsError}
+     * Thrown if the wallet balance is lower than the amount.
+     *
+     * @throws {@link InvalidPaymentAmountError}
+     * Thrown if the amount is not positive.
+     */
+    public async debit(
+        customerId: number,
+        amount: number,
+        reference: string,
+        transactionObj?: Transaction
+    ): Promise<number> {
+        return await this.changeBalance(
+            customerId,
+            amount,
+            'payment',
+            reference,
+            transactionObj
+        );
+    }
+
+    // Payments are taken from the balance, top-ups and refunds are added to it
+    private async changeBalance(
+        customerId: number,
+        amount: number,
+        type: 'top-up' | 'payment' | 'refund',
+        reference: string,
+        transactionObj?: Transaction
+    ): Promise<number> {
+        if (!(amount > 0)) {
+            throw new InvalidPaymentAmountError(
+                `Wallet amounts must be positive, got ${amount}`
+            );
+        }
+
+        const change = type === 'payment' ? -amount : amount;
+        const transaction: Transaction =
+            transactionObj ?? (await sequelize.transaction());
+
+        try {
+            const [wallet] = await Wallet.findOrCreate({
+                where: { customerId },
+                defaults: { customerId },
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            const balance = parseFloat((wallet.balance + change).toFixed(2));
+
+            if (balance < 0) {
+                throw new InsufficientFundsError();
+            }
+
+            wallet.balance = balance;
+            await wallet.save({ transaction });
+
+            await WalletTransaction.create(
+                { walletId: wallet.id, type, amount: change, reference },
+                { transaction }
+            );
+
+            if (!transactionObj) {
+                await transaction.commit();
+            }
+
+            return balance;
+        } catch (error) {
+            if (!transactionObj) {
+                await transaction.rollback();
+            }
+
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,410 @@
+import Stripe from 'stripe';
+import dotenv from 'dotenv';
+import { sequelize } from '@/config/db';
+import { redisClient } from '@/config/redis';
+import { Logger } from '@/logger';
+import { NotificationService } from './Notification.service';
+import { InventoryService } from './Inventory.service';
+import { LoggingService } from './Logging.service';
+import { InvoiceService } from './Invoice.service';
+import { CouponService } from './Coupon.service';
+import { FlashSaleService } from './FlashSale.service';
+import {
+    Admin,
+    Customer,
+    Invoice,
+    Order,
+    RefundRequest,
+    User,
+} from '@/models/relational';
+import { Membership, PlatformData } from '@/models/document';
+import {
+    InvalidWebhookSignatureError,
+    WebhookEventInProgressError,
+} from '@/errors';
+dotenv.config();
+
+const CLIENT_URL = process.env.CLIENT_URL as string;
+const EVENT_KEY_TTL = 3 * 24 * 60 * 60; // 3 days, matching Stripe's retry window
+const EVENT_LOCK_TTL = 5 * 60; // 5 minutes, after which a stuck delivery can be retried
+
+const formatter = new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency: 'EUR',
+});
+
+/**
+ * Service responsible for handling incoming Stripe webhook events.
+ *
+ * @remarks
+ * Events are deduplicated by their id, so retried deliveries
+ * of an already handled event are acknowledged without side effects.
+ * An event is only marked as handled once its handler succeeds.
+ */
+export class WebhookService {
+    private stripe: Stripe;
+    private notificationService: NotificationService;
+    private inventoryService: InventoryService;
+    private loggingService: LoggingService;
+    private invoiceService: InvoiceService;
+    private couponService: CouponService;
+    private flashSaleService: FlashSaleService;
+    private logger: Logger;
+
+    constructor(
+        stripeKey: string,
+        notificationService: NotificationService,
+        loggingService: LoggingService
+    ) {
+        this.stripe = new Stripe(stripeKey);
+        this.notificationService = notificationService;
+        this.loggingService = loggingService;
+        this.inventoryService = new InventoryService();
+        this.invoiceService = new InvoiceService();
+        this.couponService = new CouponService();
+        this.flashSaleService = new FlashSaleService();
+        this.logger = new Logger();
+    }
+
+    /**
+     * Verifies the signature of a Stripe webhook request and parses its event.
+     *
+     * @param payload - The raw request body
+     * @param signature - The value of the `Stripe-Signature` header
+     * @returns The verified Stripe event
+     *
+     * @throws {@link InvalidWebhookSignatureError}
+     * Thrown if the signature is missing or does not match the payload.
+     */
+    public constructStripeEvent(
+        payload: Buffer | string,
+        signature?: string
+    ): Stripe.Event {
+        if (!signature) {
+            throw new InvalidWebhookSignatureError(
+                'Missing Stripe-Signature header'
+            );
+        }
+
+        try {
+            return this.stripe.webhooks.constructEvent(
+                payload,
+                signature,
+                process.env.STRIPE_WEBHOOK_SECRET
+            );
+        } catch (error) {
+            throw new InvalidWebhookSignatureError((error as Error).message);
+        }
+    }
+
+    /**
+     * Handles a verified Stripe event.
+     *
+     * @remarks
+     * The event is locked while it is handled. If the handler fails,
+     * the lock is released so that the next delivery attempt by Stripe
+     * is processed again.
+     *
+     * @param event - The Stripe event
+     * @returns A promise resolving to false if the event was already handled
+     *
+     * @throws {@link WebhookEventInProgressError}
+     * Thrown if another delivery of the event is still being handled.
+     */
+    public async handleStripeEvent(event: Stripe.Event): Promise<boolean> {
+        const eventKey = `stripeEvent:${event.id}`;
+        const acquired = await redisClient.set(
+            eventKey,
+            'processing',
+            'EX',
+            EVENT_LOCK_TTL,
+            'NX'
+        );
+
+        if (!acquired) {
+            if ((await redisClient.get(eventKey)) === 'processing') {
+                throw new WebhookEventInProgressError();
+            }
+
+            return false;
+        }
+
+        try {
+            switch (event.type) {
+                case 'payment_intent.payment_failed':
+                case 'payment_intent.canceled':
+                    await this.handlePaymentIntentClosed(event.data.object);
+                    break;
+                case 'charge.refunded':
+                    await this.handleChargeRefunded(event.data.object);
+                    break;
+                case 'invoice.paid':
+                    await this.handleInvoicePaid(event.data.object);
+                    break;
+                case 'invoice.payment_failed':
+                    await this.handleInvoicePaymentFailed(event.data.object);
+                    break;
+                case 'charge.dispute.created':
+                    await this.handleDisputeCreated(event.data.object);
+                    break;
+                default:
+                    this.logger.log(
+                        `Unhandled Stripe event type "${event.type}"`
+                    );
+            }
+        } catch (error) {
+            await redisClient.del(eventKey);
+            throw error;
+        }
+
+        await redisClient.set(eventKey, 'processed', 'EX', EVENT_KEY_TTL);
+
+        return true;
+    }
+
+    /**
+     * Releases the checkout of a payment intent that failed or was canceled.
+     *
+     * @remarks
+     * The stock reservation, coupon redemption and flash sale claims of
+     * the checkout are released right away instead of once the reservation
+     * expires. Payment intents that already created an order are left alone.
+     */
+    private async handlePaymentIntentClosed(
+        paymentIntent: Stripe.PaymentIntent
+    ): Promise<void> {
+        const order = await Order.findOne({
+            where: { paymentIntentId: paymentIntent.id },
+            attributes: ['id'],
+        });
+
+        if (order) return;
+
+        await this.inventoryService.releaseReservation(paymentIntent.id);
+        await this.couponService.releaseRedemption(paymentIntent.id);
+        await this.flashSaleService.releaseClaims(paymentIntent.id);
+    }
+
+    /**
+     * Synchronizes an order with a refund issued on its payment.
+     *
+     * @remarks
+     * Refunds issued by the platform have already updated the order, so only
+     * refunds issued outside of it (e.g. from the Stripe dashboard) change the
+     * order status, and restock it along with the status once it is fully
+     * refunded. A credit note is issued and the customer notified whenever the
+     * refunded amount of the charge grew, so that every further partial
+     * refund is billed as well.
+     */
+    private async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+        const paymentIntentId = this.getId(charge.payment_intent);
+
+        if (!paymentIntentId) return;
+
+        const order = await Order.findOne({ where: { paymentIntentId } });
+
+        // Membership subscription payments are not bound to an order
+        if (!order) return;
+
+        const status = charge.refunded ? 'refunded' : 'partially-refunded';
+
+        if (
+            order.status !== status &&
+            Order.canTransition(order.status, status)
+        ) {
+            // Committed together, so a retried event cannot find the
+            // status changed without the stock being returned
+            const transaction = await sequelize.transaction();
+
+            try {
+                await order.update({ status }, { transaction });
+
+                if (status === 'refunded') {
+                    await this.inventoryService.restockOrder(
+                        order.id,
+                        transaction
+                    );
+                    await this.flashSaleService.releaseClaims(
+                        paymentIntentId,
+                        transaction
+                    );
+                }
+
+                await transaction.commit();
+            } catch (error) {
+                await transaction.rollback();
+                throw error;
+            }
+        }
+
+        // The refunded amount of a charge is cumulative
+        const credited: number =
+            (await Invoice.sum('amount', {
+                where: { orderId: order.id, type: 'credit-note' },
+            })) ?? 0;
+        const creditAmount = charge.amount_refunded / 100 - credited;
+
+        if (creditAmount <= 0) return;
+
+        await this.invoiceService.queueCreditNote(
+            order.id,
+            parseFloat(creditAmount.toFixed(2)),
+            'Refunded by the payment provider'
+        );
+
+        const customer = (await Customer.findByPk(order.customerId, {
+            include: [{ model: User, as: 'user' }],
+        }))!;
+        const refundAmount = formatter.format(charge.amount_refunded / 100);
+        const request = await RefundRequest.findOne({
+            where: { orderId: order.id, status: 'pending' },
+        });
+
+        if (request) {
+            await request.update({ status: 'approved' });
+
+            await this.notificationService.sendHandledRefundEmail(
+                customer.user!.email,
+                {
+                    status: 'approved',
+                    orderTrackingNumber: order.trackingNumber,
+                    orderTotal: formatter.format(order.total),
+                    refundAmount: charge.refunded ? null : refundAmount,
+                }
+            );
+        }
+
+        await this.notificationService.sendNotification(
+            customer.userId,
+            `${refundAmount} has been refunded for order "${order.trackingNumber}".`
+        );
+    }
+
+    /**
+     * Updates the membership of a customer whose subscription was renewed.
+     */
+    private async handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+        if (invoice.billing_reason !== 'subscription_cycle') return;
+
+        const customer = await this.findCustomer(invoice.customer);
+        const priceId = invoice.lines.data[0]?.price?.id;
+
+        if (!customer || !priceId) return;
+
+        const membership = await Membership.findOne({
+            $or: [
+                { stripeMonthlyPriceId: priceId },
+                { stripeAnnualPriceId: priceId },
+            ],
+        });
+
+        if (!membership) {
+            this.logger.log(
+                `Renewed invoice "${invoice.id}" does not match any membership`
+            );
+            return;
+        }
+
+        const membershipType = membership.type as Customer['membership'];
+
+        if (customer.membership !== membershipType) {
+            customer.membership = membershipType;
+            await customer.save();
+        }
+
+        await this.notificationService.sendNotification(
+            customer.userId,
+            `Your ${membership.type} membership has been renewed.`
+        );
+    }
+
+    /**
+     * Notifies a customer whose subscription renewal payment failed.
+     */
+    private async handleInvoicePaymentFailed(
+        invoice: Stripe.Invoice
+    ): Promise<void> {
+        if (!invoice.subscription) return;
+
+        const customer = await this.findCustomer(invoice.customer);
+
+        if (!customer) return;
+
+        const platform = (await PlatformData.find({}))[0];
+
+        await this.notificationService.sendReplenishmentPaymentEmail(
+            customer.user!.email,
+            'Membership payment failed',
+            'failed-membership-payment-email.hbs',
+            {
+                manageSubscriptionLink: `${CLIENT_URL}/subscriptions/membership`,
+                customerSupportEmail: platform.customerSupportEmail,
+                customerSupportPhoneNumber: platform.customerSupportPhoneNumber,
+            }
+        );
+
+        await this.notificationService.sendNotification(
+            customer.userId,
+            'Your membership payment failed. Please update your payment method.'
+        );
+    }
+
+    /**
+     * Flags an order whose payment was disputed,
+     * and notifies the customer and the admins.
+     */
+    private async handleDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+        const paymentIntentId = this.getId(dispute.payment_intent);
+        const order = paymentIntentId
+            ? await Order.findOne({ where: { paymentIntentId } })
+            : null;
+        const target = order
+            ? `order "${order.trackingNumber}"`
+            : `charge "${this.getId(dispute.charge)}"`;
+        const amount = formatter.format(dispute.amount / 100);
+
+        await this.loggingService.log(
+            'Dispute',
+            `Dispute "${dispute.id}" opened for ${target}. Amount: ${amount}. Reason: ${dispute.reason}.`
+        );
+
+        if (order) {
+            await order.update({
+                disputedAt: new Date(dispute.created * 1000),
+            });
+
+            const customer = (await Customer.findByPk(order.customerId))!;
+
+            await this.notificationService.sendNotification(
+                customer.userId,
+                `A dispute of ${amount} was opened for order "${order.trackingNumber}". Our team will review it and contact you.`
+            );
+        }
+
+        const admins = await Admin.findAll({ attributes: ['userId'] });
+
+        for (const admin of admins) {
+            await this.notificationService.sendNotification(
+                admin.userId,
+                `Dispute "${dispute.id}" of ${amount} opened for ${target}. Reason: ${dispute.reason}.`
+            );
+        }
+    }
+
+    private async findCustomer(
+        stripeCustomer: string | Stripe.Customer | Stripe.DeletedCustomer | null
+    ): Promise<Customer | null> {
+        const stripeId = this.getId(stripeCustomer);
+
+        if (!stripeId) return null;
+
+        return await Customer.findOne({
+            where: { stripeId },
+            include: [{ model: User, as: 'user' }],
+        });
+    }
+
+    private getId(object: string | { id: string } | null): string | null {
+        return typeof object === 'string' ? object : (object?.id ?? null);
+    }
+}
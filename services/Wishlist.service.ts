@@ -0,0 +1,942 @@
+import { randomUUID } from 'crypto';
+import pLimit from 'p-limit';
+import { Op } from 'sequelize';
+import { ProductVariantService } from './ProductVariant.service';
+import { FlashSaleService } from './FlashSale.service';
+import { InventoryService } from './Inventory.service';
+import { CartService, type CartItemResponse } from './Cart.service';
+import {
+    NotificationService,
+    type WishlistAlert,
+} from './Notification.service';
+import {
+    Cart,
+    CartItem,
+    Customer,
+    Product,
+    ProductVariant,
+    User,
+    Wishlist,
+    WishlistItem,
+} from '@/models/relational';
+import { discountedPrice } from '@/models/relational/price';
+import {
+    CartNotFoundError,
+    CartItemNotFoundError,
+    ProductNotFoundError,
+    UserNotFoundError,
+    WishlistConflictError,
+    WishlistItemNotFoundError,
+    WishlistLimitError,
+    WishlistNotFoundError,
+} from '@/errors';
+
+const CLIENT_URL = process.env.CLIENT_URL as string;
+
+const formatter = new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency: 'EUR',
+});
+
+const WISHLIST_LIMIT = 20;
+const WISHLIST_ITEM_LIMIT = 200;
+const DEFAULT_WISHLIST_NAME = 'Saved for later';
+const ALERT_BATCH_SIZE = 500;
+
+interface WishlistItemResponse {
+    id: number;
+    productId: number;
+    variant: {
+        id: number;
+        sku: string;
+        options: Record<string, string>;
+    } | null;
+    name: string;
+    imageUrl: string;
+    price: number; // With the flash sale or product discount
+    discount: number;
+    inStock: boolean;
+    note: string | null;
+    createdAt: Date;
+}
+
+interface WishlistSummary {
+    id: number;
+    name: string;
+    shareUrl: string | null;
+    itemCount: number;
+}
+
+interface WishlistResponse {
+    id: number;
+    name: string;
+    shareUrl: string | null;
+    items: WishlistItemResponse[];
+}
+
+/**
+ * Service responsible for the wishlists of customers.
+ *
+ * @remarks
+ * Customers keep several named wishlists, each holding a product variant
+ * once along with a note. Wishlists are private until they are shared
+ * through a link, which can be revoked. The price and availability of
+ * wishlisted items are checked periodically, and customers are notified
+ * in the platform and by email when an item drops in price or is back
+ * in stock.
+ */
+export class WishlistService {
+    private productVariantService: ProductVariantService;
+    private flashSaleService: FlashSaleService;
+    private inventoryService: InventoryService;
+    private cartService: CartService;
+    private notificationService: NotificationService;
+
+    constructor() {
+        this.productVariantService = new ProductVariantService();
+        this.flashSaleService = new FlashSaleService();
+        this.inventoryService = new InventoryService();
+        this.cartService = new CartService();
+        this.notificationService = new NotificationService();
+    }
+
+    /**
+     * Retrieves the wishlists of a customer.
+     *
+     * @param userId - The user id of the customer
+     * @returns A promise resolving to the wishlists with their item counts
+     */
+    public async getWishlists(userId: number): Promise<WishlistSummary[]> {
+        const wishlists = await Wishlist.findAll({
+            include: {
+                model: Customer,
+                where: { userId },
+                attributes: [],
+            },
+            order: [['createdAt', 'ASC']],
+        });
+        const counts = await WishlistItem.count({
+            where: { wishlistId: wishlists.map(({ id }) => id) },
+            attributes: ['wishlistId'],
+            group: ['wishlistId'],
+        });
+
+        return wishlists.map((wishlist) => ({
+            id: wishlist.id,
+            name: wishlist.name,
+            shareUrl: this.shareUrl(wishlist),
+            itemCount: Number(
+                counts.find(
+                    ({ wishlistId }) => Number(wishlistId) === wishlist.id
+                )?.count ?? 0
+            ),
+        }));
+    }
+
+    /**
+     * Retrieves a wishlist of a customer with its items.
+     *
+     * @param userId - The user id of the customer
+     * @param wishlistId - The id of the wishlist
+     * @returns A promise resolving to the wishlist
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if the customer has no wishlist with the given id.
+     */
+    public async getWishlist(
+        userId: number,
+        wishlistId: number
+    ): Promise<WishlistResponse> {
+        const wishlist = await this.findWishlist(userId, wishlistId);
+
+        return await this.toResponse(wishlist);
+    }
+
+    /**
+     * Creates a wishlist for a customer.
+     *
+     * @param userId - The user id of the customer
+     * @param name - The name of the wishlist
+     * @returns A promise resolving to the created wishlist
+     *
+     * @throws {@link UserNotFoundError}
+     * Thrown if the customer is not found.
+     *
+     * @throws {@link WishlistLimitError}
+     * Thrown if the customer already has the maximum number of wishlists.
+     *
+     * @throws {@link WishlistConflictError}
+     * Thrown if the customer already has a wishlist with the name.
+     */
+    public async createWishlist(
+        userId: number,
+        name: string
+    ): Promise<WishlistResponse> {
+        const customer = await Customer.findOne({ where: { userId } });
+
+        if (!customer) {
+            throw new UserNotFoundError('Customer not found');
+        }
+
+        const wishlist = await this.createCustomerWishlist(customer.id, name);
+
+        return await this.toResponse(wishlist);
+    }
+
+    /**
+     * Renames a wishlist of a customer.
+     *
+     * @param userId - The user id of the customer
+     * @param wishlistId - The id of the wishlist
+     * @param name - The new name of the wishlist
+     * @returns A promise resolving to the renamed wishlist
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if the customer has no wishlist with the given id.
+     *
+     * @throws {@link WishlistConflictError}
+     * Thrown if the customer already has another wishlist with the name.
+     */
+    public async renameWishlist(
+        userId: number,
+        wishlistId: number,
+        name: string
+    ): Promise<WishlistResponse> {
+        const wishlist = await this.findWishlist(userId, wishlistId);
+        const duplicate = await Wishlist.findOne({
+            where: {
+                customerId: wishlist.customerId,
+                name,
+                id: { [Op.ne]: wishlist.id },
+            },
+        });
+
+        if (duplicate) {
+            throw new WishlistConflictError(
+                `A wishlist named "${name}" already exists`
+            );
+        }
+
+        await wishlist.update({ name });
+
+        return await this.toResponse(wishlist);
+    }
+
+    /**
+     * Deletes a wishlist of a customer along with its items.
+     *
+     * @param userId - The user id of the customer
+     * @param wishlistId - The id of the wishlist
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if the customer has no wishlist with the given id.
+     */
+    public async deleteWishlist(
+        userId: number,
+        wishlistId: number
+    ): Promise<void> {
+        const wishlist = await this.findWishlist(userId, wishlistId);
+
+        await wishlist.destroy();
+    }
+
+    /**
+     * Inserts a product into a wishlist of a customer.
+     *
+     * @param userId - The user id of the customer
+     * @param wishlistId - The id of the wishlist
+     * @param productId - The id of the product
+     * @param [variantId] - The id of the selected product variant
+     * @param [note] - A note of the customer about the item
+     * @returns A promise resolving to the inserted wishlist item
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if the customer has no wishlist with the given id.
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is not found.
+     *
+     * @throws {@link ProductVariantNotFoundError}
+     * Thrown if the product has no variant with the given id.
+     *
+     * @throws {@link ProductVariantRequiredError}
+     * Thrown if no variant is selected for a product with variants.
+     *
+     * @throws {@link WishlistConflictError}
+     * Thrown if the product variant is already in the wishlist.
+     *
+     * @throws {@link WishlistLimitError}
+     * Thrown if the wishlist already holds the maximum number of items.
+     */
+    public async addItem(
+        userId: number,
+        wishlistId: number,
+        productId: number,
+        variantId?: number,
+        note?: string
+    ): Promise<WishlistItemResponse> {
+        const wishlist = await this.findWishlist(userId, wishlistId);
+        const product = await Product.findByPk(productId);
+
+        if (!product) {
+            throw new ProductNotFoundError();
+        }
+
+        const variant = await this.productVariantService.resolveVariant(
+            productId,
+            variantId
+        );
+        const item = await this.insertItem(
+            wishlist,
+            product,
+            variant,
+            note ?? null
+        );
+
+        return (await this.toItemResponses([item]))[0];
+    }
+
+    /**
+     * Updates the note of a wishlist item.
+     *
+     * @param userId - The user id of the customer
+     * @param wishlistId - The id of the wishlist
+     * @param itemId - The id of the wishlist item
+     * @param note - The new note, or null to remove it
+     * @returns A promise resolving to the updated wishlist item
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if the customer has no wishlist with the given id.
+     *
+     * @throws {@link WishlistItemNotFoundError}
+     * Thrown if the wishlist has no item with the given id.
+     */
+    public async updateItemNote(
+        userId: number,
+        wishlistId: number,
+        itemId: number,
+        note: string | null
+    ): Promise<WishlistItemResponse> {
+        const item = await this.findItem(userId, wishlistId, itemId);
+
+        await item.update({ note });
+
+        return (await this.toItemResponses([item]))[0];
+    }
+
+    /**
+     * Removes an item from a wishlist.
+     *
+     * @param userId - The user id of the customer
+     * @param wishlistId - The id of the wishlist
+     * @param itemId - The id of the wishlist item
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if the customer has no wishlist with the given id.
+     *
+     * @throws {@link WishlistItemNotFoundError}
+     * Thrown if the wishlist has no item with the given id.
+     */
+    public async removeItem(
+        userId: number,
+        wishlistId: number,
+        itemId: number
+    ): Promise<void> {
+        const item = await this.findItem(userId, wishlistId, itemId);
+
+        await item.destroy();
+    }
+
+    /**
+     * Moves an item of a wishlist into the customer's cart.
+     *
+     * @remarks
+     * The item is only removed from the wishlist once it is in the cart.
+     *
+     * @param userId - The user id of the customer
+     * @param wishlistId - The id of the wishlist
+     * @param itemId - The id of the wishlist item
+     * @param quantity - The quantity to add to the cart
+     * @returns A promise resolving to the cart item
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if the customer has no wishlist with the given id.
+     *
+     * @throws {@link WishlistItemNotFoundError}
+     * Thrown if the wishlist has no item with the given id.
+     *
+     * @throws {@link CartNotFoundError}
+     * Thrown if the cart is not found.
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is no longer available.
+     *
+     * @throws {@link CartItemLimitError}
+     * Thrown if the cart already holds the maximum number of items.
+     *
+     * @throws {@link FlashSaleLimitError}
+     * Thrown if the product is on flash sale and the quantity exceeds one of its limits.
+     */
+    public async moveToCart(
+        userId: number,
+        wishlistId: number,
+        itemId: number,
+        quantity: number = 1
+    ): Promise<CartItemResponse> {
+        const item = await this.findItem(userId, wishlistId, itemId);
+
+        const cartItem = await this.cartService.addItemToCart(
+            userId,
+            item.productId,
+            quantity,
+            item.variantId ?? undefined
+        );
+
+        await item.destroy();
+
+        return cartItem;
+    }
+
+    /**
+     * Moves an item of the customer's cart into a wishlist.
+     *
+     * @remarks
+     * Without a wishlist id, the item is saved to the "Saved for later"
+     * wishlist, which is created when needed. The whole quantity leaves
+     * the cart, and an item already in the wishlist keeps its note.
+     *
+     * @param userId - The user id of the customer
+     * @param productId - The id of the product in the cart
+     * @param [variantId] - The id of the product variant in the cart
+     * @param [wishlistId] - The id of the target wishlist
+     * @returns A promise resolving to the wishlist item
+     *
+     * @throws {@link CartNotFoundError}
+     * Thrown if the cart is not found.
+     *
+     * @throws {@link CartItemNotFoundError}
+     * Thrown if the item is not in the cart.
+     *
+     * @throws {@link ProductNotFoundError}
+     * Thrown if the product is no longer available.
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if the customer has no wishlist with the given id.
+     *
+     * @throws {@link WishlistLimitError}
+     * Thrown if the saved for later wishlist must be created and the customer
+     * already has the maximum number of wishlists, or if the wishlist already
+     * holds the maximum number of items.
+     */
+    public async moveToWishlist(
+        userId: number,
+        productId: number,
+        variantId?: number,
+        wishlistId?: number
+    ): Promise<WishlistItemResponse> {
+        const cart = await Cart.findOne({
+            include: {
+                model: Customer,
+                where: { userId },
+            },
+        });
+
+        if (!cart) {
+            throw new CartNotFoundError();
+        }
+
+        const cartItem = await CartItem.findOne({
+            where: { cartId: cart.id, productId, variantId: variantId ?? null },
+            include: [
+                { model: Product, as: 'product' },
+                { model: ProductVariant, as: 'variant' },
+            ],
+        });
+
+        if (!cartItem) {
+            throw new CartItemNotFoundError();
+        }
+        if (!cartItem.product || (cartItem.variantId && !cartItem.variant)) {
+            throw new ProductNotFoundError(
+                'The product is no longer available'
+            );
+        }
+
+        const wishlist = wishlistId
+            ? await this.findWishlist(userId, wishlistId)
+            : ((await Wishlist.findOne({
+                  where: {
+                      customerId: cart.customerId!,
+                      name: DEFAULT_WISHLIST_NAME,
+                  },
+              })) ??
+              (await this.createCustomerWishlist(
+                  cart.customerId!,
+                  DEFAULT_WISHLIST_NAME
+              )));
+
+        const item =
+            (await WishlistItem.findOne({
+                where: {
+                    wishlistId: wishlist.id,
+                    productId,
+                    variantId: cartItem.variantId ?? null,
+                },
+                include: [
+                    { model: Product, as: 'product' },
+                    { model: ProductVariant, as: 'variant' },
+                ],
+            })) ??
+            (await this.insertItem(
+                wishlist,
+                cartItem.product,
+                cartItem.variant ?? null,
+                null
+            ));
+
+        // Removed last, so that a failure never loses the item
+        await cartItem.destroy();
+
+        return (await this.toItemResponses([item]))[0];
+    }
+
+    /**
+     * Shares a wishlist through a public link.
+     *
+     * @param userId - The user id of the customer
+     * @param wishlistId - The id of the wishlist
+     * @returns A promise resolving to the share link, which stays the same until revoked
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if the customer has no wishlist with the given id.
+     */
+    public async shareWishlist(
+        userId: number,
+        wishlistId: number
+    ): Promise<string> {
+        const wishlist = await this.findWishlist(userId, wishlistId);
+
+        if (!wishlist.shareToken) {
+            await wishlist.update({ shareToken: randomUUID() });
+        }
+
+        return this.shareUrl(wishlist)!;
+    }
+
+    /**
+     * Revokes the share link of a wishlist.
+     *
+     * @param userId - The user id of the customer
+     * @param wishlistId - The id of the wishlist
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if the customer has no wishlist with the given id.
+     */
+    public async unshareWishlist(
+        userId: number,
+        wishlistId: number
+    ): Promise<void> {
+        const wishlist = await this.findWishlist(userId, wishlistId);
+
+        await wishlist.update({ shareToken: null });
+    }
+
+    /**
+     * Retrieves a shared wishlist from its share link.
+     *
+     * @param shareToken - The share token of the wishlist
+     * @returns A promise resolving to the wishlist with the first name of its owner
+     *
+     * @throws {@link WishlistNotFoundError}
+     * Thrown if no wishlist is shared with the token.
+     */
+    public async getSharedWishlist(
+        shareToken: string
+    ): Promise<Omit<WishlistResponse, 'id' | 'shareUrl'> & { owner: string }> {
+        const wishlist = await Wishlist.findOne({
+            where: { shareToken },
+            include: {
+                model: Customer,
+                attributes: ['id'],
+                include: [
+                    { model: User, as: 'user', attributes: ['firstName'] },
+                ],
+            },
+        });
+
+        if (!wishlist) {
+            throw new WishlistNotFoundError();
+        }
+
+        const { name, items } = await this.toResponse(wishlist);
+        const customer = wishlist.get('Customer') as Customer;
+
+        return { name, owner: customer.user!.firstName, items };
+    }
+
+    /**
+     * Notifies customers of wishlisted items that dropped in price or are back in stock.
+     *
+     * @remarks
+     * The price with discounts and the availability of every wishlist item
+     * are compared with those of the last check, so each change is notified
+     * once. Customers receive a single notification and email listing all
+     * their changed items, and an item on several of their wishlists is
+     * listed once.
+     *
+     * @returns A promise resolving to the number of notified customers
+     */
+    public async processWishlistAlerts(): Promise<number> {
+        const alerts = new Map<number, Map<string, WishlistAlert>>();
+        let lastId = 0;
+
+        for (;;) {
+            const items = await WishlistItem.findAll({
+                where: { id: { [Op.gt]: lastId } },
+                include: [
+                    {
+                        model: Product,
+                        as: 'product',
+                        attributes: [
+                            'id',
+                            'name',
+                            'imageUrl',
+                            'price',
+                            'discount',
+                        ],
+                        required: true,
+                    },
+                    {
+                        model: ProductVariant,
+                        as: 'variant',
+                        attributes: ['id', 'price', 'imageUrl'],
+                    },
+                    { model: Wishlist, attributes: ['customerId'] },
+                ],
+                order: [['id', 'ASC']],
+                limit: ALERT_BATCH_SIZE,
+            });
+
+            if (!items.length) break;
+
+            lastId = items[items.length - 1].id;
+
+            const flashSales = await this.flashSaleService.getActiveSales([
+                ...new Set(items.map(({ productId }) => productId)),
+            ]);
+            const availableStock = new Map<string, number>();
+
+            for (const item of items) {
+                const { product, variant } = item;
+
+                // Items of deleted variants are left out until removed
+                if (!product || (item.variantId && !variant)) continue;
+
+                const key = `${item.productId}:${item.variantId ?? 0}`;
+
+                if (!availableStock.has(key)) {
+                    availableStock.set(
+                        key,
+                        await this.inventoryService.getAvailableStock(
+                            item.productId,
+                            item.variantId ?? null
+                        )
+                    );
+                }
+
+                const discount =
+                    flashSales.get(product.id)?.discount ?? product.discount;
+                const price = discountedPrice(
+                    variant?.price ?? product.price,
+                    discount
+                );
+                const inStock = availableStock.get(key)! > 0;
+                const restocked = !item.inStock && inStock;
+                const priceDropped = price < item.lastPrice;
+                const alert: WishlistAlert | null =
+                    restocked || priceDropped
+                        ? {
+                              type: restocked ? 'backInStock' : 'priceDrop',
+                              name: product.name,
+                              imageUrl: variant?.imageUrl ?? product.imageUrl,
+                              price,
+                              previousPrice: priceDropped
+                                  ? item.lastPrice
+                                  : null,
+                          }
+                        : null;
+
+                if (item.lastPrice !== price || item.inStock !== inStock) {
+                    await item.update({ lastPrice: price, inStock });
+                }
+
+                if (alert) {
+                    const customerId = (item.get('Wishlist') as Wishlist)
+                        .customerId;
+
+                    if (!alerts.has(customerId)) {
+                        alerts.set(customerId, new Map());
+                    }
+
+                    alerts.get(customerId)!.set(key, alert);
+                }
+            }
+        }
+
+        const limit = pLimit(10);
+
+        await Promise.all(
+            [...alerts].map(([customerId, customerAlerts]) =>
+                limit(() =>
+                    this.sendWishlistAlerts(customerId, [
+                        ...customerAlerts.values(),
+                    ])
+                )
+            )
+        );
+
+        return alerts.size;
+    }
+
+    private async sendWishlistAlerts(
+        customerId: number,
+        alerts: WishlistAlert[]
+    ): Promise<void> {
+        const customer = await Customer.findByPk(customerId, {
+            include: {
+                model: User,
+                as: 'user',
+                attributes: ['email', 'firstName'],
+            },
+            attributes: ['id', 'userId'],
+        });
+
+        if (!customer?.user) return;
+
+        await this.notificationService.sendNotification(
+            customer.userId,
+            ...alerts.map(({ type, name, price, previousPrice }) =>
+                type === 'priceDrop'
+                    ? `"${name}" from your wishlist dropped in price from ${formatter.format(previousPrice!)} to ${formatter.format(price)}.`
+                    : `"${name}" from your wishlist is back in stock.`
+            )
+        );
+        await this.notificationService.sendWishlistAlertEmail(
+            customer.user.email,
+            customer.user.firstName,
+            alerts
+        );
+    }
+
+    /**
+     * Creates a wishlist, checking the limit and the uniqueness of its name.
+     */
+    private async createCustomerWishlist(
+        customerId: number,
+        name: string
+    ): Promise<Wishlist> {
+        const wishlists = await Wishlist.findAll({
+            where: { customerId },
+            attributes: ['id', 'name'],
+        });
+
+        if (wishlists.some((wishlist) => wishlist.name === name)) {
+            throw new WishlistConflictError(
+                `A wishlist named "${name}" already exists`
+            );
+        }
+        if (wishlists.length >= WISHLIST_LIMIT) {
+            throw new WishlistLimitError(
+                `Wishlist limit reached. You cannot have more than "${WISHLIST_LIMIT}" wishlists.`
+            );
+        }
+
+        return await Wishlist.create({ customerId, name });
+    }
+
+    /**
+     * Inserts an item into a wishlist, storing its current price and
+     * availability as the baseline of its alerts.
+     */
+    private async insertItem(
+        wishlist: Wishlist,
+        product: Product,
+        variant: ProductVariant | null,
+        note: string | null
+    ): Promise<WishlistItem> {
+        const existing = await WishlistItem.findOne({
+            where: {
+                wishlistId: wishlist.id,
+                productId: product.id,
+                variantId: variant?.id ?? null,
+            },
+        });
+
+        if (existing) {
+            throw new WishlistConflictError(
+                `"${product.name}" is already in the wishlist`
+            );
+        }
+
+        const totalItems = await WishlistItem.count({
+            where: { wishlistId: wishlist.id },
+        });
+
+        if (totalItems >= WISHLIST_ITEM_LIMIT) {
+            throw new WishlistLimitError(
+                `Wishlist item limit reached. You cannot add more than "${WISHLIST_ITEM_LIMIT}" items.`
+            );
+        }
+
+        const discount =
+            (await this.flashSaleService.getActiveSales([product.id])).get(
+                product.id
+            )?.discount ?? product.discount;
+        const availableStock = await this.inventoryService.getAvailableStock(
+            product.id,
+            variant?.id ?? null
+        );
+
+        const item = await WishlistItem.create({
+            wishlistId: wishlist.id,
+            productId: product.id,
+            variantId: variant?.id ?? null,
+            note,
+            lastPrice: discountedPrice(
+                variant?.price ?? product.price,
+                discount
+            ),
+            inStock: availableStock > 0,
+        });
+
+        item.product = product;
+        item.variant = variant;
+
+        return item;
+    }
+
+    private async findWishlist(
+        userId: number,
+        wishlistId: number
+    ): Promise<Wishlist> {
+        const wishlist = await Wishlist.findOne({
+            where: { id: wishlistId },
+            include: {
+                model: Customer,
+                where: { userId },
+                attributes: [],
+            },
+        });
+
+        if (!wishlist) {
+            throw new WishlistNotFoundError();
+        }
+
+        return wishlist;
+    }
+
+    private async findItem(
+        userId: number,
+        wishlistId: number,
+        itemId: number
+    ): Promise<WishlistItem> {
+        const wishlist = await this.findWishlist(userId, wishlistId);
+        const item = await WishlistItem.findOne({
+            where: { id: itemId, wishlistId: wishlist.id },
+            include: [
+                { model: Product, as: 'product', required: true },
+                { model: ProductVariant, as: 'variant' },
+            ],
+        });
+
+        // Items of deleted products or variants are hidden from the wishlist
+        if (!item || (item.variantId && !item.variant)) {
+            throw new WishlistItemNotFoundError();
+        }
+
+        return item;
+    }
+
+    private async toResponse(wishlist: Wishlist): Promise<WishlistResponse> {
+        const items = await WishlistItem.findAll({
+            where: { wishlistId: wishlist.id },
+            include: [
+                {
+                    model: Product,
+                    as: 'product',
+                    attributes: ['id', 'name', 'imageUrl', 'price', 'discount'],
+                    required: true,
+                },
+                {
+                    model: ProductVariant,
+                    as: 'variant',
+                    attributes: ['id', 'sku', 'options', 'price', 'imageUrl'],
+                },
+            ],
+            order: [['createdAt', 'DESC']],
+        });
+
+        return {
+            id: wishlist.id,
+            name: wishlist.name,
+            shareUrl: this.shareUrl(wishlist),
+            items: await this.toItemResponses(
+                items.filter((item) => !item.variantId || item.variant)
+            ),
+        };
+    }
+
+    /**
+     * Formats wishlist items, whose product and variant must be loaded,
+     * with the current price and availability of their products.
+     */
+    private async toItemResponses(
+        items: WishlistItem[]
+    ): Promise<WishlistItemResponse[]> {
+        const flashSales = await this.flashSaleService.getActiveSales(
+            items.map(({ productId }) => productId)
+        );
+
+        return await Promise.all(
+            items.map(async (item) => {
+                const product = item.product!;
+                const variant = item.variant ?? null;
+                const discount =
+                    flashSales.get(product.id)?.discount ?? product.discount;
+                const availableStock =
+                    await this.inventoryService.getAvailableStock(
+                        product.id,
+                        variant?.id ?? null
+                    );
+
+                return {
+                    id: item.id,
+                    productId: product.id,
+                    variant: variant
+                        ? {
+                              id: variant.id,
+                              sku: variant.sku,
+                              options: variant.options,
+                          }
+                        : null,
+                    name: product.name,
+                    imageUrl: variant?.imageUrl ?? product.imageUrl,
+                    price: discountedPrice(
+                        variant?.price ?? product.price,
+                        discount
+                    ),
+                    discount,
+                    inStock: availableStock > 0,
+                    note: item.note ?? null,
+                    createdAt: item.createdAt,
+                };
+            })
+        );
+    }
+
+    private shareUrl(wishlist: Wishlist): string | null {
+        return wishlist.shareToken
+            ? `${CLIENT_URL}/wishlists/shared/${wishlist.shareToken}`
+            : null;
+    }
+}
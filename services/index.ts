@@ -1,12 +1,30 @@
 export { LoggingService } from './Logging.service';
 export { AnalyticsService } from './Analytics.service';
 export { CartService } from './Cart.service';
+export { GuestCartService } from './GuestCart.service';
+export { CartRecoveryService } from './CartRecovery.service';
+export { WishlistService } from './Wishlist.service';
+export { InventoryService } from './Inventory.service';
+export { ProductVariantService } from './ProductVariant.service';
+export { BundleService } from './Bundle.service';
+export { MediaService } from './Media.service';
+export { WalletService } from './Wallet.service';
+export { CouponService } from './Coupon.service';
+export { FlashSaleService } from './FlashSale.service';
+export { TaxService } from './Tax.service';
+export { InvoiceService } from './Invoice.service';
 export { NotificationService } from './Notification.service';
 export { OrderService } from './Order.service';
 export { SubscriptionService } from './subscription_service';
 export { ReplenishmentService } from './subscription_service/Replenishment.service';
 export { PaymentService } from './Payment.service';
+export { WebhookService } from './Webhook.service';
+export { PriceService } from './Price.service';
+export { AttributeService } from './Attribute.service';
+export { CategoryService } from './Category.service';
 export { ProductService } from './Product.service';
+export { SearchIndexService } from './SearchIndex.service';
+export { ProductImportService } from './ProductImport.service';
 export { RatingService } from './Rating.service';
 export { ShippingService } from './Shipping.service';
 export { UserService } from './User.service';
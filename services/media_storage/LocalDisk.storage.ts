@@ -0,0 +1,62 @@
+import path from 'path';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import type { StorageDriver } from './StorageDriver';
+
+export const LOCAL_MEDIA_DIR =
+    process.env.MEDIA_STORAGE_DIR ?? path.join(__dirname, '../../uploads');
+export const MEDIA_URL_PATH = '/media';
+
+/**
+ * Storage driver that keeps media files on the local disk.
+ *
+ * @remarks
+ * Files are written under `MEDIA_STORAGE_DIR` and are served by the
+ * server under {@link MEDIA_URL_PATH}, prefixed with `MEDIA_PUBLIC_URL`
+ * when the media is served from another host.
+ */
+export class LocalDiskStorageDriver implements StorageDriver {
+    private root: string;
+    private baseUrl: string;
+
+    constructor(
+        root: string = LOCAL_MEDIA_DIR,
+        baseUrl: string = (process.env.MEDIA_PUBLIC_URL ?? '') + MEDIA_URL_PATH
+    ) {
+        this.root = root;
+        this.baseUrl = baseUrl;
+    }
+
+    public async put(key: string, data: Buffer): Promise<string> {
+        const filePath = this.resolve(key);
+
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, data);
+
+        return this.getUrl(key);
+    }
+
+    public async delete(key: string): Promise<void> {
+        try {
+            await unlink(this.resolve(key));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+    }
+
+    public getUrl(key: string): string {
+        return `${this.baseUrl}/${key}`;
+    }
+
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.root, key);
+
+        // Keys never leave the storage root
+        if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+            throw new Error(`Invalid media key "${key}"`);
+        }
+
+        return filePath;
+    }
+}
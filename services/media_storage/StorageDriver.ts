@@ -0,0 +1,22 @@
+/**
+ * Operations the platform needs from a media storage.
+ *
+ * @remarks
+ * Files are addressed by keys relative to the storage root,
+ * e.g. `products/12/3f2c.jpg`, and are served from public URLs.
+ */
+export interface StorageDriver {
+    /**
+     * Stores a file, replacing any file with the same key.
+     *
+     * @returns A promise resolving to the public URL of the file
+     */
+    put(key: string, data: Buffer, contentType: string): Promise<string>;
+
+    /**
+     * Deletes a file. Missing files are ignored.
+     */
+    delete(key: string): Promise<void>;
+
+    getUrl(key: string): string;
+}
@@ -0,0 +1,29 @@
+import {
+    LocalDiskStorageDriver,
+    LOCAL_MEDIA_DIR,
+    MEDIA_URL_PATH,
+} from './LocalDisk.storage';
+import type { StorageDriver } from './StorageDriver';
+
+/**
+ * Creates the storage driver selected by the `MEDIA_STORAGE_DRIVER` env variable.
+ *
+ * @remarks
+ * Defaults to the local disk. Drivers for S3-compatible storages
+ * implement {@link StorageDriver} and are selected here.
+ *
+ * @returns The storage driver
+ */
+export function createStorageDriver(): StorageDriver {
+    const driver = process.env.MEDIA_STORAGE_DRIVER ?? 'local';
+
+    switch (driver) {
+        case 'local':
+            return new LocalDiskStorageDriver();
+        default:
+            throw new Error(`Unknown media storage driver "${driver}"`);
+    }
+}
+
+export { LocalDiskStorageDriver, LOCAL_MEDIA_DIR, MEDIA_URL_PATH };
+export type { StorageDriver } from './StorageDriver';
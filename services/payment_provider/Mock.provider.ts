@@ -0,0 +1,602 @@
+import { randomBytes } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { PaymentFailedError, PaymentMethodNotFoundError } from '@/errors';
+import type {
+    InvoiceDetails,
+    PaymentIntentDetails,
+    PaymentMethodDetails,
+    PaymentProvider,
+    RefundDetails,
+    SubscriptionCreationDetails,
+    SubscriptionDetails,
+} from './PaymentProvider';
+
+interface MockCustomer {
+    id: string;
+    name: string;
+    email: string;
+    balance: number;
+    defaultPaymentMethodId: string | null;
+    deleted: boolean;
+}
+
+interface MockPaymentMethod {
+    id: string;
+    customerId: string | null;
+    brand: string;
+    last4: string;
+    expMonth: number;
+    expYear: number;
+    declined: boolean;
+    created: number;
+}
+
+interface MockPaymentIntent {
+    id: string;
+    customerId: string;
+    amount: number;
+    amountRefunded: number;
+    currency: string;
+    paymentMethodId: string;
+    chargeId: string;
+    created: number;
+}
+
+interface MockPrice {
+    id: string;
+    productId: string;
+    amount: number;
+    interval: 'month' | 'year' | null;
+}
+
+interface MockPromotionCode {
+    code: string;
+    percentage: number;
+    customerId: string;
+    redeemed: boolean;
+}
+
+interface MockSubscription extends SubscriptionDetails {
+    priceId: string;
+    status: 'active' | 'canceled';
+}
+
+interface MockInvoice extends InvoiceDetails {
+    subscriptionId: string;
+    amountRefunded: number;
+    status: 'draft' | 'open' | 'paid';
+}
+
+interface MockState {
+    customers: Record<string, MockCustomer>;
+    paymentMethods: Record<string, MockPaymentMethod>;
+    paymentIntents: Record<string, MockPaymentIntent>;
+    prices: Record<string, MockPrice>;
+    promotionCodes: Record<string, MockPromotionCode>;
+    subscriptions: Record<string, MockSubscription>;
+    invoices: Record<string, MockInvoice>;
+}
+
+const DAY = 24 * 60 * 60;
+
+// Test card tokens resolve to the same brands as in Stripe's test mode
+const CARD_TOKENS: Record<string, { brand: string; last4: string }> = {
+    tok_visa: { brand: 'visa', last4: '4242' },
+    tok_mastercard: { brand: 'mastercard', last4: '4444' },
+    tok_amex: { brand: 'amex', last4: '8431' },
+    tok_chargeDeclined: { brand: 'visa', last4: '0002' },
+};
+
+let state: MockState | null = null;
+
+/**
+ * Loads the shared mock state, restoring it from
+ * `MOCK_PAYMENT_PROVIDER_FILE` when the file exists.
+ */
+function getState(): MockState {
+    if (state) return state;
+
+    const file = process.env.MOCK_PAYMENT_PROVIDER_FILE;
+
+    state =
+        file && existsSync(file)
+            ? (JSON.parse(readFileSync(file, 'utf-8')) as MockState)
+            : {
+                  customers: {},
+                  paymentMethods: {},
+                  paymentIntents: {},
+                  prices: {},
+                  promotionCodes: {},
+                  subscriptions: {},
+                  invoices: {},
+              };
+
+    return state;
+}
+
+function now(): number {
+    return Math.floor(Date.now() / 1000);
+}
+
+function generateId(prefix: string): string {
+    return `${prefix}_mock_${randomBytes(8).toString('hex')}`;
+}
+
+/**
+ * Offline payment provider that keeps its data in memory.
+ *
+ * @remarks
+ * The state is shared by all instances and is persisted to
+ * `MOCK_PAYMENT_PROVIDER_FILE` after every change when it is set,
+ * so it survives restarts of the development server.
+ * Payment methods created with the `tok_chargeDeclined` token
+ * fail every payment, like in Stripe's test mode.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+    public async createCustomer(name: string, email: string): Promise<string> {
+        const id = generateId('cus');
+
+        getState().customers[id] = {
+            id,
+            name,
+            email,
+            balance: 0,
+            defaultPaymentMethodId: null,
+            deleted: false,
+        };
+        await this.persist();
+
+        return id;
+    }
+
+    public async deleteCustomer(customerId: string): Promise<void> {
+        this.findCustomer(customerId).deleted = true;
+        await this.persist();
+    }
+
+    public async getDefaultPaymentMethod(customerId: string): Promise<string> {
+        const customer = this.findCustomer(customerId);
+
+        if (customer.deleted) {
+            throw new Error('Mock customer is deleted');
+        }
+
+        if (!customer.defaultPaymentMethodId) {
+            throw new Error('Mock customer has no default payment method');
+        }
+
+        return customer.defaultPaymentMethodId;
+    }
+
+    public async setDefaultPaymentMethod(
+        customerId: string,
+        paymentMethodId: string
+    ): Promise<void> {
+        this.findPaymentMethod(paymentMethodId, customerId);
+        this.findCustomer(customerId).defaultPaymentMethodId = paymentMethodId;
+        await this.persist();
+    }
+
+    public async adjustCustomerBalance(
+        customerId: string,
+        amount: number
+    ): Promise<void> {
+        const customer = this.findCustomer(customerId);
+
+        if (!customer.deleted) {
+            customer.balance += amount;
+            await this.persist();
+        }
+    }
+
+    public async addPaymentMethod(
+        customerId: string,
+        _type: 'card',
+        token: string
+    ): Promise<string> {
+        this.findCustomer(customerId);
+
+        const card = CARD_TOKENS[token];
+
+        if (!card) {
+            throw new Error(`No such token: '${token}'`);
+        }
+
+        const id = generateId('pm');
+        const expiry = new Date();
+
+        getState().paymentMethods[id] = {
+            id,
+            customerId,
+            brand: card.brand,
+            last4: card.last4,
+            expMonth: expiry.getMonth() + 1,
+            expYear: expiry.getFullYear() + 3,
+            declined: token === 'tok_chargeDeclined',
+            created: now(),
+        };
+        await this.persist();
+
+        return id;
+    }
+
+    public async listPaymentMethods(
+        customerId: string
+    ): Promise<PaymentMethodDetails[]> {
+        return Object.values(getState().paymentMethods)
+            .filter((pm) => pm.customerId === customerId)
+            .map((pm) => this.formatPaymentMethod(pm));
+    }
+
+    public async getPaymentMethod(
+        customerId: string,
+        paymentMethodId: string
+    ): Promise<PaymentMethodDetails> {
+        return this.formatPaymentMethod(
+            this.findPaymentMethod(paymentMethodId, customerId)
+        );
+    }
+
+    public async updatePaymentMethod(
+        paymentMethodId: string,
+        expMonth?: number,
+        expYear?: number
+    ): Promise<PaymentMethodDetails> {
+        const paymentMethod = this.findPaymentMethod(paymentMethodId);
+
+        paymentMethod.expMonth = expMonth ?? paymentMethod.expMonth;
+        paymentMethod.expYear = expYear ?? paymentMethod.expYear;
+        await this.persist();
+
+        return this.formatPaymentMethod(paymentMethod);
+    }
+
+    public async detachPaymentMethod(paymentMethodId: string): Promise<void> {
+        const paymentMethod = this.findPaymentMethod(paymentMethodId);
+        const customer = getState().customers[paymentMethod.customerId!];
+
+        if (customer?.defaultPaymentMethodId === paymentMethodId) {
+            customer.defaultPaymentMethodId = null;
+        }
+
+        paymentMethod.customerId = null;
+        await this.persist();
+    }
+
+    public async createPaymentIntent(
+        details: PaymentIntentDetails
+    ): Promise<string> {
+        const paymentMethod = this.findPaymentMethod(
+            details.paymentMethodId,
+            details.customerId
+        );
+
+        if (paymentMethod.declined) {
+            throw new PaymentFailedError();
+        }
+
+        const id = generateId('pi');
+
+        getState().paymentIntents[id] = {
+            id,
+            customerId: details.customerId,
+            amount: details.amount,
+            amountRefunded: 0,
+            currency: details.currency,
+            paymentMethodId: details.paymentMethodId,
+            chargeId: generateId('ch'),
+            created: now(),
+        };
+        await this.persist();
+
+        return id;
+    }
+
+    public async listPaymentIntents(customerId: string): Promise<string[]> {
+        return Object.values(getState().paymentIntents)
+            .filter((intent) => intent.customerId === customerId)
+            .sort((a, b) => b.created - a.created)
+            .map((intent) => intent.id);
+    }
+
+    public async refund(details: RefundDetails): Promise<void> {
+        const { paymentIntents, invoices } = getState();
+        const charge = details.paymentIntentId
+            ? paymentIntents[details.paymentIntentId]
+            : (Object.values(paymentIntents).find(
+                  (intent) => intent.chargeId === details.chargeId
+              ) ??
+              Object.values(invoices).find(
+                  (invoice) => invoice.chargeId === details.chargeId
+              ));
+
+        if (!charge) {
+            throw new Error('No such payment to refund');
+        }
+
+        const paid = 'amount' in charge ? charge.amount : charge.amountPaid;
+        const amount = details.amount ?? paid - charge.amountRefunded;
+
+        if (amount <= 0 || charge.amountRefunded + amount > paid) {
+            throw new Error(
+                'Refund amount exceeds the remaining charge amount'
+            );
+        }
+
+        charge.amountRefunded += amount;
+        await this.persist();
+    }
+
+    public async createProduct(
+        _name: string,
+        _currency: string,
+        amount: number
+    ): Promise<{ productId: string; priceId: string }> {
+        const productId = generateId('prod');
+        const priceId = generateId('price');
+
+        getState().prices[priceId] = {
+            id: priceId,
+            productId,
+            amount,
+            interval: null,
+        };
+        await this.persist();
+
+        return { productId, priceId };
+    }
+
+    public async createRecurringPrice(
+        productId: string,
+        interval: 'month' | 'year',
+        amount: number
+    ): Promise<string> {
+        const id = generateId('price');
+
+        getState().prices[id] = { id, productId, amount, interval };
+        await this.persist();
+
+        return id;
+    }
+
+    public async createPromotionCode(
+        percentage: number,
+        customerId: string
+    ): Promise<string> {
+        const code = randomBytes(4).toString('hex').toUpperCase();
+
+        getState().promotionCodes[code] = {
+            code,
+            percentage,
+            customerId,
+            redeemed: false,
+        };
+        await this.persist();
+
+        return code;
+    }
+
+    public async listSubscriptions(filter: {
+        customerId?: string;
+        priceId?: string;
+        status?: 'active' | 'canceled';
+    }): Promise<SubscriptionDetails[]> {
+        // Like Stripe, canceled subscriptions are only listed when requested
+        const status = filter.status ?? 'active';
+
+        return Object.values(getState().subscriptions)
+            .filter(
+                (subscription) =>
+                    subscription.status === status &&
+                    (!filter.customerId ||
+                        subscription.customerId === filter.customerId) &&
+                    (!filter.priceId || subscription.priceId === filter.priceId)
+            )
+            .sort((a, b) => b.created - a.created)
+            .map((subscription) => ({
+                id: subscription.id,
+                customerId: subscription.customerId,
+                interval: subscription.interval,
+                amount: subscription.amount,
+                created: subscription.created,
+                canceledAt: subscription.canceledAt,
+                trialEnd: subscription.trialEnd,
+                currentPeriodEnd: subscription.currentPeriodEnd,
+                latestInvoiceId: subscription.latestInvoiceId,
+            }));
+    }
+
+    public async createSubscription(
+        details: SubscriptionCreationDetails
+    ): Promise<void> {
+        const { prices, promotionCodes, subscriptions, invoices } = getState();
+        const customer = this.findCustomer(details.customerId);
+        const price = prices[details.priceId];
+        const interval = price?.interval ?? 'month';
+        const created = now();
+        const trialEnd =
+            details.trialEnd ??
+            (details.trialPeriodDays
+                ? created + details.trialPeriodDays * DAY
+                : null);
+        const periodStart = trialEnd ?? created;
+        const id = generateId('sub');
+        let latestInvoiceId: string | null = null;
+
+        if (!trialEnd) {
+            if (!customer.defaultPaymentMethodId) {
+                throw new Error('Mock customer has no default payment method');
+            }
+
+            const promotionCode =
+                details.promotionCode && promotionCodes[details.promotionCode];
+            let total = price?.amount ?? 0;
+
+            if (promotionCode && !promotionCode.redeemed) {
+                total = Math.round(
+                    total * (1 - promotionCode.percentage / 100)
+                );
+                promotionCode.redeemed = true;
+            }
+
+            latestInvoiceId = generateId('in');
+            invoices[latestInvoiceId] = {
+                id: latestInvoiceId,
+                subscriptionId: id,
+                total,
+                amountPaid: total,
+                amountRefunded: 0,
+                chargeId: total > 0 ? generateId('ch') : null,
+                status: 'paid',
+            };
+        }
+
+        subscriptions[id] = {
+            id,
+            customerId: details.customerId,
+            priceId: details.priceId,
+            interval,
+            amount: price?.amount ?? null,
+            created,
+            canceledAt: null,
+            trialEnd,
+            currentPeriodEnd:
+                periodStart + (interval === 'year' ? 365 : 30) * DAY,
+            latestInvoiceId,
+            status: 'active',
+        };
+        await this.persist();
+    }
+
+    public async cancelSubscriptionAtPeriodEnd(
+        subscriptionId: string
+    ): Promise<void> {
+        this.findSubscription(subscriptionId).canceledAt = now();
+        await this.persist();
+    }
+
+    public async cancelSubscription(
+        subscriptionId: string,
+        prorate?: boolean
+    ): Promise<string | null> {
+        const subscription = this.findSubscription(subscriptionId);
+        const canceledAt = now();
+
+        subscription.status = 'canceled';
+        subscription.canceledAt = canceledAt;
+
+        if (prorate && subscription.amount) {
+            const periodLength =
+                (subscription.interval === 'year' ? 365 : 30) * DAY;
+            const unused = Math.max(
+                subscription.currentPeriodEnd - canceledAt,
+                0
+            );
+            const id = generateId('in');
+
+            getState().invoices[id] = {
+                id,
+                subscriptionId,
+                total: -Math.round(
+                    (subscription.amount * unused) / periodLength
+                ),
+                amountPaid: 0,
+                amountRefunded: 0,
+                chargeId: null,
+                status: 'draft',
+            };
+            subscription.latestInvoiceId = id;
+        }
+
+        await this.persist();
+
+        return subscription.latestInvoiceId;
+    }
+
+    public async getInvoice(invoiceId: string): Promise<InvoiceDetails> {
+        const invoice = getState().invoices[invoiceId];
+
+        if (!invoice) {
+            throw new Error(`No such invoice: '${invoiceId}'`);
+        }
+
+        return {
+            id: invoice.id,
+            total: invoice.total,
+            amountPaid: invoice.amountPaid,
+            chargeId: invoice.chargeId,
+        };
+    }
+
+    public async finalizeInvoice(invoiceId: string): Promise<void> {
+        const invoice = getState().invoices[invoiceId];
+
+        if (!invoice) {
+            throw new Error(`No such invoice: '${invoiceId}'`);
+        }
+
+        invoice.status = invoice.total > 0 ? 'open' : 'paid';
+        await this.persist();
+    }
+
+    private findCustomer(customerId: string): MockCustomer {
+        const customer = getState().customers[customerId];
+
+        if (!customer) {
+            throw new Error(`No such customer: '${customerId}'`);
+        }
+
+        return customer;
+    }
+
+    private findPaymentMethod(
+        paymentMethodId: string,
+        customerId?: string
+    ): MockPaymentMethod {
+        const paymentMethod = getState().paymentMethods[paymentMethodId];
+
+        if (
+            !paymentMethod ||
+            (customerId && paymentMethod.customerId !== customerId)
+        ) {
+            throw new PaymentMethodNotFoundError();
+        }
+
+        return paymentMethod;
+    }
+
+    private findSubscription(subscriptionId: string): MockSubscription {
+        const subscription = getState().subscriptions[subscriptionId];
+
+        if (!subscription) {
+            throw new Error(`No such subscription: '${subscriptionId}'`);
+        }
+
+        return subscription;
+    }
+
+    private formatPaymentMethod(pm: MockPaymentMethod): PaymentMethodDetails {
+        return {
+            id: pm.id,
+            type: 'card',
+            card: {
+                brand: pm.brand,
+                country: 'DE',
+                exp_month: pm.expMonth,
+                exp_year: pm.expYear,
+                funding: 'credit',
+                last4: pm.last4,
+            },
+            created: pm.created,
+        };
+    }
+
+    private async persist(): Promise<void> {
+        const file = process.env.MOCK_PAYMENT_PROVIDER_FILE;
+
+        if (file) {
+            await writeFile(file, JSON.stringify(getState(), null, 2));
+        }
+    }
+}
@@ -0,0 +1,195 @@
+export interface PaymentMethodDetails {
+    id: string;
+    type: string;
+    card?: {
+        brand?: string;
+        country?: string | null;
+        exp_month?: number;
+        exp_year?: number;
+        funding?: string;
+        last4?: string;
+    };
+    created: number;
+}
+
+export interface PaymentIntentDetails {
+    customerId: string;
+    amount: number;
+    currency: string;
+    paymentMethodId: string;
+}
+
+export interface RefundDetails {
+    paymentIntentId?: string;
+    chargeId?: string;
+    amount?: number;
+    reason?: string;
+}
+
+export interface SubscriptionDetails {
+    id: string;
+    customerId: string;
+    interval: string;
+    amount: number | null;
+    created: number;
+    canceledAt: number | null;
+    trialEnd: number | null;
+    currentPeriodEnd: number;
+    latestInvoiceId: string | null;
+}
+
+export interface SubscriptionCreationDetails {
+    customerId: string;
+    priceId: string;
+    currency: string;
+    trialEnd?: number;
+    trialPeriodDays?: number;
+    promotionCode?: string;
+}
+
+export interface InvoiceDetails {
+    id: string;
+    total: number;
+    amountPaid: number;
+    chargeId: string | null;
+}
+
+/**
+ * Operations the platform needs from a payment provider.
+ *
+ * @remarks
+ * Amounts are expressed in the smallest currency unit (e.g. cents)
+ * and timestamps in seconds since the epoch.
+ */
+export interface PaymentProvider {
+    /**
+     * Creates a customer and returns its id.
+     */
+    createCustomer(name: string, email: string): Promise<string>;
+
+    deleteCustomer(customerId: string): Promise<void>;
+
+    /**
+     * Retrieves the default payment method id of a customer.
+     *
+     * @throws {Error}
+     * Thrown if the customer is deleted or has no default payment method.
+     */
+    getDefaultPaymentMethod(customerId: string): Promise<string>;
+
+    setDefaultPaymentMethod(
+        customerId: string,
+        paymentMethodId: string
+    ): Promise<void>;
+
+    /**
+     * Adds the given amount to the customer's balance.
+     */
+    adjustCustomerBalance(customerId: string, amount: number): Promise<void>;
+
+    /**
+     * Creates a payment method from a card token and attaches it to a customer.
+     *
+     * @returns A promise resolving to the payment method id
+     */
+    addPaymentMethod(
+        customerId: string,
+        type: 'card',
+        token: string
+    ): Promise<string>;
+
+    listPaymentMethods(customerId: string): Promise<PaymentMethodDetails[]>;
+
+    /**
+     * @throws {@link PaymentMethodNotFoundError}
+     * Thrown if the customer has no such payment method.
+     */
+    getPaymentMethod(
+        customerId: string,
+        paymentMethodId: string
+    ): Promise<PaymentMethodDetails>;
+
+    /**
+     * @throws {@link PaymentMethodNotFoundError}
+     * Thrown if the payment method does not exist.
+     */
+    updatePaymentMethod(
+        paymentMethodId: string,
+        expMonth?: number,
+        expYear?: number
+    ): Promise<PaymentMethodDetails>;
+
+    /**
+     * @throws {@link PaymentMethodNotFoundError}
+     * Thrown if the payment method does not exist.
+     */
+    detachPaymentMethod(paymentMethodId: string): Promise<void>;
+
+    /**
+     * Creates and confirms a payment intent.
+     *
+     * @returns A promise resolving to the payment intent id
+     */
+    createPaymentIntent(details: PaymentIntentDetails): Promise<string>;
+
+    listPaymentIntents(customerId: string): Promise<string[]>;
+
+    /**
+     * Refunds a payment intent or a charge.
+     * The full amount is refunded when no amount is given.
+     */
+    refund(details: RefundDetails): Promise<void>;
+
+    createProduct(
+        name: string,
+        currency: string,
+        amount: number
+    ): Promise<{ productId: string; priceId: string }>;
+
+    /**
+     * Creates a recurring price and sets it as the product's default price.
+     *
+     * @returns A promise resolving to the price id
+     */
+    createRecurringPrice(
+        productId: string,
+        interval: 'month' | 'year',
+        amount: number
+    ): Promise<string>;
+
+    /**
+     * Creates a single-use percentage coupon for a customer.
+     *
+     * @returns A promise resolving to the promotion code
+     */
+    createPromotionCode(
+        percentage: number,
+        customerId: string
+    ): Promise<string>;
+
+    listSubscriptions(filter: {
+        customerId?: string;
+        priceId?: string;
+        status?: 'active' | 'canceled';
+    }): Promise<SubscriptionDetails[]>;
+
+    createSubscription(details: SubscriptionCreationDetails): Promise<void>;
+
+    cancelSubscriptionAtPeriodEnd(subscriptionId: string): Promise<void>;
+
+    /**
+     * Cancels a subscription immediately.
+     *
+     * @param subscriptionId - The id of the subscription
+     * @param [prorate] - Whether to invoice the unused time as a credit
+     * @returns A promise resolving to the subscription's latest invoice id
+     */
+    cancelSubscription(
+        subscriptionId: string,
+        prorate?: boolean
+    ): Promise<string | null>;
+
+    getInvoice(invoiceId: string): Promise<InvoiceDetails>;
+
+    finalizeInvoice(invoiceId: string): Promise<void>;
+}
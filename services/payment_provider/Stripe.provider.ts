@@ -0,0 +1,363 @@
+import Stripe from 'stripe';
+import { PaymentMethodNotFoundError } from '@/errors';
+import type {
+    InvoiceDetails,
+    PaymentIntentDetails,
+    PaymentMethodDetails,
+    PaymentProvider,
+    RefundDetails,
+    SubscriptionCreationDetails,
+    SubscriptionDetails,
+} from './PaymentProvider';
+
+/**
+ * Payment provider backed by the Stripe API.
+ */
+export class StripePaymentProvider implements PaymentProvider {
+    private stripe: Stripe;
+
+    constructor(stripeKey: string) {
+        this.stripe = new Stripe(stripeKey);
+    }
+
+    public async createCustomer(name: string, email: string): Promise<string> {
+        const stripeCustomer = await this.stripe.customers.create({
+            name,
+            email,
+        });
+
+        return stripeCustomer.id;
+    }
+
+    public async deleteCustomer(customerId: string): Promise<void> {
+        await this.stripe.customers.del(customerId);
+    }
+
+    public async getDefaultPaymentMethod(customerId: string): Promise<string> {
+        const stripeCustomer = await this.stripe.customers.retrieve(customerId);
+
+        if (stripeCustomer.deleted) {
+            throw new Error('Stripe customer is mistakenly deleted');
+        }
+
+        if (!stripeCustomer.invoice_settings.default_payment_method) {
+            throw new Error('Stripe customer has no default payment method');
+        }
+
+        return stripeCustomer.invoice_settings.default_payment_method.toString();
+    }
+
+    public async setDefaultPaymentMethod(
+        customerId: string,
+        paymentMethodId: string
+    ): Promise<void> {
+        await this.stripe.customers.update(customerId, {
+            invoice_settings: { default_payment_method: paymentMethodId },
+        });
+    }
+
+    public async adjustCustomerBalance(
+        customerId: string,
+        amount: number
+    ): Promise<void> {
+        const stripeCustomer = await this.stripe.customers.retrieve(customerId);
+
+        if (!stripeCustomer.deleted) {
+            await this.stripe.customers.update(customerId, {
+                balance: stripeCustomer.balance + amount,
+            });
+        }
+    }
+
+    public async addPaymentMethod(
+        customerId: string,
+        type: 'card',
+        token: string
+    ): Promise<string> {
+        const paymentMethod = await this.stripe.paymentMethods.create({
+            type,
+            card: { token },
+        });
+
+        await this.stripe.setupIntents.create({
+            confirm: true,
+            customer: customerId,
+            payment_method: paymentMethod.id,
+            return_url: 'http://localhost:3000/success', // Only for testing
+        });
+
+        return paymentMethod.id;
+    }
+
+    public async listPaymentMethods(
+        customerId: string
+    ): Promise<PaymentMethodDetails[]> {
+        const paymentMethods =
+            await this.stripe.customers.listPaymentMethods(customerId);
+
+        return paymentMethods.data.map((pm) => this.formatPaymentMethod(pm));
+    }
+
+    public async getPaymentMethod(
+        customerId: string,
+        paymentMethodId: string
+    ): Promise<PaymentMethodDetails> {
+        try {
+            const paymentMethod =
+                await this.stripe.customers.retrievePaymentMethod(
+                    customerId,
+                    paymentMethodId
+                );
+
+            return this.formatPaymentMethod(paymentMethod);
+        } catch (error) {
+            throw this.mapNotFoundError(error);
+        }
+    }
+
+    public async updatePaymentMethod(
+        paymentMethodId: string,
+        expMonth?: number,
+        expYear?: number
+    ): Promise<PaymentMethodDetails> {
+        try {
+            const paymentMethod = await this.stripe.paymentMethods.update(
+                paymentMethodId,
+                {
+                    card: {
+                        exp_month: expMonth,
+                        exp_year: expYear,
+                    },
+                }
+            );
+
+            return this.formatPaymentMethod(paymentMethod);
+        } catch (error) {
+            throw this.mapNotFoundError(error);
+        }
+    }
+
+    public async detachPaymentMethod(paymentMethodId: string): Promise<void> {
+        try {
+            await this.stripe.paymentMethods.detach(paymentMethodId);
+        } catch (error) {
+            throw this.mapNotFoundError(error);
+        }
+    }
+
+    public async createPaymentIntent(
+        details: PaymentIntentDetails
+    ): Promise<string> {
+        return (
+            await this.stripe.paymentIntents.create({
+                amount: details.amount,
+                confirm: true,
+                currency: details.currency,
+                customer: details.customerId,
+                payment_method: details.paymentMethodId,
+                return_url: 'http://localhost:3000/success',
+            })
+        ).id;
+    }
+
+    public async listPaymentIntents(customerId: string): Promise<string[]> {
+        const paymentIntents = await this.stripe.paymentIntents.list({
+            customer: customerId,
+        });
+
+        return paymentIntents.data.map((item) => item.id);
+    }
+
+    public async refund(details: RefundDetails): Promise<void> {
+        await this.stripe.refunds.create({
+            payment_intent: details.paymentIntentId,
+            charge: details.chargeId,
+            amount: details.amount,
+            metadata: details.reason
+                ? { refundReason: details.reason }
+                : undefined,
+        });
+    }
+
+    public async createProduct(
+        name: string,
+        currency: string,
+        amount: number
+    ): Promise<{ productId: string; priceId: string }> {
+        const newProduct = await this.stripe.products.create({ name });
+
+        const priceObj = await this.stripe.prices.create({
+            billing_scheme: 'per_unit',
+            currency,
+            product: newProduct.id,
+            unit_amount_decimal: String(amount),
+        });
+
+        await this.stripe.products.update(newProduct.id, {
+            default_price: priceObj.id,
+        });
+
+        return {
+            productId: newProduct.id,
+            priceId: priceObj.id,
+        };
+    }
+
+    public async createRecurringPrice(
+        productId: string,
+        interval: 'month' | 'year',
+        amount: number
+    ): Promise<string> {
+        const { id } = await this.stripe.prices.create({
+            billing_scheme: 'per_unit',
+            currency: 'eur',
+            product: productId,
+            recurring: {
+                interval,
+                interval_count: 1,
+                usage_type: 'licensed',
+            },
+            unit_amount_decimal: String(amount),
+        });
+
+        await this.stripe.products.update(productId, {
+            default_price: id,
+        });
+
+        return id;
+    }
+
+    public async createPromotionCode(
+        percentage: number,
+        customerId: string
+    ): Promise<string> {
+        const coupon = await this.stripe.coupons.create({
+            percent_off: percentage,
+            max_redemptions: 1,
+        });
+
+        const promotionCode = await this.stripe.promotionCodes.create({
+            coupon: coupon.id,
+            customer: customerId,
+            max_redemptions: 1,
+        });
+
+        return promotionCode.code;
+    }
+
+    public async listSubscriptions(filter: {
+        customerId?: string;
+        priceId?: string;
+        status?: 'active' | 'canceled';
+    }): Promise<SubscriptionDetails[]> {
+        const subscriptions = await this.stripe.subscriptions.list({
+            customer: filter.customerId,
+            price: filter.priceId,
+            status: filter.status,
+        });
+
+        return subscriptions.data.map((subscription) => ({
+            id: subscription.id,
+            customerId: subscription.customer.toString(),
+            interval: subscription.items.data[0].plan.interval,
+            amount: subscription.items.data[0].plan.amount,
+            created: subscription.created,
+            canceledAt: subscription.canceled_at,
+            trialEnd: subscription.trial_end,
+            currentPeriodEnd: subscription.current_period_end,
+            latestInvoiceId: subscription.latest_invoice?.toString() ?? null,
+        }));
+    }
+
+    public async createSubscription(
+        details: SubscriptionCreationDetails
+    ): Promise<void> {
+        const promotionCode =
+            details.promotionCode &&
+            (await this.stripe.promotionCodes.list({
+                code: details.promotionCode,
+            }));
+
+        await this.stripe.subscriptions.create({
+            customer: details.customerId,
+            currency: details.currency,
+            items: [
+                {
+                    price: details.priceId,
+                    quantity: 1,
+                },
+            ],
+            off_session: true,
+            proration_behavior: 'none',
+            trial_end: details.trialEnd,
+            trial_period_days: details.trialPeriodDays,
+            discounts: promotionCode
+                ? [{ promotion_code: promotionCode.data[0].id }]
+                : undefined,
+        });
+    }
+
+    public async cancelSubscriptionAtPeriodEnd(
+        subscriptionId: string
+    ): Promise<void> {
+        await this.stripe.subscriptions.update(subscriptionId, {
+            cancel_at_period_end: true,
+        });
+    }
+
+    public async cancelSubscription(
+        subscriptionId: string,
+        prorate?: boolean
+    ): Promise<string | null> {
+        const subscription = await this.stripe.subscriptions.cancel(
+            subscriptionId,
+            prorate ? { invoice_now: true, prorate: true } : undefined
+        );
+
+        return subscription.latest_invoice?.toString() ?? null;
+    }
+
+    public async getInvoice(invoiceId: string): Promise<InvoiceDetails> {
+        const invoice = await this.stripe.invoices.retrieve(invoiceId);
+
+        return {
+            id: invoice.id,
+            total: invoice.total,
+            amountPaid: invoice.amount_paid,
+            chargeId: invoice.charge?.toString() ?? null,
+        };
+    }
+
+    public async finalizeInvoice(invoiceId: string): Promise<void> {
+        await this.stripe.invoices.finalizeInvoice(invoiceId);
+    }
+
+    private formatPaymentMethod(
+        pm: Stripe.PaymentMethod
+    ): PaymentMethodDetails {
+        return {
+            id: pm.id,
+            type: pm.type,
+            card: {
+                brand: pm.card?.brand,
+                country: pm.card?.country,
+                exp_month: pm.card?.exp_month,
+                exp_year: pm.card?.exp_year,
+                funding: pm.card?.funding,
+                last4: pm.card?.last4,
+            },
+            created: pm.created,
+        };
+    }
+
+    private mapNotFoundError(error: unknown): unknown {
+        if (
+            error instanceof Stripe.errors.StripeInvalidRequestError &&
+            error.statusCode === 404
+        ) {
+            return new PaymentMethodNotFoundError();
+        }
+
+        return error;
+    }
+}
@@ -0,0 +1,30 @@
+import { StripePaymentProvider } from './Stripe.provider';
+import { MockPaymentProvider } from './Mock.provider';
+import type { PaymentProvider } from './PaymentProvider';
+
+/**
+ * Creates the payment provider selected by the `PAYMENT_PROVIDER` env variable.
+ *
+ * @remarks
+ * Defaults to Stripe. Set `PAYMENT_PROVIDER=mock` to run the payment
+ * flows offline against {@link MockPaymentProvider}.
+ *
+ * @param stripeKey - The Stripe secret key
+ * @returns The payment provider
+ */
+export function createPaymentProvider(stripeKey: string): PaymentProvider {
+    return process.env.PAYMENT_PROVIDER === 'mock'
+        ? new MockPaymentProvider()
+        : new StripePaymentProvider(stripeKey);
+}
+
+export { StripePaymentProvider, MockPaymentProvider };
+export type {
+    PaymentProvider,
+    PaymentMethodDetails,
+    PaymentIntentDetails,
+    RefundDetails,
+    SubscriptionDetails,
+    SubscriptionCreationDetails,
+    InvoiceDetails,
+} from './PaymentProvider';
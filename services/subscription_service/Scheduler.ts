@@ -18,6 +18,7 @@ interface OrderData {
 
 interface IOrderItem {
     productId: number;
+    variantId?: number | null;
     quantity: number;
 }
 
@@ -6,6 +6,8 @@ import { PaymentService } from '../Payment.service';
 import { OrderService } from '../Order.service';
 import { ShippingService } from '../Shipping.service';
 import { NotificationService } from '../Notification.service';
+import { InventoryService } from '../Inventory.service';
+import { InvoiceService } from '../Invoice.service';
 import { Logger } from '@/logger';
 import { Replenishment, Customer, User } from '@/models/relational';
 import { PlatformData } from '@/models/document';
@@ -21,6 +23,8 @@ export class WorkerService {
     private worker: Worker;
     private paymentService: PaymentService;
     private notificationService: NotificationService;
+    private inventoryService: InventoryService;
+    private invoiceService: InvoiceService;
     private logger: Logger;
 
     constructor(queueName: string) {
@@ -33,6 +37,8 @@ export class WorkerService {
             new ShippingService()
         );
         this.notificationService = new NotificationService();
+        this.inventoryService = new InventoryService();
+        this.invoiceService = new InvoiceService();
         this.logger = new Logger();
     }
 
@@ -84,9 +90,12 @@ export class WorkerService {
             const orderService = new OrderService();
 
             const transaction: Transaction = await sequelize.transaction();
+            let customer: Customer | null;
+            let order: Awaited<ReturnType<OrderService['createOrder']>>;
+            let replenishment: Replenishment | null;
 
             try {
-                const customer = await Customer.findOne({
+                customer = await Customer.findOne({
                     where: { userId: job.data.userId },
                     include: {
                         model: User,
@@ -99,9 +108,9 @@ export class WorkerService {
                     throw new UserNotFoundError('Customer not found');
                 }
 
-                const order = await orderService.createOrder(
+                order = await orderService.createOrder(
                     job.data.userId,
-                    job.data.orderItems,
+                    returnData.pricedItems,
                     job.data.paymentMethod,
                     job.data.shippingCountry,
                     returnData.weightCategory,
@@ -109,10 +118,12 @@ export class WorkerService {
                     'next-day',
                     returnData.paymentAmount,
                     returnData.paymentIntentId,
+                    returnData.tax,
+                    returnData.breakdown,
                     transaction
                 );
 
-                const replenishment = await Replenishment.findByPk(
+                replenishment = await Replenishment.findByPk(
                     job.data.replenishmentId,
                     { transaction }
                 );
@@ -156,7 +167,7 @@ export class WorkerService {
                     )
                         .filter((item) =>
                             item.startsWith(
-                                `repeat:${replenishment.schedulerId}:`
+                                `repeat:${replenishment!.schedulerId}:`
                             )
                         )
                         .toString();
@@ -175,9 +186,29 @@ export class WorkerService {
                 await replenishment.save({ transaction });
 
                 await transaction.commit();
+            } catch (error) {
+                await transaction.rollback();
+                await this.inventoryService.releaseReservation(
+                    returnData.paymentIntentId
+                );
+                return this.logger.error(
+                    "Error from worker's complete event: " + error
+                );
+            }
 
+            // The order is committed at this point, so failures are only logged
+            try {
                 const platform = (await PlatformData.find({}))[0];
 
+                const invoice = await this.invoiceService.createInvoice(
+                    order.id
+                );
+                const { filePath } = await this.invoiceService.getInvoiceFile(
+                    undefined,
+                    order.id,
+                    invoice.number
+                );
+
                 await this.notificationService.sendReplenishmentPaymentEmail(
                     customer.user.email,
                     'Replenishment payment finished',
@@ -204,12 +235,12 @@ export class WorkerService {
                         customerSupportEmail: platform.customerSupportEmail,
                         customerSupportPhoneNumber:
                             platform.customerSupportPhoneNumber,
-                    }
+                    },
+                    [{ filename: `${invoice.number}.pdf`, path: filePath }]
                 );
             } catch (error) {
-                await transaction.rollback();
                 this.logger.error(
-                    "Error from worker's complete event: " + error
+                    'Error sending replenishment invoice email: ' + error
                 );
             }
         });